@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
 import type { TaskSchedullerPanelProvider } from '../providers/TaskSchedullerPanelProvider';
+import type { DatabaseManager, StorageScope } from '../database/DatabaseManager';
 
 export function registerCommands(
   context: vscode.ExtensionContext,
-  provider: TaskSchedullerPanelProvider
+  provider: TaskSchedullerPanelProvider,
+  databaseManager: DatabaseManager
 ) {
   // Open main view command (opens the panel)
   context.subscriptions.push(
@@ -49,10 +51,112 @@ export function registerCommands(
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.switchToWorkload', () => {
+      provider.show();
+      provider.sendCommand('SWITCH_VIEW', { view: 'workload' });
+    })
+  );
+
   // Open specific project
   context.subscriptions.push(
     vscode.commands.registerCommand('taskScheduller.openProject', (projectId: string) => {
       provider.show(projectId);
     })
   );
+
+  // Undo / redo data changes made in the panel
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.undo', () => {
+      provider.undo();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.redo', () => {
+      provider.redo();
+    })
+  );
+
+  // Time tracking: start a timer on a task (picked from a list when no ID is given) / stop it
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.startTimer', (taskId?: string) => {
+      return provider.startTimer(taskId);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.stopTimer', () => {
+      return provider.stopTimer();
+    })
+  );
+
+  // Turn TODO / FIXME comments in the workspace into tasks, updating or closing earlier ones
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.scanTodoComments', () => {
+      return provider.scanTodoComments();
+    })
+  );
+
+  // Search tasks with the task query language (e.g. "assignee:me due:<7d") and open the picked one
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.searchTasks', (query?: string) => {
+      return provider.searchTasks(query);
+    })
+  );
+
+  // Open a saved view by name (picked from a list when no name is given)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.openSavedView', (name?: string) => {
+      return provider.openSavedView(name);
+    })
+  );
+
+  // Select where tasks for this workspace are stored
+  context.subscriptions.push(
+    vscode.commands.registerCommand('taskScheduller.selectStorageScope', async () => {
+      if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage(vscode.l10n.t('error.storageScopeNoWorkspace'));
+        return;
+      }
+
+      const repositoryPath = vscode.workspace
+        .getConfiguration('taskScheduller')
+        .get<string>('repositoryDatabasePath', '.vscode/tasks.taskscheduller.db');
+      const items: (vscode.QuickPickItem & { scope: StorageScope })[] = [
+        {
+          scope: 'global',
+          label: vscode.l10n.t('storageScope.global'),
+          detail: vscode.l10n.t('storageScope.globalDetail'),
+        },
+        {
+          scope: 'workspace',
+          label: vscode.l10n.t('storageScope.workspace'),
+          detail: vscode.l10n.t('storageScope.workspaceDetail'),
+        },
+        {
+          scope: 'repository',
+          label: vscode.l10n.t('storageScope.repository'),
+          detail: vscode.l10n.t('storageScope.repositoryDetail', repositoryPath),
+        },
+      ];
+      for (const item of items) {
+        if (item.scope === databaseManager.storageScope) {
+          item.description = vscode.l10n.t('storageScope.current');
+        }
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: vscode.l10n.t('storageScope.placeholder'),
+      });
+      if (!selected) {
+        return;
+      }
+
+      // The configuration change listener re-initializes the database
+      await vscode.workspace
+        .getConfiguration('taskScheduller')
+        .update('storageScope', selected.scope, vscode.ConfigurationTarget.Workspace);
+    })
+  );
 }
@@ -0,0 +1,214 @@
+import type { Database, SqlValue } from 'sql.js';
+
+/**
+ * Row-level change journal used to merge concurrent writes from several VS Code windows.
+ *
+ * Triggers on every journaled table append the old and new row (as JSON) to `change_journal`.
+ * The journal holds this window's changes since its last successful save, so when another
+ * window has written the database file in the meantime, only those rows are replayed on top
+ * of the file instead of overwriting it.
+ */
+
+type Row = Record<string, unknown>;
+
+/** Primary key columns of the tables whose changes are journaled */
+export const JOURNALED_TABLES: Record<string, string[]> = {
+  projects: ['id'],
+  tasks: ['id'],
+  labels: ['id'],
+  task_labels: ['task_id', 'label_id'],
+  dependencies: ['id'],
+  kanban_columns: ['id'],
+  project_column_order: ['id'],
+  task_events: ['id'],
+  task_comments: ['id'],
+  task_recurrences: ['id'],
+  task_reminders: ['id'],
+  time_entries: ['id'],
+  members: ['id'],
+  task_assignees: ['task_id', 'member_id'],
+  task_sources: ['id'],
+  custom_fields: ['id'],
+  task_field_values: ['task_id', 'field_id'],
+  saved_views: ['id'],
+};
+
+const DATA_VERSION_KEY = 'data_version';
+
+/** A journaled row collapsed to its state before and after this window's pending changes */
+export interface RowChange {
+  table: string;
+  key: unknown[];
+  oldRow: Row | null;
+  newRow: Row | null;
+}
+
+/** A row changed both in this window and in the database file written by another window */
+export interface RowConflict {
+  table: string;
+  key: unknown[];
+  mine: Row | null;
+  theirs: Row | null;
+}
+
+function getColumns(db: Database, table: string): string[] {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  return (result[0]?.values ?? []).map((row: unknown[]) => row[1] as string);
+}
+
+/**
+ * (Re)creates the journal triggers of a table from its current columns.
+ * Migrations that add columns to a journaled table must call this again.
+ * Tables that do not exist yet are skipped; the migration creating them adds their triggers.
+ */
+export function createJournalTriggers(db: Database, table: string): void {
+  const columns = getColumns(db, table);
+  if (columns.length === 0) {
+    return;
+  }
+  const keyColumns = JOURNALED_TABLES[table];
+  const rowJson = (alias: string) =>
+    `json_object(${columns.map((c) => `'${c}', ${alias}.${c}`).join(', ')})`;
+  const keyJson = (alias: string) => `json_array(${keyColumns.map((c) => `${alias}.${c}`).join(', ')})`;
+
+  const triggers = [
+    { event: 'INSERT', key: keyJson('NEW'), oldRow: 'NULL', newRow: rowJson('NEW') },
+    { event: 'UPDATE', key: keyJson('NEW'), oldRow: rowJson('OLD'), newRow: rowJson('NEW') },
+    { event: 'DELETE', key: keyJson('OLD'), oldRow: rowJson('OLD'), newRow: 'NULL' },
+  ];
+  for (const trigger of triggers) {
+    const name = `${table}_journal_${trigger.event.toLowerCase()}`;
+    db.run(`DROP TRIGGER IF EXISTS ${name}`);
+    db.run(`
+      CREATE TRIGGER ${name}
+      AFTER ${trigger.event} ON ${table}
+      FOR EACH ROW
+      BEGIN
+        INSERT INTO change_journal (table_name, row_key, old_row, new_row)
+        VALUES ('${table}', ${trigger.key}, ${trigger.oldRow}, ${trigger.newRow});
+      END
+    `);
+  }
+}
+
+export function hasPendingChanges(db: Database): boolean {
+  const result = db.exec('SELECT EXISTS (SELECT 1 FROM change_journal)');
+  return result[0]?.values[0]?.[0] === 1;
+}
+
+/**
+ * Returns this window's pending changes, one entry per row: the row as it was before
+ * the first change and as it is after the last one. Rows created and deleted again are skipped.
+ * With `afterSeq`, only the changes journaled after that entry are included (see readJournalSeq).
+ */
+export function readPendingChanges(db: Database, afterSeq = 0): RowChange[] {
+  const result = db.exec(
+    'SELECT table_name, row_key, old_row, new_row FROM change_journal WHERE seq > ? ORDER BY seq ASC',
+    [afterSeq]
+  );
+  const changes = new Map<string, RowChange>();
+  for (const [table, rowKey, oldRow, newRow] of result[0]?.values ?? []) {
+    const id = `${table}:${rowKey}`;
+    const existing = changes.get(id);
+    const parsedNew = newRow === null ? null : (JSON.parse(newRow as string) as Row);
+    if (existing) {
+      existing.newRow = parsedNew;
+    } else {
+      changes.set(id, {
+        table: table as string,
+        key: JSON.parse(rowKey as string) as unknown[],
+        oldRow: oldRow === null ? null : (JSON.parse(oldRow as string) as Row),
+        newRow: parsedNew,
+      });
+    }
+  }
+  return [...changes.values()].filter((change) => change.oldRow || change.newRow);
+}
+
+/** Returns the sequence number of the latest pending change, or 0 when there is none */
+export function readJournalSeq(db: Database): number {
+  const result = db.exec('SELECT MAX(seq) FROM change_journal');
+  return Number(result[0]?.values[0]?.[0] ?? 0);
+}
+
+export function clearJournal(db: Database): void {
+  db.run('DELETE FROM change_journal');
+}
+
+export function readDataVersion(db: Database): number {
+  const result = db.exec('SELECT value FROM settings WHERE key = ?', [DATA_VERSION_KEY]);
+  return Number(result[0]?.values[0]?.[0] ?? 0);
+}
+
+export function writeDataVersion(db: Database, version: number): void {
+  db.run(
+    `INSERT INTO settings (key, value, updated_at) VALUES (?, ?, datetime('now'))
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+    [DATA_VERSION_KEY, String(version)]
+  );
+}
+
+function readRow(db: Database, table: string, key: unknown[]): Row | null {
+  const where = JOURNALED_TABLES[table].map((c) => `${c} = ?`).join(' AND ');
+  const stmt = db.prepare(`SELECT * FROM ${table} WHERE ${where}`);
+  stmt.bind(key as SqlValue[]);
+  const row = stmt.step() ? (stmt.getAsObject() as Row) : null;
+  stmt.free();
+  return row;
+}
+
+/**
+ * Writes a row image (or deletes the row when `row` is null).
+ */
+export function applyRow(db: Database, table: string, key: unknown[], row: Row | null): void {
+  const keyColumns = JOURNALED_TABLES[table];
+  if (!row) {
+    db.run(
+      `DELETE FROM ${table} WHERE ${keyColumns.map((c) => `${c} = ?`).join(' AND ')}`,
+      key as SqlValue[]
+    );
+    return;
+  }
+  // Ignore columns the target database does not know (e.g. written by a newer version)
+  const columns = getColumns(db, table).filter((c) => c in row);
+  db.run(
+    `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map((c) => row[c]) as SqlValue[]
+  );
+}
+
+function rowsEqual(a: Row | null, b: Row | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    // Treat missing columns as NULL; compare numbers numerically (e.g. 1 and 1.0)
+    const left = a[key] ?? null;
+    const right = b[key] ?? null;
+    if (left !== right && !(typeof left === 'number' && right !== null && Number(right) === left)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Replays this window's pending changes on top of the database written by another window.
+ * A row that the other window changed as well is a conflict: this window's version is applied
+ * and the conflict is returned so that the user can choose which version to keep.
+ */
+export function mergeChanges(target: Database, changes: RowChange[]): RowConflict[] {
+  const conflicts: RowConflict[] = [];
+  for (const change of changes) {
+    const current = readRow(target, change.table, change.key);
+    if (rowsEqual(current, change.newRow)) {
+      continue;
+    }
+    if (!rowsEqual(current, change.oldRow)) {
+      conflicts.push({ table: change.table, key: change.key, mine: change.newRow, theirs: current });
+    }
+    applyRow(target, change.table, change.key, change.newRow);
+  }
+  return conflicts;
+}
@@ -2,7 +2,68 @@ import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
 import { migrations } from './migrations';
+import { TextStorage } from './TextStorage';
+import {
+  applyRow,
+  clearJournal,
+  hasPendingChanges,
+  mergeChanges,
+  readDataVersion,
+  readJournalSeq,
+  readPendingChanges,
+  writeDataVersion,
+  type RowChange,
+  type RowConflict,
+} from './ChangeJournal';
+import {
+  ProjectRepository,
+  TaskRepository,
+  LabelRepository,
+  DependencyRepository,
+  KanbanColumnRepository,
+  TaskEventRepository,
+  TaskCommentRepository,
+  TaskRecurrenceRepository,
+  TaskReminderRepository,
+  TimeEntryRepository,
+  MemberRepository,
+  TaskSourceRepository,
+  CustomFieldRepository,
+  SavedViewRepository,
+} from './repositories';
+
+/**
+ * Where the task database is stored:
+ * - global: shared by every workspace (extension global storage)
+ * - workspace: private to the current workspace (extension workspace storage)
+ * - repository: a file inside the first workspace folder, so it can be committed
+ */
+export type StorageScope = 'global' | 'workspace' | 'repository';
+
+/**
+ * How the tasks are written to disk:
+ * - sqlite: a single sql.js database file
+ * - json: one JSON file per record in a folder next to where the database file would be,
+ *   which can be diffed and merged with git (see TextStorage)
+ */
+export type StorageFormat = 'sqlite' | 'json';
+
+const DEFAULT_REPOSITORY_DB_PATH = '.vscode/tasks.taskscheduller.db';
+
+// Another window holding the lock longer than this is assumed to have crashed
+const LOCK_STALE_MS = 10000;
+const LOCK_TIMEOUT_MS = 2000;
+// A save that could not take the lock is retried after this delay, doubled on every further failure
+const LOCK_RETRY_MS = 500;
+const LOCK_RETRY_MAX_MS = 8000;
+
+// Changes collected by one captureChanges() call; nested calls also pass theirs to the enclosing ones
+interface ChangeCapture {
+  changes: RowChange[];
+  parent: ChangeCapture | undefined;
+}
 
 export class DatabaseManager {
   private _db: Database | null = null;
@@ -11,8 +72,25 @@ export class DatabaseManager {
   private _inTransaction: boolean = false;
   private _fileWatcher: vscode.FileSystemWatcher | null = null;
   private _onDatabaseChanged = new vscode.EventEmitter<void>();
-  private _lastSaveTime: number = 0;
+  // data_version of the database file this window last loaded or wrote
+  private _baseVersion: number = 0;
+  // Stamp of that file (see _getFileStamp), to tell whether another window has written it since
+  private _baseStamp: string | null = null;
+  // Capture of the captureChanges() call a write was made from; other writes (timers, reminders,
+  // reloads) run outside of it and are not captured
+  private _captures = new AsyncLocalStorage<ChangeCapture>();
+  // Latest journal entry already passed to the captures, so that changes still waiting for the
+  // lock are not captured again by the next operation
+  private _capturedSeq: number = 0;
+  // Pending while another window holds the lock; the changes stay in the journal until then
+  private _saveRetryTimer: ReturnType<typeof setTimeout> | undefined;
+  private _saveRetries: number = 0;
   private _SQL: SqlJsStatic | null = null;
+  private _storageScope: StorageScope = 'global';
+  private _storageFormat: StorageFormat = 'sqlite';
+  private _textStorage: TextStorage | null = null;
+  private _pendingTextChanges = new Set<string>();
+  private _textChangeTimer: ReturnType<typeof setTimeout> | undefined;
 
   /**
    * Event that fires when the database file is changed externally (e.g., by another VSCode window).
@@ -29,14 +107,27 @@ export class DatabaseManager {
   }
 
   /**
-   * Returns the path to the database file.
+   * Returns the path to the database file, or to the data folder when using text storage.
    */
   public get databasePath(): string {
-    return this.dbPath;
+    return this._storageFormat === 'json' ? this._getTextStorageFolder() : this.dbPath;
+  }
+
+  public get storageFormat(): StorageFormat {
+    return this._storageFormat;
+  }
+
+  /**
+   * Returns the storage scope actually in use. This can differ from the configured
+   * scope when no workspace folder is open and the global database is used instead.
+   */
+  public get storageScope(): StorageScope {
+    return this._storageScope;
   }
 
   constructor(private context: vscode.ExtensionContext) {
-    this.dbPath = path.join(context.globalStorageUri.fsPath, 'taskscheduller.db');
+    this.dbPath = this._resolveDatabasePath();
+    this._storageFormat = this._resolveStorageFormat();
     this.wasmPath = path.join(
       context.extensionUri.fsPath,
       'dist',
@@ -44,33 +135,215 @@ export class DatabaseManager {
     );
   }
 
-  async initialize(): Promise<void> {
-    // Ensure storage directory exists
-    const storageDir = path.dirname(this.dbPath);
-    if (!fs.existsSync(storageDir)) {
-      fs.mkdirSync(storageDir, { recursive: true });
+  /**
+   * Resolves the database file path from the `taskScheduller.storageScope` setting.
+   * Falls back to global storage when the scope needs a workspace folder and none is open.
+   */
+  private _resolveDatabasePath(): string {
+    const config = vscode.workspace.getConfiguration('taskScheduller');
+    const scope = config.get<StorageScope>('storageScope', 'global');
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+    if (scope === 'workspace' && this.context.storageUri) {
+      this._storageScope = 'workspace';
+      return path.join(this.context.storageUri.fsPath, 'taskscheduller.db');
+    }
+
+    if (scope === 'repository' && workspaceFolder) {
+      const relativePath =
+        config.get<string>('repositoryDatabasePath') || DEFAULT_REPOSITORY_DB_PATH;
+      this._storageScope = 'repository';
+      return this._resolveRepositoryPath(workspaceFolder.uri.fsPath, relativePath);
+    }
+
+    if (scope !== 'global') {
+      console.log(`Storage scope '${scope}' requires an open workspace, using global storage`);
+    }
+    this._storageScope = 'global';
+    return path.join(this.context.globalStorageUri.fsPath, 'taskscheduller.db');
+  }
+
+  /**
+   * The path setting can come from the workspace itself, so it may not place the database
+   * (or the text storage folder that is written and pruned next to it) outside the folder.
+   */
+  private _resolveRepositoryPath(folderPath: string, relativePath: string): string {
+    const dbPath = path.resolve(folderPath, relativePath);
+    const relative = path.relative(folderPath, dbPath);
+    if (relative && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)) {
+      return dbPath;
     }
+    void vscode.window.showWarningMessage(
+      vscode.l10n.t('error.repositoryPathOutsideWorkspace', relativePath, DEFAULT_REPOSITORY_DB_PATH)
+    );
+    return path.resolve(folderPath, DEFAULT_REPOSITORY_DB_PATH);
+  }
 
+  private _resolveStorageFormat(): StorageFormat {
+    return vscode.workspace
+      .getConfiguration('taskScheduller')
+      .get<StorageFormat>('storageFormat', 'sqlite');
+  }
+
+  // e.g. `.vscode/tasks.taskscheduller.db` -> `.vscode/tasks.taskscheduller/`
+  private _getTextStorageFolder(): string {
+    return path.join(path.dirname(this.dbPath), path.basename(this.dbPath, path.extname(this.dbPath)));
+  }
+
+  async initialize(): Promise<void> {
     // Initialize sql.js with WASM
     this._SQL = await initSqlJs({
       locateFile: () => this.wasmPath,
     });
 
-    // Load existing database or create new one
-    if (fs.existsSync(this.dbPath)) {
-      const buffer = fs.readFileSync(this.dbPath);
-      this._db = new this._SQL.Database(buffer);
-      console.log('Loaded existing database');
-    } else {
+    await this._open();
+  }
+
+  /**
+   * Switches to the database for the current storage scope and format settings.
+   * The current database is saved and closed, the new one is opened (and migrated),
+   * and onDatabaseChanged fires so that views reload their data.
+   */
+  async reinitialize(): Promise<void> {
+    const newPath = this._resolveDatabasePath();
+    const newFormat = this._resolveStorageFormat();
+    if (newPath === this.dbPath && newFormat === this._storageFormat && this._db) {
+      return;
+    }
+
+    this.save();
+    this._fileWatcher?.dispose();
+    this._fileWatcher = null;
+    clearTimeout(this._textChangeTimer);
+    this._pendingTextChanges.clear();
+    this._textStorage = null;
+    this._db?.close();
+    this._db = null;
+
+    this.dbPath = newPath;
+    this._storageFormat = newFormat;
+    await this._open();
+    console.log(`Switched database to ${this.dbPath} (${this._storageScope})`);
+
+    this._onDatabaseChanged.fire();
+  }
+
+  private async _open(): Promise<void> {
+    if (!this._SQL) {
+      throw new Error('sql.js not initialized');
+    }
+
+    // Ensure storage directory exists
+    const storageDir = path.dirname(this.dbPath);
+    if (!fs.existsSync(storageDir)) {
+      fs.mkdirSync(storageDir, { recursive: true });
+    }
+
+    const textStorage =
+      this._storageFormat === 'json'
+        ? new TextStorage(this._getTextStorageFolder(), [
+            new ProjectRepository(this),
+            // Before the tasks, which are linked to members by name when their files predate members
+            new MemberRepository(this),
+            // Before the tasks, whose files may predate statuses and get the not-started column
+            new KanbanColumnRepository(this),
+            new TaskRepository(this),
+            new LabelRepository(this),
+            new DependencyRepository(this),
+            new TaskEventRepository(this),
+            new TaskCommentRepository(this),
+            new TaskRecurrenceRepository(this),
+            new TaskReminderRepository(this),
+            new TimeEntryRepository(this),
+            new TaskSourceRepository(this),
+            new CustomFieldRepository(this),
+            new SavedViewRepository(this),
+          ])
+        : null;
+
+    if (textStorage?.hasManifest()) {
+      // The data folder is the source of truth: migrate an empty database, then load the files
       this._db = new this._SQL.Database();
-      console.log('Created new database');
+      await this.runMigrations();
+      textStorage.load();
+      // The files already hold the loaded rows
+      clearJournal(this._db);
+      console.log('Loaded database from text storage');
+    } else {
+      // Load existing database or create new one
+      // (with text storage, an existing database file seeds the new data folder)
+      if (fs.existsSync(this.dbPath)) {
+        this._baseStamp = this._getFileStamp();
+        const buffer = fs.readFileSync(this.dbPath);
+        this._db = new this._SQL.Database(buffer);
+        this._baseVersion = readDataVersion(this._db);
+        console.log('Loaded existing database');
+      } else {
+        this._db = new this._SQL.Database();
+        this._baseVersion = 0;
+        this._baseStamp = null;
+        console.log('Created new database');
+      }
+
+      // Run migrations
+      await this.runMigrations();
     }
 
-    // Run migrations
-    await this.runMigrations();
+    this._textStorage = textStorage;
+    if (this._textStorage) {
+      this.save();
+    }
 
     // Setup file watcher to detect external changes
-    this._setupFileWatcher();
+    if (this._textStorage) {
+      this._setupTextStorageWatcher(this._textStorage);
+    } else {
+      this._setupFileWatcher();
+    }
+  }
+
+  /**
+   * Watches the text storage folder (e.g. for `git pull`) and applies changed files
+   * one record at a time instead of reloading the whole database.
+   */
+  private _setupTextStorageWatcher(textStorage: TextStorage): void {
+    const pattern = new vscode.RelativePattern(vscode.Uri.file(textStorage.folder), '**/*.json');
+    this._fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+    const queueChange = (uri: vscode.Uri) => {
+      this._pendingTextChanges.add(uri.fsPath);
+      // A pull touches many files at once: apply them together and notify once
+      clearTimeout(this._textChangeTimer);
+      this._textChangeTimer = setTimeout(() => this._applyTextChanges(), 300);
+    };
+    this._fileWatcher.onDidChange(queueChange);
+    this._fileWatcher.onDidCreate(queueChange);
+    this._fileWatcher.onDidDelete(queueChange);
+
+    console.log('Text storage watcher initialized');
+  }
+
+  private _applyTextChanges(): void {
+    if (!this._textStorage || !this._db) {
+      return;
+    }
+
+    const filePaths = [...this._pendingTextChanges];
+    this._pendingTextChanges.clear();
+
+    let changed = false;
+    for (const filePath of filePaths) {
+      try {
+        changed = this._textStorage.applyFileChange(filePath) || changed;
+      } catch (error) {
+        console.error(`Failed to apply ${filePath}:`, error);
+      }
+    }
+
+    if (changed) {
+      console.log(`Applied ${filePaths.length} changed file(s) from text storage`);
+      this._onDatabaseChanged.fire();
+    }
   }
 
   /**
@@ -102,42 +375,49 @@ export class DatabaseManager {
    * Reloads the database from disk and notifies subscribers.
    */
   private _handleExternalChange(): void {
-    // Ignore changes that were triggered by our own save operations
-    // Use a 500ms threshold to account for file system delays
-    const timeSinceLastSave = Date.now() - this._lastSaveTime;
-    if (timeSinceLastSave < 500) {
-      console.log('Ignoring self-triggered database change');
+    // The next save merges the file anyway; don't swap the database mid-transaction
+    if (!this._SQL || !this._db || this._inTransaction || !fs.existsSync(this.dbPath)) {
       return;
     }
 
-    console.log('External database change detected, reloading...');
-    this._reloadFromDisk();
-  }
-
-  /**
-   * Reloads the database from disk.
-   * Called when an external change is detected.
-   */
-  private _reloadFromDisk(): void {
-    if (!this._SQL || !fs.existsSync(this.dbPath)) {
+    // e.g. our own save
+    const stamp = this._getFileStamp();
+    if (stamp === this._baseStamp) {
       return;
     }
 
+    let diskDb: Database;
     try {
-      // Close the current database
-      this._db?.close();
-
-      // Load the updated database from disk
-      const buffer = fs.readFileSync(this.dbPath);
-      this._db = new this._SQL.Database(buffer);
+      diskDb = new this._SQL.Database(fs.readFileSync(this.dbPath));
+    } catch (error) {
+      console.error('Failed to read database file:', error);
+      return;
+    }
 
-      console.log('Database reloaded from disk');
+    // Our own saves don't advance the version past what we already have
+    const diskVersion = readDataVersion(diskDb);
+    if (diskVersion <= this._baseVersion) {
+      diskDb.close();
+      return;
+    }
 
-      // Notify subscribers that the database has changed
-      this._onDatabaseChanged.fire();
-    } catch (error) {
-      console.error('Failed to reload database:', error);
+    if (hasPendingChanges(this._db)) {
+      // Unsaved changes of this window: merge them into the file rather than dropping them
+      diskDb.close();
+      console.log('External database change detected, merging...');
+      this.save();
+      return;
     }
+
+    console.log('External database change detected, reloading...');
+    this._db.close();
+    this._db = diskDb;
+    this._capturedSeq = 0;
+    this._baseVersion = diskVersion;
+    this._baseStamp = stamp;
+
+    // Notify subscribers that the database has changed
+    this._onDatabaseChanged.fire();
   }
 
   private async runMigrations(): Promise<void> {
@@ -217,34 +497,227 @@ export class DatabaseManager {
       return;
     }
 
+    // Text storage writes only the records that changed; nothing is written until it is set up
+    if (this._storageFormat === 'json') {
+      if (this._textStorage) {
+        const changes = readPendingChanges(this._db);
+        this._textStorage.flush(changes);
+        this._captureChanges(changes);
+        clearJournal(this._db);
+      }
+      return;
+    }
+
     const dir = path.dirname(this.dbPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
 
-    // Record the save time to prevent self-triggered reload
-    this._lastSaveTime = Date.now();
+    this._captureJournal(this._db);
+    // The pending retry writes these changes together with the earlier ones
+    if (this._saveRetryTimer) {
+      return;
+    }
+
+    const saved = this._withLock(() => {
+      let diskVersion = 0;
+      // Only read the file when another window may have written it since we loaded or wrote it
+      if (this._SQL && fs.existsSync(this.dbPath) && this._getFileStamp() !== this._baseStamp) {
+        const diskDb = new this._SQL.Database(fs.readFileSync(this.dbPath));
+        diskVersion = readDataVersion(diskDb);
+        if (diskVersion !== this._baseVersion) {
+          // Another window saved since we loaded: replay our changes on top of its file
+          this._mergeInto(diskDb);
+        } else {
+          diskDb.close();
+        }
+      }
+
+      const db = this.db;
+      clearJournal(db);
+      this._capturedSeq = 0;
+      this._baseVersion = Math.max(diskVersion, this._baseVersion) + 1;
+      writeDataVersion(db, this._baseVersion);
+
+      // Write to a temporary file first so other windows never read a partial file
+      const tempPath = `${this.dbPath}.tmp`;
+      fs.writeFileSync(tempPath, Buffer.from(db.export()));
+      fs.renameSync(tempPath, this.dbPath);
+      this._baseStamp = this._getFileStamp();
+    });
+
+    if (saved) {
+      this._saveRetries = 0;
+    } else {
+      this._retrySave();
+    }
+  }
+
+  /**
+   * Saves again later, outside of any capture: the changes were already passed to the
+   * captures of the operations that made them.
+   */
+  private _retrySave(): void {
+    const delay = Math.min(LOCK_RETRY_MS * 2 ** this._saveRetries, LOCK_RETRY_MAX_MS);
+    this._saveRetries++;
+    console.warn(`Timed out waiting for the database lock, retrying the save in ${delay} ms`);
+    this._saveRetryTimer = setTimeout(() => {
+      this._saveRetryTimer = undefined;
+      this._captures.exit(() => this.save());
+    }, delay);
+  }
 
-    const data = this._db.export();
-    const buffer = Buffer.from(data);
-    fs.writeFileSync(this.dbPath, buffer);
+  /**
+   * Identifies the current contents of the database file without reading it: every save
+   * replaces the file, which changes its inode and modification time.
+   */
+  private _getFileStamp(): string | null {
+    try {
+      const stat = fs.statSync(this.dbPath);
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Runs `fn` and returns the row changes it saved, in order (used for undo/redo).
+   * Only writes made by `fn` and the calls it awaits are included, not those of other
+   * operations running in the meantime.
+   */
+  async captureChanges(fn: () => Promise<void>): Promise<RowChange[]> {
+    const capture: ChangeCapture = { changes: [], parent: this._captures.getStore() };
+    await this._captures.run(capture, fn);
+    return capture.changes;
+  }
+
+  private _captureJournal(db: Database): void {
+    if (this._captures.getStore()) {
+      this._captureChanges(readPendingChanges(db, this._capturedSeq));
+    }
+    this._capturedSeq = readJournalSeq(db);
+  }
+
+  private _captureChanges(changes: RowChange[]): void {
+    for (let capture = this._captures.getStore(); capture; capture = capture.parent) {
+      capture.changes.push(...changes);
+    }
+  }
+
+  /**
+   * Replaces the in-memory database with `diskDb` plus this window's pending changes.
+   */
+  private _mergeInto(diskDb: Database): void {
+    const conflicts = mergeChanges(diskDb, readPendingChanges(this.db));
+    this.db.close();
+    this._db = diskDb;
+    console.log(`Merged changes from another window (${conflicts.length} conflict(s))`);
+
+    // Let the current operation finish before views reload the merged data
+    setTimeout(() => this._onDatabaseChanged.fire(), 0);
+    if (conflicts.length > 0) {
+      void this._resolveConflicts(conflicts);
+    }
+  }
+
+  /**
+   * Asks which version to keep for rows changed both here and in another window.
+   * This window's version has already been saved; choosing the other window's version
+   * writes it back as a new change.
+   */
+  private async _resolveConflicts(conflicts: RowConflict[]): Promise<void> {
+    const names = conflicts
+      .slice(0, 3)
+      .map((c) => String(c.mine?.title ?? c.mine?.name ?? c.theirs?.title ?? c.theirs?.name ?? c.key.join(', ')))
+      .join(', ');
+    const keepMine = vscode.l10n.t('conflict.keepMine');
+    const keepTheirs = vscode.l10n.t('conflict.keepTheirs');
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t('conflict.message', conflicts.length, names),
+      keepMine,
+      keepTheirs
+    );
+    if (choice !== keepTheirs || !this._db) {
+      return;
+    }
+
+    this.transaction(() => {
+      for (const conflict of conflicts) {
+        applyRow(this.db, conflict.table, conflict.key, conflict.theirs);
+      }
+    });
+    this._onDatabaseChanged.fire();
+  }
+
+  /**
+   * Runs `fn` while holding a lock file next to the database, so that only one window
+   * reads, merges and writes the file at a time.
+   * Returns false without running `fn` when another window keeps holding the lock.
+   */
+  private _withLock(fn: () => void): boolean {
+    const lockPath = `${this.dbPath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    let fd: number | null = null;
+
+    while (fd === null) {
+      try {
+        fd = fs.openSync(lockPath, 'wx');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        const lockStat = fs.statSync(lockPath, { throwIfNoEntry: false });
+        if (!lockStat) {
+          continue;
+        }
+        if (Date.now() - lockStat.mtimeMs > LOCK_STALE_MS) {
+          // Left behind by a window that crashed while saving
+          fs.rmSync(lockPath, { force: true });
+        } else if (Date.now() > deadline) {
+          return false;
+        } else {
+          // Saving is synchronous, so block briefly instead of yielding
+          Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 20);
+        }
+      }
+    }
+
+    try {
+      fn();
+      return true;
+    } finally {
+      fs.closeSync(fd);
+      fs.rmSync(lockPath, { force: true });
+    }
   }
 
   close(): void {
+    // Last attempt to write changes still waiting for the lock
+    clearTimeout(this._saveRetryTimer);
+    this._saveRetryTimer = undefined;
     this.save();
+    if (this._saveRetryTimer) {
+      clearTimeout(this._saveRetryTimer);
+      console.error('Could not save the database: another window kept holding the lock');
+    }
     this._fileWatcher?.dispose();
     this._fileWatcher = null;
+    clearTimeout(this._textChangeTimer);
+    this._textStorage = null;
     this._onDatabaseChanged.dispose();
     this._db?.close();
     this._db = null;
     console.log('Database closed');
   }
 
-  // Transaction helper
+  // Transaction helper; nested calls run inside the outer transaction
   transaction<T>(fn: () => T): T {
     if (!this._db) {
       throw new Error('Database not initialized');
     }
+    if (this._inTransaction) {
+      return fn();
+    }
     this._inTransaction = true;
     this._db.run('BEGIN TRANSACTION');
     try {
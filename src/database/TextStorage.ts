@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RowChange } from './ChangeJournal';
+import type { StorableRepository, StoredDocument } from './repositories/StorableRepository';
+
+const MANIFEST_FILE = 'taskscheduller.json';
+const TEXT_STORAGE_VERSION = 1;
+
+function serialize(document: StoredDocument): string {
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * Text storage backend: every record is stored as its own pretty-printed JSON file,
+ * so the data folder can be committed, diffed and merged with git.
+ *
+ *   <folder>/taskscheduller.json   manifest (marks the folder as the source of truth)
+ *   <folder>/projects/<id>.json
+ *   <folder>/tasks/<id>.json
+ *   ...
+ *
+ * The in-memory sql.js database remains the query engine; this class mirrors it to
+ * and from the folder through the repositories' StorableRepository implementation.
+ */
+export class TextStorage {
+  // File contents as last written or read, keyed by absolute path
+  private _contents = new Map<string, string>();
+  // Set while applying files so that the resulting database writes are not flushed back
+  private _applying = false;
+
+  constructor(
+    private readonly _folder: string,
+    private readonly _repositories: StorableRepository[]
+  ) {}
+
+  public get folder(): string {
+    return this._folder;
+  }
+
+  /**
+   * Returns true when the folder already holds data (written by this or another machine).
+   */
+  hasManifest(): boolean {
+    return fs.existsSync(path.join(this._folder, MANIFEST_FILE));
+  }
+
+  /**
+   * Replaces all records in the database with the contents of the folder.
+   */
+  load(): void {
+    this._contents.clear();
+    this._applying = true;
+    try {
+      for (const repository of this._repositories) {
+        repository.clearDocuments();
+
+        const dir = path.join(this._folder, repository.storageFolder);
+        if (!fs.existsSync(dir)) {
+          continue;
+        }
+        for (const fileName of fs.readdirSync(dir)) {
+          if (fileName.endsWith('.json')) {
+            this._importFile(repository, path.join(dir, fileName));
+          }
+        }
+      }
+    } finally {
+      this._applying = false;
+    }
+  }
+
+  /**
+   * Writes the files of the records touched by the given journaled row changes and
+   * deletes the files of those that no longer exist. When the folder has no manifest yet,
+   * every record is written instead.
+   */
+  flush(changes: RowChange[]): void {
+    if (this._applying) {
+      return;
+    }
+
+    if (!this.hasManifest()) {
+      fs.mkdirSync(this._folder, { recursive: true });
+      fs.writeFileSync(
+        path.join(this._folder, MANIFEST_FILE),
+        JSON.stringify({ version: TEXT_STORAGE_VERSION }, null, 2) + '\n'
+      );
+      for (const repository of this._repositories) {
+        for (const document of repository.exportDocuments()) {
+          this._writeFile(this._getFilePath(repository, document.id), document);
+        }
+      }
+      return;
+    }
+
+    for (const repository of this._repositories) {
+      const ids = new Set<string>();
+      for (const change of changes) {
+        const idColumn = repository.storageTables[change.table];
+        if (!idColumn) {
+          continue;
+        }
+        for (const row of [change.oldRow, change.newRow]) {
+          if (row) {
+            ids.add(String(row[idColumn]));
+          }
+        }
+      }
+
+      for (const id of ids) {
+        const filePath = this._getFilePath(repository, id);
+        const document = repository.exportDocument(id);
+        if (document) {
+          this._writeFile(filePath, document);
+        } else {
+          if (fs.existsSync(filePath)) {
+            fs.unlinkSync(filePath);
+          }
+          this._contents.delete(filePath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Applies a single created, changed or deleted file to the database.
+   * Returns false when nothing changed, e.g. for files written by flush().
+   */
+  applyFileChange(filePath: string): boolean {
+    const repository = this._repositories.find(
+      (r) => path.dirname(filePath) === path.join(this._folder, r.storageFolder)
+    );
+    if (!repository || !filePath.endsWith('.json')) {
+      return false;
+    }
+
+    this._applying = true;
+    try {
+      if (!fs.existsSync(filePath)) {
+        if (!this._contents.has(filePath)) {
+          return false;
+        }
+        repository.removeDocument(path.basename(filePath, '.json'));
+        this._contents.delete(filePath);
+        return true;
+      }
+
+      if (fs.readFileSync(filePath, 'utf8') === this._contents.get(filePath)) {
+        return false;
+      }
+      return this._importFile(repository, filePath);
+    } finally {
+      this._applying = false;
+    }
+  }
+
+  private _importFile(repository: StorableRepository, filePath: string): boolean {
+    const content = fs.readFileSync(filePath, 'utf8');
+    try {
+      const document = JSON.parse(content) as StoredDocument;
+      // The file name is the record ID
+      repository.importDocument({ ...document, id: path.basename(filePath, '.json') });
+      this._contents.set(filePath, content);
+      return true;
+    } catch (error) {
+      // e.g. unresolved merge conflict markers: keep the current record until the file is fixed
+      console.error(`Failed to load ${filePath}:`, error);
+      return false;
+    }
+  }
+
+  private _writeFile(filePath: string, document: StoredDocument): void {
+    const content = serialize(document);
+    if (this._contents.get(filePath) !== content) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+      this._contents.set(filePath, content);
+    }
+  }
+
+  private _getFilePath(repository: StorableRepository, id: string): string {
+    return path.join(this._folder, repository.storageFolder, `${id}.json`);
+  }
+}
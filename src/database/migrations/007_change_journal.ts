@@ -0,0 +1,42 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+// The data tables of this version; tables added later get their triggers from their own migration
+const TABLES = [
+  'projects',
+  'tasks',
+  'labels',
+  'task_labels',
+  'dependencies',
+  'kanban_columns',
+  'project_column_order',
+];
+
+/**
+ * Migration 007: Add change_journal table
+ *
+ * Triggers record every row change of the data tables, so that a window can merge its
+ * own changes into a database file written by another window instead of overwriting it.
+ * The journal only holds changes that have not been saved yet.
+ */
+export const migration007ChangeJournal = {
+  version: 7,
+  name: '007_change_journal',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS change_journal (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        table_name TEXT NOT NULL,
+        row_key TEXT NOT NULL,
+        old_row TEXT,
+        new_row TEXT,
+        changed_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    for (const table of TABLES) {
+      createJournalTriggers(db, table);
+    }
+  },
+};
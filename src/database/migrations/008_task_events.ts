@@ -0,0 +1,32 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 008: Add task_events table
+ *
+ * Records the change history of each task (field-level diffs, label and dependency changes)
+ * together with the author and time of the change.
+ */
+export const migration008TaskEvents = {
+  version: 8,
+  name: '008_task_events',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_events (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        field TEXT,
+        old_value TEXT,
+        new_value TEXT,
+        author TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id, created_at)');
+
+    createJournalTriggers(db, 'task_events');
+  },
+};
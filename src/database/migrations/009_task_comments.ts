@@ -0,0 +1,29 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 009: Add task_comments table
+ *
+ * Comments form a discussion thread on each task, next to its single description.
+ */
+export const migration009TaskComments = {
+  version: 9,
+  name: '009_task_comments',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_comments (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        author TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at)');
+
+    createJournalTriggers(db, 'task_comments');
+  },
+};
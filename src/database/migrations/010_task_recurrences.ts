@@ -0,0 +1,27 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 010: Add task_recurrences table
+ *
+ * A recurring task has one rule (an RRULE subset). When the task is completed the rule
+ * moves on to the next instance, so the row always belongs to the open occurrence.
+ */
+export const migration010TaskRecurrences = {
+  version: 10,
+  name: '010_task_recurrences',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_recurrences (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL UNIQUE,
+        rule TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    createJournalTriggers(db, 'task_recurrences');
+  },
+};
@@ -0,0 +1,28 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 011: Add task_reminders table
+ *
+ * Remembers which due date reminder was last shown for a task and until when it is snoozed,
+ * so that each reminder is shown once, in one window.
+ */
+export const migration011TaskReminders = {
+  version: 11,
+  name: '011_task_reminders',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_reminders (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL UNIQUE,
+        kind TEXT NOT NULL CHECK (kind IN ('due_soon', 'overdue')),
+        due_date TEXT NOT NULL,
+        notified_at TEXT NOT NULL,
+        snoozed_until TEXT
+      )
+    `);
+
+    createJournalTriggers(db, 'task_reminders');
+  },
+};
@@ -0,0 +1,31 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 012: Add time_entries table
+ *
+ * Hours worked on a task, logged with a timer or entered by hand.
+ * A running timer is an entry without ended_at.
+ */
+export const migration012TimeEntries = {
+  version: 12,
+  name: '012_time_entries',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS time_entries (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        note TEXT,
+        author TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id, started_at)');
+
+    createJournalTriggers(db, 'time_entries');
+  },
+};
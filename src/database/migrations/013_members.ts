@@ -0,0 +1,87 @@
+import type { Database } from 'sql.js';
+import { v4 as uuidv4 } from 'uuid';
+import { createJournalTriggers } from '../ChangeJournal';
+
+const AVATAR_COLORS = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ec4899', '#06b6d4', '#eab308', '#ef4444'];
+
+// "Taro", "taro" and " Taro " are the same person
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Migration 013: Add members and task_assignees tables
+ *
+ * Turns the free-text assignees into team members: spellings that differ only in case or
+ * spacing become one member (named after the most used spelling), each task is linked to
+ * its member. Members can carry their own weekly capacity for the workload view.
+ * tasks.assignee stays as the display name of the assignees.
+ */
+export const migration013Members = {
+  version: 13,
+  name: '013_members',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS members (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        email TEXT,
+        color TEXT NOT NULL DEFAULT '#6b7280',
+        weekly_hours REAL CHECK (weekly_hours IS NULL OR weekly_hours >= 0),
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_assignees (
+        task_id TEXT NOT NULL,
+        member_id TEXT NOT NULL,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (task_id, member_id),
+        FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+        FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_task_assignees_member ON task_assignees(member_id)');
+
+    createJournalTriggers(db, 'members');
+    createJournalTriggers(db, 'task_assignees');
+
+    // Group the existing assignee spellings
+    const taskRows = (db.exec(
+      "SELECT id, assignee FROM tasks WHERE assignee IS NOT NULL AND TRIM(assignee) != ''"
+    )[0]?.values ?? []) as [string, string][];
+
+    const groups = new Map<string, { spellings: Map<string, number>; taskIds: string[] }>();
+    for (const [taskId, assignee] of taskRows) {
+      const key = normalizeName(assignee);
+      let group = groups.get(key);
+      if (!group) {
+        group = { spellings: new Map(), taskIds: [] };
+        groups.set(key, group);
+      }
+      const spelling = assignee.trim().replace(/\s+/g, ' ');
+      group.spellings.set(spelling, (group.spellings.get(spelling) ?? 0) + 1);
+      group.taskIds.push(taskId);
+    }
+
+    const now = new Date().toISOString();
+    [...groups.values()].forEach((group, index) => {
+      // Most used spelling first; ties keep the first one seen
+      const [name] = [...group.spellings.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+      const memberId = uuidv4();
+      db.run(
+        `INSERT INTO members (id, name, email, color, weekly_hours, created_at, updated_at)
+         VALUES (?, ?, NULL, ?, NULL, ?, ?)`,
+        [memberId, name, AVATAR_COLORS[index % AVATAR_COLORS.length], now, now]
+      );
+      for (const taskId of group.taskIds) {
+        db.run('INSERT INTO task_assignees (task_id, member_id, sort_order) VALUES (?, ?, 0)', [taskId, memberId]);
+        db.run('UPDATE tasks SET assignee = ? WHERE id = ?', [name, taskId]);
+      }
+    });
+  },
+};
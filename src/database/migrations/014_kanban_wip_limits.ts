@@ -0,0 +1,19 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 014: Add wip_limit to kanban_columns
+ *
+ * Optional maximum number of tasks in a column (NULL = no limit).
+ */
+export const migration014KanbanWipLimits = {
+  version: 14,
+  name: '014_kanban_wip_limits',
+
+  up(db: Database): void {
+    db.run('ALTER TABLE kanban_columns ADD COLUMN wip_limit INTEGER CHECK (wip_limit IS NULL OR wip_limit > 0)');
+
+    // The journal triggers list the columns of the table
+    createJournalTriggers(db, 'kanban_columns');
+  },
+};
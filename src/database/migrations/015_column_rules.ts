@@ -0,0 +1,19 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 015: Add rules to kanban_columns
+ *
+ * Workflow rules of a column as a JSON array (see ColumnRule), applied when a task enters it.
+ */
+export const migration015ColumnRules = {
+  version: 15,
+  name: '015_column_rules',
+
+  up(db: Database): void {
+    db.run("ALTER TABLE kanban_columns ADD COLUMN rules TEXT NOT NULL DEFAULT '[]'");
+
+    // The journal triggers list the columns of the table
+    createJournalTriggers(db, 'kanban_columns');
+  },
+};
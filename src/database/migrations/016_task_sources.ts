@@ -0,0 +1,30 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 016: Add task_sources table
+ *
+ * Links a task created by the TODO comment scanner to the file and line of its comment,
+ * so a re-scan can update the task or close it when the comment is gone.
+ */
+export const migration016TaskSources = {
+  version: 16,
+  name: '016_task_sources',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_sources (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL UNIQUE,
+        file_path TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        tag TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    createJournalTriggers(db, 'task_sources');
+  },
+};
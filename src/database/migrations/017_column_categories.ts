@@ -0,0 +1,27 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 017: Add category to kanban_columns
+ *
+ * The category (not started, active, blocked, completed, cancelled) replaces the checks for the
+ * 'todo' and 'done' column IDs. The default columns get theirs; custom columns start as active.
+ */
+export const migration017ColumnCategories = {
+  version: 17,
+  name: '017_column_categories',
+
+  up(db: Database): void {
+    db.run(`
+      ALTER TABLE kanban_columns ADD COLUMN category TEXT NOT NULL DEFAULT 'active'
+        CHECK (category IN ('not_started', 'active', 'blocked', 'completed', 'cancelled'))
+    `);
+
+    db.run("UPDATE kanban_columns SET category = 'not_started' WHERE id = 'todo'");
+    db.run("UPDATE kanban_columns SET category = 'blocked' WHERE id = 'on_hold'");
+    db.run("UPDATE kanban_columns SET category = 'completed' WHERE id = 'done'");
+
+    // The journal triggers list the columns of the table
+    createJournalTriggers(db, 'kanban_columns');
+  },
+};
@@ -0,0 +1,47 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 018: Add custom_fields and task_field_values tables
+ *
+ * Fields teams add to tasks (story points, customer, release...), global or per project.
+ * A value is stored as JSON so that numbers, checkboxes and multi-select lists keep their type.
+ */
+export const migration018CustomFields = {
+  version: 18,
+  name: '018_custom_fields',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS custom_fields (
+        id TEXT PRIMARY KEY,
+        project_id TEXT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL
+          CHECK(type IN ('text', 'number', 'date', 'select', 'multi_select', 'checkbox', 'url')),
+        options TEXT NOT NULL DEFAULT '[]',
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS task_field_values (
+        task_id TEXT NOT NULL,
+        field_id TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (task_id, field_id),
+        FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+        FOREIGN KEY (field_id) REFERENCES custom_fields(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_custom_fields_project ON custom_fields(project_id)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_task_field_values_field ON task_field_values(field_id)');
+
+    createJournalTriggers(db, 'custom_fields');
+    createJournalTriggers(db, 'task_field_values');
+  },
+};
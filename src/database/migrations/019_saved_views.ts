@@ -0,0 +1,32 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 019: Add saved_views table
+ *
+ * Named views (view type, project and the view's filter, sort and layout settings as JSON)
+ * that used to live only in each machine's localStorage.
+ */
+export const migration019SavedViews = {
+  version: 19,
+  name: '019_saved_views',
+
+  up(db: Database): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS saved_views (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        view_type TEXT NOT NULL
+          CHECK(view_type IN ('todo', 'kanban', 'gantt', 'calendar', 'workload')),
+        project_id TEXT,
+        state TEXT NOT NULL DEFAULT '{}',
+        created_by TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+      )
+    `);
+
+    createJournalTriggers(db, 'saved_views');
+  },
+};
@@ -0,0 +1,21 @@
+import type { Database } from 'sql.js';
+import { createJournalTriggers } from '../ChangeJournal';
+
+/**
+ * Migration 020: Add workspace_folder to task_sources
+ *
+ * URI of the workspace folder a TODO comment was scanned in, so that a scan only syncs the
+ * sources of its own folders when several workspaces share the global database.
+ * NULL for sources scanned before this migration.
+ */
+export const migration020TaskSourceWorkspaces = {
+  version: 20,
+  name: '020_task_source_workspaces',
+
+  up(db: Database): void {
+    db.run('ALTER TABLE task_sources ADD COLUMN workspace_folder TEXT');
+
+    // The journal triggers list the columns of the table
+    createJournalTriggers(db, 'task_sources');
+  },
+};
@@ -5,6 +5,20 @@ import { migration003AddOnHoldStatus } from './003_add_on_hold_status';
 import { migration004KanbanColumns } from './004_kanban_columns';
 import { migration005KanbanColumnsProject } from './005_kanban_columns_project';
 import { migration006ProjectColumnOrder } from './006_project_column_order';
+import { migration007ChangeJournal } from './007_change_journal';
+import { migration008TaskEvents } from './008_task_events';
+import { migration009TaskComments } from './009_task_comments';
+import { migration010TaskRecurrences } from './010_task_recurrences';
+import { migration011TaskReminders } from './011_task_reminders';
+import { migration012TimeEntries } from './012_time_entries';
+import { migration013Members } from './013_members';
+import { migration014KanbanWipLimits } from './014_kanban_wip_limits';
+import { migration015ColumnRules } from './015_column_rules';
+import { migration016TaskSources } from './016_task_sources';
+import { migration017ColumnCategories } from './017_column_categories';
+import { migration018CustomFields } from './018_custom_fields';
+import { migration019SavedViews } from './019_saved_views';
+import { migration020TaskSourceWorkspaces } from './020_task_source_workspaces';
 
 export interface Migration {
   version: number;
@@ -19,4 +33,18 @@ export const migrations: Migration[] = [
   migration004KanbanColumns,
   migration005KanbanColumnsProject,
   migration006ProjectColumnOrder,
+  migration007ChangeJournal,
+  migration008TaskEvents,
+  migration009TaskComments,
+  migration010TaskRecurrences,
+  migration011TaskReminders,
+  migration012TimeEntries,
+  migration013Members,
+  migration014KanbanWipLimits,
+  migration015ColumnRules,
+  migration016TaskSources,
+  migration017ColumnCategories,
+  migration018CustomFields,
+  migration019SavedViews,
+  migration020TaskSourceWorkspaces,
 ];
@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { CustomField, CustomFieldType, CreateCustomFieldDto, UpdateCustomFieldDto } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type CustomFieldRow = {
+  id: string;
+  project_id: string | null;
+  name: string;
+  type: CustomFieldType;
+  options: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+function rowToCustomField(row: CustomFieldRow): CustomField {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    type: row.type,
+    options: JSON.parse(row.options) as string[],
+    sortOrder: row.sort_order,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Field definitions; the values are stored with the tasks (see TaskRepository)
+export class CustomFieldRepository implements StorableRepository<CustomField> {
+  readonly storageFolder = 'custom-fields';
+  readonly storageTables = { custom_fields: 'id' };
+
+  constructor(private db: DatabaseManager) {}
+
+  // Every field, or only the global fields and those of a project
+  findAll(projectId?: string | null): CustomField[] {
+    const rows =
+      projectId === undefined
+        ? this.db.query<CustomFieldRow>('SELECT * FROM custom_fields ORDER BY sort_order ASC, created_at ASC')
+        : this.db.query<CustomFieldRow>(
+            `SELECT * FROM custom_fields WHERE project_id IS NULL OR project_id = ?
+             ORDER BY sort_order ASC, created_at ASC`,
+            [projectId]
+          );
+    return rows.map(rowToCustomField);
+  }
+
+  findById(id: string): CustomField | null {
+    const row = this.db.queryOne<CustomFieldRow>('SELECT * FROM custom_fields WHERE id = ?', [id]);
+    return row ? rowToCustomField(row) : null;
+  }
+
+  // Field names are unique within their scope (global, or one project)
+  findByName(name: string, projectId: string | null): CustomField | null {
+    const row = this.db.queryOne<CustomFieldRow>(
+      'SELECT * FROM custom_fields WHERE name = ? AND project_id IS ?',
+      [name.trim(), projectId]
+    );
+    return row ? rowToCustomField(row) : null;
+  }
+
+  create(dto: CreateCustomFieldDto): CustomField {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const maxOrder = this.db.queryOne<{ max_order: number | null }>(
+      'SELECT MAX(sort_order) AS max_order FROM custom_fields'
+    )?.max_order;
+
+    this.db.execute(
+      `INSERT INTO custom_fields (id, project_id, name, type, options, sort_order, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        dto.projectId ?? null,
+        dto.name.trim(),
+        dto.type,
+        JSON.stringify(dto.options ?? []),
+        (maxOrder ?? -1) + 1,
+        now,
+        now,
+      ]
+    );
+
+    return this.findById(id)!;
+  }
+
+  update(id: string, dto: UpdateCustomFieldDto): CustomField | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (dto.name !== undefined) {
+      updates.push('name = ?');
+      params.push(dto.name.trim());
+    }
+    if (dto.options !== undefined) {
+      updates.push('options = ?');
+      params.push(JSON.stringify(dto.options));
+    }
+
+    if (updates.length > 0) {
+      updates.push('updated_at = ?');
+      params.push(new Date().toISOString(), id);
+      this.db.execute(`UPDATE custom_fields SET ${updates.join(', ')} WHERE id = ?`, params);
+    }
+
+    return this.findById(id);
+  }
+
+  delete(id: string): boolean {
+    const existing = this.findById(id);
+    if (!existing) {
+      return false;
+    }
+    this.db.execute('DELETE FROM task_field_values WHERE field_id = ?', [id]);
+    this.db.execute('DELETE FROM custom_fields WHERE id = ?', [id]);
+    return true;
+  }
+
+  // Text storage: one file per field
+
+  exportDocuments(): CustomField[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): CustomField | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: CustomField): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO custom_fields (id, project_id, name, type, options, sort_order, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.projectId ?? null,
+        document.name,
+        document.type,
+        JSON.stringify(document.options ?? []),
+        document.sortOrder ?? 0,
+        document.createdAt,
+        document.updatedAt ?? document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM custom_fields WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM custom_fields');
+  }
+}
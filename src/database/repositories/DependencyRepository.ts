@@ -1,6 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { DatabaseManager } from '../DatabaseManager';
-import type { Dependency, DependencyType, CreateDependencyDto } from '../../models/types';
+import type {
+  Dependency,
+  DependencyType,
+  CreateDependencyDto,
+  UpdateDependencyDto,
+} from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+import type { TaskEventRepository } from './TaskEventRepository';
 
 interface DependencyRow {
   id: string;
@@ -22,8 +29,24 @@ function rowToDependency(row: DependencyRow): Dependency {
   };
 }
 
-export class DependencyRepository {
-  constructor(private db: DatabaseManager) {}
+// Dependency state as stored in the change history of both linked tasks
+function toEventValue(dependency: Dependency | null): string | null {
+  if (!dependency) {
+    return null;
+  }
+  const { predecessorId, successorId, dependencyType, lagDays } = dependency;
+  return JSON.stringify({ predecessorId, successorId, dependencyType, lagDays });
+}
+
+export class DependencyRepository implements StorableRepository<Dependency> {
+  readonly storageFolder = 'dependencies';
+  readonly storageTables = { dependencies: 'id' };
+
+  // Changes are recorded only when an event repository is given
+  constructor(
+    private db: DatabaseManager,
+    private events?: TaskEventRepository
+  ) {}
 
   findAll(): Dependency[] {
     const rows = this.db.query<DependencyRow>('SELECT * FROM dependencies ORDER BY created_at ASC');
@@ -80,7 +103,39 @@ export class DependencyRepository {
       ]
     );
 
-    return this.findById(id)!;
+    const created = this.findById(id)!;
+    this.recordEvent('dependency_added', null, created);
+    return created;
+  }
+
+  update(id: string, dto: UpdateDependencyDto): Dependency | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (dto.dependencyType !== undefined) {
+      updates.push('dependency_type = ?');
+      params.push(dto.dependencyType);
+    }
+    if (dto.lagDays !== undefined) {
+      updates.push('lag_days = ?');
+      params.push(Math.round(dto.lagDays));
+    }
+
+    if (updates.length > 0) {
+      params.push(id);
+      this.db.execute(`UPDATE dependencies SET ${updates.join(', ')} WHERE id = ?`, params);
+    }
+
+    const updated = this.findById(id);
+    if (updated && toEventValue(updated) !== toEventValue(existing)) {
+      this.recordEvent('dependency_updated', existing, updated);
+    }
+    return updated;
   }
 
   delete(id: string): boolean {
@@ -89,14 +144,69 @@ export class DependencyRepository {
       return false;
     }
     this.db.execute('DELETE FROM dependencies WHERE id = ?', [id]);
+    this.recordEvent('dependency_removed', existing, null);
     return true;
   }
 
   deleteByTask(taskId: string): void {
+    const existing = this.events ? this.findByTask(taskId) : [];
     this.db.execute('DELETE FROM dependencies WHERE predecessor_id = ? OR successor_id = ?', [
       taskId,
       taskId,
     ]);
+    for (const dependency of existing) {
+      this.recordEvent('dependency_removed', dependency, null);
+    }
+  }
+
+  // Text storage: one file per dependency
+
+  exportDocuments(): Dependency[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): Dependency | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: Dependency): void {
+    // A pulled file may replace a link between the same tasks that was created locally
+    this.db.execute(
+      'DELETE FROM dependencies WHERE predecessor_id = ? AND successor_id = ? AND id != ?',
+      [document.predecessorId, document.successorId, document.id]
+    );
+    this.db.execute(
+      `INSERT OR REPLACE INTO dependencies (id, predecessor_id, successor_id, dependency_type, lag_days, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.predecessorId,
+        document.successorId,
+        document.dependencyType ?? 'finish_to_start',
+        document.lagDays ?? 0,
+        document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM dependencies WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM dependencies');
+  }
+
+  // Records the change on both the predecessor and the successor
+  private recordEvent(
+    eventType: 'dependency_added' | 'dependency_updated' | 'dependency_removed',
+    before: Dependency | null,
+    after: Dependency | null
+  ): void {
+    const dependency = (after ?? before)!;
+    const event = { eventType, oldValue: toEventValue(before), newValue: toEventValue(after) };
+    this.events?.record(dependency.successorId, [event]);
+    this.events?.record(dependency.predecessorId, [event]);
   }
 
   // Check if adding a dependency would create a cycle
@@ -1,6 +1,14 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { DatabaseManager } from '../DatabaseManager';
-import type { KanbanColumn, CreateKanbanColumnDto, UpdateKanbanColumnDto } from '../../models/types';
+import type {
+  KanbanColumn,
+  ColumnRule,
+  ColumnCategory,
+  CreateKanbanColumnDto,
+  UpdateKanbanColumnDto,
+} from '../../models/types';
+import { DEFAULT_KANBAN_COLUMNS, REQUIRED_CATEGORIES } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
 
 // Database row type (snake_case)
 interface KanbanColumnRow {
@@ -10,6 +18,9 @@ interface KanbanColumnRow {
   color: string;
   sort_order: number;
   is_default: number;
+  wip_limit: number | null;
+  rules: string; // JSON array of ColumnRule
+  category: ColumnCategory;
   created_at: string;
   updated_at: string;
 }
@@ -19,15 +30,15 @@ interface KanbanColumnWithOrderRow extends KanbanColumnRow {
   effective_sort_order: number;
 }
 
-// Project column order row
-interface ProjectColumnOrderRow {
+// Project column order row (a type alias, so that it satisfies the query row constraint)
+type ProjectColumnOrderRow = {
   id: string;
   project_id: string | null;
   column_id: string;
   sort_order: number;
   created_at: string;
   updated_at: string;
-}
+};
 
 // Convert database row to KanbanColumn entity
 function rowToKanbanColumn(row: KanbanColumnRow): KanbanColumn {
@@ -38,6 +49,9 @@ function rowToKanbanColumn(row: KanbanColumnRow): KanbanColumn {
     color: row.color,
     sortOrder: row.sort_order,
     isDefault: row.is_default === 1,
+    wipLimit: row.wip_limit,
+    rules: JSON.parse(row.rules) as ColumnRule[],
+    category: row.category,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -52,12 +66,50 @@ function rowWithOrderToKanbanColumn(row: KanbanColumnWithOrderRow): KanbanColumn
     color: row.color,
     sortOrder: row.effective_sort_order, // Use project-specific order
     isDefault: row.is_default === 1,
+    wipLimit: row.wip_limit,
+    rules: JSON.parse(row.rules) as ColumnRule[],
+    category: row.category,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
-export class KanbanColumnRepository {
+// Columns saved before categories existed: the default columns get theirs, as in migration 017
+function getLegacyCategory(id: string): ColumnCategory {
+  return DEFAULT_KANBAN_COLUMNS.find((column) => column.id === id)?.category ?? 'active';
+}
+
+// Column file contents: the column row plus its per-project ordering (project_column_order)
+type KanbanColumnDocument = KanbanColumn & {
+  projectOrder: {
+    id: string;
+    projectId: string | null;
+    sortOrder: number;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+};
+
+function toColumnDocument(
+  column: KanbanColumn,
+  orderRows: ProjectColumnOrderRow[]
+): KanbanColumnDocument {
+  return {
+    ...column,
+    projectOrder: orderRows.map((order) => ({
+      id: order.id,
+      projectId: order.project_id,
+      sortOrder: order.sort_order,
+      createdAt: order.created_at,
+      updatedAt: order.updated_at,
+    })),
+  };
+}
+
+export class KanbanColumnRepository implements StorableRepository<KanbanColumnDocument> {
+  readonly storageFolder = 'columns';
+  readonly storageTables = { kanban_columns: 'id', project_column_order: 'column_id' };
+
   constructor(private db: DatabaseManager) {}
 
   /**
@@ -142,9 +194,20 @@ export class KanbanColumnRepository {
     const defaultSortOrder = (maxOrderResult?.max_order ?? -1) + 1;
 
     this.db.execute(
-      `INSERT INTO kanban_columns (id, project_id, name, color, sort_order, is_default, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, 0, ?, ?)`,
-      [id, columnProjectId, dto.name, dto.color, defaultSortOrder, now, now]
+      `INSERT INTO kanban_columns (id, project_id, name, color, sort_order, is_default, wip_limit, rules, category, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        columnProjectId,
+        dto.name,
+        dto.color,
+        defaultSortOrder,
+        dto.wipLimit ?? null,
+        JSON.stringify(dto.rules ?? []),
+        dto.category ?? 'active',
+        now,
+        now,
+      ]
     );
 
     // Determine which project context to add the column order for
@@ -220,6 +283,18 @@ export class KanbanColumnRepository {
       updates.push('sort_order = ?');
       params.push(dto.sortOrder);
     }
+    if (dto.wipLimit !== undefined) {
+      updates.push('wip_limit = ?');
+      params.push(dto.wipLimit);
+    }
+    if (dto.rules !== undefined) {
+      updates.push('rules = ?');
+      params.push(JSON.stringify(dto.rules));
+    }
+    if (dto.category !== undefined) {
+      updates.push('category = ?');
+      params.push(dto.category);
+    }
 
     if (updates.length === 0) {
       return existing;
@@ -232,18 +307,16 @@ export class KanbanColumnRepository {
   }
 
   delete(id: string): { success: boolean; error?: string } {
-    // Prevent deletion of essential columns (todo and done)
-    if (id === 'todo' || id === 'done') {
-      return {
-        success: false,
-        error: 'Cannot delete essential columns (To Do and Done).',
-      };
-    }
-
     const existing = this.findById(id);
     if (!existing) {
       return { success: false, error: 'Column not found' };
     }
+    if (this.isRequiredColumn(existing)) {
+      return {
+        success: false,
+        error: 'Cannot delete the last global column of the Not started or Completed category.',
+      };
+    }
 
     // Check for tasks in this column
     const taskCount = this.getTaskCountByColumn(id);
@@ -258,19 +331,42 @@ export class KanbanColumnRepository {
     return { success: true };
   }
 
-  deleteWithMigration(id: string, targetColumnId: string): { success: boolean; error?: string } {
-    // Prevent deletion of essential columns (todo and done)
-    if (id === 'todo' || id === 'done') {
-      return {
-        success: false,
-        error: 'Cannot delete essential columns (To Do and Done).',
-      };
+  /**
+   * First column of a category in REQUIRED_CATEGORIES on a project's board (global columns only
+   * when projectId is null). There always is one, since the last global one cannot be deleted.
+   */
+  findFirstOfCategory(category: 'not_started' | 'completed', projectId: string | null): KanbanColumn {
+    return this.findAll(projectId).find(
+      (c) => c.category === category && (c.projectId === null || c.projectId === projectId)
+    )!;
+  }
+
+  /**
+   * True for the only global column of a category in REQUIRED_CATEGORIES. Tasks are moved to such a
+   * column when they are reopened or checked off, so every project needs one.
+   */
+  isRequiredColumn(column: KanbanColumn): boolean {
+    if (column.projectId !== null || !REQUIRED_CATEGORIES.includes(column.category)) {
+      return false;
     }
+    const result = this.db.queryOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM kanban_columns WHERE project_id IS NULL AND category = ?',
+      [column.category]
+    );
+    return (result?.count ?? 0) <= 1;
+  }
 
+  deleteWithMigration(id: string, targetColumnId: string): { success: boolean; error?: string } {
     const existing = this.findById(id);
     if (!existing) {
       return { success: false, error: 'Column not found' };
     }
+    if (this.isRequiredColumn(existing)) {
+      return {
+        success: false,
+        error: 'Cannot delete the last global column of the Not started or Completed category.',
+      };
+    }
 
     const targetColumn = this.findById(targetColumnId);
     if (!targetColumn) {
@@ -333,4 +429,74 @@ export class KanbanColumnRepository {
     );
     return result?.count ?? 0;
   }
+
+  // Tasks per column across all projects
+  getTaskCountsByColumn(): Record<string, number> {
+    const rows = this.db.query<{ status: string; count: number }>(
+      'SELECT status, COUNT(*) as count FROM tasks GROUP BY status'
+    );
+    return Object.fromEntries(rows.map((row) => [row.status, row.count]));
+  }
+
+  // Text storage: one file per column
+
+  exportDocuments(): KanbanColumnDocument[] {
+    const orderRows = this.db.query<ProjectColumnOrderRow>(
+      'SELECT * FROM project_column_order ORDER BY project_id NULLS FIRST, id ASC'
+    );
+    return this.findAllForExport().map((column) =>
+      toColumnDocument(column, orderRows.filter((order) => order.column_id === column.id))
+    );
+  }
+
+  exportDocument(id: string): KanbanColumnDocument | null {
+    const column = this.findById(id);
+    if (!column) {
+      return null;
+    }
+    const orderRows = this.db.query<ProjectColumnOrderRow>(
+      'SELECT * FROM project_column_order WHERE column_id = ? ORDER BY project_id NULLS FIRST, id ASC',
+      [id]
+    );
+    return toColumnDocument(column, orderRows);
+  }
+
+  importDocument(document: KanbanColumnDocument): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO kanban_columns (id, project_id, name, color, sort_order, is_default, wip_limit, rules, category, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.projectId ?? null,
+        document.name,
+        document.color,
+        document.sortOrder ?? 0,
+        document.isDefault ? 1 : 0,
+        document.wipLimit ?? null,
+        JSON.stringify(document.rules ?? []),
+        document.category ?? getLegacyCategory(document.id),
+        document.createdAt,
+        document.updatedAt,
+      ]
+    );
+
+    this.db.execute('DELETE FROM project_column_order WHERE column_id = ?', [document.id]);
+    for (const order of document.projectOrder ?? []) {
+      this.db.execute(
+        `INSERT OR REPLACE INTO project_column_order (id, project_id, column_id, sort_order, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [order.id, order.projectId ?? null, document.id, order.sortOrder, order.createdAt, order.updatedAt]
+      );
+    }
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM project_column_order WHERE column_id = ?', [id]);
+    this.db.execute('DELETE FROM kanban_columns WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM project_column_order');
+    this.db.execute('DELETE FROM kanban_columns');
+  }
 }
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { DatabaseManager } from '../DatabaseManager';
 import type { Label, CreateLabelDto } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
 
 interface LabelRow {
   id: string;
@@ -18,7 +19,10 @@ function rowToLabel(row: LabelRow): Label {
   };
 }
 
-export class LabelRepository {
+export class LabelRepository implements StorableRepository<Label> {
+  readonly storageFolder = 'labels';
+  readonly storageTables = { labels: 'id' };
+
   constructor(private db: DatabaseManager) {}
 
   findAll(): Label[] {
@@ -92,4 +96,31 @@ export class LabelRepository {
     );
     return rows.map((r) => r.task_id);
   }
+
+  // Text storage: one file per label
+
+  exportDocuments(): Label[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): Label | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: Label): void {
+    // Label names are unique: a pulled file wins over a local label with the same name
+    this.db.execute('DELETE FROM labels WHERE name = ? AND id != ?', [document.name, document.id]);
+    this.db.execute(
+      'INSERT OR REPLACE INTO labels (id, name, color, created_at) VALUES (?, ?, ?, ?)',
+      [document.id, document.name, document.color, document.createdAt]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM labels WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM labels');
+  }
 }
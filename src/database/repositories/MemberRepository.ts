@@ -0,0 +1,177 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { Member, CreateMemberDto, UpdateMemberDto } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+// Avatar colors handed out to new members in turn
+const AVATAR_COLORS = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ec4899', '#06b6d4', '#eab308', '#ef4444'];
+
+type MemberRow = {
+  id: string;
+  name: string;
+  email: string | null;
+  color: string;
+  weekly_hours: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function rowToMember(row: MemberRow): Member {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    color: row.color,
+    weeklyHours: row.weekly_hours,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class MemberRepository implements StorableRepository<Member> {
+  readonly storageFolder = 'members';
+  readonly storageTables = { members: 'id' };
+
+  constructor(private db: DatabaseManager) {}
+
+  findAll(): Member[] {
+    const rows = this.db.query<MemberRow>('SELECT * FROM members ORDER BY name ASC');
+    return rows.map(rowToMember);
+  }
+
+  findById(id: string): Member | null {
+    const row = this.db.queryOne<MemberRow>('SELECT * FROM members WHERE id = ?', [id]);
+    return row ? rowToMember(row) : null;
+  }
+
+  // Names are compared case-insensitively (the column is COLLATE NOCASE)
+  findByName(name: string): Member | null {
+    const row = this.db.queryOne<MemberRow>('SELECT * FROM members WHERE name = ?', [name.trim()]);
+    return row ? rowToMember(row) : null;
+  }
+
+  create(dto: CreateMemberDto): Member {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const count = this.db.queryOne<{ count: number }>('SELECT COUNT(*) AS count FROM members')?.count ?? 0;
+
+    this.db.execute(
+      `INSERT INTO members (id, name, email, color, weekly_hours, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        dto.name.trim(),
+        dto.email || null,
+        dto.color ?? AVATAR_COLORS[count % AVATAR_COLORS.length],
+        dto.weeklyHours ?? null,
+        now,
+        now,
+      ]
+    );
+
+    return this.findById(id)!;
+  }
+
+  update(id: string, dto: UpdateMemberDto): Member | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (dto.name !== undefined) {
+      updates.push('name = ?');
+      params.push(dto.name.trim());
+    }
+    if (dto.email !== undefined) {
+      updates.push('email = ?');
+      params.push(dto.email || null);
+    }
+    if (dto.color !== undefined) {
+      updates.push('color = ?');
+      params.push(dto.color);
+    }
+    if (dto.weeklyHours !== undefined) {
+      updates.push('weekly_hours = ?');
+      params.push(dto.weeklyHours);
+    }
+
+    if (updates.length > 0) {
+      updates.push('updated_at = ?');
+      params.push(new Date().toISOString(), id);
+      this.db.execute(`UPDATE members SET ${updates.join(', ')} WHERE id = ?`, params);
+    }
+
+    return this.findById(id);
+  }
+
+  delete(id: string): boolean {
+    const existing = this.findById(id);
+    if (!existing) {
+      return false;
+    }
+    this.db.execute('DELETE FROM members WHERE id = ?', [id]);
+    return true;
+  }
+
+  getTasksWithMember(memberId: string): string[] {
+    const rows = this.db.query<{ task_id: string }>('SELECT task_id FROM task_assignees WHERE member_id = ?', [
+      memberId,
+    ]);
+    return rows.map((r) => r.task_id);
+  }
+
+  /**
+   * Member IDs for a free-text assignee: the whole text when it names a member, otherwise
+   * each comma-separated name. Names without a member become new members.
+   */
+  resolveNames(text: string | null | undefined): string[] {
+    const whole = text?.trim().replace(/\s+/g, ' ');
+    if (!whole) {
+      return [];
+    }
+    const names = this.findByName(whole) ? [whole] : whole.split(',').map((name) => name.trim());
+    const ids = names
+      .filter((name) => name)
+      .map((name) => (this.findByName(name) ?? this.create({ name })).id);
+    return [...new Set(ids)];
+  }
+
+  // Text storage: one file per member
+
+  exportDocuments(): Member[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): Member | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: Member): void {
+    // Member names are unique: a pulled file wins over a local member with the same name
+    this.db.execute('DELETE FROM members WHERE name = ? AND id != ?', [document.name, document.id]);
+    this.db.execute(
+      `INSERT OR REPLACE INTO members (id, name, email, color, weekly_hours, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.name,
+        document.email ?? null,
+        document.color,
+        document.weeklyHours ?? null,
+        document.createdAt,
+        document.updatedAt ?? document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM members WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM members');
+  }
+}
@@ -1,8 +1,14 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { DatabaseManager } from '../DatabaseManager';
 import type { Project, CreateProjectDto, UpdateProjectDto } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type ProjectDocument = Omit<Project, 'taskCount'>;
+
+export class ProjectRepository implements StorableRepository<ProjectDocument> {
+  readonly storageFolder = 'projects';
+  readonly storageTables = { projects: 'id' };
 
-export class ProjectRepository {
   constructor(private dbManager: DatabaseManager) {}
 
   private get db() {
@@ -104,8 +110,22 @@ export class ProjectRepository {
     if (id === 'default-project') {return false;}
 
     // Delete all tasks belonging to this project
+    this.dbManager.execute(
+      'DELETE FROM task_field_values WHERE task_id IN (SELECT id FROM tasks WHERE project_id = ?)',
+      [id]
+    );
     this.dbManager.execute(`DELETE FROM tasks WHERE project_id = ?`, [id]);
 
+    // Delete project-specific custom fields and their values
+    this.dbManager.execute(
+      'DELETE FROM task_field_values WHERE field_id IN (SELECT id FROM custom_fields WHERE project_id = ?)',
+      [id]
+    );
+    this.dbManager.execute('DELETE FROM custom_fields WHERE project_id = ?', [id]);
+
+    // Delete the views saved for this project
+    this.dbManager.execute('DELETE FROM saved_views WHERE project_id = ?', [id]);
+
     // Delete project-specific kanban columns
     this.dbManager.execute(`DELETE FROM kanban_columns WHERE project_id = ?`, [id]);
 
@@ -122,6 +142,49 @@ export class ProjectRepository {
     });
   }
 
+  // Text storage: one file per project
+
+  exportDocuments(): ProjectDocument[] {
+    return this.dbManager
+      .query<Record<string, unknown>>('SELECT * FROM projects ORDER BY id ASC')
+      .map((row) => this.mapRowToDocument(row));
+  }
+
+  exportDocument(id: string): ProjectDocument | null {
+    const row = this.dbManager.queryOne<Record<string, unknown>>('SELECT * FROM projects WHERE id = ?', [id]);
+    return row ? this.mapRowToDocument(row) : null;
+  }
+
+  importDocument(document: ProjectDocument): void {
+    this.dbManager.execute(
+      `INSERT OR REPLACE INTO projects (id, name, description, color, sort_order, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.name,
+        document.description ?? null,
+        document.color,
+        document.sortOrder ?? 0,
+        document.createdAt,
+        document.updatedAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.dbManager.execute('DELETE FROM projects WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.dbManager.execute('DELETE FROM projects');
+  }
+
+  private mapRowToDocument(row: Record<string, unknown>): ProjectDocument {
+    const project = this.mapRowToProject(row);
+    delete project.taskCount;
+    return project;
+  }
+
   private mapRowToProject(row: Record<string, unknown>): Project {
     return {
       id: row.id as string,
@@ -0,0 +1,154 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type {
+  SavedView,
+  SavedViewType,
+  SavedViewState,
+  CreateSavedViewDto,
+  UpdateSavedViewDto,
+} from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type SavedViewRow = {
+  id: string;
+  name: string;
+  view_type: SavedViewType;
+  project_id: string | null;
+  state: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function rowToSavedView(row: SavedViewRow): SavedView {
+  return {
+    id: row.id,
+    name: row.name,
+    viewType: row.view_type,
+    projectId: row.project_id,
+    state: JSON.parse(row.state) as SavedViewState,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class SavedViewRepository implements StorableRepository<SavedView> {
+  readonly storageFolder = 'saved-views';
+  readonly storageTables = { saved_views: 'id' };
+
+  constructor(
+    private db: DatabaseManager,
+    private getAuthor: () => string | null = () => null
+  ) {}
+
+  findAll(): SavedView[] {
+    const rows = this.db.query<SavedViewRow>('SELECT * FROM saved_views ORDER BY name COLLATE NOCASE ASC');
+    return rows.map(rowToSavedView);
+  }
+
+  findById(id: string): SavedView | null {
+    const row = this.db.queryOne<SavedViewRow>('SELECT * FROM saved_views WHERE id = ?', [id]);
+    return row ? rowToSavedView(row) : null;
+  }
+
+  // View names are unique, ignoring case
+  findByName(name: string): SavedView | null {
+    const row = this.db.queryOne<SavedViewRow>('SELECT * FROM saved_views WHERE name = ? COLLATE NOCASE', [
+      name.trim(),
+    ]);
+    return row ? rowToSavedView(row) : null;
+  }
+
+  create(dto: CreateSavedViewDto): SavedView {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    this.db.execute(
+      `INSERT INTO saved_views (id, name, view_type, project_id, state, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, dto.name.trim(), dto.viewType, dto.projectId ?? null, JSON.stringify(dto.state), this.getAuthor(), now, now]
+    );
+
+    return this.findById(id)!;
+  }
+
+  update(id: string, dto: UpdateSavedViewDto): SavedView | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (dto.name !== undefined) {
+      updates.push('name = ?');
+      params.push(dto.name.trim());
+    }
+    if (dto.viewType !== undefined) {
+      updates.push('view_type = ?');
+      params.push(dto.viewType);
+    }
+    if (dto.projectId !== undefined) {
+      updates.push('project_id = ?');
+      params.push(dto.projectId);
+    }
+    if (dto.state !== undefined) {
+      updates.push('state = ?');
+      params.push(JSON.stringify(dto.state));
+    }
+
+    if (updates.length > 0) {
+      updates.push('updated_at = ?');
+      params.push(new Date().toISOString(), id);
+      this.db.execute(`UPDATE saved_views SET ${updates.join(', ')} WHERE id = ?`, params);
+    }
+
+    return this.findById(id);
+  }
+
+  delete(id: string): boolean {
+    const existing = this.findById(id);
+    if (!existing) {
+      return false;
+    }
+    this.db.execute('DELETE FROM saved_views WHERE id = ?', [id]);
+    return true;
+  }
+
+  // Text storage: one file per view
+
+  exportDocuments(): SavedView[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): SavedView | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: SavedView): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO saved_views (id, name, view_type, project_id, state, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.name,
+        document.viewType,
+        document.projectId ?? null,
+        JSON.stringify(document.state ?? {}),
+        document.createdBy ?? null,
+        document.createdAt,
+        document.updatedAt ?? document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM saved_views WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM saved_views');
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * A record as stored by the text storage backend: one pretty-printed JSON file per record.
+ * Documents use the camelCase entity shape and may embed rows of join tables
+ * (e.g. a task document carries its label IDs).
+ */
+export interface StoredDocument {
+  id: string;
+}
+
+/**
+ * Implemented by repositories whose records can be stored as individual files,
+ * so that the data folder can be committed and merged with git.
+ */
+export interface StorableRepository<TDocument extends StoredDocument = StoredDocument> {
+  /** Sub-folder of the data folder that holds this repository's files */
+  readonly storageFolder: string;
+
+  /**
+   * Tables whose rows make up the documents, mapped to the column holding the document ID
+   * (e.g. task_labels rows belong to the task in their task_id)
+   */
+  readonly storageTables: Record<string, string>;
+
+  /** Returns every record as a document */
+  exportDocuments(): TDocument[];
+
+  /** Returns a single record as a document, or null when it no longer exists */
+  exportDocument(id: string): TDocument | null;
+
+  /** Inserts or replaces a single record (including embedded join rows) */
+  importDocument(document: TDocument): void;
+
+  /** Removes a single record and its embedded join rows */
+  removeDocument(id: string): void;
+
+  /** Removes all records, before loading the data folder from scratch */
+  clearDocuments(): void;
+}
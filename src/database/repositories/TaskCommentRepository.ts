@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { TaskComment } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type TaskCommentRow = {
+  id: string;
+  task_id: string;
+  body: string;
+  author: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function rowToTaskComment(row: TaskCommentRow): TaskComment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    body: row.body,
+    author: row.author,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class TaskCommentRepository implements StorableRepository<TaskComment> {
+  readonly storageFolder = 'task-comments';
+  readonly storageTables = { task_comments: 'id' };
+
+  constructor(
+    private db: DatabaseManager,
+    private getAuthor: () => string | null = () => null
+  ) {}
+
+  findAll(): TaskComment[] {
+    const rows = this.db.query<TaskCommentRow>('SELECT * FROM task_comments ORDER BY created_at ASC');
+    return rows.map(rowToTaskComment);
+  }
+
+  findById(id: string): TaskComment | null {
+    const row = this.db.queryOne<TaskCommentRow>('SELECT * FROM task_comments WHERE id = ?', [id]);
+    return row ? rowToTaskComment(row) : null;
+  }
+
+  // Oldest first, like a discussion thread
+  findByTask(taskId: string): TaskComment[] {
+    const rows = this.db.query<TaskCommentRow>(
+      'SELECT * FROM task_comments WHERE task_id = ? ORDER BY created_at ASC, rowid ASC',
+      [taskId]
+    );
+    return rows.map(rowToTaskComment);
+  }
+
+  create(taskId: string, body: string): TaskComment {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    this.db.execute(
+      `INSERT INTO task_comments (id, task_id, body, author, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, taskId, body, this.getAuthor(), now, now]
+    );
+
+    return this.findById(id)!;
+  }
+
+  update(id: string, body: string): TaskComment | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (body !== existing.body) {
+      this.db.execute('UPDATE task_comments SET body = ?, updated_at = ? WHERE id = ?', [
+        body,
+        new Date().toISOString(),
+        id,
+      ]);
+    }
+
+    return this.findById(id);
+  }
+
+  delete(id: string): boolean {
+    const existing = this.findById(id);
+    if (!existing) {
+      return false;
+    }
+    this.db.execute('DELETE FROM task_comments WHERE id = ?', [id]);
+    return true;
+  }
+
+  deleteByTask(taskId: string): void {
+    this.db.execute('DELETE FROM task_comments WHERE task_id = ?', [taskId]);
+  }
+
+  // Text storage: one file per comment
+
+  exportDocuments(): TaskComment[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): TaskComment | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: TaskComment): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO task_comments (id, task_id, body, author, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.taskId,
+        document.body,
+        document.author ?? null,
+        document.createdAt,
+        document.updatedAt ?? document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM task_comments WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM task_comments');
+  }
+}
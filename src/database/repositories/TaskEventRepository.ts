@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { TaskEvent, TaskEventType } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type TaskEventRow = {
+  id: string;
+  task_id: string;
+  event_type: TaskEventType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  author: string | null;
+  created_at: string;
+};
+
+function rowToTaskEvent(row: TaskEventRow): TaskEvent {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    eventType: row.event_type,
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    author: row.author,
+    createdAt: row.created_at,
+  };
+}
+
+// A change to record; the author and timestamp are added by the repository
+export interface TaskEventInput {
+  eventType: TaskEventType;
+  field?: string | null;
+  oldValue?: string | null;
+  newValue?: string | null;
+}
+
+export class TaskEventRepository implements StorableRepository<TaskEvent> {
+  readonly storageFolder = 'task-events';
+  readonly storageTables = { task_events: 'id' };
+  // Set while withoutRecording() runs
+  private paused = false;
+
+  constructor(
+    private db: DatabaseManager,
+    private getAuthor: () => string | null = () => null
+  ) {}
+
+  findAll(): TaskEvent[] {
+    const rows = this.db.query<TaskEventRow>('SELECT * FROM task_events ORDER BY created_at ASC');
+    return rows.map(rowToTaskEvent);
+  }
+
+  // Newest first
+  findByTask(taskId: string): TaskEvent[] {
+    const rows = this.db.query<TaskEventRow>(
+      'SELECT * FROM task_events WHERE task_id = ? ORDER BY created_at DESC, rowid DESC',
+      [taskId]
+    );
+    return rows.map(rowToTaskEvent);
+  }
+
+  record(taskId: string, events: TaskEventInput[]): void {
+    if (events.length === 0 || this.paused) {
+      return;
+    }
+    const now = new Date().toISOString();
+    const author = this.getAuthor();
+    for (const event of events) {
+      this.db.execute(
+        `INSERT INTO task_events (id, task_id, event_type, field, old_value, new_value, author, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          taskId,
+          event.eventType,
+          event.field ?? null,
+          event.oldValue ?? null,
+          event.newValue ?? null,
+          author,
+          now,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Runs `fn` without recording events, e.g. while importing records that bring their own history.
+   */
+  withoutRecording<T>(fn: () => T): T {
+    const wasPaused = this.paused;
+    this.paused = true;
+    try {
+      return fn();
+    } finally {
+      this.paused = wasPaused;
+    }
+  }
+
+  // Text storage: one file per event (events are never edited, so files do not conflict)
+
+  exportDocuments(): TaskEvent[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): TaskEvent | null {
+    const row = this.db.queryOne<TaskEventRow>('SELECT * FROM task_events WHERE id = ?', [id]);
+    return row ? rowToTaskEvent(row) : null;
+  }
+
+  importDocument(document: TaskEvent): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO task_events (id, task_id, event_type, field, old_value, new_value, author, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.taskId,
+        document.eventType,
+        document.field ?? null,
+        document.oldValue ?? null,
+        document.newValue ?? null,
+        document.author ?? null,
+        document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM task_events WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM task_events');
+  }
+}
@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { TaskRecurrence } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type TaskRecurrenceRow = {
+  id: string;
+  task_id: string;
+  rule: string;
+  created_at: string;
+  updated_at: string;
+};
+
+function rowToTaskRecurrence(row: TaskRecurrenceRow): TaskRecurrence {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    rule: row.rule,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class TaskRecurrenceRepository implements StorableRepository<TaskRecurrence> {
+  readonly storageFolder = 'task-recurrences';
+  readonly storageTables = { task_recurrences: 'id' };
+
+  constructor(private db: DatabaseManager) {}
+
+  findAll(): TaskRecurrence[] {
+    const rows = this.db.query<TaskRecurrenceRow>('SELECT * FROM task_recurrences');
+    return rows.map(rowToTaskRecurrence);
+  }
+
+  findByTask(taskId: string): TaskRecurrence | null {
+    const row = this.db.queryOne<TaskRecurrenceRow>(
+      'SELECT * FROM task_recurrences WHERE task_id = ?',
+      [taskId]
+    );
+    return row ? rowToTaskRecurrence(row) : null;
+  }
+
+  // Sets or replaces the rule of a task; null removes it
+  setRule(taskId: string, rule: string | null): void {
+    const existing = this.findByTask(taskId);
+    if (!rule) {
+      if (existing) {
+        this.db.execute('DELETE FROM task_recurrences WHERE id = ?', [existing.id]);
+      }
+      return;
+    }
+
+    const now = new Date().toISOString();
+    if (existing) {
+      if (existing.rule !== rule) {
+        this.db.execute('UPDATE task_recurrences SET rule = ?, updated_at = ? WHERE id = ?', [
+          rule,
+          now,
+          existing.id,
+        ]);
+      }
+    } else {
+      this.db.execute(
+        `INSERT INTO task_recurrences (id, task_id, rule, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        [uuidv4(), taskId, rule, now, now]
+      );
+    }
+  }
+
+  // Hands the rule of a completed task over to its next instance
+  moveToTask(fromTaskId: string, toTaskId: string): void {
+    this.db.execute('UPDATE task_recurrences SET task_id = ?, updated_at = ? WHERE task_id = ?', [
+      toTaskId,
+      new Date().toISOString(),
+      fromTaskId,
+    ]);
+  }
+
+  deleteByTask(taskId: string): void {
+    this.db.execute('DELETE FROM task_recurrences WHERE task_id = ?', [taskId]);
+  }
+
+  // Text storage: one file per rule
+
+  exportDocuments(): TaskRecurrence[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): TaskRecurrence | null {
+    const row = this.db.queryOne<TaskRecurrenceRow>('SELECT * FROM task_recurrences WHERE id = ?', [id]);
+    return row ? rowToTaskRecurrence(row) : null;
+  }
+
+  importDocument(document: TaskRecurrence): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO task_recurrences (id, task_id, rule, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.taskId,
+        document.rule,
+        document.createdAt,
+        document.updatedAt ?? document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM task_recurrences WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM task_recurrences');
+  }
+}
@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { TaskReminder, ReminderKind } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type TaskReminderRow = {
+  id: string;
+  task_id: string;
+  kind: ReminderKind;
+  due_date: string;
+  notified_at: string;
+  snoozed_until: string | null;
+};
+
+function rowToTaskReminder(row: TaskReminderRow): TaskReminder {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    kind: row.kind,
+    dueDate: row.due_date,
+    notifiedAt: row.notified_at,
+    snoozedUntil: row.snoozed_until,
+  };
+}
+
+export class TaskReminderRepository implements StorableRepository<TaskReminder> {
+  readonly storageFolder = 'task-reminders';
+  readonly storageTables = { task_reminders: 'id' };
+
+  constructor(private db: DatabaseManager) {}
+
+  findAll(): TaskReminder[] {
+    const rows = this.db.query<TaskReminderRow>('SELECT * FROM task_reminders');
+    return rows.map(rowToTaskReminder);
+  }
+
+  findByTask(taskId: string): TaskReminder | null {
+    const row = this.db.queryOne<TaskReminderRow>('SELECT * FROM task_reminders WHERE task_id = ?', [
+      taskId,
+    ]);
+    return row ? rowToTaskReminder(row) : null;
+  }
+
+  // Records a reminder as shown, replacing the previous one and its snooze
+  markNotified(taskId: string, kind: ReminderKind, dueDate: string, notifiedAt: string): void {
+    const existing = this.findByTask(taskId);
+    if (existing) {
+      this.db.execute(
+        `UPDATE task_reminders SET kind = ?, due_date = ?, notified_at = ?, snoozed_until = NULL
+         WHERE id = ?`,
+        [kind, dueDate, notifiedAt, existing.id]
+      );
+    } else {
+      this.db.execute(
+        `INSERT INTO task_reminders (id, task_id, kind, due_date, notified_at, snoozed_until)
+         VALUES (?, ?, ?, ?, ?, NULL)`,
+        [uuidv4(), taskId, kind, dueDate, notifiedAt]
+      );
+    }
+  }
+
+  snooze(taskId: string, until: string): void {
+    this.db.execute('UPDATE task_reminders SET snoozed_until = ? WHERE task_id = ?', [until, taskId]);
+  }
+
+  deleteByTask(taskId: string): void {
+    this.db.execute('DELETE FROM task_reminders WHERE task_id = ?', [taskId]);
+  }
+
+  // Text storage: one file per task with a reminder
+
+  exportDocuments(): TaskReminder[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): TaskReminder | null {
+    const row = this.db.queryOne<TaskReminderRow>('SELECT * FROM task_reminders WHERE id = ?', [id]);
+    return row ? rowToTaskReminder(row) : null;
+  }
+
+  importDocument(document: TaskReminder): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO task_reminders (id, task_id, kind, due_date, notified_at, snoozed_until)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.taskId,
+        document.kind,
+        document.dueDate,
+        document.notifiedAt,
+        document.snoozedUntil ?? null,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM task_reminders WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM task_reminders');
+  }
+}
@@ -7,7 +7,87 @@ import type {
   CreateTaskDto,
   UpdateTaskDto,
   TaskFilter,
+  CustomFieldValue,
+  CustomFieldValues,
 } from '../../models/types';
+import { TASK_QUERY_NONE } from '../../shared/taskQuery';
+import type { TaskQueryTerm } from '../../shared/taskQuery';
+import type { StorableRepository } from './StorableRepository';
+import type { TaskEventInput, TaskEventRepository } from './TaskEventRepository';
+import { MemberRepository } from './MemberRepository';
+import { KanbanColumnRepository } from './KanbanColumnRepository';
+
+// Task file contents: the task row plus its label and member assignments (task_labels, task_assignees)
+// and its custom field values (task_field_values).
+// Files written before members have no assigneeIds; their assignee text is matched to members instead.
+type TaskDocument = Task & { labelIds: string[]; assigneeIds?: string[] };
+
+// Escapes the LIKE wildcards of a search text, with a backslash as the ESCAPE character
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * SQL condition on the tasks table for one query term. Names are matched case-insensitively;
+ * a negated term also matches tasks without a value.
+ */
+function queryTermToSql(term: TaskQueryTerm): { sql: string; params: unknown[] } {
+  const isNone = term.value === TASK_QUERY_NONE;
+  let condition: { sql: string; params: unknown[] };
+  switch (term.field) {
+    case 'text': {
+      const pattern = `%${escapeLike(term.value)}%`;
+      condition = {
+        sql: "(title LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')",
+        params: [pattern, pattern],
+      };
+      break;
+    }
+    case 'project':
+      condition = isNone
+        ? { sql: 'project_id IS NULL', params: [] }
+        : {
+            sql: 'project_id IN (SELECT id FROM projects WHERE id = ? OR name = ? COLLATE NOCASE)',
+            params: [term.value, term.value],
+          };
+      break;
+    case 'assignee':
+      condition = isNone
+        ? { sql: 'NOT EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = tasks.id)', params: [] }
+        : {
+            sql: `EXISTS (SELECT 1 FROM task_assignees ta JOIN members m ON m.id = ta.member_id
+                  WHERE ta.task_id = tasks.id AND m.name = ? COLLATE NOCASE)`,
+            params: [term.value],
+          };
+      break;
+    case 'label':
+      condition = isNone
+        ? { sql: 'NOT EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = tasks.id)', params: [] }
+        : {
+            sql: `EXISTS (SELECT 1 FROM task_labels tl JOIN labels l ON l.id = tl.label_id
+                  WHERE tl.task_id = tasks.id AND l.name = ? COLLATE NOCASE)`,
+            params: [term.value],
+          };
+      break;
+    case 'status':
+      condition = {
+        sql: '(status = ? OR status IN (SELECT id FROM kanban_columns WHERE name = ? COLLATE NOCASE OR category = ?))',
+        params: [term.value, term.value, term.value.toLowerCase()],
+      };
+      break;
+    case 'priority':
+      condition = { sql: `priority ${term.comparison} ?`, params: [Number(term.value)] };
+      break;
+    case 'due':
+    case 'start': {
+      const column = term.field === 'due' ? 'due_date' : 'start_date';
+      condition = isNone
+        ? { sql: `COALESCE(${column}, '') = ''`, params: [] }
+        : { sql: `SUBSTR(${column}, 1, 10) ${term.comparison} ?`, params: [term.value] };
+      break;
+    }
+  }
+  // Comparisons with NULL are unknown; COALESCE makes them false before negating
+  return term.negated ? { sql: `NOT COALESCE(${condition.sql}, 0)`, params: condition.params } : condition;
+}
 
 // Database row type (snake_case)
 interface TaskRow {
@@ -49,8 +129,44 @@ function rowToTask(row: TaskRow): Task {
   };
 }
 
-export class TaskRepository {
-  constructor(private db: DatabaseManager) {}
+// Task fields whose changes are recorded in the change history (sort order is left out)
+const TRACKED_FIELDS: (keyof Task)[] = [
+  'projectId',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'startDate',
+  'assignee',
+  'estimatedHours',
+  'progress',
+  'parentId',
+];
+
+function toEventValue(value: unknown): string | null {
+  return value === null || value === undefined || value === '' ? null : String(value);
+}
+
+export class TaskRepository implements StorableRepository<TaskDocument> {
+  readonly storageFolder = 'tasks';
+  readonly storageTables = {
+    tasks: 'id',
+    task_labels: 'task_id',
+    task_assignees: 'task_id',
+    task_field_values: 'task_id',
+  };
+  private members: MemberRepository;
+  private columns: KanbanColumnRepository;
+
+  // Changes are recorded only when an event repository is given
+  constructor(
+    private db: DatabaseManager,
+    private events?: TaskEventRepository
+  ) {
+    this.members = new MemberRepository(db);
+    this.columns = new KanbanColumnRepository(db);
+  }
 
   findAll(filter?: TaskFilter): Task[] {
     let sql = 'SELECT * FROM tasks WHERE 1=1';
@@ -92,6 +208,12 @@ export class TaskRepository {
         const searchPattern = `%${filter.searchText}%`;
         params.push(searchPattern, searchPattern);
       }
+
+      for (const term of filter.query ?? []) {
+        const condition = queryTermToSql(term);
+        sql += ` AND ${condition.sql}`;
+        params.push(...condition.params);
+      }
     }
 
     sql += ' ORDER BY sort_order ASC, created_at DESC';
@@ -122,7 +244,8 @@ export class TaskRepository {
     return rows.map(rowToTask);
   }
 
-  create(dto: CreateTaskDto): Task {
+  // The caller picks the column, e.g. the not-started column of the task's board
+  create(dto: CreateTaskDto & { status: TaskStatus }): Task {
     const id = uuidv4();
     const now = new Date().toISOString();
     const projectId = dto.projectId ?? 'default-project';
@@ -144,11 +267,11 @@ export class TaskRepository {
         projectId,
         dto.title,
         dto.description ?? null,
-        dto.status ?? 'todo',
+        dto.status,
         dto.priority ?? 2,
         dto.dueDate ?? null,
         dto.startDate ?? null,
-        dto.assignee ?? null,
+        null, // set from the members below
         dto.estimatedHours ?? null,
         dto.progress ?? 0,
         dto.parentId ?? null,
@@ -165,6 +288,23 @@ export class TaskRepository {
       }
     }
 
+    const assigneeIds = dto.assigneeIds ?? this.members.resolveNames(dto.assignee);
+    if (assigneeIds.length > 0) {
+      this.setAssignees(id, assigneeIds);
+    }
+
+    for (const [fieldId, value] of Object.entries(dto.customFields ?? {})) {
+      if (value !== null) {
+        this.db.execute('INSERT INTO task_field_values (task_id, field_id, value) VALUES (?, ?, ?)', [
+          id,
+          fieldId,
+          JSON.stringify(value),
+        ]);
+      }
+    }
+
+    this.events?.record(id, [{ eventType: 'created', newValue: dto.title }]);
+
     return this.findById(id)!;
   }
 
@@ -205,10 +345,6 @@ export class TaskRepository {
       updates.push('start_date = ?');
       params.push(dto.startDate || null);
     }
-    if (dto.assignee !== undefined) {
-      updates.push('assignee = ?');
-      params.push(dto.assignee || null);
-    }
     if (dto.estimatedHours !== undefined) {
       updates.push('estimated_hours = ?');
       params.push(dto.estimatedHours || null);
@@ -232,6 +368,7 @@ export class TaskRepository {
     }
 
     // Update labels if provided
+    const previousLabelIds = this.getLabelsForTask(id).sort();
     if (dto.labelIds !== undefined) {
       this.db.execute('DELETE FROM task_labels WHERE task_id = ?', [id]);
       for (const labelId of dto.labelIds) {
@@ -239,7 +376,42 @@ export class TaskRepository {
       }
     }
 
-    return this.findById(id);
+    // The assignee name follows the members, so its change is recorded like the other fields
+    if (dto.assigneeIds !== undefined) {
+      this.setAssignees(id, dto.assigneeIds);
+    } else if (dto.assignee !== undefined) {
+      this.setAssignees(id, this.members.resolveNames(dto.assignee));
+    }
+
+    if (dto.customFields !== undefined) {
+      this.setCustomFieldValues(id, dto.customFields);
+    }
+
+    const updated = this.findById(id);
+    if (this.events && updated) {
+      const changes: TaskEventInput[] = TRACKED_FIELDS.filter(
+        (field) => toEventValue(existing[field]) !== toEventValue(updated[field])
+      ).map((field) => ({
+        eventType: 'updated',
+        field,
+        oldValue: toEventValue(existing[field]),
+        newValue: toEventValue(updated[field]),
+      }));
+
+      const labelIds = this.getLabelsForTask(id).sort();
+      if (labelIds.join() !== previousLabelIds.join()) {
+        changes.push({
+          eventType: 'labels_changed',
+          field: 'labels',
+          oldValue: JSON.stringify(previousLabelIds),
+          newValue: JSON.stringify(labelIds),
+        });
+      }
+
+      this.events.record(id, changes);
+    }
+
+    return updated;
   }
 
   updateStatus(id: string, status: TaskStatus): Task | null {
@@ -251,6 +423,8 @@ export class TaskRepository {
     if (!existing) {
       return false;
     }
+    this.db.execute('DELETE FROM task_assignees WHERE task_id = ?', [id]);
+    this.db.execute('DELETE FROM task_field_values WHERE task_id = ?', [id]);
     this.db.execute('DELETE FROM tasks WHERE id = ?', [id]);
     return true;
   }
@@ -272,6 +446,41 @@ export class TaskRepository {
     });
   }
 
+  // Member IDs of a task, primary assignee first
+  getAssigneesForTask(taskId: string): string[] {
+    const rows = this.db.query<{ member_id: string }>(
+      'SELECT member_id FROM task_assignees WHERE task_id = ? ORDER BY sort_order ASC',
+      [taskId]
+    );
+    return rows.map((r) => r.member_id);
+  }
+
+  /**
+   * Replaces the members of a task and updates its assignee name.
+   */
+  setAssignees(taskId: string, memberIds: string[]): void {
+    this.db.execute('DELETE FROM task_assignees WHERE task_id = ?', [taskId]);
+    [...new Set(memberIds)].forEach((memberId, index) => {
+      this.db.execute('INSERT INTO task_assignees (task_id, member_id, sort_order) VALUES (?, ?, ?)', [
+        taskId,
+        memberId,
+        index,
+      ]);
+    });
+    this.refreshAssigneeName(taskId);
+  }
+
+  // Recomputes tasks.assignee from the members, e.g. after a member was renamed
+  refreshAssigneeName(taskId: string): void {
+    const rows = this.db.query<{ name: string }>(
+      `SELECT m.name FROM task_assignees ta JOIN members m ON m.id = ta.member_id
+       WHERE ta.task_id = ? ORDER BY ta.sort_order ASC`,
+      [taskId]
+    );
+    const assignee = rows.map((r) => r.name).join(', ') || null;
+    this.db.execute('UPDATE tasks SET assignee = ? WHERE id = ? AND assignee IS NOT ?', [assignee, taskId, assignee]);
+  }
+
   getLabelsForTask(taskId: string): string[] {
     const rows = this.db.query<{ label_id: string }>(
       'SELECT label_id FROM task_labels WHERE task_id = ?',
@@ -279,4 +488,181 @@ export class TaskRepository {
     );
     return rows.map((r) => r.label_id);
   }
+
+  // Tasks that have a value for the field
+  getTasksWithCustomField(fieldId: string): string[] {
+    const rows = this.db.query<{ task_id: string }>('SELECT task_id FROM task_field_values WHERE field_id = ?', [
+      fieldId,
+    ]);
+    return rows.map((r) => r.task_id);
+  }
+
+  getCustomFieldValues(taskId: string): CustomFieldValues {
+    const rows = this.db.query<{ field_id: string; value: string }>(
+      'SELECT field_id, value FROM task_field_values WHERE task_id = ?',
+      [taskId]
+    );
+    return Object.fromEntries(rows.map((r) => [r.field_id, JSON.parse(r.value) as CustomFieldValue]));
+  }
+
+  /**
+   * Sets the listed custom field values of a task (null clears one) and records the changes
+   * as 'customFields.<field ID>' updates.
+   */
+  setCustomFieldValues(taskId: string, values: Record<string, CustomFieldValue | null>): void {
+    const previous = this.getCustomFieldValues(taskId);
+    const changes: TaskEventInput[] = [];
+    for (const [fieldId, value] of Object.entries(values)) {
+      const oldValue = fieldId in previous ? JSON.stringify(previous[fieldId]) : null;
+      const newValue = value === null ? null : JSON.stringify(value);
+      if (oldValue === newValue) {
+        continue;
+      }
+      if (newValue === null) {
+        this.db.execute('DELETE FROM task_field_values WHERE task_id = ? AND field_id = ?', [taskId, fieldId]);
+      } else {
+        this.db.execute('INSERT OR REPLACE INTO task_field_values (task_id, field_id, value) VALUES (?, ?, ?)', [
+          taskId,
+          fieldId,
+          newValue,
+        ]);
+      }
+      changes.push({ eventType: 'updated', field: `customFields.${fieldId}`, oldValue, newValue });
+    }
+    if (changes.length > 0) {
+      this.events?.record(taskId, changes);
+    }
+  }
+
+  // Text storage: one file per task
+
+  exportDocuments(): TaskDocument[] {
+    const labelRows = this.db.query<{ task_id: string; label_id: string }>(
+      'SELECT task_id, label_id FROM task_labels ORDER BY label_id ASC'
+    );
+    const labelIdsByTask = new Map<string, string[]>();
+    for (const row of labelRows) {
+      const labelIds = labelIdsByTask.get(row.task_id) ?? [];
+      labelIds.push(row.label_id);
+      labelIdsByTask.set(row.task_id, labelIds);
+    }
+
+    const assigneeRows = this.db.query<{ task_id: string; member_id: string }>(
+      'SELECT task_id, member_id FROM task_assignees ORDER BY sort_order ASC'
+    );
+    const assigneeIdsByTask = new Map<string, string[]>();
+    for (const row of assigneeRows) {
+      assigneeIdsByTask.set(row.task_id, [...(assigneeIdsByTask.get(row.task_id) ?? []), row.member_id]);
+    }
+
+    const valueRows = this.db.query<{ task_id: string; field_id: string; value: string }>(
+      'SELECT task_id, field_id, value FROM task_field_values ORDER BY field_id ASC'
+    );
+    const valuesByTask = new Map<string, CustomFieldValues>();
+    for (const row of valueRows) {
+      valuesByTask.set(row.task_id, {
+        ...valuesByTask.get(row.task_id),
+        [row.field_id]: JSON.parse(row.value) as CustomFieldValue,
+      });
+    }
+
+    return this.findAll().map((task) => ({
+      ...task,
+      labelIds: labelIdsByTask.get(task.id) ?? [],
+      assigneeIds: assigneeIdsByTask.get(task.id) ?? [],
+      customFields: valuesByTask.get(task.id) ?? {},
+    }));
+  }
+
+  exportDocument(id: string): TaskDocument | null {
+    const task = this.findById(id);
+    if (!task) {
+      return null;
+    }
+
+    const labelRows = this.db.query<{ label_id: string }>(
+      'SELECT label_id FROM task_labels WHERE task_id = ? ORDER BY label_id ASC',
+      [id]
+    );
+    const valueRows = this.db.query<{ field_id: string; value: string }>(
+      'SELECT field_id, value FROM task_field_values WHERE task_id = ? ORDER BY field_id ASC',
+      [id]
+    );
+    return {
+      ...task,
+      labelIds: labelRows.map((row) => row.label_id),
+      assigneeIds: this.getAssigneesForTask(id),
+      customFields: Object.fromEntries(
+        valueRows.map((row) => [row.field_id, JSON.parse(row.value) as CustomFieldValue])
+      ),
+    };
+  }
+
+  importDocument(document: TaskDocument): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO tasks (
+        id, project_id, title, description, status, priority,
+        due_date, start_date, assignee, estimated_hours,
+        progress, parent_id, sort_order, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.projectId ?? null,
+        document.title,
+        document.description ?? null,
+        document.status ??
+          this.columns.findFirstOfCategory('not_started', document.projectId ?? null).id,
+        document.priority ?? 2,
+        document.dueDate ?? null,
+        document.startDate ?? null,
+        document.assignee ?? null,
+        document.estimatedHours ?? null,
+        document.progress ?? 0,
+        document.parentId ?? null,
+        document.sortOrder ?? 0,
+        document.createdAt,
+        document.updatedAt,
+      ]
+    );
+
+    this.db.execute('DELETE FROM task_labels WHERE task_id = ?', [document.id]);
+    for (const labelId of document.labelIds ?? []) {
+      this.db.execute('INSERT OR IGNORE INTO task_labels (task_id, label_id) VALUES (?, ?)', [
+        document.id,
+        labelId,
+      ]);
+    }
+
+    this.db.execute('DELETE FROM task_assignees WHERE task_id = ?', [document.id]);
+    (document.assigneeIds ?? this.members.resolveNames(document.assignee)).forEach((memberId, index) => {
+      this.db.execute('INSERT OR IGNORE INTO task_assignees (task_id, member_id, sort_order) VALUES (?, ?, ?)', [
+        document.id,
+        memberId,
+        index,
+      ]);
+    });
+
+    this.db.execute('DELETE FROM task_field_values WHERE task_id = ?', [document.id]);
+    for (const [fieldId, value] of Object.entries(document.customFields ?? {})) {
+      this.db.execute('INSERT INTO task_field_values (task_id, field_id, value) VALUES (?, ?, ?)', [
+        document.id,
+        fieldId,
+        JSON.stringify(value),
+      ]);
+    }
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM task_labels WHERE task_id = ?', [id]);
+    this.db.execute('DELETE FROM task_assignees WHERE task_id = ?', [id]);
+    this.db.execute('DELETE FROM task_field_values WHERE task_id = ?', [id]);
+    this.db.execute('DELETE FROM tasks WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM task_labels');
+    this.db.execute('DELETE FROM task_assignees');
+    this.db.execute('DELETE FROM task_field_values');
+    this.db.execute('DELETE FROM tasks');
+  }
 }
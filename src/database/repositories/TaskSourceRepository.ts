@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { TaskSource } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type TaskSourceRow = {
+  id: string;
+  task_id: string;
+  workspace_folder: string | null;
+  file_path: string;
+  line: number;
+  tag: string;
+  text: string;
+  created_at: string;
+  updated_at: string;
+};
+
+function rowToTaskSource(row: TaskSourceRow): TaskSource {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    workspaceFolder: row.workspace_folder,
+    filePath: row.file_path,
+    line: row.line,
+    tag: row.tag,
+    text: row.text,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class TaskSourceRepository implements StorableRepository<TaskSource> {
+  readonly storageFolder = 'task-sources';
+  readonly storageTables = { task_sources: 'id' };
+
+  constructor(private db: DatabaseManager) {}
+
+  findAll(): TaskSource[] {
+    const rows = this.db.query<TaskSourceRow>('SELECT * FROM task_sources');
+    return rows.map(rowToTaskSource);
+  }
+
+  findByTask(taskId: string): TaskSource | null {
+    const row = this.db.queryOne<TaskSourceRow>('SELECT * FROM task_sources WHERE task_id = ?', [taskId]);
+    return row ? rowToTaskSource(row) : null;
+  }
+
+  // Links a task to a comment, replacing its previous location
+  setSource(taskId: string, comment: Pick<TaskSource, 'workspaceFolder' | 'filePath' | 'line' | 'tag' | 'text'>): void {
+    const existing = this.findByTask(taskId);
+    const now = new Date().toISOString();
+    if (existing) {
+      this.db.execute(
+        'UPDATE task_sources SET workspace_folder = ?, file_path = ?, line = ?, tag = ?, text = ?, updated_at = ? WHERE id = ?',
+        [comment.workspaceFolder, comment.filePath, comment.line, comment.tag, comment.text, now, existing.id]
+      );
+    } else {
+      this.db.execute(
+        `INSERT INTO task_sources (id, task_id, workspace_folder, file_path, line, tag, text, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), taskId, comment.workspaceFolder, comment.filePath, comment.line, comment.tag, comment.text, now, now]
+      );
+    }
+  }
+
+  deleteByTask(taskId: string): void {
+    this.db.execute('DELETE FROM task_sources WHERE task_id = ?', [taskId]);
+  }
+
+  // Text storage: one file per source
+
+  exportDocuments(): TaskSource[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): TaskSource | null {
+    const row = this.db.queryOne<TaskSourceRow>('SELECT * FROM task_sources WHERE id = ?', [id]);
+    return row ? rowToTaskSource(row) : null;
+  }
+
+  importDocument(document: TaskSource): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO task_sources (id, task_id, workspace_folder, file_path, line, tag, text, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.taskId,
+        document.workspaceFolder ?? null,
+        document.filePath,
+        document.line,
+        document.tag,
+        document.text,
+        document.createdAt,
+        document.updatedAt ?? document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM task_sources WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM task_sources');
+  }
+}
@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DatabaseManager } from '../DatabaseManager';
+import type { TimeEntry, CreateTimeEntryDto, UpdateTimeEntryDto } from '../../models/types';
+import type { StorableRepository } from './StorableRepository';
+
+type TimeEntryRow = {
+  id: string;
+  task_id: string;
+  started_at: string;
+  ended_at: string | null;
+  note: string | null;
+  author: string | null;
+  created_at: string;
+};
+
+function rowToTimeEntry(row: TimeEntryRow): TimeEntry {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    note: row.note,
+    author: row.author,
+    createdAt: row.created_at,
+  };
+}
+
+export class TimeEntryRepository implements StorableRepository<TimeEntry> {
+  readonly storageFolder = 'time-entries';
+  readonly storageTables = { time_entries: 'id' };
+
+  constructor(
+    private db: DatabaseManager,
+    private getAuthor: () => string | null = () => null
+  ) {}
+
+  findAll(): TimeEntry[] {
+    const rows = this.db.query<TimeEntryRow>('SELECT * FROM time_entries ORDER BY started_at ASC');
+    return rows.map(rowToTimeEntry);
+  }
+
+  findById(id: string): TimeEntry | null {
+    const row = this.db.queryOne<TimeEntryRow>('SELECT * FROM time_entries WHERE id = ?', [id]);
+    return row ? rowToTimeEntry(row) : null;
+  }
+
+  // Newest first, like a log
+  findByTask(taskId: string): TimeEntry[] {
+    const rows = this.db.query<TimeEntryRow>(
+      'SELECT * FROM time_entries WHERE task_id = ? ORDER BY started_at DESC, rowid DESC',
+      [taskId]
+    );
+    return rows.map(rowToTimeEntry);
+  }
+
+  // The current author's running timer; each author has at most one
+  findRunning(): TimeEntry | null {
+    const row = this.db.queryOne<TimeEntryRow>(
+      'SELECT * FROM time_entries WHERE ended_at IS NULL AND author IS ? ORDER BY started_at DESC',
+      [this.getAuthor()]
+    );
+    return row ? rowToTimeEntry(row) : null;
+  }
+
+  // Logged hours of a task, counting finished entries only
+  sumHours(taskId: string): number {
+    const row = this.db.queryOne<{ hours: number | null }>(
+      `SELECT SUM((julianday(ended_at) - julianday(started_at)) * 24) AS hours
+       FROM time_entries WHERE task_id = ? AND ended_at IS NOT NULL`,
+      [taskId]
+    );
+    return row?.hours ?? 0;
+  }
+
+  create(dto: CreateTimeEntryDto): TimeEntry {
+    const id = uuidv4();
+
+    this.db.execute(
+      `INSERT INTO time_entries (id, task_id, started_at, ended_at, note, author, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, dto.taskId, dto.startedAt, dto.endedAt, dto.note ?? null, this.getAuthor(), new Date().toISOString()]
+    );
+
+    return this.findById(id)!;
+  }
+
+  start(taskId: string, startedAt: string): TimeEntry {
+    const id = uuidv4();
+
+    this.db.execute(
+      `INSERT INTO time_entries (id, task_id, started_at, ended_at, note, author, created_at)
+       VALUES (?, ?, ?, NULL, NULL, ?, ?)`,
+      [id, taskId, startedAt, this.getAuthor(), startedAt]
+    );
+
+    return this.findById(id)!;
+  }
+
+  update(id: string, dto: UpdateTimeEntryDto): TimeEntry | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (dto.startedAt !== undefined) {
+      updates.push('started_at = ?');
+      params.push(dto.startedAt);
+    }
+    if (dto.endedAt !== undefined) {
+      updates.push('ended_at = ?');
+      params.push(dto.endedAt);
+    }
+    if (dto.note !== undefined) {
+      updates.push('note = ?');
+      params.push(dto.note || null);
+    }
+
+    if (updates.length > 0) {
+      params.push(id);
+      this.db.execute(`UPDATE time_entries SET ${updates.join(', ')} WHERE id = ?`, params);
+    }
+
+    return this.findById(id);
+  }
+
+  delete(id: string): boolean {
+    const existing = this.findById(id);
+    if (!existing) {
+      return false;
+    }
+    this.db.execute('DELETE FROM time_entries WHERE id = ?', [id]);
+    return true;
+  }
+
+  deleteByTask(taskId: string): void {
+    this.db.execute('DELETE FROM time_entries WHERE task_id = ?', [taskId]);
+  }
+
+  // Text storage: one file per entry
+
+  exportDocuments(): TimeEntry[] {
+    return this.findAll();
+  }
+
+  exportDocument(id: string): TimeEntry | null {
+    return this.findById(id);
+  }
+
+  importDocument(document: TimeEntry): void {
+    this.db.execute(
+      `INSERT OR REPLACE INTO time_entries (id, task_id, started_at, ended_at, note, author, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        document.id,
+        document.taskId,
+        document.startedAt,
+        document.endedAt ?? null,
+        document.note ?? null,
+        document.author ?? null,
+        document.createdAt,
+      ]
+    );
+  }
+
+  removeDocument(id: string): void {
+    this.db.execute('DELETE FROM time_entries WHERE id = ?', [id]);
+  }
+
+  clearDocuments(): void {
+    this.db.execute('DELETE FROM time_entries');
+  }
+}
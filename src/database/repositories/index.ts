@@ -2,3 +2,15 @@ export { TaskRepository } from './TaskRepository';
 export { LabelRepository } from './LabelRepository';
 export { DependencyRepository } from './DependencyRepository';
 export { ProjectRepository } from './ProjectRepository';
+export { KanbanColumnRepository } from './KanbanColumnRepository';
+export { TaskEventRepository } from './TaskEventRepository';
+export type { TaskEventInput } from './TaskEventRepository';
+export { TaskCommentRepository } from './TaskCommentRepository';
+export { TaskRecurrenceRepository } from './TaskRecurrenceRepository';
+export { TaskReminderRepository } from './TaskReminderRepository';
+export { TimeEntryRepository } from './TimeEntryRepository';
+export { MemberRepository } from './MemberRepository';
+export { TaskSourceRepository } from './TaskSourceRepository';
+export { CustomFieldRepository } from './CustomFieldRepository';
+export { SavedViewRepository } from './SavedViewRepository';
+export type { StorableRepository, StoredDocument } from './StorableRepository';
@@ -2,7 +2,9 @@ import * as vscode from 'vscode';
 import { DatabaseManager } from './database/DatabaseManager';
 import { TaskSchedullerPanelProvider } from './providers/TaskSchedullerPanelProvider';
 import { SidebarViewProvider } from './providers/SidebarViewProvider';
+import { TimerStatusBar } from './providers/TimerStatusBar';
 import { registerCommands } from './commands';
+import { registerReminders } from './reminders';
 
 let databaseManager: DatabaseManager | undefined;
 let panelProvider: TaskSchedullerPanelProvider | undefined;
@@ -36,7 +38,40 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     // Register commands
-    registerCommands(context, panelProvider);
+    registerCommands(context, panelProvider, databaseManager);
+
+    // Notify about tasks that are due soon or overdue
+    registerReminders(context, panelProvider, databaseManager);
+
+    // Show the running timer in the status bar
+    context.subscriptions.push(new TimerStatusBar(panelProvider));
+
+    // Switch databases when the storage scope or format changes
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(async (e) => {
+        if (
+          !databaseManager ||
+          (!e.affectsConfiguration('taskScheduller.storageScope') &&
+            !e.affectsConfiguration('taskScheduller.repositoryDatabasePath') &&
+            !e.affectsConfiguration('taskScheduller.storageFormat'))
+        ) {
+          return;
+        }
+        try {
+          const previousPath = databaseManager.databasePath;
+          await databaseManager.reinitialize();
+          if (databaseManager.databasePath !== previousPath) {
+            vscode.window.showInformationMessage(
+              vscode.l10n.t('message.storageScopeChanged', databaseManager.databasePath)
+            );
+          }
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            vscode.l10n.t('error.dbInit') + ': ' + (error as Error).message
+          );
+        }
+      })
+    );
 
     console.log('TaskScheduller extension activated successfully');
   } catch (error) {
@@ -4,14 +4,31 @@ import type {
   Dependency,
   Project,
   KanbanColumn,
+  WipLimitMode,
   CreateTaskDto,
   UpdateTaskDto,
   CreateLabelDto,
   CreateDependencyDto,
+  UpdateDependencyDto,
   CreateKanbanColumnDto,
   UpdateKanbanColumnDto,
   TaskFilter,
   TaskStatus,
+  CriticalPathResult,
+  TaskEvent,
+  TaskComment,
+  TimeEntry,
+  Member,
+  CreateMemberDto,
+  UpdateMemberDto,
+  CustomField,
+  CreateCustomFieldDto,
+  UpdateCustomFieldDto,
+  SavedView,
+  CreateSavedViewDto,
+  UpdateSavedViewDto,
+  CreateTimeEntryDto,
+  UpdateTimeEntryDto,
 } from './types';
 
 // Base message interface
@@ -32,6 +49,7 @@ export type ExtensionToWebviewMessage =
   | LabelsLoadedMessage
   | LabelCreatedMessage
   | DependencyCreatedMessage
+  | DependencyUpdatedMessage
   | DependencyDeletedMessage
   | DataImportedMessage
   | ErrorMessage
@@ -40,13 +58,29 @@ export type ExtensionToWebviewMessage =
   | KanbanColumnCreatedMessage
   | KanbanColumnUpdatedMessage
   | KanbanColumnDeletedMessage
-  | KanbanColumnsReorderedMessage;
+  | KanbanColumnsReorderedMessage
+  | TasksRescheduledMessage
+  | TasksUpdatedMessage
+  | CriticalPathLoadedMessage
+  | HistoryStateMessage
+  | ColumnTaskCountsMessage
+  | TaskEventsLoadedMessage
+  | TaskCommentsLoadedMessage
+  | TaskCommentCreatedMessage
+  | TaskCommentUpdatedMessage
+  | TaskCommentDeletedMessage
+  | TimeEntriesLoadedMessage
+  | TimerStateMessage
+  | MembersLoadedMessage;
 
 export interface TasksLoadedMessage extends BaseMessage {
   type: 'TASKS_LOADED';
   payload: {
     tasks: Task[];
     labels: Label[];
+    members: Member[];
+    customFields: CustomField[]; // every field; the webview picks those of a task's project
+    savedViews: SavedView[];
     dependencies: Dependency[];
     projects: Project[];
   };
@@ -67,9 +101,92 @@ export interface TaskDeletedMessage extends BaseMessage {
   payload: { taskId: string };
 }
 
+export interface TasksRescheduledMessage extends BaseMessage {
+  type: 'TASKS_RESCHEDULED';
+  payload: { tasks: Task[] };
+}
+
+// Parent tasks whose rolled-up dates or progress may have changed
+export interface TasksUpdatedMessage extends BaseMessage {
+  type: 'TASKS_UPDATED';
+  payload: { tasks: Task[] };
+}
+
+export interface CriticalPathLoadedMessage extends BaseMessage {
+  type: 'CRITICAL_PATH_LOADED';
+  payload: CriticalPathResult;
+}
+
+export interface HistoryStateMessage extends BaseMessage {
+  type: 'HISTORY_STATE';
+  payload: {
+    canUndo: boolean;
+    canRedo: boolean;
+  };
+}
+
+export interface ColumnTaskCountsMessage extends BaseMessage {
+  type: 'COLUMN_TASK_COUNTS';
+  payload: {
+    counts: Record<string, number>; // tasks per column (status) across all projects, as the WIP limit counts them
+  };
+}
+
+export interface TaskEventsLoadedMessage extends BaseMessage {
+  type: 'TASK_EVENTS_LOADED';
+  payload: {
+    taskId: string;
+    events: TaskEvent[];
+  };
+}
+
 export interface LabelsLoadedMessage extends BaseMessage {
   type: 'LABELS_LOADED';
-  payload: { labels: Label[] };
+  // usage: number of tasks per label ID
+  payload: { labels: Label[]; usage: Record<string, number> };
+}
+
+export interface TaskCommentsLoadedMessage extends BaseMessage {
+  type: 'TASK_COMMENTS_LOADED';
+  payload: {
+    taskId: string;
+    comments: TaskComment[];
+  };
+}
+
+export interface TaskCommentCreatedMessage extends BaseMessage {
+  type: 'TASK_COMMENT_CREATED';
+  payload: { comment: TaskComment };
+}
+
+export interface TaskCommentUpdatedMessage extends BaseMessage {
+  type: 'TASK_COMMENT_UPDATED';
+  payload: { comment: TaskComment };
+}
+
+export interface TaskCommentDeletedMessage extends BaseMessage {
+  type: 'TASK_COMMENT_DELETED';
+  payload: { commentId: string; taskId: string };
+}
+
+export interface TimeEntriesLoadedMessage extends BaseMessage {
+  type: 'TIME_ENTRIES_LOADED';
+  payload: {
+    taskId: string;
+    entries: TimeEntry[];
+  };
+}
+
+// The timer running for the current author (null when stopped)
+export interface TimerStateMessage extends BaseMessage {
+  type: 'TIMER_STATE';
+  payload: { entry: TimeEntry | null };
+}
+
+export interface MembersLoadedMessage extends BaseMessage {
+  type: 'MEMBERS_LOADED';
+  // usage: number of tasks per member ID
+  payload: { members: Member[]; usage: Record<string, number> };
 }
 
 export interface LabelCreatedMessage extends BaseMessage {
@@ -82,6 +199,11 @@ export interface DependencyCreatedMessage extends BaseMessage {
   payload: { dependency: Dependency };
 }
 
+export interface DependencyUpdatedMessage extends BaseMessage {
+  type: 'DEPENDENCY_UPDATED';
+  payload: { dependency: Dependency };
+}
+
 export interface DependencyDeletedMessage extends BaseMessage {
   type: 'DEPENDENCY_DELETED';
   payload: { dependencyId: string };
@@ -93,6 +215,8 @@ export interface ErrorMessage extends BaseMessage {
     code: string;
     message: string;
     requestId?: string;
+    // Tasks involved in a rejected dependency (e.g. the cycle), in order
+    path?: { id: string; title: string }[];
   };
 }
 
@@ -101,7 +225,10 @@ export interface ConfigChangedMessage extends BaseMessage {
   payload: {
     locale: string;
     theme: 'light' | 'dark' | 'high-contrast';
-    defaultView: 'todo' | 'kanban' | 'gantt';
+    defaultView: 'todo' | 'kanban' | 'gantt' | 'calendar' | 'workload';
+    weeklyCapacityHours: number; // for assignees without their own capacity
+    wipLimitMode: WipLimitMode; // when a task is moved into a full Kanban column
+    author: string | null; // who assignee:me stands for in task searches
   };
 }
 
@@ -153,21 +280,53 @@ export type WebviewToExtensionMessage =
   | CreateTaskRequest
   | UpdateTaskRequest
   | DeleteTaskRequest
+  | RescheduleTaskRequest
   | UpdateTaskStatusRequest
   | ReorderTasksRequest
+  | LoadCriticalPathRequest
+  | LoadTaskEventsRequest
   | LoadLabelsRequest
   | CreateLabelRequest
+  | UpdateLabelRequest
+  | MergeLabelsRequest
   | DeleteLabelRequest
   | CreateDependencyRequest
+  | UpdateDependencyRequest
   | DeleteDependencyRequest
+  | LoadTaskCommentsRequest
+  | CreateTaskCommentRequest
+  | UpdateTaskCommentRequest
+  | DeleteTaskCommentRequest
+  | LoadTimeEntriesRequest
+  | CreateTimeEntryRequest
+  | UpdateTimeEntryRequest
+  | DeleteTimeEntryRequest
+  | StartTimerRequest
+  | StopTimerRequest
+  | LoadMembersRequest
+  | CreateMemberRequest
+  | UpdateMemberRequest
+  | MergeMembersRequest
+  | DeleteMemberRequest
+  | CreateCustomFieldRequest
+  | UpdateCustomFieldRequest
+  | DeleteCustomFieldRequest
+  | CreateSavedViewRequest
+  | UpdateSavedViewRequest
+  | DeleteSavedViewRequest
+  | OpenSavedViewRequest
   | ExportDataRequest
   | ImportDataRequest
+  | ScanTodoCommentsRequest
+  | OpenTaskSourceRequest
   | WebviewReadyMessage
   | LoadKanbanColumnsRequest
   | CreateKanbanColumnRequest
   | UpdateKanbanColumnRequest
   | DeleteKanbanColumnRequest
-  | ReorderKanbanColumnsRequest;
+  | ReorderKanbanColumnsRequest
+  | UndoRequest
+  | RedoRequest;
 
 export interface LoadTasksRequest extends BaseMessage {
   type: 'LOAD_TASKS';
@@ -194,6 +353,16 @@ export interface DeleteTaskRequest extends BaseMessage {
   payload: { taskId: string };
 }
 
+export interface RescheduleTaskRequest extends BaseMessage {
+  type: 'RESCHEDULE_TASK';
+  payload: {
+    taskId: string;
+    startDate?: string | null;
+    dueDate?: string | null;
+    assigneeIds?: string[];
+  };
+}
+
 export interface UpdateTaskStatusRequest extends BaseMessage {
   type: 'UPDATE_TASK_STATUS';
   payload: {
@@ -210,6 +379,17 @@ export interface ReorderTasksRequest extends BaseMessage {
   };
 }
 
+export interface LoadCriticalPathRequest extends BaseMessage {
+  type: 'LOAD_CRITICAL_PATH';
+}
+
+export interface LoadTaskEventsRequest extends BaseMessage {
+  type: 'LOAD_TASK_EVENTS';
+  payload: {
+    taskId: string;
+  };
+}
+
 export interface LoadLabelsRequest extends BaseMessage {
   type: 'LOAD_LABELS';
 }
@@ -219,6 +399,16 @@ export interface CreateLabelRequest extends BaseMessage {
   payload: CreateLabelDto;
 }
 
+export interface UpdateLabelRequest extends BaseMessage {
+  type: 'UPDATE_LABEL';
+  payload: { labelId: string; updates: Partial<CreateLabelDto> };
+}
+
+export interface MergeLabelsRequest extends BaseMessage {
+  type: 'MERGE_LABELS';
+  payload: { sourceLabelId: string; targetLabelId: string };
+}
+
 export interface DeleteLabelRequest extends BaseMessage {
   type: 'DELETE_LABEL';
   payload: { labelId: string };
@@ -229,16 +419,134 @@ export interface CreateDependencyRequest extends BaseMessage {
   payload: CreateDependencyDto;
 }
 
+export interface UpdateDependencyRequest extends BaseMessage {
+  type: 'UPDATE_DEPENDENCY';
+  payload: {
+    dependencyId: string;
+    updates: UpdateDependencyDto;
+  };
+}
+
 export interface DeleteDependencyRequest extends BaseMessage {
   type: 'DELETE_DEPENDENCY';
   payload: { dependencyId: string };
 }
 
+export interface LoadTaskCommentsRequest extends BaseMessage {
+  type: 'LOAD_TASK_COMMENTS';
+  payload: { taskId: string };
+}
+
+export interface CreateTaskCommentRequest extends BaseMessage {
+  type: 'CREATE_TASK_COMMENT';
+  payload: { taskId: string; body: string };
+}
+
+export interface UpdateTaskCommentRequest extends BaseMessage {
+  type: 'UPDATE_TASK_COMMENT';
+  payload: { commentId: string; body: string };
+}
+
+export interface DeleteTaskCommentRequest extends BaseMessage {
+  type: 'DELETE_TASK_COMMENT';
+  payload: { commentId: string };
+}
+
+export interface LoadTimeEntriesRequest extends BaseMessage {
+  type: 'LOAD_TIME_ENTRIES';
+  payload: { taskId: string };
+}
+
+export interface CreateTimeEntryRequest extends BaseMessage {
+  type: 'CREATE_TIME_ENTRY';
+  payload: CreateTimeEntryDto;
+}
+
+export interface UpdateTimeEntryRequest extends BaseMessage {
+  type: 'UPDATE_TIME_ENTRY';
+  payload: { entryId: string; updates: UpdateTimeEntryDto };
+}
+
+export interface DeleteTimeEntryRequest extends BaseMessage {
+  type: 'DELETE_TIME_ENTRY';
+  payload: { entryId: string };
+}
+
+export interface StartTimerRequest extends BaseMessage {
+  type: 'START_TIMER';
+  payload: { taskId: string };
+}
+
+export interface StopTimerRequest extends BaseMessage {
+  type: 'STOP_TIMER';
+}
+
+export interface LoadMembersRequest extends BaseMessage {
+  type: 'LOAD_MEMBERS';
+}
+
+export interface CreateMemberRequest extends BaseMessage {
+  type: 'CREATE_MEMBER';
+  payload: CreateMemberDto;
+}
+
+export interface UpdateMemberRequest extends BaseMessage {
+  type: 'UPDATE_MEMBER';
+  payload: { memberId: string; updates: UpdateMemberDto };
+}
+
+export interface MergeMembersRequest extends BaseMessage {
+  type: 'MERGE_MEMBERS';
+  payload: { sourceMemberId: string; targetMemberId: string };
+}
+
+export interface DeleteMemberRequest extends BaseMessage {
+  type: 'DELETE_MEMBER';
+  payload: { memberId: string };
+}
+
+export interface CreateCustomFieldRequest extends BaseMessage {
+  type: 'CREATE_CUSTOM_FIELD';
+  payload: CreateCustomFieldDto;
+}
+
+export interface UpdateCustomFieldRequest extends BaseMessage {
+  type: 'UPDATE_CUSTOM_FIELD';
+  payload: { fieldId: string; updates: UpdateCustomFieldDto };
+}
+
+export interface DeleteCustomFieldRequest extends BaseMessage {
+  type: 'DELETE_CUSTOM_FIELD';
+  payload: { fieldId: string };
+}
+
+export interface CreateSavedViewRequest extends BaseMessage {
+  type: 'CREATE_SAVED_VIEW';
+  payload: CreateSavedViewDto;
+}
+
+export interface UpdateSavedViewRequest extends BaseMessage {
+  type: 'UPDATE_SAVED_VIEW';
+  payload: { viewId: string; updates: UpdateSavedViewDto };
+}
+
+export interface DeleteSavedViewRequest extends BaseMessage {
+  type: 'DELETE_SAVED_VIEW';
+  payload: { viewId: string };
+}
+
+// Switches to the project of the view and applies it (sent back as the APPLY_SAVED_VIEW command)
+export interface OpenSavedViewRequest extends BaseMessage {
+  type: 'OPEN_SAVED_VIEW';
+  payload: { viewId: string };
+}
+
 export interface ExportDataRequest extends BaseMessage {
   type: 'EXPORT_DATA';
   payload: {
     format: 'json' | 'csv';
     projectId?: string; // undefined = all data
+    timeEntries?: boolean; // csv only: export the time log instead of the tasks
   };
 }
 
@@ -246,6 +554,16 @@ export interface ImportDataRequest extends BaseMessage {
   type: 'IMPORT_DATA';
 }
 
+export interface ScanTodoCommentsRequest extends BaseMessage {
+  type: 'SCAN_TODO_COMMENTS';
+}
+
+// Opens the file and line of the comment a task was scanned from
+export interface OpenTaskSourceRequest extends BaseMessage {
+  type: 'OPEN_TASK_SOURCE';
+  payload: { taskId: string };
+}
+
 export interface WebviewReadyMessage extends BaseMessage {
   type: 'WEBVIEW_READY';
 }
@@ -283,6 +601,14 @@ export interface ReorderKanbanColumnsRequest extends BaseMessage {
   };
 }
 
+export interface UndoRequest extends BaseMessage {
+  type: 'UNDO';
+}
+
+export interface RedoRequest extends BaseMessage {
+  type: 'REDO';
+}
+
 // ============================================
 // Helper functions
 // ============================================
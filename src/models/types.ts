@@ -1,3 +1,5 @@
+import type { TaskQueryTerm } from '../shared/taskQuery';
+
 // Task Status - dynamic status supporting custom columns
 export type TaskStatus = string;
 
@@ -38,7 +40,7 @@ export interface Task {
   priority: Priority;
   dueDate: string | null; // ISO 8601
   startDate: string | null; // ISO 8601
-  assignee: string | null;
+  assignee: string | null; // names of the assigned members, comma-separated
   estimatedHours: number | null;
   progress: number; // 0-100
   parentId: string | null;
@@ -46,7 +48,12 @@ export interface Task {
   createdAt: string;
   updatedAt: string;
   // Joined data
+  assigneeIds?: string[]; // member IDs, primary assignee first
   labels?: Label[];
+  recurrenceRule?: string | null; // RRULE subset, see shared/recurrence.ts
+  actualHours?: number; // sum of finished time entries
+  source?: TaskSource | null; // code comment the task was scanned from
+  customFields?: CustomFieldValues;
   subtasks?: Task[];
   dependencies?: Dependency[];
 }
@@ -72,6 +79,177 @@ export interface Dependency {
   successorTask?: Task;
 }
 
+// Task change history (audit log)
+export type TaskEventType =
+  | 'created'
+  | 'deleted'
+  | 'updated'
+  | 'labels_changed'
+  | 'dependency_added'
+  | 'dependency_updated'
+  | 'dependency_removed';
+
+// A single recorded change of a task. For 'updated' events `field` is the changed task field;
+// label and dependency events store their values as JSON (label IDs / dependency snapshot).
+// Events outlive their task; a 'deleted' event with the old title ends the history of a deleted task.
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  eventType: TaskEventType;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  author: string | null;
+  createdAt: string;
+}
+
+// Comment on a task (body is markdown)
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  body: string;
+  author: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Recurrence rule of a task (RRULE subset: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL)
+export interface TaskRecurrence {
+  id: string;
+  taskId: string;
+  rule: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Due date reminder state of a task: the last reminder shown and its snooze
+export type ReminderKind = 'due_soon' | 'overdue';
+
+export interface TaskReminder {
+  id: string;
+  taskId: string;
+  kind: ReminderKind;
+  dueDate: string; // due date the reminder was shown for
+  notifiedAt: string;
+  snoozedUntil: string | null;
+}
+
+// Code comment (TODO, FIXME...) a task was created from by the workspace scanner
+export interface TaskSource {
+  id: string;
+  taskId: string;
+  workspaceFolder: string | null; // URI of the workspace folder; null when scanned before folders were recorded
+  filePath: string; // relative to the workspace folder, prefixed with its name in multi-root workspaces
+  line: number; // 1-based
+  tag: string;
+  text: string; // comment text at the last scan
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A TODO comment as found in a file
+export type TodoComment = Pick<TaskSource, 'filePath' | 'line' | 'tag' | 'text'>;
+
+export interface ScannedComment extends TodoComment {
+  workspaceFolder: string; // URI of the workspace folder of the file
+}
+
+// Comments found by a workspace scan
+export interface TodoScan {
+  workspaceFolders: string[]; // URIs of the scanned folders; only their sources are synced
+  comments: ScannedComment[];
+  // Files that were found but not read (too large or unreadable); the tasks of their comments are kept
+  skippedFiles: Pick<ScannedComment, 'workspaceFolder' | 'filePath'>[];
+  complete: boolean; // false when the file limit was reached; no tasks are closed then
+}
+
+export interface TodoScanResult {
+  created: number;
+  updated: number;
+  closed: number;
+}
+
+// Time worked on a task; endedAt is null while the timer is running
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  startedAt: string; // ISO 8601
+  endedAt: string | null;
+  note: string | null;
+  author: string | null;
+  createdAt: string;
+}
+
+// Team member tasks are assigned to
+export interface Member {
+  id: string;
+  name: string; // unique, case-insensitive
+  email: string | null;
+  color: string; // HEX avatar color
+  weeklyHours: number | null; // workload capacity; null = taskScheduller.workload.weeklyCapacityHours
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Type of a custom field and the value it holds: text, url and single-select hold a string,
+// date a YYYY-MM-DD string, number a number, multi-select the chosen options and checkbox a boolean
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'checkbox' | 'url';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'multi_select', 'checkbox', 'url'];
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Values of a task by custom field ID; unset fields are left out
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Field teams add to tasks, e.g. "Story points" or "Customer"
+export interface CustomField {
+  id: string;
+  projectId: string | null; // null = global (applies to every project)
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // choices of select and multi-select fields
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedViewType = 'todo' | 'kanban' | 'gantt' | 'calendar' | 'workload';
+
+export const SAVED_VIEW_TYPES: SavedViewType[] = ['todo', 'kanban', 'gantt', 'calendar', 'workload'];
+
+// Filter tree, sort, grouping, column widths and zoom of a view; only the webview reads them
+export type SavedViewState = Record<string, unknown>;
+
+// Named view shared through the database, opened from the panel header or by name
+export interface SavedView {
+  id: string;
+  name: string;
+  viewType: SavedViewType;
+  projectId: string | null; // null = All Tasks
+  state: SavedViewState;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Critical path analysis for a single task (dates as YYYY-MM-DD, floats in days)
+export interface TaskScheduleAnalysis {
+  taskId: string;
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number;
+  freeFloat: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  tasks: TaskScheduleAnalysis[];
+  criticalDependencyIds: string[];
+}
+
 // DTOs for creating/updating
 export interface CreateProjectDto {
   name: string;
@@ -93,8 +271,14 @@ export interface CreateTaskDto {
   startDate?: string | null;
   assignee?: string | null;
   estimatedHours?: number | null;
-  parentId?: string;
+  progress?: number;
+  parentId?: string | null;
   labelIds?: string[];
+  // Assigned members; when left out, a free-text assignee is matched to members by name
+  assigneeIds?: string[];
+  recurrenceRule?: string | null; // null removes the rule
+  // Only the listed fields change; null clears a value
+  customFields?: Record<string, CustomFieldValue | null>;
 }
 
 export interface UpdateTaskDto extends Partial<CreateTaskDto> {
@@ -102,6 +286,56 @@ export interface UpdateTaskDto extends Partial<CreateTaskDto> {
   sortOrder?: number;
 }
 
+export interface CreateMemberDto {
+  name: string;
+  email?: string | null;
+  color?: string;
+  weeklyHours?: number | null;
+}
+
+export type UpdateMemberDto = Partial<CreateMemberDto>;
+
+export interface CreateCustomFieldDto {
+  name: string;
+  type: CustomFieldType;
+  projectId?: string | null;
+  options?: string[];
+}
+
+// The type is fixed once values were entered
+export interface UpdateCustomFieldDto {
+  name?: string;
+  options?: string[];
+}
+
+export interface CreateSavedViewDto {
+  name: string;
+  viewType: SavedViewType;
+  projectId?: string | null;
+  state: SavedViewState;
+}
+
+// Saving the current view again overwrites its type, project and state
+export interface UpdateSavedViewDto {
+  name?: string;
+  viewType?: SavedViewType;
+  projectId?: string | null;
+  state?: SavedViewState;
+}
+
+export interface CreateTimeEntryDto {
+  taskId: string;
+  startedAt: string;
+  endedAt: string;
+  note?: string | null;
+}
+
+export interface UpdateTimeEntryDto {
+  startedAt?: string;
+  endedAt?: string;
+  note?: string | null;
+}
+
 export interface CreateLabelDto {
   name: string;
   color: string;
@@ -114,6 +348,31 @@ export interface CreateDependencyDto {
   lagDays?: number;
 }
 
+export interface UpdateDependencyDto {
+  dependencyType?: DependencyType;
+  lagDays?: number; // negative values are leads
+}
+
+// Workflow rule of a Kanban column, evaluated when a task enters the column
+export type ColumnRule =
+  | { type: 'setProgress'; progress: number }
+  | { type: 'stampStartDate' } // today, unless the task already has a start date
+  | { type: 'clearAssignee' }
+  | { type: 'addLabel'; labelId: string }
+  | { type: 'removeLabel'; labelId: string }
+  | { type: 'requireSubtasksDone' } // blocks entry while a subtask is not done
+  | { type: 'requirePredecessorsDone' }; // blocks entry while a predecessor is not done
+
+export type ColumnRuleType = ColumnRule['type'];
+
+// Kind of state a column stands for; completion, overdue and "show completed" logic go by it
+export type ColumnCategory = 'not_started' | 'active' | 'blocked' | 'completed' | 'cancelled';
+
+export const COLUMN_CATEGORIES: ColumnCategory[] = ['not_started', 'active', 'blocked', 'completed', 'cancelled'];
+
+// Tasks in these columns are finished: never overdue, and hidden unless completed tasks are shown
+export const FINISHED_CATEGORIES: ColumnCategory[] = ['completed', 'cancelled'];
+
 // KanbanColumn entity
 export interface KanbanColumn {
   id: string;
@@ -122,20 +381,32 @@ export interface KanbanColumn {
   color: string; // Tailwind color class (e.g., 'bg-blue-500')
   sortOrder: number;
   isDefault: boolean;
+  wipLimit: number | null; // maximum number of tasks, null = no limit
+  rules: ColumnRule[];
+  category: ColumnCategory;
   createdAt: string;
   updatedAt: string;
 }
 
+// What happens when a task is moved into a Kanban column at its WIP limit
+export type WipLimitMode = 'warn' | 'enforce';
+
 export interface CreateKanbanColumnDto {
   projectId?: string | null; // null or undefined = global
   name: string;
   color: string;
+  wipLimit?: number | null;
+  rules?: ColumnRule[];
+  category?: ColumnCategory;
 }
 
 export interface UpdateKanbanColumnDto {
   name?: string;
   color?: string;
   sortOrder?: number;
+  wipLimit?: number | null;
+  rules?: ColumnRule[];
+  category?: ColumnCategory;
 }
 
 // Preset colors for kanban columns
@@ -153,13 +424,21 @@ export const COLUMN_PRESET_COLORS = [
 ] as const;
 
 // Default kanban columns (for initial setup)
-export const DEFAULT_KANBAN_COLUMNS: { id: DefaultTaskStatus; name: string; color: string }[] = [
-  { id: 'todo', name: 'To Do', color: 'bg-blue-500' },
-  { id: 'in_progress', name: 'In Progress', color: 'bg-yellow-500' },
-  { id: 'on_hold', name: 'On Hold', color: 'bg-gray-500' },
-  { id: 'done', name: 'Done', color: 'bg-green-500' },
+export const DEFAULT_KANBAN_COLUMNS: {
+  id: DefaultTaskStatus;
+  name: string;
+  color: string;
+  category: ColumnCategory;
+}[] = [
+  { id: 'todo', name: 'To Do', color: 'bg-blue-500', category: 'not_started' },
+  { id: 'in_progress', name: 'In Progress', color: 'bg-yellow-500', category: 'active' },
+  { id: 'on_hold', name: 'On Hold', color: 'bg-gray-500', category: 'blocked' },
+  { id: 'done', name: 'Done', color: 'bg-green-500', category: 'completed' },
 ];
 
+// Categories tasks are moved to on their own (reopened / checked off); the last global column of each cannot go
+export const REQUIRED_CATEGORIES: ColumnCategory[] = ['not_started', 'completed'];
+
 // Priority labels
 export const PRIORITY_LABELS: Record<Priority, string> = {
   1: 'priority.low',
@@ -178,6 +457,7 @@ export interface TaskFilter {
   dueDateFrom?: string;
   dueDateTo?: string;
   searchText?: string;
+  query?: TaskQueryTerm[]; // terms of the task query language, all of which must match
 }
 
 // Export/Import data structure
@@ -190,6 +470,17 @@ export interface ExportData {
   dependencies: Dependency[];
   taskLabels: { taskId: string; labelId: string }[];
   kanbanColumns: KanbanColumn[];
+  taskEvents?: TaskEvent[];
+  taskComments?: TaskComment[];
+  timeEntries?: TimeEntry[];
+  members?: Member[];
+  customFields?: CustomField[];
+  savedViews?: SavedView[];
+}
+
+export interface CsvExportOptions {
+  // Emit the time log (one row per time entry) instead of the task list
+  timeEntries?: boolean;
 }
 
 export interface ImportResult {
@@ -1,16 +1,43 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
+import { execFile } from 'child_process';
 import type { DatabaseManager } from '../database/DatabaseManager';
 import { TaskService } from '../services/TaskService';
+import { SchedulingService } from '../services/SchedulingService';
+import { HistoryService } from '../services/HistoryService';
+import { DependencyValidationError, ColumnRuleError, WipLimitError } from '../services/errors';
+import { scanWorkspaceTodos, getSourceUri, MAX_SCANNED_FILES } from '../scanner';
 import type { SidebarViewProvider } from './SidebarViewProvider';
 import type {
   WebviewToExtensionMessage,
   ExtensionToWebviewMessage,
+  RescheduleTaskRequest,
+  UpdateLabelRequest,
   TasksLoadedMessage,
   TaskCreatedMessage,
   TaskUpdatedMessage,
   TaskDeletedMessage,
+  TasksRescheduledMessage,
+  TasksUpdatedMessage,
+  CriticalPathLoadedMessage,
+  TaskEventsLoadedMessage,
+  TaskCommentsLoadedMessage,
+  TaskCommentCreatedMessage,
+  TaskCommentUpdatedMessage,
+  TaskCommentDeletedMessage,
+  TimeEntriesLoadedMessage,
+  TimerStateMessage,
+  MembersLoadedMessage,
+  CreateMemberRequest,
+  UpdateMemberRequest,
+  CreateCustomFieldRequest,
+  UpdateCustomFieldRequest,
+  CreateSavedViewRequest,
+  UpdateSavedViewRequest,
+  LabelsLoadedMessage,
   LabelCreatedMessage,
   DependencyCreatedMessage,
+  DependencyUpdatedMessage,
   DependencyDeletedMessage,
   DataImportedMessage,
   ErrorMessage,
@@ -19,8 +46,85 @@ import type {
   KanbanColumnUpdatedMessage,
   KanbanColumnDeletedMessage,
   KanbanColumnsReorderedMessage,
+  HistoryStateMessage,
+  ColumnTaskCountsMessage,
 } from '../models/messages';
-import type { TaskFilter, CreateKanbanColumnDto, UpdateKanbanColumnDto } from '../models/types';
+import type {
+  Task,
+  TimeEntry,
+  SavedView,
+  TaskFilter,
+  CreateKanbanColumnDto,
+  UpdateKanbanColumnDto,
+  UpdateDependencyDto,
+  CreateTimeEntryDto,
+  UpdateTimeEntryDto,
+  WipLimitMode,
+} from '../models/types';
+
+// git user name of the first workspace folder, falling back to the OS user name
+function readGitUserName(): Promise<string | null> {
+  const getOsUserName = () => {
+    try {
+      return os.userInfo().username || null;
+    } catch {
+      return null;
+    }
+  };
+  return new Promise((resolve) => {
+    execFile(
+      'git',
+      ['config', 'user.name'],
+      { cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath, encoding: 'utf8', timeout: 2000 },
+      // Fails when git is not installed or no user name is configured
+      (error, stdout) => resolve((!error && stdout.trim()) || getOsUserName())
+    );
+  });
+}
+
+// Messages that change data and can be undone
+const UNDOABLE_MESSAGE_TYPES = new Set<WebviewToExtensionMessage['type']>([
+  'CREATE_TASK',
+  'UPDATE_TASK',
+  'UPDATE_TASK_STATUS',
+  'DELETE_TASK',
+  'RESCHEDULE_TASK',
+  'REORDER_TASKS',
+  'CREATE_LABEL',
+  'UPDATE_LABEL',
+  'MERGE_LABELS',
+  'DELETE_LABEL',
+  'CREATE_DEPENDENCY',
+  'UPDATE_DEPENDENCY',
+  'DELETE_DEPENDENCY',
+  'CREATE_TASK_COMMENT',
+  'UPDATE_TASK_COMMENT',
+  'DELETE_TASK_COMMENT',
+  'CREATE_TIME_ENTRY',
+  'UPDATE_TIME_ENTRY',
+  'DELETE_TIME_ENTRY',
+  'START_TIMER',
+  'STOP_TIMER',
+  'CREATE_MEMBER',
+  'UPDATE_MEMBER',
+  'MERGE_MEMBERS',
+  'DELETE_MEMBER',
+  'CREATE_CUSTOM_FIELD',
+  'UPDATE_CUSTOM_FIELD',
+  'DELETE_CUSTOM_FIELD',
+  'CREATE_SAVED_VIEW',
+  'UPDATE_SAVED_VIEW',
+  'DELETE_SAVED_VIEW',
+  'IMPORT_DATA',
+  'SCAN_TODO_COMMENTS',
+  'CREATE_KANBAN_COLUMN',
+  'UPDATE_KANBAN_COLUMN',
+  'DELETE_KANBAN_COLUMN',
+  'REORDER_KANBAN_COLUMNS',
+]);
+
+// Tasks listed by the Search Tasks command
+const MAX_SEARCH_RESULTS = 200;
 
 export class TaskSchedullerPanelProvider {
   public static readonly viewType = 'taskScheduller.mainPanel';
@@ -29,20 +133,44 @@ export class TaskSchedullerPanelProvider {
   private static _sidebarProvider?: SidebarViewProvider;
   private _panel?: vscode.WebviewPanel;
   private _taskService: TaskService;
+  private _schedulingService: SchedulingService;
+  private _historyService: HistoryService;
   private _disposables: vscode.Disposable[] = [];
   private _currentProjectId?: string;
   private _databaseChangeSubscription?: vscode.Disposable;
+  // Looked up once in the background; null until then
+  private _gitUserName: string | null = null;
+  // Task to open once a newly created panel has loaded its data
+  private _pendingOpenTaskId?: string;
+  // Saved view to apply once a newly created panel has loaded its data
+  private _pendingSavedView?: SavedView;
+  private _onDidChangeTimer = new vscode.EventEmitter<void>();
+
+  /** Fires when the running timer may have been started, stopped or edited */
+  public readonly onDidChangeTimer = this._onDidChangeTimer.event;
 
   private constructor(
     private readonly _extensionUri: vscode.Uri,
     private readonly _databaseManager: DatabaseManager
   ) {
-    this._taskService = new TaskService(_databaseManager);
+    this._taskService = new TaskService(
+      _databaseManager,
+      () => this.getAuthor(),
+      () => this._getWipLimitMode()
+    );
+    this._schedulingService = new SchedulingService(_databaseManager, this._taskService);
+    this._historyService = new HistoryService(_databaseManager);
 
     // Subscribe to database changes from other windows
     this._databaseChangeSubscription = this._databaseManager.onDatabaseChanged(() => {
       this._handleDatabaseChanged();
     });
+
+    readGitUserName().then((name) => {
+      this._gitUserName = name;
+      // The webview resolves assignee:me with the author
+      this._sendConfig();
+    });
   }
 
   /**
@@ -51,13 +179,18 @@ export class TaskSchedullerPanelProvider {
    */
   private _handleDatabaseChanged(): void {
     console.log('Database changed externally, refreshing UI...');
+    this._refreshAll();
+  }
 
+  private _refreshAll(): void {
     // Reload data in the panel if it's open
     if (this._panel) {
       const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
       this._loadTasks(crypto.randomUUID(), filter);
       this._loadKanbanColumns(crypto.randomUUID(), this._currentProjectId);
+      this._postColumnTaskCounts();
     }
+    this._postTimerState();
 
     // Refresh the sidebar
     this._refreshSidebar();
@@ -146,6 +279,21 @@ export class TaskSchedullerPanelProvider {
       null,
       this._disposables
     );
+
+    // Re-send the settings the views read (workload capacity, WIP limit mode)
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (
+          e.affectsConfiguration('taskScheduller.workload') ||
+          e.affectsConfiguration('taskScheduller.kanban') ||
+          e.affectsConfiguration('taskScheduller.author')
+        ) {
+          this._sendConfig();
+        }
+      },
+      null,
+      this._disposables
+    );
   }
 
   public sendCommand(command: string, payload?: unknown): void {
@@ -158,6 +306,190 @@ export class TaskSchedullerPanelProvider {
     }
   }
 
+  /**
+   * Shows the panel with the task's edit dialog open, switching away from a project
+   * that does not contain the task.
+   */
+  public openTask(taskId: string): void {
+    const task = this._taskService.getTaskById(taskId);
+    if (!task) {
+      return;
+    }
+    const projectId =
+      this._currentProjectId && task.projectId !== this._currentProjectId
+        ? task.projectId ?? undefined
+        : this._currentProjectId;
+    if (this._panel) {
+      this.show(projectId);
+      this.sendCommand('OPEN_TASK', { taskId });
+    } else {
+      this._pendingOpenTaskId = taskId;
+      this.show(projectId);
+    }
+  }
+
+  /**
+   * Shows the panel with a saved view applied, asking which one when no name is given.
+   */
+  public async openSavedView(name?: string): Promise<void> {
+    const view = name ? this._taskService.getSavedViewByName(name) : await this._pickSavedView();
+    if (!view) {
+      if (name) {
+        vscode.window.showErrorMessage(vscode.l10n.t('savedView.notFound', name));
+      }
+      return;
+    }
+    this._openSavedView(view);
+  }
+
+  private _openSavedView(view: SavedView): void {
+    if (this._panel) {
+      this.show(view.projectId ?? undefined);
+      this.sendCommand('APPLY_SAVED_VIEW', { view });
+    } else {
+      this._pendingSavedView = view;
+      this.show(view.projectId ?? undefined);
+    }
+  }
+
+  /**
+   * Searches tasks with the task query language as it is typed and opens the picked task in the panel.
+   */
+  public searchTasks(query?: string): void {
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { taskId: string }>();
+    const projects = new Map(this._taskService.getAllProjects().map((p) => [p.id, p.name]));
+    const columns = new Map(this._taskService.getAllKanbanColumnsForExport().map((c) => [c.id, c.name]));
+
+    const update = () => {
+      const { tasks, errors } = this._taskService.searchTasks(quickPick.value);
+      // The query is not fuzzy text, so every result is shown instead of filtering by label
+      quickPick.items = tasks.slice(0, MAX_SEARCH_RESULTS).map((task) => ({
+        label: task.title,
+        description: task.projectId ? projects.get(task.projectId) : undefined,
+        detail: [columns.get(task.status) ?? task.status, task.dueDate, task.assignee].filter(Boolean).join(' · '),
+        alwaysShow: true,
+        taskId: task.id,
+      }));
+      quickPick.title = errors.length > 0
+        ? errors.map((error) => vscode.l10n.t(`search.error.${error.code}`, error.term)).join(' ')
+        : vscode.l10n.t('search.results', tasks.length);
+    };
+
+    quickPick.placeholder = vscode.l10n.t('search.placeholder');
+    quickPick.value = query ?? '';
+    quickPick.onDidChangeValue(update);
+    quickPick.onDidAccept(() => {
+      const picked = quickPick.selectedItems[0];
+      quickPick.hide();
+      if (picked) {
+        this.openTask(picked.taskId);
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    update();
+    quickPick.show();
+  }
+
+  private async _pickSavedView(): Promise<SavedView | undefined> {
+    const views = this._taskService.getSavedViews();
+    if (views.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('savedView.none'));
+      return undefined;
+    }
+    const projects = new Map(this._taskService.getAllProjects().map((p) => [p.id, p.name]));
+    const picked = await vscode.window.showQuickPick(
+      views.map((view) => ({
+        label: view.name,
+        description: view.projectId ? projects.get(view.projectId) : undefined,
+        view,
+      })),
+      { placeHolder: vscode.l10n.t('savedView.pick'), matchOnDescription: true }
+    );
+    return picked?.view;
+  }
+
+  /**
+   * Moves a task to the first completed column as if it was moved in the panel, so the change can be undone.
+   */
+  public async completeTask(taskId: string): Promise<void> {
+    const task = this._taskService.getTaskById(taskId);
+    if (!task) {
+      return;
+    }
+    await this._handleMessage({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'UPDATE_TASK_STATUS',
+      payload: { taskId, status: this._taskService.getStatusForCategory('completed', task.projectId) },
+    });
+    this._refreshSidebar();
+  }
+
+  /**
+   * Scans the workspace for TODO comments and updates their tasks, as one undoable step.
+   */
+  public async scanTodoComments(): Promise<void> {
+    await this._handleMessage({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'SCAN_TODO_COMMENTS',
+    });
+  }
+
+  /**
+   * The current author's running timer and its task.
+   */
+  public getRunningTimer(): { entry: TimeEntry; task: Task } | null {
+    const entry = this._taskService.getRunningTimeEntry();
+    const task = entry ? this._taskService.getTaskById(entry.taskId) : null;
+    return entry && task ? { entry, task } : null;
+  }
+
+  /**
+   * Starts a timer on a task, asking which one when no task is given.
+   */
+  public async startTimer(taskId?: string): Promise<void> {
+    const id = taskId ?? (await this._pickTaskForTimer());
+    if (!id) {
+      return;
+    }
+    await this._handleMessage({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'START_TIMER',
+      payload: { taskId: id },
+    });
+  }
+
+  public async stopTimer(): Promise<void> {
+    await this._handleMessage({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'STOP_TIMER',
+    });
+  }
+
+  private async _pickTaskForTimer(): Promise<string | undefined> {
+    const projects = new Map(this._taskService.getAllProjects().map((p) => [p.id, p.name]));
+    const items = this._taskService
+      .getAllTasks()
+      .filter((task) => !this._taskService.isFinishedStatus(task.status))
+      .map((task) => ({
+        label: task.title,
+        description: task.projectId ? projects.get(task.projectId) : undefined,
+        taskId: task.id,
+      }));
+    if (items.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('timer.noOpenTasks'));
+      return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: vscode.l10n.t('timer.pickTask'),
+      matchOnDescription: true,
+    });
+    return picked?.taskId;
+  }
+
   private _dispose(): void {
     this._panel = undefined;
     while (this._disposables.length) {
@@ -174,10 +506,63 @@ export class TaskSchedullerPanelProvider {
    */
   public dispose(): void {
     this._databaseChangeSubscription?.dispose();
+    this._onDidChangeTimer.dispose();
     this._dispose();
   }
 
+  /**
+   * Undoes the last data change made from the panel.
+   */
+  public undo(): void {
+    if (this._historyService.undo()) {
+      this._refreshAll();
+    }
+    this._postHistoryState();
+  }
+
+  /**
+   * Redoes the last undone data change.
+   */
+  public redo(): void {
+    if (this._historyService.redo()) {
+      this._refreshAll();
+    }
+    this._postHistoryState();
+  }
+
+  private _postHistoryState(): void {
+    const message: HistoryStateMessage = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'HISTORY_STATE',
+      payload: this._historyService.getState(),
+    };
+    this._postMessage(message);
+  }
+
+  // The Kanban board shows these next to the WIP limits, which count the tasks of every project
+  private _postColumnTaskCounts(): void {
+    const message: ColumnTaskCountsMessage = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'COLUMN_TASK_COUNTS',
+      payload: { counts: this._taskService.getTaskCountsByColumn() },
+    };
+    this._postMessage(message);
+  }
+
   private async _handleMessage(message: WebviewToExtensionMessage): Promise<void> {
+    // Every mutation becomes one undoable step
+    if (UNDOABLE_MESSAGE_TYPES.has(message.type)) {
+      await this._historyService.record(message.type, () => this._dispatchMessage(message));
+      this._postHistoryState();
+      this._postColumnTaskCounts();
+      return;
+    }
+    await this._dispatchMessage(message);
+  }
+
+  private async _dispatchMessage(message: WebviewToExtensionMessage): Promise<void> {
     try {
       switch (message.type) {
         case 'WEBVIEW_READY':
@@ -204,14 +589,38 @@ export class TaskSchedullerPanelProvider {
           await this._deleteTask(message.id, message.payload.taskId);
           break;
 
+        case 'RESCHEDULE_TASK':
+          await this._rescheduleTask(message.id, message.payload);
+          break;
+
         case 'REORDER_TASKS':
           await this._reorderTasks(message.id, message.payload.taskIds, message.payload.status);
           break;
 
+        case 'LOAD_CRITICAL_PATH':
+          await this._loadCriticalPath(message.id);
+          break;
+
+        case 'LOAD_TASK_EVENTS':
+          await this._loadTaskEvents(message.id, message.payload.taskId);
+          break;
+
+        case 'LOAD_LABELS':
+          await this._loadLabels(message.id);
+          break;
+
         case 'CREATE_LABEL':
           await this._createLabel(message.id, message.payload);
           break;
 
+        case 'UPDATE_LABEL':
+          await this._updateLabel(message.id, message.payload.labelId, message.payload.updates);
+          break;
+
+        case 'MERGE_LABELS':
+          await this._mergeLabels(message.id, message.payload.sourceLabelId, message.payload.targetLabelId);
+          break;
+
         case 'DELETE_LABEL':
           await this._deleteLabel(message.id, message.payload.labelId);
           break;
@@ -220,18 +629,124 @@ export class TaskSchedullerPanelProvider {
           await this._createDependency(message.id, message.payload);
           break;
 
+        case 'UPDATE_DEPENDENCY':
+          await this._updateDependency(message.id, message.payload.dependencyId, message.payload.updates);
+          break;
+
         case 'DELETE_DEPENDENCY':
           await this._deleteDependency(message.id, message.payload.dependencyId);
           break;
 
+        case 'LOAD_TASK_COMMENTS':
+          await this._loadTaskComments(message.id, message.payload.taskId);
+          break;
+
+        case 'CREATE_TASK_COMMENT':
+          await this._createTaskComment(message.id, message.payload.taskId, message.payload.body);
+          break;
+
+        case 'UPDATE_TASK_COMMENT':
+          await this._updateTaskComment(message.id, message.payload.commentId, message.payload.body);
+          break;
+
+        case 'DELETE_TASK_COMMENT':
+          await this._deleteTaskComment(message.id, message.payload.commentId);
+          break;
+
+        case 'LOAD_TIME_ENTRIES':
+          await this._loadTimeEntries(message.id, message.payload.taskId);
+          break;
+
+        case 'CREATE_TIME_ENTRY':
+          await this._createTimeEntry(message.id, message.payload);
+          break;
+
+        case 'UPDATE_TIME_ENTRY':
+          await this._updateTimeEntry(message.id, message.payload.entryId, message.payload.updates);
+          break;
+
+        case 'DELETE_TIME_ENTRY':
+          await this._deleteTimeEntry(message.id, message.payload.entryId);
+          break;
+
+        case 'START_TIMER':
+          await this._startTimer(message.id, message.payload.taskId);
+          break;
+
+        case 'STOP_TIMER':
+          await this._stopTimer(message.id);
+          break;
+
+        case 'LOAD_MEMBERS':
+          await this._loadMembers(message.id);
+          break;
+
+        case 'CREATE_MEMBER':
+          await this._createMember(message.id, message.payload);
+          break;
+
+        case 'UPDATE_MEMBER':
+          await this._updateMember(message.id, message.payload.memberId, message.payload.updates);
+          break;
+
+        case 'MERGE_MEMBERS':
+          await this._mergeMembers(message.id, message.payload.sourceMemberId, message.payload.targetMemberId);
+          break;
+
+        case 'DELETE_MEMBER':
+          await this._deleteMember(message.id, message.payload.memberId);
+          break;
+
+        case 'CREATE_CUSTOM_FIELD':
+          await this._createCustomField(message.id, message.payload);
+          break;
+
+        case 'UPDATE_CUSTOM_FIELD':
+          await this._updateCustomField(message.id, message.payload.fieldId, message.payload.updates);
+          break;
+
+        case 'DELETE_CUSTOM_FIELD':
+          await this._deleteCustomField(message.id, message.payload.fieldId);
+          break;
+
+        case 'CREATE_SAVED_VIEW':
+          await this._createSavedView(message.id, message.payload);
+          break;
+
+        case 'UPDATE_SAVED_VIEW':
+          await this._updateSavedView(message.id, message.payload.viewId, message.payload.updates);
+          break;
+
+        case 'DELETE_SAVED_VIEW':
+          await this._deleteSavedView(message.id, message.payload.viewId);
+          break;
+
+        case 'OPEN_SAVED_VIEW': {
+          const view = this._taskService.getSavedView(message.payload.viewId);
+          if (!view) {
+            this._postError(message.id, 'SAVED_VIEW_NOT_FOUND', 'Saved view not found');
+            break;
+          }
+          this._openSavedView(view);
+          break;
+        }
+
         case 'EXPORT_DATA':
-          await this._exportData(message.payload.format);
+          await this._exportData(message.payload.format, message.payload.timeEntries);
           break;
 
         case 'IMPORT_DATA':
           await this._importData(message.id);
           break;
 
+        case 'SCAN_TODO_COMMENTS':
+          await this._scanTodoComments();
+          break;
+
+        case 'OPEN_TASK_SOURCE':
+          await this._openTaskSource(message.payload.taskId);
+          break;
+
         case 'LOAD_KANBAN_COLUMNS':
           await this._loadKanbanColumns(message.id);
           break;
@@ -252,10 +767,27 @@ export class TaskSchedullerPanelProvider {
           await this._reorderKanbanColumns(message.id, message.payload.columnIds, message.payload.projectId);
           break;
 
+        case 'UNDO':
+          this.undo();
+          break;
+
+        case 'REDO':
+          this.redo();
+          break;
+
         default:
           console.warn('Unknown message type:', (message as { type: string }).type);
       }
     } catch (error) {
+      if (error instanceof ColumnRuleError) {
+        this._postColumnRuleError(message.id, error);
+        return;
+      }
+      if (error instanceof WipLimitError) {
+        vscode.window.showWarningMessage(vscode.l10n.t('wipLimit.reached', error.columnName, error.wipLimit));
+        this._postError(message.id, 'WIP_LIMIT_REACHED', error.message);
+        return;
+      }
       this._postError(message.id, 'OPERATION_FAILED', (error as Error).message);
     }
   }
@@ -267,15 +799,26 @@ export class TaskSchedullerPanelProvider {
     await this._loadTasks(requestId, filter);
     // Load kanban columns
     await this._loadKanbanColumns(crypto.randomUUID());
+    this._postColumnTaskCounts();
+    this._postHistoryState();
+    this._postTimerState();
     // Also send current project info
     if (this._currentProjectId) {
       this.sendCommand('SET_PROJECT', { projectId: this._currentProjectId });
     }
+    if (this._pendingOpenTaskId) {
+      this.sendCommand('OPEN_TASK', { taskId: this._pendingOpenTaskId });
+      this._pendingOpenTaskId = undefined;
+    }
+    if (this._pendingSavedView) {
+      this.sendCommand('APPLY_SAVED_VIEW', { view: this._pendingSavedView });
+      this._pendingSavedView = undefined;
+    }
   }
 
   private _sendConfig(): void {
     const config = vscode.workspace.getConfiguration('taskScheduller');
-    const defaultView = config.get<'todo' | 'kanban' | 'gantt'>('defaultView', 'kanban');
+    const defaultView = config.get<'todo' | 'kanban' | 'gantt' | 'calendar' | 'workload'>('defaultView', 'kanban');
 
     this._postMessage({
       id: crypto.randomUUID(),
@@ -285,10 +828,26 @@ export class TaskSchedullerPanelProvider {
         locale: vscode.env.language,
         theme: this._getTheme(),
         defaultView,
+        weeklyCapacityHours: config.get<number>('workload.weeklyCapacityHours', 40),
+        wipLimitMode: this._getWipLimitMode(),
+        author: this.getAuthor(),
       },
     });
   }
 
+  /**
+   * Name recorded as the author of task changes: the taskScheduller.author setting,
+   * otherwise the git user name (looked up once at startup).
+   */
+  public getAuthor(): string | null {
+    const configured = vscode.workspace.getConfiguration('taskScheduller').get<string>('author', '').trim();
+    return configured || this._gitUserName;
+  }
+
+  private _getWipLimitMode(): WipLimitMode {
+    return vscode.workspace.getConfiguration('taskScheduller').get<WipLimitMode>('kanban.wipLimitMode', 'warn');
+  }
+
   private _getTheme(): 'light' | 'dark' | 'high-contrast' {
     const kind = vscode.window.activeColorTheme.kind;
     switch (kind) {
@@ -310,6 +869,9 @@ export class TaskSchedullerPanelProvider {
   ): Promise<void> {
     const tasks = this._taskService.getAllTasks(filter);
     const labels = this._taskService.getAllLabels();
+    const members = this._taskService.getAllMembers();
+    const customFields = this._taskService.getCustomFields();
+    const savedViews = this._taskService.getSavedViews();
     const dependencies = this._taskService.getAllDependencies();
     const projects = this._taskService.getAllProjects();
 
@@ -317,7 +879,7 @@ export class TaskSchedullerPanelProvider {
       id: requestId,
       timestamp: Date.now(),
       type: 'TASKS_LOADED',
-      payload: { tasks, labels, dependencies, projects },
+      payload: { tasks, labels, members, customFields, savedViews, dependencies, projects },
     };
     this._postMessage(message);
   }
@@ -346,14 +908,22 @@ export class TaskSchedullerPanelProvider {
       payload: { task },
     };
     this._postMessage(message);
+    this._postParentTasks(requestId, [task.parentId]);
 
     // 先行タスクの依存関係を作成し、各依存関係を個別に通知
     if (predecessorIds && predecessorIds.length > 0) {
       for (const predecessorId of predecessorIds) {
-        const dependency = this._taskService.createDependency({
-          predecessorId: predecessorId,
-          successorId: task.id,
-        });
+        let dependency;
+        try {
+          dependency = this._taskService.createDependency({
+            predecessorId: predecessorId,
+            successorId: task.id,
+          });
+        } catch (error) {
+          // 不正な依存関係はスキップし、他の先行タスクの作成は続行する
+          this._postDependencyError(requestId, error);
+          continue;
+        }
         // 依存関係作成を個別に通知
         const depMessage: DependencyCreatedMessage = {
           id: crypto.randomUUID(),
@@ -380,6 +950,7 @@ export class TaskSchedullerPanelProvider {
       ? U
       : never
   ): Promise<void> {
+    const previous = this._taskService.getTaskById(taskId);
     const task = this._taskService.updateTask(taskId, updates);
     if (task) {
       const message: TaskUpdatedMessage = {
@@ -389,6 +960,8 @@ export class TaskSchedullerPanelProvider {
         payload: { task },
       };
       this._postMessage(message);
+      this._postParentTasks(requestId, [task.parentId, previous?.parentId]);
+      await this._reloadAfterRecurrence(requestId, previous, task);
     } else {
       this._postError(requestId, 'TASK_NOT_FOUND', 'Task not found');
     }
@@ -404,6 +977,7 @@ export class TaskSchedullerPanelProvider {
       ? S
       : never
   ): Promise<void> {
+    const previous = this._taskService.getTaskById(taskId);
     const task = this._taskService.updateTaskStatus(taskId, status);
     if (task) {
       const message: TaskUpdatedMessage = {
@@ -413,14 +987,18 @@ export class TaskSchedullerPanelProvider {
         payload: { task },
       };
       this._postMessage(message);
+      this._postParentTasks(requestId, [task.parentId]);
+      await this._reloadAfterRecurrence(requestId, previous, task);
     } else {
       this._postError(requestId, 'TASK_NOT_FOUND', 'Task not found');
     }
   }
 
   private async _deleteTask(requestId: string, taskId: string): Promise<void> {
+    const parentId = this._taskService.getTaskById(taskId)?.parentId;
     const success = this._taskService.deleteTask(taskId);
     if (success) {
+      // Subtasks are deleted with the task; the webview drops them as well
       const message: TaskDeletedMessage = {
         id: requestId,
         timestamp: Date.now(),
@@ -428,6 +1006,7 @@ export class TaskSchedullerPanelProvider {
         payload: { taskId },
       };
       this._postMessage(message);
+      this._postParentTasks(requestId, [parentId]);
       this._refreshSidebar();
 
       vscode.window.showInformationMessage(vscode.l10n.t('message.taskDeleted'));
@@ -436,6 +1015,82 @@ export class TaskSchedullerPanelProvider {
     }
   }
 
+  private async _rescheduleTask(
+    requestId: string,
+    payload: RescheduleTaskRequest['payload']
+  ): Promise<void> {
+    const { taskId, ...updates } = payload;
+    const tasks = this._schedulingService.rescheduleTask(taskId, updates);
+    if (tasks.length > 0) {
+      // Send the moved task together with every shifted successor so the chart updates at once
+      const message: TasksRescheduledMessage = {
+        id: requestId,
+        timestamp: Date.now(),
+        type: 'TASKS_RESCHEDULED',
+        payload: { tasks },
+      };
+      this._postMessage(message);
+      this._postParentTasks(requestId, tasks.map((task) => task.parentId));
+    } else {
+      this._postError(requestId, 'TASK_NOT_FOUND', 'Task not found');
+    }
+  }
+
+  // Finishing a recurring task creates its next instance, which takes the rule over
+  private async _reloadAfterRecurrence(requestId: string, previous: Task | null, task: Task): Promise<void> {
+    if (previous?.recurrenceRule && !task.recurrenceRule && this._taskService.isFinishedStatus(task.status)) {
+      const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
+      await this._loadTasks(requestId, filter);
+      this._refreshSidebar();
+    }
+  }
+
+  // Parents roll up dates and progress from their subtasks: send them and their own parents
+  private _postParentTasks(requestId: string, parentIds: (string | null | undefined)[]): void {
+    const parents = new Map<string, Task>();
+    for (const parentId of parentIds) {
+      const parent = parentId ? this._taskService.getTaskById(parentId) : null;
+      if (!parent) {
+        continue;
+      }
+      for (const task of [parent, ...this._taskService.getTaskAncestors(parent.id)]) {
+        parents.set(task.id, task);
+      }
+    }
+    if (parents.size === 0) {
+      return;
+    }
+    const message: TasksUpdatedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'TASKS_UPDATED',
+      payload: { tasks: [...parents.values()] },
+    };
+    this._postMessage(message);
+  }
+
+  private async _loadCriticalPath(requestId: string): Promise<void> {
+    const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
+    const result = this._schedulingService.computeCriticalPath(filter);
+    const message: CriticalPathLoadedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'CRITICAL_PATH_LOADED',
+      payload: result,
+    };
+    this._postMessage(message);
+  }
+
+  private async _loadTaskEvents(requestId: string, taskId: string): Promise<void> {
+    const message: TaskEventsLoadedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'TASK_EVENTS_LOADED',
+      payload: { taskId, events: this._taskService.getTaskEvents(taskId) },
+    };
+    this._postMessage(message);
+  }
+
   private async _reorderTasks(
     requestId: string,
     taskIds: string[],
@@ -452,6 +1107,19 @@ export class TaskSchedullerPanelProvider {
     await this._loadTasks(requestId, filter);
   }
 
+  private async _loadLabels(requestId: string): Promise<void> {
+    const message: LabelsLoadedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'LABELS_LOADED',
+      payload: {
+        labels: this._taskService.getAllLabels(),
+        usage: this._taskService.getLabelUsage(),
+      },
+    };
+    this._postMessage(message);
+  }
+
   private async _createLabel(
     requestId: string,
     payload: WebviewToExtensionMessage extends { type: 'CREATE_LABEL'; payload: infer P }
@@ -466,6 +1134,30 @@ export class TaskSchedullerPanelProvider {
       payload: { label },
     };
     this._postMessage(message);
+    await this._loadLabels(requestId);
+  }
+
+  private async _updateLabel(
+    requestId: string,
+    labelId: string,
+    updates: UpdateLabelRequest['payload']['updates']
+  ): Promise<void> {
+    const label = this._taskService.updateLabel(labelId, updates);
+    if (!label) {
+      this._postError(requestId, 'LABEL_NOT_FOUND', 'Label not found');
+      return;
+    }
+    // Tasks embed their labels: reload them with the new name/color
+    await this._reloadAfterLabelChange(requestId);
+  }
+
+  private async _mergeLabels(requestId: string, sourceLabelId: string, targetLabelId: string): Promise<void> {
+    const label = this._taskService.mergeLabels(sourceLabelId, targetLabelId);
+    if (!label) {
+      this._postError(requestId, 'LABEL_NOT_FOUND', 'Label not found');
+      return;
+    }
+    await this._reloadAfterLabelChange(requestId);
   }
 
   private async _deleteLabel(requestId: string, labelId: string): Promise<void> {
@@ -474,7 +1166,132 @@ export class TaskSchedullerPanelProvider {
       this._postError(requestId, 'LABEL_NOT_FOUND', 'Label not found');
     }
     // Reload all data after label deletion
-    await this._loadTasks(requestId);
+    await this._reloadAfterLabelChange(requestId);
+  }
+
+  private async _reloadAfterLabelChange(requestId: string): Promise<void> {
+    const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
+    await this._loadTasks(requestId, filter);
+    await this._loadLabels(requestId);
+  }
+
+  private async _loadMembers(requestId: string): Promise<void> {
+    const message: MembersLoadedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'MEMBERS_LOADED',
+      payload: {
+        members: this._taskService.getAllMembers(),
+        usage: this._taskService.getMemberUsage(),
+      },
+    };
+    this._postMessage(message);
+  }
+
+  private async _createMember(requestId: string, payload: CreateMemberRequest['payload']): Promise<void> {
+    this._taskService.createMember(payload);
+    await this._loadMembers(requestId);
+  }
+
+  private async _updateMember(
+    requestId: string,
+    memberId: string,
+    updates: UpdateMemberRequest['payload']['updates']
+  ): Promise<void> {
+    const member = this._taskService.updateMember(memberId, updates);
+    if (!member) {
+      this._postError(requestId, 'MEMBER_NOT_FOUND', 'Member not found');
+      return;
+    }
+    // Tasks show their assignees by name: reload them after a rename
+    await this._reloadAfterMemberChange(requestId);
+  }
+
+  private async _mergeMembers(requestId: string, sourceMemberId: string, targetMemberId: string): Promise<void> {
+    const member = this._taskService.mergeMembers(sourceMemberId, targetMemberId);
+    if (!member) {
+      this._postError(requestId, 'MEMBER_NOT_FOUND', 'Member not found');
+      return;
+    }
+    await this._reloadAfterMemberChange(requestId);
+  }
+
+  private async _deleteMember(requestId: string, memberId: string): Promise<void> {
+    const success = this._taskService.deleteMember(memberId);
+    if (!success) {
+      this._postError(requestId, 'MEMBER_NOT_FOUND', 'Member not found');
+    }
+    await this._reloadAfterMemberChange(requestId);
+  }
+
+  private async _reloadAfterMemberChange(requestId: string): Promise<void> {
+    const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
+    await this._loadTasks(requestId, filter);
+    await this._loadMembers(requestId);
+  }
+
+  private async _createCustomField(requestId: string, payload: CreateCustomFieldRequest['payload']): Promise<void> {
+    this._taskService.createCustomField(payload);
+    await this._reloadAfterCustomFieldChange(requestId);
+  }
+
+  private async _updateCustomField(
+    requestId: string,
+    fieldId: string,
+    updates: UpdateCustomFieldRequest['payload']['updates']
+  ): Promise<void> {
+    const field = this._taskService.updateCustomField(fieldId, updates);
+    if (!field) {
+      this._postError(requestId, 'CUSTOM_FIELD_NOT_FOUND', 'Custom field not found');
+      return;
+    }
+    await this._reloadAfterCustomFieldChange(requestId);
+  }
+
+  private async _deleteCustomField(requestId: string, fieldId: string): Promise<void> {
+    const success = this._taskService.deleteCustomField(fieldId);
+    if (!success) {
+      this._postError(requestId, 'CUSTOM_FIELD_NOT_FOUND', 'Custom field not found');
+    }
+    await this._reloadAfterCustomFieldChange(requestId);
+  }
+
+  // The fields are sent with the tasks, whose values change when options are removed
+  private async _reloadAfterCustomFieldChange(requestId: string): Promise<void> {
+    const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
+    await this._loadTasks(requestId, filter);
+  }
+
+  private async _createSavedView(requestId: string, payload: CreateSavedViewRequest['payload']): Promise<void> {
+    this._taskService.createSavedView(payload);
+    await this._reloadAfterSavedViewChange(requestId);
+  }
+
+  private async _updateSavedView(
+    requestId: string,
+    viewId: string,
+    updates: UpdateSavedViewRequest['payload']['updates']
+  ): Promise<void> {
+    const view = this._taskService.updateSavedView(viewId, updates);
+    if (!view) {
+      this._postError(requestId, 'SAVED_VIEW_NOT_FOUND', 'Saved view not found');
+      return;
+    }
+    await this._reloadAfterSavedViewChange(requestId);
+  }
+
+  private async _deleteSavedView(requestId: string, viewId: string): Promise<void> {
+    const success = this._taskService.deleteSavedView(viewId);
+    if (!success) {
+      this._postError(requestId, 'SAVED_VIEW_NOT_FOUND', 'Saved view not found');
+    }
+    await this._reloadAfterSavedViewChange(requestId);
+  }
+
+  // Views are sent with the tasks
+  private async _reloadAfterSavedViewChange(requestId: string): Promise<void> {
+    const filter = this._currentProjectId ? { projectId: this._currentProjectId } : undefined;
+    await this._loadTasks(requestId, filter);
   }
 
   private async _createDependency(
@@ -483,7 +1300,13 @@ export class TaskSchedullerPanelProvider {
       ? P
       : never
   ): Promise<void> {
-    const dependency = this._taskService.createDependency(payload);
+    let dependency;
+    try {
+      dependency = this._taskService.createDependency(payload);
+    } catch (error) {
+      this._postDependencyError(requestId, error);
+      return;
+    }
     const message: DependencyCreatedMessage = {
       id: requestId,
       timestamp: Date.now(),
@@ -493,6 +1316,38 @@ export class TaskSchedullerPanelProvider {
     this._postMessage(message);
   }
 
+  private async _updateDependency(
+    requestId: string,
+    dependencyId: string,
+    updates: UpdateDependencyDto
+  ): Promise<void> {
+    const dependency = this._taskService.updateDependency(dependencyId, updates);
+    if (!dependency) {
+      this._postError(requestId, 'DEPENDENCY_NOT_FOUND', 'Dependency not found');
+      return;
+    }
+
+    const message: DependencyUpdatedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'DEPENDENCY_UPDATED',
+      payload: { dependency },
+    };
+    this._postMessage(message);
+
+    // A new type or lag may push the successor chain
+    const shifted = this._schedulingService.propagateFrom(dependency.predecessorId);
+    if (shifted.length > 0) {
+      const rescheduledMessage: TasksRescheduledMessage = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'TASKS_RESCHEDULED',
+        payload: { tasks: shifted },
+      };
+      this._postMessage(rescheduledMessage);
+    }
+  }
+
   private async _deleteDependency(requestId: string, dependencyId: string): Promise<void> {
     const success = this._taskService.deleteDependency(dependencyId);
     if (success) {
@@ -508,7 +1363,149 @@ export class TaskSchedullerPanelProvider {
     }
   }
 
-  private async _exportData(format: 'json' | 'csv'): Promise<void> {
+  private async _loadTaskComments(requestId: string, taskId: string): Promise<void> {
+    const message: TaskCommentsLoadedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'TASK_COMMENTS_LOADED',
+      payload: { taskId, comments: this._taskService.getTaskComments(taskId) },
+    };
+    this._postMessage(message);
+  }
+
+  private async _createTaskComment(requestId: string, taskId: string, body: string): Promise<void> {
+    const comment = this._taskService.createTaskComment(taskId, body);
+    if (comment) {
+      const message: TaskCommentCreatedMessage = {
+        id: requestId,
+        timestamp: Date.now(),
+        type: 'TASK_COMMENT_CREATED',
+        payload: { comment },
+      };
+      this._postMessage(message);
+    } else {
+      this._postError(requestId, 'TASK_NOT_FOUND', 'Task not found');
+    }
+  }
+
+  private async _updateTaskComment(requestId: string, commentId: string, body: string): Promise<void> {
+    const comment = this._taskService.updateTaskComment(commentId, body);
+    if (comment) {
+      const message: TaskCommentUpdatedMessage = {
+        id: requestId,
+        timestamp: Date.now(),
+        type: 'TASK_COMMENT_UPDATED',
+        payload: { comment },
+      };
+      this._postMessage(message);
+    } else {
+      this._postError(requestId, 'COMMENT_NOT_FOUND', 'Comment not found');
+    }
+  }
+
+  private async _deleteTaskComment(requestId: string, commentId: string): Promise<void> {
+    const comment = this._taskService.getTaskCommentById(commentId);
+    if (comment && this._taskService.deleteTaskComment(commentId)) {
+      const message: TaskCommentDeletedMessage = {
+        id: requestId,
+        timestamp: Date.now(),
+        type: 'TASK_COMMENT_DELETED',
+        payload: { commentId, taskId: comment.taskId },
+      };
+      this._postMessage(message);
+    } else {
+      this._postError(requestId, 'COMMENT_NOT_FOUND', 'Comment not found');
+    }
+  }
+
+  private async _loadTimeEntries(requestId: string, taskId: string): Promise<void> {
+    const message: TimeEntriesLoadedMessage = {
+      id: requestId,
+      timestamp: Date.now(),
+      type: 'TIME_ENTRIES_LOADED',
+      payload: { taskId, entries: this._taskService.getTimeEntries(taskId) },
+    };
+    this._postMessage(message);
+  }
+
+  // After a time entry changed: the task's time log, its logged hours and the timer
+  private async _postTimeEntriesChanged(requestId: string, taskId: string): Promise<void> {
+    await this._loadTimeEntries(requestId, taskId);
+    const task = this._taskService.getTaskById(taskId);
+    if (task) {
+      const message: TaskUpdatedMessage = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'TASK_UPDATED',
+        payload: { task },
+      };
+      this._postMessage(message);
+    }
+    this._postTimerState();
+  }
+
+  private _postTimerState(): void {
+    const message: TimerStateMessage = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'TIMER_STATE',
+      payload: { entry: this._taskService.getRunningTimeEntry() },
+    };
+    this._postMessage(message);
+    this._onDidChangeTimer.fire();
+  }
+
+  private async _createTimeEntry(requestId: string, dto: CreateTimeEntryDto): Promise<void> {
+    const entry = this._taskService.createTimeEntry(dto);
+    if (entry) {
+      await this._postTimeEntriesChanged(requestId, entry.taskId);
+    } else {
+      this._postError(requestId, 'TASK_NOT_FOUND', 'Task not found');
+    }
+  }
+
+  private async _updateTimeEntry(requestId: string, entryId: string, updates: UpdateTimeEntryDto): Promise<void> {
+    const entry = this._taskService.updateTimeEntry(entryId, updates);
+    if (entry) {
+      await this._postTimeEntriesChanged(requestId, entry.taskId);
+    } else {
+      this._postError(requestId, 'TIME_ENTRY_NOT_FOUND', 'Time entry not found');
+    }
+  }
+
+  private async _deleteTimeEntry(requestId: string, entryId: string): Promise<void> {
+    const entry = this._taskService.getTimeEntryById(entryId);
+    if (entry && this._taskService.deleteTimeEntry(entryId)) {
+      await this._postTimeEntriesChanged(requestId, entry.taskId);
+    } else {
+      this._postError(requestId, 'TIME_ENTRY_NOT_FOUND', 'Time entry not found');
+    }
+  }
+
+  private async _startTimer(requestId: string, taskId: string): Promise<void> {
+    const previous = this._taskService.getRunningTimeEntry();
+    const entry = this._taskService.startTimer(taskId);
+    if (!entry) {
+      this._postError(requestId, 'TASK_NOT_FOUND', 'Task not found');
+      return;
+    }
+    // The timer that was running on another task has been stopped
+    if (previous && previous.taskId !== taskId) {
+      await this._postTimeEntriesChanged(crypto.randomUUID(), previous.taskId);
+    }
+    await this._postTimeEntriesChanged(requestId, taskId);
+  }
+
+  private async _stopTimer(requestId: string): Promise<void> {
+    const entry = this._taskService.stopTimer();
+    if (entry) {
+      await this._postTimeEntriesChanged(requestId, entry.taskId);
+    } else {
+      this._postTimerState();
+    }
+  }
+
+  private async _exportData(format: 'json' | 'csv', timeEntries = false): Promise<void> {
     let content: string;
     let defaultExt: string;
     const filters: { [key: string]: string[] } = {};
@@ -520,7 +1517,7 @@ export class TaskSchedullerPanelProvider {
         filters['JSON'] = ['json'];
         break;
       case 'csv':
-        content = this._taskService.exportToCsv();
+        content = this._taskService.exportToCsv({ timeEntries });
         defaultExt = 'csv';
         filters['CSV'] = ['csv'];
         break;
@@ -529,7 +1526,7 @@ export class TaskSchedullerPanelProvider {
     // ローカル時間でタイムスタンプを生成
     const now = new Date();
     const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}-${String(now.getMinutes()).padStart(2, '0')}-${String(now.getSeconds()).padStart(2, '0')}`;
-    const defaultFilename = `taskscheduller_export_${timestamp}.${defaultExt}`;
+    const defaultFilename = `taskscheduller_${timeEntries ? 'time_log' : 'export'}_${timestamp}.${defaultExt}`;
 
     const uri = await vscode.window.showSaveDialog({
       filters,
@@ -593,6 +1590,62 @@ export class TaskSchedullerPanelProvider {
     }
   }
 
+  // ============================================
+  // TODO comment scanning
+  // ============================================
+
+  // New tasks go to the open project
+  private async _scanTodoComments(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+      vscode.window.showErrorMessage(vscode.l10n.t('todoScanner.noWorkspace'));
+      return;
+    }
+
+    try {
+      const scan = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: vscode.l10n.t('todoScanner.scanning'),
+          cancellable: true,
+        },
+        (_progress, token) => scanWorkspaceTodos(token)
+      );
+      if (!scan) {
+        return;
+      }
+
+      const result = this._taskService.syncScannedComments(scan, this._currentProjectId);
+      this._refreshAll();
+      vscode.window.showInformationMessage(
+        vscode.l10n.t('todoScanner.done', result.created, result.updated, result.closed)
+      );
+      if (!scan.complete) {
+        vscode.window.showWarningMessage(vscode.l10n.t('todoScanner.limitReached', MAX_SCANNED_FILES));
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(vscode.l10n.t('todoScanner.failed', (error as Error).message));
+    }
+  }
+
+  // Opens the editor at the comment a task was scanned from
+  private async _openTaskSource(taskId: string): Promise<void> {
+    const source = this._taskService.getTaskById(taskId)?.source;
+    if (!source) {
+      return;
+    }
+    const uri = getSourceUri(source);
+    if (uri) {
+      const position = new vscode.Position(source.line - 1, 0);
+      try {
+        await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position) });
+        return;
+      } catch {
+        // The file was moved or deleted since the last scan
+      }
+    }
+    vscode.window.showWarningMessage(vscode.l10n.t('todoScanner.fileNotFound', source.filePath));
+  }
+
   // ============================================
   // Kanban Column operations
   // ============================================
@@ -694,16 +1747,48 @@ export class TaskSchedullerPanelProvider {
     this._panel?.webview.postMessage(message);
   }
 
-  private _postError(requestId: string, code: string, message: string): void {
+  private _postError(
+    requestId: string,
+    code: string,
+    message: string,
+    path?: { id: string; title: string }[]
+  ): void {
     const errorMessage: ErrorMessage = {
       id: crypto.randomUUID(),
       timestamp: Date.now(),
       type: 'ERROR',
-      payload: { code, message, requestId },
+      payload: { code, message, requestId, path },
     };
     this._postMessage(errorMessage);
   }
 
+  /**
+   * Reports a rejected dependency with the titles of the tasks on the offending path.
+   * Errors other than validation failures are rethrown.
+   */
+  private _postDependencyError(requestId: string, error: unknown): void {
+    if (!(error instanceof DependencyValidationError)) {
+      throw error;
+    }
+    const path = error.path.map((id) => ({
+      id,
+      title: this._taskService.getTaskById(id)?.title ?? id,
+    }));
+    this._postError(requestId, error.code, error.message, path);
+  }
+
+  /**
+   * Tells the user which tasks keep a task out of a column; the webview leaves the card where it was.
+   */
+  private _postColumnRuleError(requestId: string, error: ColumnRuleError): void {
+    const titles = error.taskIds
+      .map((id) => this._taskService.getTaskById(id)?.title ?? id)
+      .join(', ');
+    const key = error.code === 'COLUMN_RULE_SUBTASKS_OPEN' ? 'columnRule.subtasksOpen' : 'columnRule.predecessorsOpen';
+    vscode.window.showWarningMessage(vscode.l10n.t(key, error.columnName, titles));
+    this._postError(requestId, error.code, error.message);
+  }
+
   private _getHtmlForWebview(webview: vscode.Webview): string {
     const scriptUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview', 'index.js')
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import type { TaskSchedullerPanelProvider } from './TaskSchedullerPanelProvider';
+
+const MAX_TITLE_LENGTH = 30;
+
+// Elapsed time as h:mm:ss
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Shows the running timer and its task in the status bar; clicking it stops the timer.
+ * Hidden while no timer is running.
+ */
+export class TimerStatusBar implements vscode.Disposable {
+  private _item: vscode.StatusBarItem;
+  private _timerSubscription: vscode.Disposable;
+  private _ticker?: ReturnType<typeof setInterval>;
+  private _title = '';
+  private _startedAt = 0;
+
+  constructor(private readonly _provider: TaskSchedullerPanelProvider) {
+    this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    this._item.command = 'taskScheduller.stopTimer';
+    this._timerSubscription = this._provider.onDidChangeTimer(() => this.refresh());
+    this.refresh();
+  }
+
+  public refresh(): void {
+    const timer = this._provider.getRunningTimer();
+    if (!timer) {
+      this._stopTicker();
+      this._item.hide();
+      return;
+    }
+
+    const { title } = timer.task;
+    this._title = title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+    this._startedAt = Date.parse(timer.entry.startedAt);
+    this._item.tooltip = vscode.l10n.t('timer.statusTooltip', title);
+    this._render();
+    this._item.show();
+
+    if (!this._ticker) {
+      this._ticker = setInterval(() => this._render(), 1000);
+    }
+  }
+
+  private _render(): void {
+    this._item.text = `$(watch) ${this._title} ${formatElapsed(Date.now() - this._startedAt)}`;
+  }
+
+  private _stopTicker(): void {
+    if (this._ticker) {
+      clearInterval(this._ticker);
+      this._ticker = undefined;
+    }
+  }
+
+  public dispose(): void {
+    this._stopTicker();
+    this._timerSubscription.dispose();
+    this._item.dispose();
+  }
+}
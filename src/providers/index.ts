@@ -1,2 +1,3 @@
 export { TaskSchedullerPanelProvider } from './TaskSchedullerPanelProvider';
 export { SidebarViewProvider } from './SidebarViewProvider';
+export { TimerStatusBar } from './TimerStatusBar';
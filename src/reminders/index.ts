@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import type { TaskSchedullerPanelProvider } from '../providers/TaskSchedullerPanelProvider';
+import type { DatabaseManager } from '../database/DatabaseManager';
+import { ReminderService } from '../services/ReminderService';
+import type { DueReminder, ReminderLeadTimes } from '../services/ReminderService';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+// First check shortly after startup, once the database and views are ready
+const FIRST_CHECK_DELAY_MS = 10 * 1000;
+// Reminders shown one by one; any further ones are summarized in a single notification
+const MAX_NOTIFICATIONS = 3;
+
+const DEFAULT_LEAD_TIMES = { low: 24, medium: 24, high: 48, urgent: 72 };
+
+function getLeadTimes(config: vscode.WorkspaceConfiguration): ReminderLeadTimes {
+  const hours = { ...DEFAULT_LEAD_TIMES, ...config.get<Partial<typeof DEFAULT_LEAD_TIMES>>('reminders.leadTimeHours') };
+  return { 1: hours.low, 2: hours.medium, 3: hours.high, 4: hours.urgent };
+}
+
+// Due date as shown in notifications; dates without a time are calendar dates, not UTC midnight
+function formatDueDate(dueDate: string): string {
+  if (dueDate.length <= 10) {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+  return new Date(dueDate).toLocaleDateString();
+}
+
+/**
+ * Periodically checks for tasks that are due soon or overdue and shows a notification
+ * with Open / Snooze / Mark done actions for each of them.
+ */
+export function registerReminders(
+  context: vscode.ExtensionContext,
+  provider: TaskSchedullerPanelProvider,
+  databaseManager: DatabaseManager
+) {
+  const reminderService = new ReminderService(databaseManager, () => provider.getAuthor());
+
+  const showReminder = async ({ task, kind }: DueReminder, snoozeMinutes: number) => {
+    const open = vscode.l10n.t('reminder.open');
+    const snooze = vscode.l10n.t('reminder.snooze');
+    const markDone = vscode.l10n.t('reminder.markDone');
+    const dueDate = formatDueDate(task.dueDate!);
+
+    const action =
+      kind === 'overdue'
+        ? await vscode.window.showWarningMessage(
+            vscode.l10n.t('reminder.overdue', task.title, dueDate),
+            open,
+            snooze,
+            markDone
+          )
+        : await vscode.window.showInformationMessage(
+            vscode.l10n.t('reminder.dueSoon', task.title, dueDate),
+            open,
+            snooze,
+            markDone
+          );
+
+    if (action === open) {
+      provider.openTask(task.id);
+    } else if (action === snooze) {
+      reminderService.snooze(task.id, snoozeMinutes);
+    } else if (action === markDone) {
+      await provider.completeTask(task.id);
+    }
+  };
+
+  const checkReminders = () => {
+    const config = vscode.workspace.getConfiguration('taskScheduller');
+    if (!config.get<boolean>('reminders.enabled', true)) {
+      return;
+    }
+
+    let reminders: DueReminder[];
+    try {
+      reminders = reminderService.takeDueReminders(getLeadTimes(config));
+    } catch (error) {
+      // The database may be switching storage; try again on the next check
+      console.error('Failed to check task reminders:', error);
+      return;
+    }
+
+    const snoozeMinutes = config.get<number>('reminders.snoozeMinutes', 60);
+    for (const reminder of reminders.slice(0, MAX_NOTIFICATIONS)) {
+      void showReminder(reminder, snoozeMinutes);
+    }
+
+    const remaining = reminders.length - MAX_NOTIFICATIONS;
+    if (remaining > 0) {
+      const open = vscode.l10n.t('reminder.open');
+      void vscode.window
+        .showWarningMessage(vscode.l10n.t('reminder.more', remaining), open)
+        .then((action) => {
+          if (action === open) {
+            provider.show();
+          }
+        });
+    }
+  };
+
+  const firstCheck = setTimeout(checkReminders, FIRST_CHECK_DELAY_MS);
+  const interval = setInterval(checkReminders, CHECK_INTERVAL_MS);
+  context.subscriptions.push({
+    dispose: () => {
+      clearTimeout(firstCheck);
+      clearInterval(interval);
+    },
+  });
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { DEFAULT_TODO_PATTERN, compileTodoPattern, findTodoComments } from '../services/todoComments';
+import type { ScannedComment, TaskSource, TodoScan } from '../models/types';
+
+const DEFAULT_INCLUDE =
+  '**/*.{ts,tsx,js,jsx,mjs,cjs,py,java,kt,go,rs,c,h,cpp,hpp,cs,rb,php,swift,sh,sql,lua,vue,svelte,html,css,scss,md,yml,yaml}';
+const DEFAULT_EXCLUDE = '**/{node_modules,dist,out,build,.git}/**';
+export const MAX_SCANNED_FILES = 5000;
+// Larger files are most likely generated or minified
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Finds the TODO comments in the workspace files matched by the todoScanner settings.
+ * Returns null when the scan was cancelled. Files that could not be read are listed in the
+ * result, and it is marked incomplete when there were more files than the limit, so that the
+ * tasks of comments that were not seen are not closed.
+ * Throws when the configured pattern is not a valid regex.
+ */
+export async function scanWorkspaceTodos(token?: vscode.CancellationToken): Promise<TodoScan | null> {
+  const config = vscode.workspace.getConfiguration('taskScheduller.todoScanner');
+  const pattern = compileTodoPattern(config.get<string>('pattern') || DEFAULT_TODO_PATTERN);
+  const files = await vscode.workspace.findFiles(
+    config.get<string>('include') || DEFAULT_INCLUDE,
+    config.get<string>('exclude') || DEFAULT_EXCLUDE,
+    // One more than the limit tells whether files were left out
+    MAX_SCANNED_FILES + 1,
+    token
+  );
+
+  const decoder = new TextDecoder();
+  const comments: ScannedComment[] = [];
+  const skippedFiles: TodoScan['skippedFiles'] = [];
+  for (const uri of files.slice(0, MAX_SCANNED_FILES)) {
+    if (token?.isCancellationRequested) {
+      return null;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      continue;
+    }
+    const workspaceFolder = folder.uri.toString();
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(uri);
+    } catch {
+      // Deleted since findFiles or not readable
+      skippedFiles.push({ workspaceFolder, filePath: toSourcePath(uri) });
+      continue;
+    }
+    if (content.byteLength > MAX_FILE_BYTES) {
+      skippedFiles.push({ workspaceFolder, filePath: toSourcePath(uri) });
+      continue;
+    }
+    comments.push(
+      ...findTodoComments(decoder.decode(content), toSourcePath(uri), pattern).map((comment) => ({
+        ...comment,
+        workspaceFolder,
+      }))
+    );
+  }
+  return {
+    workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.toString()),
+    comments,
+    skippedFiles,
+    complete: files.length <= MAX_SCANNED_FILES,
+  };
+}
+
+/**
+ * Path of a file as stored with its tasks: relative to its workspace folder, with the folder
+ * name in front in multi-root workspaces.
+ */
+function toSourcePath(uri: vscode.Uri): string {
+  return vscode.workspace.asRelativePath(uri).replace(/\\/g, '/');
+}
+
+/**
+ * Location of a task's comment in the open workspace; undefined when its folder is not open.
+ */
+export function getSourceUri({ workspaceFolder, filePath }: TaskSource): vscode.Uri | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const recordedFolder = folders.find((f) => f.uri.toString() === workspaceFolder);
+  if (recordedFolder) {
+    const segments = filePath.split('/');
+    return vscode.Uri.joinPath(recordedFolder.uri, ...(folders.length > 1 ? segments.slice(1) : segments));
+  }
+  if (folders.length > 1) {
+    const [folderName, ...segments] = filePath.split('/');
+    const folder = folders.find((f) => f.name === folderName);
+    return folder ? vscode.Uri.joinPath(folder.uri, ...segments) : undefined;
+  }
+  return folders[0] ? vscode.Uri.joinPath(folders[0].uri, filePath) : undefined;
+}
@@ -0,0 +1,104 @@
+import type { DatabaseManager } from '../database/DatabaseManager';
+import { applyRow, type RowChange } from '../database/ChangeJournal';
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface HistoryEntry {
+  // Name of the operation, e.g. the webview message type
+  label: string;
+  // Entries only apply to the database they were recorded in
+  databasePath: string;
+  changes: RowChange[];
+}
+
+/**
+ * Undo/redo stack of data mutations.
+ * Each entry holds the row changes of one operation (captured from the change journal),
+ * so undo restores the previous row images and redo re-applies the new ones.
+ */
+export class HistoryService {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Runs a mutation and records it as one undoable step.
+   * Operations that change nothing are not recorded.
+   */
+  async record(label: string, fn: () => Promise<void>): Promise<void> {
+    const changes = await this.db.captureChanges(fn);
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.undoStack.push({ label, databasePath: this.db.databasePath, changes });
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Reverts the last recorded operation. Returns its label, or null if there is nothing to undo.
+   */
+  undo(): string | null {
+    const entry = this.popEntry(this.undoStack);
+    if (!entry) {
+      return null;
+    }
+
+    this.applyChanges([...entry.changes].reverse(), 'oldRow');
+    this.redoStack.push(entry);
+    return entry.label;
+  }
+
+  /**
+   * Re-applies the last undone operation. Returns its label, or null if there is nothing to redo.
+   */
+  redo(): string | null {
+    const entry = this.popEntry(this.redoStack);
+    if (!entry) {
+      return null;
+    }
+
+    this.applyChanges(entry.changes, 'newRow');
+    this.undoStack.push(entry);
+    return entry.label;
+  }
+
+  getState(): HistoryState {
+    return {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+    };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private popEntry(stack: HistoryEntry[]): HistoryEntry | null {
+    const entry = stack.pop() ?? null;
+    // The storage location was switched since the entry was recorded
+    if (entry && entry.databasePath !== this.db.databasePath) {
+      this.clear();
+      return null;
+    }
+    return entry;
+  }
+
+  private applyChanges(changes: RowChange[], image: 'oldRow' | 'newRow'): void {
+    this.db.transaction(() => {
+      for (const change of changes) {
+        applyRow(this.db.db, change.table, change.key, change[image]);
+      }
+    });
+  }
+}
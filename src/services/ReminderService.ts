@@ -0,0 +1,111 @@
+import type { DatabaseManager } from '../database/DatabaseManager';
+import {
+  TaskRepository,
+  TaskReminderRepository,
+  KanbanColumnRepository,
+  TaskEventRepository,
+} from '../database/repositories';
+import { FINISHED_CATEGORIES } from '../models/types';
+import type { Task, Priority, ReminderKind } from '../models/types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Hours before the end of the due date at which a task counts as due soon, per priority.
+// 0 turns the "due soon" reminder off and only reminds about overdue tasks.
+export type ReminderLeadTimes = Record<Priority, number>;
+
+export interface DueReminder {
+  task: Task;
+  kind: ReminderKind;
+}
+
+/**
+ * End of the day a task is due: dates without a time are due until local midnight.
+ */
+function getDueTime(dueDate: string): number {
+  if (dueDate.length <= 10) {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    return new Date(year, month - 1, day + 1).getTime();
+  }
+  return Date.parse(dueDate);
+}
+
+/**
+ * Finds open tasks that are due soon or overdue and keeps track of which reminders were shown.
+ * Reminder and snooze state lives in the database, so a reminder shown in one window
+ * is not shown again in the others.
+ */
+export class ReminderService {
+  private taskRepo: TaskRepository;
+  private reminderRepo: TaskReminderRepository;
+  private kanbanColumnRepo: KanbanColumnRepository;
+
+  /**
+   * @param getAuthor Returns the name recorded as the author of the task changes made here
+   */
+  constructor(
+    private db: DatabaseManager,
+    getAuthor?: () => string | null
+  ) {
+    this.taskRepo = new TaskRepository(db, new TaskEventRepository(db, getAuthor));
+    this.reminderRepo = new TaskReminderRepository(db);
+    this.kanbanColumnRepo = new KanbanColumnRepository(db);
+  }
+
+  /**
+   * Returns the reminders to show now and marks them as shown.
+   * A task is reminded about once when it becomes due soon, again when it becomes overdue
+   * or its due date changes, and after a snooze runs out.
+   */
+  takeDueReminders(leadTimes: ReminderLeadTimes, now: Date = new Date()): DueReminder[] {
+    const nowTime = now.getTime();
+    const reminders: DueReminder[] = [];
+    const finishedStatuses = new Set(
+      this.kanbanColumnRepo
+        .findAll()
+        .filter((column) => FINISHED_CATEGORIES.includes(column.category))
+        .map((column) => column.id)
+    );
+
+    for (const task of this.taskRepo.findAll()) {
+      if (!task.dueDate || finishedStatuses.has(task.status)) {
+        continue;
+      }
+
+      const dueTime = getDueTime(task.dueDate);
+      const leadHours = leadTimes[task.priority] ?? 0;
+      let kind: ReminderKind;
+      if (nowTime >= dueTime) {
+        kind = 'overdue';
+      } else if (leadHours > 0 && nowTime >= dueTime - leadHours * MS_PER_HOUR) {
+        kind = 'due_soon';
+      } else {
+        continue;
+      }
+
+      const previous = this.reminderRepo.findByTask(task.id);
+      if (previous && previous.dueDate === task.dueDate) {
+        const isWaiting = previous.snoozedUntil
+          ? Date.parse(previous.snoozedUntil) > nowTime
+          : previous.kind === kind || previous.kind === 'overdue';
+        if (isWaiting) {
+          continue;
+        }
+      }
+      reminders.push({ task, kind });
+    }
+
+    if (reminders.length > 0) {
+      this.db.transaction(() => {
+        for (const { task, kind } of reminders) {
+          this.reminderRepo.markNotified(task.id, kind, task.dueDate!, now.toISOString());
+        }
+      });
+    }
+    return reminders;
+  }
+
+  snooze(taskId: string, minutes: number, now: Date = new Date()): void {
+    this.reminderRepo.snooze(taskId, new Date(now.getTime() + minutes * 60 * 1000).toISOString());
+  }
+}
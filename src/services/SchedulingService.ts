@@ -0,0 +1,329 @@
+import type { DatabaseManager } from '../database/DatabaseManager';
+import { DependencyRepository } from '../database/repositories';
+import type { TaskService } from './TaskService';
+import type {
+  Task,
+  Dependency,
+  UpdateTaskDto,
+  TaskFilter,
+  TaskScheduleAnalysis,
+  CriticalPathResult,
+} from '../models/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Start/end of a task expressed as whole days since the epoch
+interface TaskSpan {
+  start: number;
+  end: number;
+}
+
+function toDayNumber(date: string): number {
+  return Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / MS_PER_DAY);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+/**
+ * Returns the span of a task, falling back to the other date when only one is set.
+ * Tasks without any date cannot be scheduled and return null.
+ */
+function getTaskSpan(task: Task): TaskSpan | null {
+  const start = task.startDate ? toDayNumber(task.startDate) : null;
+  const end = task.dueDate ? toDayNumber(task.dueDate) : null;
+  if (start === null && end === null) {
+    return null;
+  }
+  return { start: start ?? end!, end: end ?? start! };
+}
+
+/**
+ * Earliest start day a successor with the given duration may take under a single dependency.
+ * Dates are treated as points in time, matching how the Gantt chart draws bars.
+ */
+function getEarliestStart(dependency: Dependency, predecessor: TaskSpan, duration: number): number {
+  switch (dependency.dependencyType) {
+    case 'start_to_start':
+      return predecessor.start + dependency.lagDays;
+    case 'finish_to_finish':
+      return predecessor.end + dependency.lagDays - duration;
+    case 'start_to_finish':
+      return predecessor.start + dependency.lagDays - duration;
+    case 'finish_to_start':
+    default:
+      return predecessor.end + dependency.lagDays;
+  }
+}
+
+/**
+ * Latest finish day a predecessor with the given duration may take so that a successor
+ * scheduled at [successorStart, successorFinish] still satisfies the dependency.
+ */
+function getLatestFinish(
+  dependency: Dependency,
+  successorStart: number,
+  successorFinish: number,
+  duration: number
+): number {
+  switch (dependency.dependencyType) {
+    case 'start_to_start':
+      return successorStart - dependency.lagDays + duration;
+    case 'finish_to_finish':
+      return successorFinish - dependency.lagDays;
+    case 'start_to_finish':
+      return successorFinish - dependency.lagDays + duration;
+    case 'finish_to_start':
+    default:
+      return successorStart - dependency.lagDays;
+  }
+}
+
+// Dependencies indexed by the task at either end
+interface DependencyGraph {
+  outgoing: Map<string, Dependency[]>;
+  incoming: Map<string, Dependency[]>;
+}
+
+function buildDependencyGraph(dependencies: Dependency[]): DependencyGraph {
+  const outgoing = new Map<string, Dependency[]>();
+  const incoming = new Map<string, Dependency[]>();
+  for (const dep of dependencies) {
+    outgoing.set(dep.predecessorId, [...(outgoing.get(dep.predecessorId) ?? []), dep]);
+    incoming.set(dep.successorId, [...(incoming.get(dep.successorId) ?? []), dep]);
+  }
+  return { outgoing, incoming };
+}
+
+/**
+ * Orders tasks so that each one comes after all of its predecessors within `taskIds`.
+ * Links to tasks outside the set are ignored; tasks caught in a dependency cycle are left out.
+ */
+function sortTopologically(taskIds: Iterable<string>, graph: DependencyGraph): string[] {
+  const ids = new Set(taskIds);
+  const inDegree = new Map<string, number>();
+  for (const id of ids) {
+    const count = (graph.incoming.get(id) ?? []).filter((dep) => ids.has(dep.predecessorId)).length;
+    inDegree.set(id, count);
+  }
+  const order: string[] = [];
+  const ready = [...ids].filter((id) => inDegree.get(id) === 0);
+  while (ready.length > 0) {
+    const current = ready.shift()!;
+    order.push(current);
+    for (const dep of graph.outgoing.get(current) ?? []) {
+      if (!ids.has(dep.successorId)) {
+        continue;
+      }
+      const remaining = inDegree.get(dep.successorId)! - 1;
+      inDegree.set(dep.successorId, remaining);
+      if (remaining === 0) {
+        ready.push(dep.successorId);
+      }
+    }
+  }
+  return order;
+}
+
+export class SchedulingService {
+  private dependencyRepo: DependencyRepository;
+
+  constructor(
+    private db: DatabaseManager,
+    private taskService: TaskService
+  ) {
+    this.dependencyRepo = new DependencyRepository(db);
+  }
+
+  // ============================================
+  // Rescheduling
+  // ============================================
+
+  /**
+   * Moves a task to new dates, optionally reassigning it in the same step, and pushes its
+   * successors forward until no dependency is violated. Successors that already satisfy
+   * their constraints keep their dates.
+   * Returns every task whose dates changed, starting with the moved task.
+   */
+  rescheduleTask(taskId: string, updates: Pick<UpdateTaskDto, 'startDate' | 'dueDate' | 'assigneeIds'>): Task[] {
+    return this.db.transaction(() => {
+      const task = this.taskService.updateTask(taskId, updates);
+      if (!task) {
+        return [];
+      }
+      return [task, ...this.propagateFrom(taskId)];
+    });
+  }
+
+  /**
+   * Re-applies all dependency constraints downstream of a task without moving the task itself.
+   * Returns the successors that were shifted.
+   */
+  propagateFrom(taskId: string): Task[] {
+    const graph = buildDependencyGraph(this.dependencyRepo.findAll());
+
+    // Collect every task reachable from the moved task
+    const reachable = new Set<string>([taskId]);
+    const queue = [taskId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const dep of graph.outgoing.get(current) ?? []) {
+        if (!reachable.has(dep.successorId)) {
+          reachable.add(dep.successorId);
+          queue.push(dep.successorId);
+        }
+      }
+    }
+
+    // Topological order within the reachable subgraph so each task is visited
+    // only after all of its affected predecessors have settled
+    const order = sortTopologically(reachable, graph);
+
+    const spans = new Map<string, TaskSpan | null>();
+    const getSpan = (id: string): TaskSpan | null => {
+      if (!spans.has(id)) {
+        const task = this.taskService.getTaskById(id);
+        spans.set(id, task ? getTaskSpan(task) : null);
+      }
+      return spans.get(id)!;
+    };
+
+    const shifted: Task[] = [];
+    for (const id of order) {
+      if (id === taskId) {
+        continue;
+      }
+      const span = getSpan(id);
+      if (!span) {
+        continue;
+      }
+
+      const duration = span.end - span.start;
+      let earliest = span.start;
+      for (const dep of graph.incoming.get(id) ?? []) {
+        const predecessorSpan = getSpan(dep.predecessorId);
+        if (predecessorSpan) {
+          earliest = Math.max(earliest, getEarliestStart(dep, predecessorSpan, duration));
+        }
+      }
+
+      const delta = earliest - span.start;
+      if (delta <= 0) {
+        continue;
+      }
+
+      const task = this.taskService.getTaskById(id)!;
+      const updates: UpdateTaskDto = {};
+      if (task.startDate) {
+        updates.startDate = fromDayNumber(toDayNumber(task.startDate) + delta);
+      }
+      if (task.dueDate) {
+        updates.dueDate = fromDayNumber(toDayNumber(task.dueDate) + delta);
+      }
+      const updated = this.taskService.updateTask(id, updates);
+      if (updated) {
+        spans.set(id, { start: span.start + delta, end: span.end + delta });
+        shifted.push(updated);
+      }
+    }
+
+    return shifted;
+  }
+
+  // ============================================
+  // Critical path analysis
+  // ============================================
+
+  /**
+   * Runs a forward/backward pass over dated tasks and their dependencies.
+   * A task never starts earlier than its own start date, so float reflects the current plan.
+   * Tasks caught in a dependency cycle are left out of the result.
+   */
+  computeCriticalPath(filter?: TaskFilter): CriticalPathResult {
+    const spans = new Map<string, TaskSpan>();
+    for (const task of this.taskService.getAllTasks(filter)) {
+      const span = getTaskSpan(task);
+      if (span) {
+        spans.set(task.id, span);
+      }
+    }
+
+    const dependencies = this.dependencyRepo
+      .findAll()
+      .filter((dep) => spans.has(dep.predecessorId) && spans.has(dep.successorId));
+    const graph = buildDependencyGraph(dependencies);
+    const { outgoing, incoming } = graph;
+    const order = sortTopologically(spans.keys(), graph);
+
+    if (order.length === 0) {
+      return { tasks: [], criticalDependencyIds: [] };
+    }
+
+    const duration = (id: string) => spans.get(id)!.end - spans.get(id)!.start;
+
+    // Forward pass
+    const earlyStart = new Map<string, number>();
+    for (const id of order) {
+      let start = spans.get(id)!.start;
+      for (const dep of incoming.get(id) ?? []) {
+        const predStart = earlyStart.get(dep.predecessorId)!;
+        const predSpan = { start: predStart, end: predStart + duration(dep.predecessorId) };
+        start = Math.max(start, getEarliestStart(dep, predSpan, duration(id)));
+      }
+      earlyStart.set(id, start);
+    }
+    const earlyFinish = (id: string) => earlyStart.get(id)! + duration(id);
+    const projectEnd = Math.max(...order.map(earlyFinish));
+
+    // Backward pass
+    const lateFinish = new Map<string, number>();
+    for (const id of [...order].reverse()) {
+      let finish = projectEnd;
+      for (const dep of outgoing.get(id) ?? []) {
+        const succFinish = lateFinish.get(dep.successorId)!;
+        const succStart = succFinish - duration(dep.successorId);
+        finish = Math.min(finish, getLatestFinish(dep, succStart, succFinish, duration(id)));
+      }
+      lateFinish.set(id, finish);
+    }
+
+    // Slack of a single link: how far the successor starts after the link allows
+    const linkSlack = (dep: Dependency) => {
+      const predSpan = { start: earlyStart.get(dep.predecessorId)!, end: earlyFinish(dep.predecessorId) };
+      return (
+        earlyStart.get(dep.successorId)! -
+        getEarliestStart(dep, predSpan, duration(dep.successorId))
+      );
+    };
+
+    const tasks: TaskScheduleAnalysis[] = order.map((id) => {
+      const totalFloat = lateFinish.get(id)! - earlyFinish(id);
+      const links = outgoing.get(id) ?? [];
+      const freeFloat =
+        links.length > 0
+          ? Math.min(...links.map(linkSlack))
+          : projectEnd - earlyFinish(id);
+      return {
+        taskId: id,
+        earlyStart: fromDayNumber(earlyStart.get(id)!),
+        earlyFinish: fromDayNumber(earlyFinish(id)),
+        lateStart: fromDayNumber(lateFinish.get(id)! - duration(id)),
+        lateFinish: fromDayNumber(lateFinish.get(id)!),
+        totalFloat,
+        freeFloat: Math.min(freeFloat, totalFloat),
+        isCritical: totalFloat <= 0,
+      };
+    });
+
+    const critical = new Set(tasks.filter((t) => t.isCritical).map((t) => t.taskId));
+    const criticalDependencyIds = dependencies
+      .filter(
+        (dep) =>
+          critical.has(dep.predecessorId) && critical.has(dep.successorId) && linkSlack(dep) <= 0
+      )
+      .map((dep) => dep.id);
+
+    return { tasks, criticalDependencyIds };
+  }
+}
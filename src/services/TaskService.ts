@@ -1,23 +1,70 @@
+import { v4 as uuidv4 } from 'uuid';
 import type { DatabaseManager } from '../database/DatabaseManager';
 import {
   TaskRepository,
   LabelRepository,
   DependencyRepository,
   ProjectRepository,
+  TaskEventRepository,
+  TaskCommentRepository,
+  TaskRecurrenceRepository,
+  TaskReminderRepository,
+  TimeEntryRepository,
+  MemberRepository,
+  TaskSourceRepository,
+  CustomFieldRepository,
+  SavedViewRepository,
 } from '../database/repositories';
 import { KanbanColumnRepository } from '../database/repositories/KanbanColumnRepository';
+import { DependencyValidationError, ColumnRuleError, WipLimitError } from './errors';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getDaysBetween,
+  shiftDate,
+  toDateString,
+} from '../shared/recurrence';
+import { getTodoTaskTitle, getTodoPriority, matchScannedComments } from './todoComments';
+import { parseTaskQuery } from '../shared/taskQuery';
+import type { TaskQueryError } from '../shared/taskQuery';
+import { COLUMN_CATEGORIES, CUSTOM_FIELD_TYPES, FINISHED_CATEGORIES, SAVED_VIEW_TYPES } from '../models/types';
 import type {
   Task,
   Label,
   Dependency,
   Project,
   KanbanColumn,
+  ColumnRule,
+  ColumnCategory,
+  WipLimitMode,
+  TaskEvent,
+  TaskComment,
+  TimeEntry,
+  Member,
+  CustomField,
+  CustomFieldType,
+  CustomFieldValue,
+  SavedView,
+  TaskSource,
+  TodoScan,
+  TodoScanResult,
   CreateTaskDto,
   UpdateTaskDto,
   CreateLabelDto,
+  CreateMemberDto,
+  UpdateMemberDto,
+  CreateCustomFieldDto,
+  UpdateCustomFieldDto,
+  CreateSavedViewDto,
+  UpdateSavedViewDto,
   CreateDependencyDto,
+  UpdateDependencyDto,
   CreateKanbanColumnDto,
   UpdateKanbanColumnDto,
+  CreateTimeEntryDto,
+  UpdateTimeEntryDto,
+  CsvExportOptions,
   TaskFilter,
   TaskStatus,
   ExportData,
@@ -26,17 +73,48 @@ import type {
 
 export type { Project };
 
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g;
+
+// Fields of a parent task that are computed from its subtasks
+const ROLLED_UP_FIELDS = ['startDate', 'dueDate', 'progress'] as const;
+
 export class TaskService {
   private taskRepo: TaskRepository;
   private labelRepo: LabelRepository;
   private dependencyRepo: DependencyRepository;
   private projectRepo: ProjectRepository;
   private kanbanColumnRepo: KanbanColumnRepository;
-
-  constructor(private db: DatabaseManager) {
-    this.taskRepo = new TaskRepository(db);
+  private taskEventRepo: TaskEventRepository;
+  private taskCommentRepo: TaskCommentRepository;
+  private taskRecurrenceRepo: TaskRecurrenceRepository;
+  private taskReminderRepo: TaskReminderRepository;
+  private timeEntryRepo: TimeEntryRepository;
+  private memberRepo: MemberRepository;
+  private taskSourceRepo: TaskSourceRepository;
+  private customFieldRepo: CustomFieldRepository;
+  private savedViewRepo: SavedViewRepository;
+
+  /**
+   * @param getAuthor Returns the name recorded as the author of task changes, comments, time entries
+   * and saved views, which assignee:me stands for in task queries
+   */
+  constructor(
+    private db: DatabaseManager,
+    private getAuthor: () => string | null = () => null,
+    private getWipLimitMode: () => WipLimitMode = () => 'warn'
+  ) {
+    this.taskEventRepo = new TaskEventRepository(db, getAuthor);
+    this.taskCommentRepo = new TaskCommentRepository(db, getAuthor);
+    this.taskRecurrenceRepo = new TaskRecurrenceRepository(db);
+    this.taskReminderRepo = new TaskReminderRepository(db);
+    this.timeEntryRepo = new TimeEntryRepository(db, getAuthor);
+    this.memberRepo = new MemberRepository(db);
+    this.taskSourceRepo = new TaskSourceRepository(db);
+    this.customFieldRepo = new CustomFieldRepository(db);
+    this.savedViewRepo = new SavedViewRepository(db, getAuthor);
+    this.taskRepo = new TaskRepository(db, this.taskEventRepo);
     this.labelRepo = new LabelRepository(db);
-    this.dependencyRepo = new DependencyRepository(db);
+    this.dependencyRepo = new DependencyRepository(db, this.taskEventRepo);
     this.projectRepo = new ProjectRepository(db);
     this.kanbanColumnRepo = new KanbanColumnRepository(db);
   }
@@ -58,6 +136,18 @@ export class TaskService {
     return this.enrichTasksWithLabels(tasks);
   }
 
+  /**
+   * Tasks matching a query of the task query language (see shared/taskQuery.ts) within a filter,
+   * and the terms of the query that could not be read.
+   */
+  searchTasks(text: string, filter?: TaskFilter): { tasks: Task[]; errors: TaskQueryError[] } {
+    const query = parseTaskQuery(text, {
+      today: toDateString(new Date()),
+      author: this.getAuthor(),
+    });
+    return { tasks: this.getAllTasks({ ...filter, query: query.terms }), errors: query.errors };
+  }
+
   getTaskById(id: string): Task | null {
     const task = this.taskRepo.findById(id);
     if (task) {
@@ -81,51 +171,481 @@ export class TaskService {
     return this.enrichTasksWithLabels(tasks);
   }
 
+  // Parent, grandparent, ... of a task, nearest first
+  getTaskAncestors(taskId: string): Task[] {
+    return this.getAncestorChain(taskId)
+      .slice(1)
+      .map((id) => this.getTaskById(id))
+      .filter((task): task is Task => task !== null);
+  }
+
   createTask(dto: CreateTaskDto): Task {
-    const task = this.taskRepo.create(dto);
-    return this.enrichTaskWithLabels(task);
+    const recurrenceRule = this.normalizeRecurrenceRule(dto.recurrenceRule);
+    const customFields = this.normalizeCustomFieldValues(dto.customFields, dto.projectId ?? 'default-project');
+    const column = dto.status ? this.kanbanColumnRepo.findById(dto.status) : null;
+    if (column) {
+      this.checkWipLimit(column);
+    }
+    return this.db.transaction(() => {
+      const task = this.taskRepo.create({
+        ...dto,
+        status: dto.status ?? this.getStatusForCategory('not_started', dto.projectId ?? null),
+        customFields,
+      });
+      if (recurrenceRule) {
+        this.setRecurrenceRule(task.id, recurrenceRule);
+      }
+      this.rollUpAncestors(task.parentId);
+      return this.enrichTaskWithLabels(task);
+    });
   }
 
   updateTask(id: string, dto: UpdateTaskDto): Task | null {
-    const task = this.taskRepo.update(id, dto);
-    if (task) {
-      return this.enrichTaskWithLabels(task);
+    const existing = this.taskRepo.findById(id);
+    if (!existing) {
+      return null;
     }
-    return null;
+    if (dto.parentId && this.getAncestorChain(dto.parentId).includes(id)) {
+      throw new Error('A task cannot become a subtask of itself or of its own subtask');
+    }
+    const recurrenceRule = this.normalizeRecurrenceRule(dto.recurrenceRule);
+    const enteredColumn = this.getEnteredColumn(existing, dto.status);
+    if (enteredColumn) {
+      this.checkColumnEntry(existing, enteredColumn);
+    }
+    // Like updateTaskStatus, a project-specific column moves the task into its project
+    const projectId = dto.projectId ?? enteredColumn?.projectId ?? existing.projectId;
+    let customFields = this.normalizeCustomFieldValues(dto.customFields, projectId);
+    if (projectId !== existing.projectId) {
+      customFields = { ...this.getForeignCustomFieldValues(id, projectId), ...customFields };
+    }
+
+    // Dates and progress of a parent follow its subtasks
+    const updates: UpdateTaskDto = { ...dto, projectId: projectId ?? undefined, customFields };
+    if (this.taskRepo.findByParentId(id).length > 0) {
+      for (const field of ROLLED_UP_FIELDS) {
+        delete updates[field];
+      }
+    }
+
+    return this.db.transaction(() => {
+      let task = this.taskRepo.update(id, updates)!;
+      if (enteredColumn) {
+        task = this.applyColumnRules(task, enteredColumn);
+      }
+      if (recurrenceRule !== undefined) {
+        this.setRecurrenceRule(id, recurrenceRule);
+      }
+      this.createNextOccurrence(existing, task);
+      this.rollUpAncestors(task.parentId);
+      if (existing.parentId !== task.parentId) {
+        this.rollUpAncestors(existing.parentId);
+      }
+      return this.enrichTaskWithLabels(task);
+    });
   }
 
   updateTaskStatus(id: string, status: TaskStatus): Task | null {
+    const existing = this.taskRepo.findById(id);
+    if (!existing) {
+      return null;
+    }
     // Check if the target column is project-specific
     const targetColumn = this.kanbanColumnRepo.findById(status);
+    const enteredColumn = this.getEnteredColumn(existing, status);
+    if (enteredColumn) {
+      this.checkColumnEntry(existing, enteredColumn);
+    }
+
+    return this.db.transaction(() => {
+      let task;
+      if (targetColumn?.projectId) {
+        // If moving to a project-specific column, also update the task's project
+        task = this.taskRepo.updateStatus(id, status);
+        if (task) {
+          task = this.taskRepo.update(id, { projectId: targetColumn.projectId });
+        }
+      } else {
+        // Regular status update (global column)
+        task = this.taskRepo.updateStatus(id, status);
+      }
 
-    let task;
-    if (targetColumn?.projectId) {
-      // If moving to a project-specific column, also update the task's project
-      task = this.taskRepo.updateStatus(id, status);
       if (task) {
-        task = this.taskRepo.update(id, { projectId: targetColumn.projectId });
+        if (enteredColumn) {
+          task = this.applyColumnRules(task, enteredColumn);
+        }
+        this.createNextOccurrence(existing, task);
+        this.rollUpAncestors(task.parentId);
+        return this.enrichTaskWithLabels(task);
       }
-    } else {
-      // Regular status update (global column)
-      task = this.taskRepo.updateStatus(id, status);
+      return null;
+    });
+  }
+
+  // Checks and normalizes a recurrence rule from a DTO; undefined leaves the rule unchanged
+  private normalizeRecurrenceRule(rule: string | null | undefined): string | null | undefined {
+    if (rule === undefined) {
+      return undefined;
+    }
+    if (!rule || rule.trim() === '') {
+      return null;
     }
+    return formatRecurrenceRule(parseRecurrenceRule(rule));
+  }
 
-    if (task) {
-      return this.enrichTaskWithLabels(task);
+  // The rule change is recorded in the task's history like a field change
+  private setRecurrenceRule(taskId: string, rule: string | null): void {
+    const previous = this.taskRecurrenceRepo.findByTask(taskId)?.rule ?? null;
+    if (previous === rule) {
+      return;
     }
-    return null;
+    this.taskRecurrenceRepo.setRule(taskId, rule);
+    this.taskEventRepo.record(taskId, [
+      { eventType: 'updated', field: 'recurrenceRule', oldValue: previous, newValue: rule },
+    ]);
+  }
+
+  /**
+   * When a recurring task is finished (completed or cancelled), creates its next instance with the
+   * dates moved to the next occurrence and hands the rule over to it. The occurrence follows the due
+   * date (or the start date); a task without dates recurs from the day it was finished.
+   * When the series has ended the rule stays with the finished task.
+   */
+  private createNextOccurrence(before: Task, after: Task): void {
+    if (this.isFinishedStatus(before.status) || !this.isFinishedStatus(after.status)) {
+      return;
+    }
+    const recurrence = this.taskRecurrenceRepo.findByTask(after.id);
+    if (!recurrence) {
+      return;
+    }
+
+    const anchor = after.dueDate ?? after.startDate ?? toDateString(new Date());
+    const next = getNextOccurrence(parseRecurrenceRule(recurrence.rule), anchor);
+    if (!next) {
+      return;
+    }
+    const days = getDaysBetween(anchor, next);
+    const hasDates = !!(after.startDate || after.dueDate);
+
+    // Starts in the not-started column of its board, like a new task
+    const task = this.createTask({
+      projectId: after.projectId ?? undefined,
+      title: after.title,
+      description: after.description,
+      status: this.getStatusForCategory('not_started', after.projectId),
+      priority: after.priority,
+      assigneeIds: this.taskRepo.getAssigneesForTask(after.id),
+      estimatedHours: after.estimatedHours,
+      parentId: after.parentId,
+      labelIds: this.taskRepo.getLabelsForTask(after.id),
+      customFields: this.taskRepo.getCustomFieldValues(after.id),
+      startDate: after.startDate ? shiftDate(after.startDate, days) : null,
+      dueDate: after.dueDate ? shiftDate(after.dueDate, days) : hasDates ? null : next,
+    });
+    this.taskRecurrenceRepo.moveToTask(after.id, task.id);
   }
 
   deleteTask(id: string): boolean {
+    const task = this.taskRepo.findById(id);
+    if (!task) {
+      return false;
+    }
+    this.db.transaction(() => {
+      this.deleteTaskTree(id);
+      this.rollUpAncestors(task.parentId);
+    });
+    return true;
+  }
+
+  // Deletes a task together with its subtasks
+  private deleteTaskTree(id: string): void {
+    for (const subtask of this.taskRepo.findByParentId(id)) {
+      this.deleteTaskTree(subtask.id);
+    }
     // Delete associated dependencies first
     this.dependencyRepo.deleteByTask(id);
-    return this.taskRepo.delete(id);
+    // The history is kept, ending with the deletion
+    this.taskEventRepo.record(id, [{ eventType: 'deleted', oldValue: this.taskRepo.findById(id)?.title ?? null }]);
+    this.taskCommentRepo.deleteByTask(id);
+    this.taskRecurrenceRepo.deleteByTask(id);
+    this.taskReminderRepo.deleteByTask(id);
+    this.timeEntryRepo.deleteByTask(id);
+    this.taskSourceRepo.deleteByTask(id);
+    this.taskRepo.delete(id);
+  }
+
+  /**
+   * Recomputes a parent task from its subtasks and continues up the hierarchy:
+   * start is the earliest subtask start, due the latest subtask due date and progress
+   * the average subtask progress, with completed subtasks counting as 100% and cancelled ones
+   * left out. Dates no subtask has are left as they are.
+   */
+  private rollUpAncestors(parentId: string | null): void {
+    const visited = new Set<string>();
+    let currentId = parentId;
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      const parent = this.taskRepo.findById(currentId);
+      if (!parent) {
+        return;
+      }
+
+      const subtasks = this.taskRepo.findByParentId(currentId);
+      if (subtasks.length > 0) {
+        const startDates = subtasks.map((t) => t.startDate).filter((d): d is string => !!d).sort();
+        const dueDates = subtasks.map((t) => t.dueDate).filter((d): d is string => !!d).sort();
+        const counted = subtasks
+          .map((t) => ({ task: t, category: this.getStatusCategory(t.status) }))
+          .filter(({ category }) => category !== 'cancelled');
+        const progress =
+          counted.length > 0
+            ? Math.round(
+                counted.reduce((sum, { task, category }) => sum + (category === 'completed' ? 100 : task.progress), 0) /
+                  counted.length
+              )
+            : parent.progress;
+
+        const updates: UpdateTaskDto = {};
+        if (startDates.length > 0 && startDates[0] !== parent.startDate) {
+          updates.startDate = startDates[0];
+        }
+        if (dueDates.length > 0 && dueDates[dueDates.length - 1] !== parent.dueDate) {
+          updates.dueDate = dueDates[dueDates.length - 1];
+        }
+        if (progress !== parent.progress) {
+          updates.progress = progress;
+        }
+        if (Object.keys(updates).length > 0) {
+          this.taskRepo.update(currentId, updates);
+        }
+      }
+
+      currentId = parent.parentId;
+    }
   }
 
   reorderTasks(taskIds: string[], status?: TaskStatus): void {
     this.taskRepo.reorder(taskIds, status);
   }
 
+  // Change history of a task, newest first
+  getTaskEvents(taskId: string): TaskEvent[] {
+    return this.taskEventRepo.findByTask(taskId);
+  }
+
+  // ============================================
+  // Comment operations
+  // ============================================
+
+  getTaskComments(taskId: string): TaskComment[] {
+    return this.taskCommentRepo.findByTask(taskId);
+  }
+
+  createTaskComment(taskId: string, body: string): TaskComment | null {
+    if (!this.taskRepo.findById(taskId)) {
+      return null;
+    }
+    return this.taskCommentRepo.create(taskId, body);
+  }
+
+  updateTaskComment(id: string, body: string): TaskComment | null {
+    return this.taskCommentRepo.update(id, body);
+  }
+
+  getTaskCommentById(id: string): TaskComment | null {
+    return this.taskCommentRepo.findById(id);
+  }
+
+  deleteTaskComment(id: string): boolean {
+    return this.taskCommentRepo.delete(id);
+  }
+
+  // ============================================
+  // Time tracking operations
+  // ============================================
+
+  // Time log of a task, newest first
+  getTimeEntries(taskId: string): TimeEntry[] {
+    return this.timeEntryRepo.findByTask(taskId);
+  }
+
+  getTimeEntryById(id: string): TimeEntry | null {
+    return this.timeEntryRepo.findById(id);
+  }
+
+  // The timer running for the current author, if any
+  getRunningTimeEntry(): TimeEntry | null {
+    return this.timeEntryRepo.findRunning();
+  }
+
+  /**
+   * Starts a timer on a task. A timer already running on another task is stopped first,
+   * so that time is never logged twice.
+   */
+  startTimer(taskId: string): TimeEntry | null {
+    if (!this.taskRepo.findById(taskId)) {
+      return null;
+    }
+    const running = this.timeEntryRepo.findRunning();
+    if (running?.taskId === taskId) {
+      return running;
+    }
+    return this.db.transaction(() => {
+      const now = new Date().toISOString();
+      if (running) {
+        this.timeEntryRepo.update(running.id, { endedAt: now });
+      }
+      return this.timeEntryRepo.start(taskId, now);
+    });
+  }
+
+  // Returns the stopped entry, or null when no timer was running
+  stopTimer(): TimeEntry | null {
+    const running = this.timeEntryRepo.findRunning();
+    if (!running) {
+      return null;
+    }
+    return this.timeEntryRepo.update(running.id, { endedAt: new Date().toISOString() });
+  }
+
+  createTimeEntry(dto: CreateTimeEntryDto): TimeEntry | null {
+    if (!this.taskRepo.findById(dto.taskId)) {
+      return null;
+    }
+    this.validateTimeRange(dto.startedAt, dto.endedAt);
+    return this.timeEntryRepo.create(dto);
+  }
+
+  updateTimeEntry(id: string, dto: UpdateTimeEntryDto): TimeEntry | null {
+    const existing = this.timeEntryRepo.findById(id);
+    if (!existing) {
+      return null;
+    }
+    const endedAt = dto.endedAt ?? existing.endedAt;
+    if (endedAt) {
+      this.validateTimeRange(dto.startedAt ?? existing.startedAt, endedAt);
+    }
+    return this.timeEntryRepo.update(id, dto);
+  }
+
+  deleteTimeEntry(id: string): boolean {
+    return this.timeEntryRepo.delete(id);
+  }
+
+  private validateTimeRange(startedAt: string, endedAt: string): void {
+    const start = Date.parse(startedAt);
+    const end = Date.parse(endedAt);
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      throw new Error('Invalid time entry date');
+    }
+    if (end <= start) {
+      throw new Error('Time entry must end after it starts');
+    }
+  }
+
+  // ============================================
+  // Member operations
+  // ============================================
+
+  getAllMembers(): Member[] {
+    return this.memberRepo.findAll();
+  }
+
+  getMemberById(id: string): Member | null {
+    return this.memberRepo.findById(id);
+  }
+
+  createMember(dto: CreateMemberDto): Member {
+    this.validateMember(dto);
+    return this.memberRepo.create(dto);
+  }
+
+  updateMember(id: string, dto: UpdateMemberDto): Member | null {
+    const existing = this.memberRepo.findById(id);
+    if (!existing) {
+      return null;
+    }
+    this.validateMember(dto, id);
+    return this.db.transaction(() => {
+      const member = this.memberRepo.update(id, dto)!;
+      if (member.name !== existing.name) {
+        for (const taskId of this.memberRepo.getTasksWithMember(id)) {
+          this.taskRepo.refreshAssigneeName(taskId);
+        }
+      }
+      return member;
+    });
+  }
+
+  deleteMember(id: string): boolean {
+    if (!this.memberRepo.findById(id)) {
+      return false;
+    }
+    this.db.transaction(() => {
+      this.replaceMemberOnTasks(id, null);
+      this.memberRepo.delete(id);
+    });
+    return true;
+  }
+
+  /**
+   * Moves every task of the source member to the target member and deletes the source,
+   * e.g. for two spellings of the same person.
+   */
+  mergeMembers(sourceId: string, targetId: string): Member | null {
+    const target = this.memberRepo.findById(targetId);
+    if (sourceId === targetId || !target || !this.memberRepo.findById(sourceId)) {
+      return null;
+    }
+    this.db.transaction(() => {
+      this.replaceMemberOnTasks(sourceId, targetId);
+      this.memberRepo.delete(sourceId);
+    });
+    return target;
+  }
+
+  // Number of tasks assigned to each member, keyed by member ID
+  getMemberUsage(): Record<string, number> {
+    const usage: Record<string, number> = {};
+    for (const member of this.memberRepo.findAll()) {
+      usage[member.id] = this.memberRepo.getTasksWithMember(member.id).length;
+    }
+    return usage;
+  }
+
+  private validateMember(dto: UpdateMemberDto, id?: string): void {
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      if (!name) {
+        throw new Error('Member name is required');
+      }
+      const existing = this.memberRepo.findByName(name);
+      if (existing && existing.id !== id) {
+        throw new Error(`A member named "${existing.name}" already exists`);
+      }
+    }
+    const { weeklyHours } = dto;
+    if (
+      weeklyHours !== undefined &&
+      weeklyHours !== null &&
+      (!Number.isFinite(weeklyHours) || weeklyHours < 0 || weeklyHours > 168)
+    ) {
+      throw new Error(`Invalid weekly capacity: ${weeklyHours}`);
+    }
+  }
+
+  // Goes through TaskRepository.update so that the assignee change is recorded in each task's history
+  private replaceMemberOnTasks(memberId: string, replacementId: string | null): void {
+    for (const taskId of this.memberRepo.getTasksWithMember(memberId)) {
+      const assigneeIds = this.taskRepo
+        .getAssigneesForTask(taskId)
+        .map((id) => (id === memberId ? replacementId : id))
+        .filter((id): id is string => id !== null);
+      this.taskRepo.update(taskId, { assigneeIds });
+    }
+  }
+
   // ============================================
   // Label operations
   // ============================================
@@ -147,7 +667,261 @@ export class TaskService {
   }
 
   deleteLabel(id: string): boolean {
-    return this.labelRepo.delete(id);
+    if (!this.labelRepo.findById(id)) {
+      return false;
+    }
+    this.db.transaction(() => {
+      this.replaceLabelOnTasks(id, null);
+      this.labelRepo.delete(id);
+    });
+    return true;
+  }
+
+  /**
+   * Moves every assignment of the source label to the target label and deletes the source.
+   */
+  mergeLabels(sourceId: string, targetId: string): Label | null {
+    const target = this.labelRepo.findById(targetId);
+    if (sourceId === targetId || !target || !this.labelRepo.findById(sourceId)) {
+      return null;
+    }
+    this.db.transaction(() => {
+      this.replaceLabelOnTasks(sourceId, targetId);
+      this.labelRepo.delete(sourceId);
+    });
+    return target;
+  }
+
+  // Number of tasks using each label, keyed by label ID
+  getLabelUsage(): Record<string, number> {
+    const usage: Record<string, number> = {};
+    for (const label of this.labelRepo.findAll()) {
+      usage[label.id] = this.labelRepo.getTasksWithLabel(label.id).length;
+    }
+    return usage;
+  }
+
+  // Goes through TaskRepository.update so that the label change is recorded in each task's history
+  private replaceLabelOnTasks(labelId: string, replacementId: string | null): void {
+    for (const taskId of this.labelRepo.getTasksWithLabel(labelId)) {
+      const labelIds = this.taskRepo.getLabelsForTask(taskId).filter((id) => id !== labelId);
+      if (replacementId && !labelIds.includes(replacementId)) {
+        labelIds.push(replacementId);
+      }
+      this.taskRepo.update(taskId, { labelIds });
+    }
+  }
+
+  // ============================================
+  // Custom field operations
+  // ============================================
+
+  // Every field, or the global fields and those of a project
+  getCustomFields(projectId?: string | null): CustomField[] {
+    return this.customFieldRepo.findAll(projectId);
+  }
+
+  createCustomField(dto: CreateCustomFieldDto): CustomField {
+    if (!CUSTOM_FIELD_TYPES.includes(dto.type)) {
+      throw new Error(`Unknown custom field type: ${dto.type}`);
+    }
+    const projectId = dto.projectId ?? null;
+    this.validateCustomFieldName(dto.name, projectId);
+    const options = this.normalizeCustomFieldOptions(dto.type, dto.options);
+    return this.customFieldRepo.create({ ...dto, projectId, options });
+  }
+
+  /**
+   * Renames a field or replaces its options; values using a removed option are cleared.
+   */
+  updateCustomField(id: string, dto: UpdateCustomFieldDto): CustomField | null {
+    const existing = this.customFieldRepo.findById(id);
+    if (!existing) {
+      return null;
+    }
+    if (dto.name !== undefined) {
+      this.validateCustomFieldName(dto.name, existing.projectId, id);
+    }
+    const options = dto.options === undefined ? undefined : this.normalizeCustomFieldOptions(existing.type, dto.options);
+
+    return this.db.transaction(() => {
+      if (options) {
+        this.removeCustomFieldOptions(existing, options);
+      }
+      return this.customFieldRepo.update(id, { ...dto, options });
+    });
+  }
+
+  deleteCustomField(id: string): boolean {
+    return this.customFieldRepo.delete(id);
+  }
+
+  private validateCustomFieldName(name: string, projectId: string | null, id?: string): void {
+    if (!name.trim()) {
+      throw new Error('Custom field name must not be empty');
+    }
+    const existing = this.customFieldRepo.findByName(name, projectId);
+    if (existing && existing.id !== id) {
+      throw new Error(`A custom field named "${name.trim()}" already exists`);
+    }
+  }
+
+  // Trimmed, unique options; select fields need at least one and other types have none
+  private normalizeCustomFieldOptions(type: CustomFieldType, options: string[] | undefined): string[] {
+    if (type !== 'select' && type !== 'multi_select') {
+      return [];
+    }
+    const normalized = [...new Set((options ?? []).map((option) => option.trim()).filter((option) => option))];
+    if (normalized.length === 0) {
+      throw new Error('A select field needs at least one option');
+    }
+    return normalized;
+  }
+
+  // ============================================
+  // Saved view operations
+  // ============================================
+
+  getSavedViews(): SavedView[] {
+    return this.savedViewRepo.findAll();
+  }
+
+  getSavedView(id: string): SavedView | null {
+    return this.savedViewRepo.findById(id);
+  }
+
+  // Names are matched case-insensitively
+  getSavedViewByName(name: string): SavedView | null {
+    return this.savedViewRepo.findByName(name.trim());
+  }
+
+  createSavedView(dto: CreateSavedViewDto): SavedView {
+    this.validateSavedViewType(dto.viewType);
+    this.validateSavedViewName(dto.name);
+    return this.savedViewRepo.create({ ...dto, name: dto.name.trim() });
+  }
+
+  updateSavedView(id: string, dto: UpdateSavedViewDto): SavedView | null {
+    if (dto.viewType !== undefined) {
+      this.validateSavedViewType(dto.viewType);
+    }
+    if (dto.name !== undefined) {
+      this.validateSavedViewName(dto.name, id);
+    }
+    return this.savedViewRepo.update(id, { ...dto, name: dto.name?.trim() });
+  }
+
+  deleteSavedView(id: string): boolean {
+    return this.savedViewRepo.delete(id);
+  }
+
+  private validateSavedViewType(viewType: string): void {
+    if (!SAVED_VIEW_TYPES.includes(viewType as SavedView['viewType'])) {
+      throw new Error(`Unknown view type: ${viewType}`);
+    }
+  }
+
+  private validateSavedViewName(name: string, id?: string): void {
+    if (!name.trim()) {
+      throw new Error('View name must not be empty');
+    }
+    const existing = this.savedViewRepo.findByName(name.trim());
+    if (existing && existing.id !== id) {
+      throw new Error(`A view named "${name.trim()}" already exists`);
+    }
+  }
+
+  private removeCustomFieldOptions(field: CustomField, options: string[]): void {
+    for (const taskId of this.taskRepo.getTasksWithCustomField(field.id)) {
+      const value = this.taskRepo.getCustomFieldValues(taskId)[field.id];
+      const kept = (Array.isArray(value) ? value : [String(value)]).filter((option) => options.includes(option));
+      const newValue = field.type === 'multi_select' ? kept : (kept[0] ?? null);
+      if (JSON.stringify(newValue) !== JSON.stringify(value)) {
+        this.taskRepo.setCustomFieldValues(taskId, {
+          [field.id]: Array.isArray(newValue) && newValue.length === 0 ? null : newValue,
+        });
+      }
+    }
+  }
+
+  /**
+   * Checks the custom field values of a task DTO against their fields, which must be global or
+   * belong to the task's project. Empty values (blank text, no options, unchecked) become null.
+   */
+  private normalizeCustomFieldValues(
+    values: Record<string, CustomFieldValue | null> | undefined,
+    projectId: string | null
+  ): Record<string, CustomFieldValue | null> | undefined {
+    if (values === undefined) {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(values).map(([fieldId, value]) => {
+        const field = this.customFieldRepo.findById(fieldId);
+        if (!field || (field.projectId !== null && field.projectId !== projectId)) {
+          throw new Error(`Custom field not found: ${fieldId}`);
+        }
+        return [fieldId, value === null ? null : this.normalizeCustomFieldValue(field, value)];
+      })
+    );
+  }
+
+  // Clears the values of fields of other projects when a task moves to a project
+  private getForeignCustomFieldValues(taskId: string, projectId: string | null): Record<string, null> {
+    const foreign = Object.keys(this.taskRepo.getCustomFieldValues(taskId)).filter((fieldId) => {
+      const field = this.customFieldRepo.findById(fieldId);
+      return !!field?.projectId && field.projectId !== projectId;
+    });
+    return Object.fromEntries(foreign.map((fieldId) => [fieldId, null]));
+  }
+
+  private normalizeCustomFieldValue(field: CustomField, value: CustomFieldValue): CustomFieldValue | null {
+    const invalid = () => new Error(`Invalid value for custom field "${field.name}"`);
+    switch (field.type) {
+      case 'text':
+      case 'url': {
+        if (typeof value !== 'string') {
+          throw invalid();
+        }
+        const text = value.trim();
+        if (text && field.type === 'url') {
+          try {
+            new URL(text);
+          } catch {
+            throw invalid();
+          }
+        }
+        return text || null;
+      }
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw invalid();
+        }
+        return value;
+      case 'date':
+        if (typeof value !== 'string' || (value !== '' && !/^\d{4}-\d{2}-\d{2}$/.test(value))) {
+          throw invalid();
+        }
+        return value || null;
+      case 'select':
+        if (typeof value !== 'string' || (value !== '' && !field.options.includes(value))) {
+          throw invalid();
+        }
+        return value || null;
+      case 'multi_select': {
+        if (!Array.isArray(value) || value.some((option) => !field.options.includes(option))) {
+          throw invalid();
+        }
+        // Kept in the order of the field's options
+        const chosen = field.options.filter((option) => value.includes(option));
+        return chosen.length > 0 ? chosen : null;
+      }
+      case 'checkbox':
+        if (typeof value !== 'boolean') {
+          throw invalid();
+        }
+        return value || null;
+    }
   }
 
   // ============================================
@@ -163,9 +937,85 @@ export class TaskService {
   }
 
   createDependency(dto: CreateDependencyDto): Dependency {
+    this.validateDependency(dto.predecessorId, dto.successorId);
     return this.dependencyRepo.create(dto);
   }
 
+  /**
+   * Rejects dependencies that would make the graph invalid: self-links, links between
+   * a task and its own ancestor/descendant, and links that close a cycle.
+   * Throws DependencyValidationError with the offending task path.
+   */
+  private validateDependency(predecessorId: string, successorId: string): void {
+    if (predecessorId === successorId) {
+      throw new DependencyValidationError(
+        'DEPENDENCY_SELF_REFERENCE',
+        'A task cannot depend on itself',
+        [predecessorId]
+      );
+    }
+
+    // Parent/subtask links: walk up from each side looking for the other
+    for (const [descendantId, ancestorId] of [
+      [successorId, predecessorId],
+      [predecessorId, successorId],
+    ]) {
+      const chain = this.getAncestorChain(descendantId);
+      const index = chain.indexOf(ancestorId);
+      if (index !== -1) {
+        throw new DependencyValidationError(
+          'DEPENDENCY_HIERARCHY',
+          'A task cannot depend on its own parent or subtask',
+          chain.slice(0, index + 1)
+        );
+      }
+    }
+
+    // Cycle: an existing path successor -> ... -> predecessor would be closed by the new link
+    const previous = new Map<string, string>();
+    const queue = [successorId];
+    const visited = new Set<string>([successorId]);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === predecessorId) {
+        const path = [predecessorId];
+        let node = predecessorId;
+        while (node !== successorId) {
+          node = previous.get(node)!;
+          path.unshift(node);
+        }
+        path.unshift(predecessorId);
+        throw new DependencyValidationError(
+          'DEPENDENCY_CYCLE',
+          'Cannot create dependency: would create a circular dependency',
+          path
+        );
+      }
+      for (const dep of this.dependencyRepo.findByPredecessor(current)) {
+        if (!visited.has(dep.successorId)) {
+          visited.add(dep.successorId);
+          previous.set(dep.successorId, current);
+          queue.push(dep.successorId);
+        }
+      }
+    }
+  }
+
+  // Returns [taskId, parentId, grandparentId, ...]
+  private getAncestorChain(taskId: string): string[] {
+    const chain = [taskId];
+    let current = this.taskRepo.findById(taskId);
+    while (current?.parentId && !chain.includes(current.parentId)) {
+      chain.push(current.parentId);
+      current = this.taskRepo.findById(current.parentId);
+    }
+    return chain;
+  }
+
+  updateDependency(id: string, dto: UpdateDependencyDto): Dependency | null {
+    return this.dependencyRepo.update(id, dto);
+  }
+
   deleteDependency(id: string): boolean {
     return this.dependencyRepo.delete(id);
   }
@@ -187,10 +1037,20 @@ export class TaskService {
   }
 
   createKanbanColumn(dto: CreateKanbanColumnDto, forProjectId?: string | null): KanbanColumn {
+    this.validateWipLimit(dto.wipLimit);
+    this.validateColumnCategory(dto.category);
+    this.validateColumnRules(dto.rules);
     return this.kanbanColumnRepo.create(dto, forProjectId);
   }
 
   updateKanbanColumn(id: string, dto: UpdateKanbanColumnDto): KanbanColumn | null {
+    this.validateWipLimit(dto.wipLimit);
+    this.validateColumnCategory(dto.category);
+    this.validateColumnRules(dto.rules);
+    const existing = this.kanbanColumnRepo.findById(id);
+    if (existing && dto.category && dto.category !== existing.category && this.kanbanColumnRepo.isRequiredColumn(existing)) {
+      throw new Error('The last global column of the Not started or Completed category must keep its category');
+    }
     return this.kanbanColumnRepo.update(id, dto);
   }
 
@@ -213,16 +1073,271 @@ export class TaskService {
     return this.kanbanColumnRepo.getTaskCountByColumn(columnId);
   }
 
+  getTaskCountsByColumn(): Record<string, number> {
+    return this.kanbanColumnRepo.getTaskCountsByColumn();
+  }
+
+  private validateWipLimit(wipLimit: number | null | undefined): void {
+    if (wipLimit !== undefined && wipLimit !== null && (!Number.isInteger(wipLimit) || wipLimit < 1)) {
+      throw new Error('WIP limit must be a positive whole number');
+    }
+  }
+
+  private validateColumnCategory(category: ColumnCategory | undefined): void {
+    if (category !== undefined && !COLUMN_CATEGORIES.includes(category)) {
+      throw new Error(`Unknown column category: ${category}`);
+    }
+  }
+
+  // ============================================
+  // Status categories
+  // ============================================
+
+  // Category of the column a status stands for; statuses without a column count as active
+  private getStatusCategory(status: TaskStatus): ColumnCategory {
+    return this.kanbanColumnRepo.findById(status)?.category ?? 'active';
+  }
+
+  isFinishedStatus(status: TaskStatus): boolean {
+    return FINISHED_CATEGORIES.includes(this.getStatusCategory(status));
+  }
+
+  private isFinishedTask(id: string): boolean {
+    const task = this.taskRepo.findById(id);
+    return !!task && this.isFinishedStatus(task.status);
+  }
+
+  /**
+   * Status a task of the project gets when it is checked off ('completed'), reopened or created
+   * without one ('not_started'): the first column of that category on the project's board.
+   */
+  getStatusForCategory(category: 'completed' | 'not_started', projectId: string | null): TaskStatus {
+    return this.kanbanColumnRepo.findFirstOfCategory(category, projectId).id;
+  }
+
+  // ============================================
+  // Column rules
+  // ============================================
+
+  // Column a task moves into with a status change, or null when it stays in its column
+  private getEnteredColumn(task: Task, status: TaskStatus | undefined): KanbanColumn | null {
+    if (status === undefined || status === task.status) {
+      return null;
+    }
+    return this.kanbanColumnRepo.findById(status);
+  }
+
+  /**
+   * Throws a WipLimitError when the column is full, or a ColumnRuleError when a rule of
+   * the column keeps the task out: a subtask (at any depth) or a predecessor that is not finished yet.
+   */
+  private checkColumnEntry(task: Task, column: KanbanColumn): void {
+    this.checkWipLimit(column);
+    for (const rule of column.rules) {
+      if (rule.type === 'requireSubtasksDone') {
+        const open = this.getDescendantIds(task.id).filter((id) => !this.isFinishedTask(id));
+        if (open.length > 0) {
+          throw new ColumnRuleError(
+            'COLUMN_RULE_SUBTASKS_OPEN',
+            `"${column.name}" requires all subtasks to be done`,
+            column.name,
+            open
+          );
+        }
+      }
+      if (rule.type === 'requirePredecessorsDone') {
+        const open = this.dependencyRepo
+          .findBySuccessor(task.id)
+          .map((dependency) => dependency.predecessorId)
+          .filter((id) => !this.isFinishedTask(id));
+        if (open.length > 0) {
+          throw new ColumnRuleError(
+            'COLUMN_RULE_PREDECESSORS_OPEN',
+            `"${column.name}" requires all predecessors to be done`,
+            column.name,
+            open
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Throws a WipLimitError when the WIP limit is enforced and the column already holds
+   * as many tasks as it allows, counting the tasks of every project.
+   */
+  private checkWipLimit(column: KanbanColumn): void {
+    if (
+      column.wipLimit !== null &&
+      this.getWipLimitMode() === 'enforce' &&
+      this.kanbanColumnRepo.getTaskCountByColumn(column.id) >= column.wipLimit
+    ) {
+      throw new WipLimitError(
+        `"${column.name}" has reached its WIP limit of ${column.wipLimit}`,
+        column.name,
+        column.wipLimit
+      );
+    }
+  }
+
+  /**
+   * Applies the actions of the column's rules to a task that just entered it.
+   * Goes through the repository update so the changes show in the task's history.
+   * Dates and progress of a parent stay rolled up from its subtasks.
+   */
+  private applyColumnRules(task: Task, column: KanbanColumn): Task {
+    const isParent = this.taskRepo.findByParentId(task.id).length > 0;
+    const updates: UpdateTaskDto = {};
+    let labelIds = this.taskRepo.getLabelsForTask(task.id);
+    const initialLabelIds = labelIds.join();
+
+    for (const rule of column.rules) {
+      switch (rule.type) {
+        case 'setProgress':
+          if (!isParent) {
+            updates.progress = rule.progress;
+          }
+          break;
+        case 'stampStartDate':
+          if (!isParent && !task.startDate) {
+            updates.startDate = toDateString(new Date());
+          }
+          break;
+        case 'clearAssignee':
+          updates.assigneeIds = [];
+          break;
+        case 'addLabel':
+          if (!labelIds.includes(rule.labelId) && this.labelRepo.findById(rule.labelId)) {
+            labelIds = [...labelIds, rule.labelId];
+          }
+          break;
+        case 'removeLabel':
+          labelIds = labelIds.filter((id) => id !== rule.labelId);
+          break;
+      }
+    }
+    if (labelIds.join() !== initialLabelIds) {
+      updates.labelIds = labelIds;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return task;
+    }
+    return this.taskRepo.update(task.id, updates) ?? task;
+  }
+
+  // Subtasks of a task at any depth
+  private getDescendantIds(taskId: string): string[] {
+    return this.taskRepo
+      .findByParentId(taskId)
+      .flatMap((subtask) => [subtask.id, ...this.getDescendantIds(subtask.id)]);
+  }
+
+  private validateColumnRules(rules: ColumnRule[] | undefined): void {
+    for (const rule of rules ?? []) {
+      switch (rule.type) {
+        case 'setProgress':
+          if (!Number.isInteger(rule.progress) || rule.progress < 0 || rule.progress > 100) {
+            throw new Error('Progress of a column rule must be a whole number from 0 to 100');
+          }
+          break;
+        case 'addLabel':
+        case 'removeLabel':
+          if (!this.labelRepo.findById(rule.labelId)) {
+            throw new Error('Label of a column rule not found');
+          }
+          break;
+        case 'stampStartDate':
+        case 'clearAssignee':
+        case 'requireSubtasksDone':
+        case 'requirePredecessorsDone':
+          break;
+        default:
+          throw new Error(`Unknown column rule: ${(rule as { type: string }).type}`);
+      }
+    }
+  }
+
+  // ============================================
+  // Code comment operations
+  // ============================================
+
+  /**
+   * Brings the tasks of TODO comments in line with a scan of the workspace folders: new comments
+   * become tasks, moved or edited ones update their task and tasks whose comment is gone are closed.
+   * A task's title follows its comment until the task is renamed.
+   * Sources of other workspaces sharing the database are left alone. Sources recorded before
+   * folders were stored are taken over by a matching comment, but never closed. Nothing is closed
+   * for files the scan skipped, or at all when the scan is incomplete.
+   */
+  syncScannedComments(scan: TodoScan, projectId?: string): TodoScanResult {
+    const folders = new Set(scan.workspaceFolders);
+    const sources = this.taskSourceRepo
+      .findAll()
+      .filter((source) => source.workspaceFolder === null || folders.has(source.workspaceFolder))
+      .filter((source) => this.taskRepo.findById(source.taskId));
+    const { matched, added, removed } = matchScannedComments(sources, scan.comments);
+    const result: TodoScanResult = { created: 0, updated: 0, closed: 0 };
+
+    return this.db.transaction(() => {
+      for (const { source, comment } of matched) {
+        const isChanged = source.line !== comment.line || source.tag !== comment.tag || source.text !== comment.text;
+        if (!isChanged && source.workspaceFolder === comment.workspaceFolder) {
+          continue;
+        }
+        const task = this.taskRepo.findById(source.taskId)!;
+        const title = getTodoTaskTitle(comment);
+        if (task.title === getTodoTaskTitle(source) && task.title !== title) {
+          this.taskRepo.update(task.id, { title });
+        }
+        this.taskSourceRepo.setSource(task.id, comment);
+        if (isChanged) {
+          result.updated++;
+        }
+      }
+
+      for (const comment of added) {
+        const task = this.createTask({
+          projectId,
+          title: getTodoTaskTitle(comment),
+          priority: getTodoPriority(comment.tag),
+        });
+        this.taskSourceRepo.setSource(task.id, comment);
+        result.created++;
+      }
+
+      const isSkipped = (source: TaskSource) =>
+        scan.skippedFiles.some((f) => f.workspaceFolder === source.workspaceFolder && f.filePath === source.filePath);
+      const closable = scan.complete ? removed.filter((s) => s.workspaceFolder !== null && !isSkipped(s)) : [];
+      for (const source of closable) {
+        const task = this.taskRepo.findById(source.taskId)!;
+        if (!this.isFinishedStatus(task.status)) {
+          this.taskRepo.updateStatus(task.id, this.getStatusForCategory('completed', task.projectId));
+          this.rollUpAncestors(task.parentId);
+          result.closed++;
+        }
+      }
+      return result;
+    });
+  }
+
   // ============================================
   // Helper methods
   // ============================================
 
+  // Also attaches the members, recurrence rule, logged hours, comment source and custom field values,
+  // which live in their own tables as well
   private enrichTaskWithLabels(task: Task): Task {
     const labelIds = this.taskRepo.getLabelsForTask(task.id);
     const labels = labelIds
       .map((id) => this.labelRepo.findById(id))
       .filter((l): l is Label => l !== null);
-    return { ...task, labels };
+    const recurrenceRule = this.taskRecurrenceRepo.findByTask(task.id)?.rule ?? null;
+    const actualHours = this.timeEntryRepo.sumHours(task.id);
+    const assigneeIds = this.taskRepo.getAssigneesForTask(task.id);
+    const source = this.taskSourceRepo.findByTask(task.id);
+    const customFields = this.taskRepo.getCustomFieldValues(task.id);
+    return { ...task, assigneeIds, labels, recurrenceRule, actualHours, source, customFields };
   }
 
   private enrichTasksWithLabels(tasks: Task[]): Task[] {
@@ -239,6 +1354,12 @@ export class TaskService {
     const labels = this.getAllLabels();
     const dependencies = this.getAllDependencies();
     const kanbanColumns = this.getAllKanbanColumnsForExport();
+    const taskEvents = this.taskEventRepo.findAll();
+    const taskComments = this.taskCommentRepo.findAll();
+    const timeEntries = this.timeEntryRepo.findAll();
+    const members = this.memberRepo.findAll();
+    const customFields = this.customFieldRepo.findAll();
+    const savedViews = this.savedViewRepo.findAll();
 
     // Get task-label relationships
     const taskLabels: { taskId: string; labelId: string }[] = [];
@@ -258,6 +1379,12 @@ export class TaskService {
       dependencies,
       taskLabels,
       kanbanColumns,
+      taskEvents,
+      taskComments,
+      timeEntries,
+      members,
+      customFields,
+      savedViews,
     };
     return JSON.stringify(data, null, 2);
   }
@@ -276,6 +1403,10 @@ export class TaskService {
       const labelIdMap = new Map<string, string>();
       const taskIdMap = new Map<string, string>();
       const columnIdMap = new Map<string, string>();
+      const memberIdMap = new Map<string, string>();
+      const customFieldIdMap = new Map<string, string>();
+      // Rules of the imported columns by new column ID, set after the labels
+      const importedColumnRules = new Map<string, ColumnRule[]>();
 
       let projectsImported = 0;
       let labelsImported = 0;
@@ -283,7 +1414,7 @@ export class TaskService {
       let dependenciesImported = 0;
       let columnsImported = 0;
 
-      this.db.transaction(() => {
+      const importRecords = () => this.db.transaction(() => {
         // 0. Import projects (skip default-project and duplicates by name)
         if (data.projects) {
           for (const project of data.projects) {
@@ -338,8 +1469,13 @@ export class TaskService {
               projectId: newProjectId,
               name: column.name,
               color: column.color,
+              wipLimit: column.wipLimit ?? null,
+              category: column.category,
             });
             columnIdMap.set(column.id, newColumn.id);
+            if (column.rules?.length) {
+              importedColumnRules.set(newColumn.id, column.rules);
+            }
             columnsImported++;
           }
         }
@@ -359,14 +1495,81 @@ export class TaskService {
           }
         }
 
-        // 3. Import tasks (2 passes for parent-child relationships)
-        // Pass 1: Tasks without parent
-        for (const task of data.tasks) {
-          if (!task.parentId) {
-            // Map project ID and status (column ID)
+        // Column rules refer to labels, so they are set once the labels exist
+        for (const [columnId, rules] of importedColumnRules) {
+          const mappedRules = rules.flatMap((rule): ColumnRule[] => {
+            if (rule.type !== 'addLabel' && rule.type !== 'removeLabel') {
+              return [rule];
+            }
+            const labelId = labelIdMap.get(rule.labelId);
+            return labelId ? [{ ...rule, labelId }] : [];
+          });
+          this.kanbanColumnRepo.update(columnId, { rules: mappedRules });
+        }
+
+        // Members (same name = same person)
+        for (const member of data.members ?? []) {
+          const existing = this.memberRepo.findByName(member.name);
+          const target =
+            existing ??
+            this.memberRepo.create({
+              name: member.name,
+              email: member.email,
+              color: member.color,
+              weeklyHours: member.weeklyHours,
+            });
+          memberIdMap.set(member.id, target.id);
+        }
+        // Exports without members only have the assignee text, which is matched by name
+        const mapAssigneeIds = (task: Task) =>
+          task.assigneeIds && data.members
+            ? task.assigneeIds.map((id) => memberIdMap.get(id)).filter((id): id is string => !!id)
+            : undefined;
+
+        // Custom fields (same name and type in the same scope = same field, whose options are extended)
+        for (const field of data.customFields ?? []) {
+          const projectId = field.projectId ? projectIdMap.get(field.projectId) : null;
+          if (projectId === undefined) {
+            continue;
+          }
+          const existing = this.customFieldRepo.findByName(field.name, projectId);
+          if (existing && existing.type !== field.type) {
+            continue;
+          }
+          const target = existing
+            ? this.customFieldRepo.update(existing.id, { options: [...new Set([...existing.options, ...field.options])] })!
+            : this.customFieldRepo.create({ name: field.name, type: field.type, projectId, options: field.options });
+          customFieldIdMap.set(field.id, target.id);
+        }
+        // Values of fields that were not imported are dropped
+        const mapCustomFields = (task: Task) =>
+          Object.fromEntries(
+            Object.entries(task.customFields ?? {})
+              .filter(([fieldId]) => customFieldIdMap.has(fieldId))
+              .map(([fieldId, value]) => [customFieldIdMap.get(fieldId)!, value])
+          );
+
+        // Map status to new column ID, fallback to original if mapping not found (for default columns)
+        // and to the board's not-started column when there is no such column here
+        const mapStatus = (status: TaskStatus, projectId: string | undefined) => {
+          const newStatus = columnIdMap.get(status) || status;
+          return this.kanbanColumnRepo.findById(newStatus)
+            ? newStatus
+            : this.getStatusForCategory('not_started', projectId ?? 'default-project');
+        };
+
+        // 3. Import tasks, each after its parent so that subtasks of any depth keep their parent.
+        // Tasks whose parent is not in the export become top-level tasks.
+        const exportedTaskIds = new Set(data.tasks.map((task) => task.id));
+        let pendingTasks = data.tasks;
+        while (pendingTasks.length > 0) {
+          const ready = pendingTasks.filter(
+            (task) => !task.parentId || !exportedTaskIds.has(task.parentId) || taskIdMap.has(task.parentId)
+          );
+          // Nothing ready means the remaining parents form a loop: import them as they are
+          for (const task of ready.length > 0 ? ready : pendingTasks) {
             const newProjectId = task.projectId ? projectIdMap.get(task.projectId) : undefined;
-            // Map status to new column ID, fallback to original if mapping not found (for default columns)
-            const newStatus = columnIdMap.get(task.status) || task.status;
+            const newStatus = mapStatus(task.status, newProjectId);
             const newTask = this.taskRepo.create({
               projectId: newProjectId ?? 'default-project',
               title: task.title,
@@ -376,41 +1579,30 @@ export class TaskService {
               dueDate: task.dueDate ?? undefined,
               startDate: task.startDate ?? undefined,
               assignee: task.assignee ?? undefined,
+              assigneeIds: mapAssigneeIds(task),
               estimatedHours: task.estimatedHours ?? undefined,
+              progress: task.progress,
+              parentId: task.parentId ? taskIdMap.get(task.parentId) : undefined,
+              customFields: mapCustomFields(task),
             });
-            // Update progress after creation
-            if (task.progress > 0) {
-              this.taskRepo.update(newTask.id, { progress: task.progress });
-            }
             taskIdMap.set(task.id, newTask.id);
             tasksImported++;
           }
+          pendingTasks = pendingTasks.filter((task) => !taskIdMap.has(task.id));
         }
 
-        // Pass 2: Tasks with parent
+        // Recurrence rules and comment sources travel inside the exported tasks
         for (const task of data.tasks) {
-          if (task.parentId) {
-            const newParentId = taskIdMap.get(task.parentId);
-            const newProjectId = task.projectId ? projectIdMap.get(task.projectId) : undefined;
-            // Map status to new column ID, fallback to original if mapping not found
-            const newStatus = columnIdMap.get(task.status) || task.status;
-            const newTask = this.taskRepo.create({
-              projectId: newProjectId ?? 'default-project',
-              title: task.title,
-              description: task.description ?? undefined,
-              status: newStatus,
-              priority: task.priority,
-              dueDate: task.dueDate ?? undefined,
-              startDate: task.startDate ?? undefined,
-              assignee: task.assignee ?? undefined,
-              estimatedHours: task.estimatedHours ?? undefined,
-              parentId: newParentId,
+          const newTaskId = taskIdMap.get(task.id);
+          if (newTaskId && task.recurrenceRule) {
+            this.taskRecurrenceRepo.setRule(newTaskId, task.recurrenceRule);
+          }
+          if (newTaskId && task.source) {
+            // Exports from before workspace folders were recorded have none
+            this.taskSourceRepo.setSource(newTaskId, {
+              ...task.source,
+              workspaceFolder: task.source.workspaceFolder ?? null,
             });
-            if (task.progress > 0) {
-              this.taskRepo.update(newTask.id, { progress: task.progress });
-            }
-            taskIdMap.set(task.id, newTask.id);
-            tasksImported++;
           }
         }
 
@@ -433,6 +1625,15 @@ export class TaskService {
           const newPredecessorId = taskIdMap.get(dep.predecessorId);
           const newSuccessorId = taskIdMap.get(dep.successorId);
           if (newPredecessorId && newSuccessorId) {
+            // Dependencies the graph rules reject (cycles, parent/subtask links) are left out
+            try {
+              this.validateDependency(newPredecessorId, newSuccessorId);
+            } catch (error) {
+              if (error instanceof DependencyValidationError) {
+                continue;
+              }
+              throw error;
+            }
             this.dependencyRepo.create({
               predecessorId: newPredecessorId,
               successorId: newSuccessorId,
@@ -442,8 +1643,78 @@ export class TaskService {
             dependenciesImported++;
           }
         }
+
+        // 6. Import comments
+        if (data.taskComments) {
+          for (const comment of data.taskComments) {
+            const newTaskId = taskIdMap.get(comment.taskId);
+            if (newTaskId) {
+              this.taskCommentRepo.importDocument({ ...comment, id: uuidv4(), taskId: newTaskId });
+            }
+          }
+        }
+
+        // 7. Import time entries (running timers stay with the data they were started in)
+        if (data.timeEntries) {
+          for (const entry of data.timeEntries) {
+            const newTaskId = taskIdMap.get(entry.taskId);
+            if (newTaskId && entry.endedAt) {
+              this.timeEntryRepo.importDocument({ ...entry, id: uuidv4(), taskId: newTaskId });
+            }
+          }
+        }
+
+        const idMap = new Map([
+          ...projectIdMap,
+          ...columnIdMap,
+          ...labelIdMap,
+          ...memberIdMap,
+          ...customFieldIdMap,
+          ...taskIdMap,
+        ]);
+        const mapIds = (value: string | null) =>
+          value?.replace(UUID_PATTERN, (id) => idMap.get(id) ?? id) ?? null;
+
+        // 8. Import change history (IDs in the recorded values are mapped like the records)
+        if (data.taskEvents) {
+          for (const event of data.taskEvents) {
+            const newTaskId = taskIdMap.get(event.taskId);
+            if (newTaskId) {
+              this.taskEventRepo.importDocument({
+                ...event,
+                id: uuidv4(),
+                taskId: newTaskId,
+                field: mapIds(event.field),
+                oldValue: mapIds(event.oldValue),
+                newValue: mapIds(event.newValue),
+              });
+            }
+          }
+        }
+
+        // 9. Import saved views (skip duplicates by name and views of projects not imported)
+        for (const view of data.savedViews ?? []) {
+          const projectId = view.projectId === null ? null : projectIdMap.get(view.projectId);
+          if (projectId === undefined || this.savedViewRepo.findByName(view.name)) {
+            continue;
+          }
+          this.savedViewRepo.importDocument({
+            ...view,
+            id: uuidv4(),
+            projectId,
+            state: JSON.parse(mapIds(JSON.stringify(view.state)) ?? '{}'),
+          });
+        }
       });
 
+      // Exports with a change history bring the 'created' and 'dependency_added' events of their
+      // tasks and dependencies along, so these are not recorded again
+      if (data.taskEvents) {
+        this.taskEventRepo.withoutRecording(importRecords);
+      } else {
+        importRecords();
+      }
+
       return {
         success: true,
         imported: {
@@ -462,10 +1733,19 @@ export class TaskService {
     }
   }
 
-  exportToCsv(): string {
+  exportToCsv(options: CsvExportOptions = {}): string {
+    if (options.timeEntries) {
+      return this.exportTimeEntriesToCsv();
+    }
+
     const tasks = this.getAllTasks();
     const projects = this.projectRepo.findAll();
     const projectMap = new Map(projects.map(p => [p.id, p.name]));
+    const customFields = this.customFieldRepo.findAll();
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    // Multi-select options are joined like the labels
+    const formatCustomField = (value: CustomFieldValue | undefined) =>
+      value === undefined ? '' : quote(Array.isArray(value) ? value.join(', ') : String(value));
 
     const headers = [
       'ID',
@@ -481,6 +1761,7 @@ export class TaskService {
       'Progress',
       'Labels',
       'Created At',
+      ...customFields.map((field) => quote(field.name)),
     ];
 
     const rows = tasks.map((task) => [
@@ -497,8 +1778,39 @@ export class TaskService {
       task.progress,
       `"${(task.labels || []).map((l) => l.name).join(', ')}"`,
       task.createdAt,
+      ...customFields.map((field) => formatCustomField(task.customFields?.[field.id])),
     ]);
 
     return [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
   }
+
+  // One row per finished time entry, oldest first
+  private exportTimeEntriesToCsv(): string {
+    const taskMap = new Map(this.taskRepo.findAll().map((t) => [t.id, t]));
+    const projectMap = new Map(this.projectRepo.findAll().map((p) => [p.id, p.name]));
+    const quote = (value: string | null | undefined) => `"${(value || '').replace(/"/g, '""')}"`;
+
+    const headers = ['ID', 'Task ID', 'Project', 'Task', 'Started At', 'Ended At', 'Hours', 'Note', 'Author'];
+
+    const rows = this.timeEntryRepo
+      .findAll()
+      .filter((entry) => entry.endedAt)
+      .map((entry) => {
+        const task = taskMap.get(entry.taskId);
+        const hours = (Date.parse(entry.endedAt!) - Date.parse(entry.startedAt)) / (60 * 60 * 1000);
+        return [
+          entry.id,
+          entry.taskId,
+          quote(task?.projectId ? projectMap.get(task.projectId) : ''),
+          quote(task?.title),
+          entry.startedAt,
+          entry.endedAt,
+          hours.toFixed(2),
+          quote(entry.note),
+          quote(entry.author),
+        ];
+      });
+
+    return [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
+  }
 }
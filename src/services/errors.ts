@@ -0,0 +1,52 @@
+export type DependencyValidationCode =
+  | 'DEPENDENCY_SELF_REFERENCE'
+  | 'DEPENDENCY_CYCLE'
+  | 'DEPENDENCY_HIERARCHY';
+
+/**
+ * Thrown when a new dependency would make the task graph invalid.
+ * `path` lists the task IDs involved in order, e.g. the full loop for a cycle.
+ */
+export class DependencyValidationError extends Error {
+  constructor(
+    public readonly code: DependencyValidationCode,
+    message: string,
+    public readonly path: string[]
+  ) {
+    super(message);
+    this.name = 'DependencyValidationError';
+  }
+}
+
+export type ColumnRuleCode = 'COLUMN_RULE_SUBTASKS_OPEN' | 'COLUMN_RULE_PREDECESSORS_OPEN';
+
+/**
+ * Thrown when a rule of the target column blocks a task from entering it.
+ * `taskIds` lists the subtasks or predecessors that are not done yet.
+ */
+export class ColumnRuleError extends Error {
+  constructor(
+    public readonly code: ColumnRuleCode,
+    message: string,
+    public readonly columnName: string,
+    public readonly taskIds: string[]
+  ) {
+    super(message);
+    this.name = 'ColumnRuleError';
+  }
+}
+
+/**
+ * Thrown when a task would enter a column that has reached its WIP limit
+ * while the limit is enforced (taskScheduller.kanban.wipLimitMode).
+ */
+export class WipLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly columnName: string,
+    public readonly wipLimit: number
+  ) {
+    super(message);
+    this.name = 'WipLimitError';
+  }
+}
@@ -1 +1,8 @@
 export { TaskService } from './TaskService';
+export { SchedulingService } from './SchedulingService';
+export { DependencyValidationError } from './errors';
+export type { DependencyValidationCode } from './errors';
+export { HistoryService } from './HistoryService';
+export { ReminderService } from './ReminderService';
+export type { ReminderLeadTimes, DueReminder } from './ReminderService';
+export type { HistoryState } from './HistoryService';
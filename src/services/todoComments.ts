@@ -0,0 +1,114 @@
+/**
+ * TODO comments in source files. The workspace scanner (src/scanner) reads the files and
+ * TaskService.syncScannedComments keeps one task per comment.
+ *
+ * A pattern is a regular expression matched against each line: its first capture group is the
+ * tag (TODO, FIXME...) and its second the text. Without groups the whole match is the text.
+ */
+
+import type { Priority, ScannedComment, TaskSource, TodoComment } from '../models/types';
+
+export const DEFAULT_TODO_PATTERN = '(?://|#|/\\*+|<!--|--|;)\\s*(TODO|FIXME)\\b:?\\s*(.*?)\\s*(?:\\*/|-->)?$';
+
+const DEFAULT_TAG = 'TODO';
+const MAX_TITLE_LENGTH = 200;
+
+// Tags that are worse than a plain TODO; every other tag is medium priority
+const TAG_PRIORITIES: Record<string, Priority> = {
+  FIXME: 3,
+  BUG: 3,
+};
+
+/**
+ * Compiles a configured pattern. Throws an Error naming the pattern when it is not a valid regex.
+ */
+export function compileTodoPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(`Invalid TODO pattern "${pattern}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Comments in the content of a file, at most one per line.
+ */
+export function findTodoComments(content: string, filePath: string, pattern: RegExp): TodoComment[] {
+  const comments: TodoComment[] = [];
+  content.split(/\r?\n/).forEach((lineText, index) => {
+    const match = pattern.exec(lineText);
+    if (!match) {
+      return;
+    }
+    const hasGroups = match.length > 1;
+    comments.push({
+      filePath,
+      line: index + 1,
+      tag: (hasGroups ? match[1] : undefined)?.toUpperCase() || DEFAULT_TAG,
+      text: ((hasGroups ? match[2] : match[0]) ?? '').trim(),
+    });
+  });
+  return comments;
+}
+
+export function getTodoTaskTitle(comment: TodoComment): string {
+  const title = comment.text || `${comment.tag} ${comment.filePath}:${comment.line}`;
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+export function getTodoPriority(tag: string): Priority {
+  return TAG_PRIORITIES[tag] ?? 2;
+}
+
+// Sources recorded before workspace folders were stored match the file in any folder
+function isSameFile(source: TaskSource, comment: ScannedComment): boolean {
+  return (
+    source.filePath === comment.filePath &&
+    (source.workspaceFolder === null || source.workspaceFolder === comment.workspaceFolder)
+  );
+}
+
+export interface ScannedCommentMatch {
+  matched: { source: TaskSource; comment: ScannedComment }[];
+  added: ScannedComment[]; // comments without a task yet
+  removed: TaskSource[]; // sources whose comment is gone
+}
+
+/**
+ * Pairs the known sources with the comments of a new scan. A comment keeps its task when the
+ * same text is still in the same file (lines above it may have changed), or else when its line
+ * still holds a comment (the text was edited). That line is shifted as much as the closest
+ * unchanged comment above it moved.
+ */
+export function matchScannedComments(sources: TaskSource[], comments: ScannedComment[]): ScannedCommentMatch {
+  const matched: ScannedCommentMatch['matched'] = [];
+  let remainingSources = [...sources].sort((a, b) => a.line - b.line);
+  let remainingComments = comments;
+
+  const pair = (isSame: (source: TaskSource, comment: ScannedComment) => boolean) => {
+    const unpaired: ScannedComment[] = [];
+    for (const comment of remainingComments) {
+      const index = remainingSources.findIndex((source) => isSameFile(source, comment) && isSame(source, comment));
+      if (index === -1) {
+        unpaired.push(comment);
+      } else {
+        matched.push({ source: remainingSources[index], comment });
+        remainingSources = remainingSources.filter((_, i) => i !== index);
+      }
+    }
+    remainingComments = unpaired;
+  };
+
+  pair((source, comment) => source.tag === comment.tag && source.text === comment.text);
+
+  const unchanged = [...matched];
+  const getShift = (source: TaskSource): number => {
+    const above = unchanged
+      .filter((m) => isSameFile(source, m.comment) && m.source.line < source.line)
+      .sort((x, y) => y.source.line - x.source.line)[0];
+    return above ? above.comment.line - above.source.line : 0;
+  };
+  pair((source, comment) => source.line + getShift(source) === comment.line);
+
+  return { matched, added: remainingComments, removed: remainingSources };
+}
@@ -0,0 +1,291 @@
+/**
+ * Recurrence rules of repeating tasks, written as a subset of the iCalendar RRULE syntax:
+ *
+ *   FREQ=DAILY|WEEKLY|MONTHLY|YEARLY  (required)
+ *   INTERVAL=n                        every n days/weeks/months/years
+ *   BYDAY=MO,WE or 2TU,-1FR           weekdays; the nth weekday of the month for MONTHLY
+ *   BYMONTHDAY=15 or -1               days of the month (negative counts from the end), MONTHLY only
+ *   UNTIL=20261231                    last possible occurrence
+ *
+ * Occurrences are calendar dates (YYYY-MM-DD); the series starts at the date passed in.
+ * Shared by the extension and the webview, which imports it as @shared/recurrence.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  nth: number | null; // 1..5 or -1..-5 (MONTHLY only)
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  until: string | null; // YYYY-MM-DD
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// Upper bound of periods searched for the next occurrence (e.g. BYMONTHDAY=31 skips short months)
+const MAX_PERIODS = 1000;
+
+function toDayNumber(date: string): number {
+  return Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / MS_PER_DAY);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+function getWeekday(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function dayNumberOf(year: number, month: number, date: number): number {
+  return Math.round(Date.UTC(year, month, date) / MS_PER_DAY);
+}
+
+/**
+ * Parses a rule, with or without the leading "RRULE:".
+ * Throws an Error naming the offending part when the rule is invalid or outside the supported subset.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const rule: RecurrenceRule = { frequency: 'DAILY', interval: 1, byDay: [], byMonthDay: [], until: null };
+  let hasFrequency = false;
+
+  const body = text.trim().replace(/^RRULE:/i, '');
+  for (const part of body.split(';').filter((p) => p.trim() !== '')) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as RecurrenceFrequency)) {
+          throw new Error(`Unsupported recurrence frequency: ${value}`);
+        }
+        rule.frequency = value as RecurrenceFrequency;
+        hasFrequency = true;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new Error(`Invalid recurrence interval: ${value}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((entry) => {
+          const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry.trim());
+          const nth = match?.[1] ? Number(match[1]) : null;
+          if (!match || nth === 0) {
+            throw new Error(`Invalid recurrence weekday: ${entry}`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), nth };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map((entry) => {
+          const day = Number(entry);
+          if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+            throw new Error(`Invalid recurrence day of month: ${entry}`);
+          }
+          return day;
+        });
+        break;
+      case 'UNTIL': {
+        const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+        if (!match) {
+          throw new Error(`Invalid recurrence end date: ${value}`);
+        }
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (!hasFrequency) {
+    throw new Error('Recurrence rule needs a FREQ');
+  }
+  if (rule.byMonthDay.length > 0 && rule.frequency !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY');
+  }
+  if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+    throw new Error('BYDAY and BYMONTHDAY cannot be combined');
+  }
+  if (rule.frequency === 'YEARLY' && rule.byDay.length > 0) {
+    throw new Error('BYDAY is not supported with FREQ=YEARLY');
+  }
+  if (rule.frequency !== 'MONTHLY' && rule.byDay.some((d) => d.nth !== null)) {
+    throw new Error('Numbered weekdays (e.g. 2TU) are only supported with FREQ=MONTHLY');
+  }
+  return rule;
+}
+
+// Canonical text of a rule, without the "RRULE:" prefix
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+}
+
+// Days of a month matched by a MONTHLY rule; without BY parts the series' own day of month
+function getMonthlyDays(rule: RecurrenceRule, year: number, month: number, seriesDate: number): number[] {
+  const daysInMonth = getDaysInMonth(year, month);
+  const dates: number[] = [];
+
+  for (const monthDay of rule.byMonthDay) {
+    const date = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+    if (date >= 1 && date <= daysInMonth) {
+      dates.push(date);
+    }
+  }
+
+  const firstWeekday = getWeekday(dayNumberOf(year, month, 1));
+  for (const { weekday, nth } of rule.byDay) {
+    const matches: number[] = [];
+    for (let date = 1 + ((weekday - firstWeekday + 7) % 7); date <= daysInMonth; date += 7) {
+      matches.push(date);
+    }
+    if (nth === null) {
+      dates.push(...matches);
+    } else {
+      const date = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+      if (date !== undefined) {
+        dates.push(date);
+      }
+    }
+  }
+
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0 && seriesDate <= daysInMonth) {
+    dates.push(seriesDate);
+  }
+  return dates.map((date) => dayNumberOf(year, month, date)).sort((a, b) => a - b);
+}
+
+function getNextDay(rule: RecurrenceRule, after: number): number | null {
+  const matchesWeekday = (day: number) =>
+    rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === getWeekday(day));
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      for (let day = after + rule.interval, i = 0; i < MAX_PERIODS; day += rule.interval, i++) {
+        if (matchesWeekday(day)) {
+          return day;
+        }
+      }
+      return null;
+
+    case 'WEEKLY': {
+      if (rule.byDay.length === 0) {
+        return after + 7 * rule.interval;
+      }
+      // Weeks start on Monday, as in RRULE
+      const firstMonday = after - ((getWeekday(after) + 6) % 7);
+      for (let day = after + 1; day <= after + 7 * rule.interval + 7; day++) {
+        const week = Math.floor((day - firstMonday) / 7);
+        if (week % rule.interval === 0 && matchesWeekday(day)) {
+          return day;
+        }
+      }
+      return null;
+    }
+
+    case 'MONTHLY': {
+      const start = new Date(after * MS_PER_DAY);
+      for (let i = 0; i < MAX_PERIODS; i++) {
+        const monthIndex = start.getUTCMonth() + i * rule.interval;
+        const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const days = getMonthlyDays(rule, year, monthIndex % 12, start.getUTCDate());
+        const next = days.find((day) => day > after);
+        if (next !== undefined) {
+          return next;
+        }
+      }
+      return null;
+    }
+
+    case 'YEARLY': {
+      const start = new Date(after * MS_PER_DAY);
+      for (let i = 1; i < MAX_PERIODS; i++) {
+        const year = start.getUTCFullYear() + i * rule.interval;
+        // Feb 29 only recurs in leap years
+        if (start.getUTCDate() <= getDaysInMonth(year, start.getUTCMonth())) {
+          return dayNumberOf(year, start.getUTCMonth(), start.getUTCDate());
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * First occurrence after the given date (YYYY-MM-DD), or null when the series has ended.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  const next = getNextDay(rule, toDayNumber(after));
+  if (next === null || (rule.until && next > toDayNumber(rule.until))) {
+    return null;
+  }
+  return fromDayNumber(next);
+}
+
+/**
+ * Occurrences after `after` up to and including `until`, at most `limit` of them.
+ */
+export function getOccurrences(rule: RecurrenceRule, after: string, until: string, limit = 400): string[] {
+  const occurrences: string[] = [];
+  let current = after;
+  while (occurrences.length < limit) {
+    const next = getNextOccurrence(rule, current);
+    if (!next || next > until) {
+      break;
+    }
+    occurrences.push(next);
+    current = next;
+  }
+  return occurrences;
+}
+
+/**
+ * Moves a task date (YYYY-MM-DD, optionally followed by a time) by whole days.
+ */
+export function shiftDate(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days) + date.slice(10);
+}
+
+/**
+ * Number of days from one date to another.
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+/**
+ * Local calendar date of a moment as YYYY-MM-DD, e.g. today as the user sees it.
+ */
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
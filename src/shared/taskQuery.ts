@@ -0,0 +1,158 @@
+/**
+ * Task query language of the panel's search box and the Search Tasks command, e.g.
+ *
+ *   project:Backend assignee:me due:<7d status:!done label:bug "login"
+ *
+ * Terms are separated by spaces and a task must match all of them. Words without a key must
+ * appear in the title or description; quotes keep spaces together ("login page", project:"Web app").
+ * A value starting with ! negates the term (status:!done, !draft).
+ *
+ *   project:<name>           project name or ID, or none
+ *   assignee:<name>          member name, me (the current author) or none
+ *   label:<name>             label name or none
+ *   status:<column>          column name or ID, or a column category (completed, blocked...)
+ *   priority:[op]<priority>  low, medium, high, urgent or 1-4
+ *   due:[op]<date>           also start:[op]<date>; or none
+ *
+ * op is one of < <= > >= (equal without one). Dates are YYYY-MM-DD, today, tomorrow, yesterday,
+ * today+3 or an offset from today such as 7d, -2d or 2w.
+ * Shared by the extension and the webview, which imports it as @shared/taskQuery.
+ */
+
+import { shiftDate } from './recurrence';
+
+export type TaskQueryField = 'text' | 'project' | 'assignee' | 'label' | 'status' | 'priority' | 'due' | 'start';
+
+export type TaskQueryComparison = '=' | '<' | '<=' | '>' | '>=';
+
+export interface TaskQueryTerm {
+  field: TaskQueryField;
+  comparison: TaskQueryComparison; // '=' except for priorities and dates
+  // Resolved value: priorities as 1-4, dates as YYYY-MM-DD, me as the author's name, 'none' for no value
+  value: string;
+  negated: boolean;
+}
+
+export type TaskQueryErrorCode = 'missingValue' | 'invalidComparison' | 'invalidPriority' | 'invalidDate' | 'unknownAuthor';
+
+// A term that could not be read; it is left out of the query
+export interface TaskQueryError {
+  code: TaskQueryErrorCode;
+  term: string;
+}
+
+export interface TaskQuery {
+  terms: TaskQueryTerm[];
+  errors: TaskQueryError[];
+}
+
+export interface TaskQueryContext {
+  today: string; // YYYY-MM-DD, anchors relative dates
+  author: string | null; // name that assignee:me stands for
+}
+
+// Value of project, assignee, label, due and start terms matching tasks without one
+export const TASK_QUERY_NONE = 'none';
+
+const KEYED_FIELDS: TaskQueryField[] = ['project', 'assignee', 'label', 'status', 'priority', 'due', 'start'];
+const COMPARABLE_FIELDS: TaskQueryField[] = ['priority', 'due', 'start'];
+const NONE_FIELDS: TaskQueryField[] = ['project', 'assignee', 'label', 'due', 'start'];
+const PRIORITY_NAMES: Record<string, string> = { low: '1', medium: '2', high: '3', urgent: '4' };
+const NAMED_DATE_OFFSETS: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+
+// Optional key, optional !, then a quoted or a plain value
+const TOKEN_PATTERN = /(?:([a-z]+):)?(!?)(?:"([^"]*)"?|(\S+))/gi;
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE_PATTERN = /^today([+-])(\d+)([dw]?)$/;
+const OFFSET_PATTERN = /^([+-]?)(\d+)([dw])$/;
+
+/**
+ * Date (YYYY-MM-DD) of a query date, or null when it is not one.
+ */
+export function resolveQueryDate(value: string, today: string): string | null {
+  const text = value.toLowerCase();
+  if (DATE_PATTERN.test(text)) {
+    return Number.isNaN(Date.parse(`${text}T00:00:00Z`)) ? null : text;
+  }
+  if (text in NAMED_DATE_OFFSETS) {
+    return shiftDate(today, NAMED_DATE_OFFSETS[text]);
+  }
+  const match = RELATIVE_DATE_PATTERN.exec(text) ?? OFFSET_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, sign, amount, unit] = match;
+  return shiftDate(today, Number(amount) * (unit === 'w' ? 7 : 1) * (sign === '-' ? -1 : 1));
+}
+
+function resolveValue(field: TaskQueryField, value: string, context: TaskQueryContext): string | TaskQueryErrorCode {
+  const lower = value.toLowerCase();
+  if (lower === TASK_QUERY_NONE && NONE_FIELDS.includes(field)) {
+    return TASK_QUERY_NONE;
+  }
+  switch (field) {
+    case 'priority':
+      return PRIORITY_NAMES[lower] ?? (/^[1-4]$/.test(value) ? value : 'invalidPriority');
+    case 'due':
+    case 'start':
+      return resolveQueryDate(value, context.today) ?? 'invalidDate';
+    case 'assignee':
+      return lower === 'me' ? context.author ?? 'unknownAuthor' : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reads a query. Terms that cannot be read are reported in `errors` and left out, so the rest
+ * of the query still applies while it is being typed.
+ */
+export function parseTaskQuery(text: string, context: TaskQueryContext): TaskQuery {
+  const query: TaskQuery = { terms: [], errors: [] };
+
+  for (const [token, key, bang, quoted, plain] of text.matchAll(TOKEN_PATTERN)) {
+    const field = KEYED_FIELDS.find((f) => f === key?.toLowerCase());
+    if (!field) {
+      // "status:" without a value is read as a plain word
+      const keyOnly = /^([a-z]+):$/i.exec(plain ?? '');
+      if (keyOnly && KEYED_FIELDS.includes(keyOnly[1].toLowerCase() as TaskQueryField)) {
+        query.errors.push({ code: 'missingValue', term: token });
+        continue;
+      }
+      // Unknown keys (as in URLs) are searched for as text
+      const value = key ? token : (quoted ?? plain).trim();
+      if (value) {
+        query.terms.push({ field: 'text', comparison: '=', value, negated: !key && bang === '!' });
+      }
+      continue;
+    }
+
+    const [, comparison = '=', rest] = COMPARISON_PATTERN.exec((quoted ?? plain).trim())!;
+    const isComparable = COMPARABLE_FIELDS.includes(field);
+    const rawValue = (isComparable ? rest : (quoted ?? plain)).trim();
+    if (!rawValue) {
+      query.errors.push({ code: 'missingValue', term: token });
+      continue;
+    }
+    const value = resolveValue(field, rawValue, context);
+    const error: TaskQueryErrorCode | null =
+      value === 'invalidPriority' || value === 'invalidDate' || value === 'unknownAuthor'
+        ? value
+        : isComparable && comparison !== '=' && value === TASK_QUERY_NONE
+          ? 'invalidComparison'
+          : null;
+    if (error) {
+      query.errors.push({ code: error, term: token });
+      continue;
+    }
+    query.terms.push({
+      field,
+      comparison: isComparable ? (comparison as TaskQueryComparison) : '=',
+      value,
+      negated: bang === '!',
+    });
+  }
+
+  return query;
+}
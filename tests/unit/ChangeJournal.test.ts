@@ -0,0 +1,183 @@
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import {
+  clearJournal,
+  mergeChanges,
+  readJournalSeq,
+  readPendingChanges,
+  type RowChange,
+} from '../../src/database/ChangeJournal';
+import { migrations } from '../../src/database/migrations';
+
+let SQL: SqlJsStatic;
+let baseFile: Uint8Array;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+  const db = new SQL.Database();
+  for (const migration of migrations) {
+    migration.up(db);
+  }
+  db.run("INSERT INTO tasks (id, title, estimated_hours) VALUES ('t1', 'Design', 2.5), ('t2', 'Build', NULL)");
+  db.run("INSERT INTO labels (id, name, color) VALUES ('l1', 'Bug', '#ff0000')");
+  clearJournal(db);
+  baseFile = db.export();
+  db.close();
+});
+
+// Each window works on its own copy of the same database file
+function openWindow(): Database {
+  return new SQL.Database(baseFile);
+}
+
+function title(db: Database, id: string): unknown {
+  return db.exec('SELECT title FROM tasks WHERE id = ?', [id])[0]?.values[0]?.[0] ?? null;
+}
+
+describe('readPendingChanges', () => {
+  it('collapses several changes of a row into its first and last state', () => {
+    const db = openWindow();
+    db.run("UPDATE tasks SET title = 'Design v2' WHERE id = 't1'");
+    db.run("UPDATE tasks SET title = 'Design v3' WHERE id = 't1'");
+
+    const changes = readPendingChanges(db);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ table: 'tasks', key: ['t1'] });
+    expect(changes[0].oldRow?.title).toBe('Design');
+    expect(changes[0].newRow?.title).toBe('Design v3');
+  });
+
+  it('skips rows that were created and deleted again', () => {
+    const db = openWindow();
+    db.run("INSERT INTO tasks (id, title) VALUES ('t3', 'Temporary')");
+    db.run("DELETE FROM tasks WHERE id = 't3'");
+
+    expect(readPendingChanges(db)).toEqual([]);
+  });
+
+  it('keys rows of tables with a composite primary key by all key columns', () => {
+    const db = openWindow();
+    db.run("INSERT INTO task_labels (task_id, label_id) VALUES ('t1', 'l1')");
+
+    const [change] = readPendingChanges(db);
+
+    expect(change).toMatchObject({ table: 'task_labels', key: ['t1', 'l1'], oldRow: null });
+  });
+
+  it('only returns the changes journaled after a given entry', () => {
+    const db = openWindow();
+    db.run("UPDATE tasks SET title = 'Design v2' WHERE id = 't1'");
+    const seq = readJournalSeq(db);
+    db.run("UPDATE tasks SET title = 'Design v3' WHERE id = 't1'");
+    db.run("UPDATE tasks SET title = 'Build v2' WHERE id = 't2'");
+
+    const changes = readPendingChanges(db, seq);
+
+    expect(changes).toHaveLength(2);
+    expect(changes[0].oldRow?.title).toBe('Design v2');
+    expect(changes[1].oldRow?.title).toBe('Build');
+  });
+
+  it('returns nothing after the journal is cleared', () => {
+    const db = openWindow();
+    db.run("UPDATE tasks SET title = 'Design v2' WHERE id = 't1'");
+    clearJournal(db);
+
+    expect(readPendingChanges(db)).toEqual([]);
+    expect(readJournalSeq(db)).toBe(0);
+  });
+});
+
+describe('mergeChanges', () => {
+  it('replays changes on top of rows the other window changed elsewhere', () => {
+    const mine = openWindow();
+    const theirs = openWindow();
+    mine.run("UPDATE tasks SET title = 'Design v2' WHERE id = 't1'");
+    mine.run("INSERT INTO tasks (id, title) VALUES ('t3', 'Test')");
+    theirs.run("UPDATE tasks SET title = 'Build v2' WHERE id = 't2'");
+
+    const conflicts = mergeChanges(theirs, readPendingChanges(mine));
+
+    expect(conflicts).toEqual([]);
+    expect(title(theirs, 't1')).toBe('Design v2');
+    expect(title(theirs, 't2')).toBe('Build v2');
+    expect(title(theirs, 't3')).toBe('Test');
+  });
+
+  it('applies deletions', () => {
+    const mine = openWindow();
+    const theirs = openWindow();
+    mine.run("DELETE FROM tasks WHERE id = 't2'");
+
+    expect(mergeChanges(theirs, readPendingChanges(mine))).toEqual([]);
+    expect(title(theirs, 't2')).toBeNull();
+  });
+
+  it('reports a row changed in both windows and keeps this window’s version', () => {
+    const mine = openWindow();
+    const theirs = openWindow();
+    mine.run("UPDATE tasks SET title = 'Mine' WHERE id = 't1'");
+    theirs.run("UPDATE tasks SET title = 'Theirs' WHERE id = 't1'");
+
+    const conflicts = mergeChanges(theirs, readPendingChanges(mine));
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ table: 'tasks', key: ['t1'] });
+    expect(conflicts[0].mine?.title).toBe('Mine');
+    expect(conflicts[0].theirs?.title).toBe('Theirs');
+    expect(title(theirs, 't1')).toBe('Mine');
+  });
+
+  it('reports a row updated here and deleted in the other window', () => {
+    const mine = openWindow();
+    const theirs = openWindow();
+    mine.run("UPDATE tasks SET title = 'Mine' WHERE id = 't1'");
+    theirs.run("DELETE FROM tasks WHERE id = 't1'");
+
+    const conflicts = mergeChanges(theirs, readPendingChanges(mine));
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].theirs).toBeNull();
+    expect(title(theirs, 't1')).toBe('Mine');
+  });
+
+  it('does not report the same change made in both windows', () => {
+    const mine = openWindow();
+    const theirs = openWindow();
+    mine.run("DELETE FROM tasks WHERE id = 't2'");
+    theirs.run("DELETE FROM tasks WHERE id = 't2'");
+    mine.run("UPDATE tasks SET estimated_hours = 4 WHERE id = 't1'");
+    theirs.run("UPDATE tasks SET estimated_hours = 4.0 WHERE id = 't1'");
+
+    expect(mergeChanges(theirs, readPendingChanges(mine))).toEqual([]);
+  });
+
+  it('compares numbers with their text form and missing columns as NULL', () => {
+    const theirs = openWindow();
+    const current = theirs.exec("SELECT * FROM tasks WHERE id = 't1'");
+    const row = Object.fromEntries(current[0].columns.map((column, i) => [column, current[0].values[0][i]]));
+    // As written by a version that stored the hours as text and did not know the description column
+    const { description: _description, ...oldRow } = { ...row, estimated_hours: '2.50' };
+    const change: RowChange = {
+      table: 'tasks',
+      key: ['t1'],
+      oldRow,
+      newRow: { ...row, title: 'Design v2' },
+    };
+
+    expect(mergeChanges(theirs, [change])).toEqual([]);
+    expect(title(theirs, 't1')).toBe('Design v2');
+  });
+
+  it('leaves a created-then-deleted row out of the other window', () => {
+    const mine = openWindow();
+    const theirs = openWindow();
+    mine.run("INSERT INTO tasks (id, title) VALUES ('t3', 'Temporary')");
+    mine.run("DELETE FROM tasks WHERE id = 't3'");
+    theirs.run("INSERT INTO tasks (id, title) VALUES ('t4', 'Theirs')");
+
+    expect(mergeChanges(theirs, readPendingChanges(mine))).toEqual([]);
+    expect(title(theirs, 't3')).toBeNull();
+    expect(title(theirs, 't4')).toBe('Theirs');
+  });
+});
@@ -17,31 +17,52 @@ import {
   DropdownMenuSubTrigger,
   DropdownMenuSubContent,
   TooltipProvider,
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
 } from '@/components/ui';
 import { TodoView } from '@/components/todo/TodoView';
 import { KanbanView } from '@/components/kanban/KanbanView';
 import { GanttView } from '@/components/gantt/GanttView';
 import { CalendarView } from '@/components/calendar/CalendarView';
+import { WorkloadView } from '@/components/workload/WorkloadView';
 import { TaskFormDialog } from '@/components/common/TaskFormDialog';
+import { LabelManagerDialog } from '@/components/common/LabelManagerDialog';
+import { MemberManagerDialog } from '@/components/common/MemberManagerDialog';
+import { CustomFieldManagerDialog } from '@/components/common/CustomFieldManagerDialog';
+import { SavedViewSwitcher } from '@/components/common/SavedViewSwitcher';
+import { TaskSearchBox } from '@/components/common/TaskSearchBox';
 import {
   ListTodo,
   Columns3,
   GanttChart,
   Calendar,
+  Users,
   Plus,
   MoreVertical,
   Download,
   Upload,
   FileJson,
   FileSpreadsheet,
+  Undo2,
+  Redo2,
+  Tags,
+  UserCog,
+  FileSearch,
+  SlidersHorizontal,
 } from 'lucide-react';
 import { useI18n } from '@/i18n';
 import type { ViewType } from '@/types';
 
 function App() {
   const { t } = useI18n();
-  const { currentView, setCurrentView, isLoading, showCompletedTasks, setShowCompletedTasks, exportData, importData } = useTaskStore();
+  const { tasks, currentView, setCurrentView, isLoading, showCompletedTasks, setShowCompletedTasks, exportData, importData, scanTodoComments, canUndo, canRedo, undo, redo } = useTaskStore();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isLabelManagerOpen, setIsLabelManagerOpen] = useState(false);
+  const [isMemberManagerOpen, setIsMemberManagerOpen] = useState(false);
+  const [isCustomFieldManagerOpen, setIsCustomFieldManagerOpen] = useState(false);
+  const [openedTaskId, setOpenedTaskId] = useState<string | null>(null);
+  const openedTask = openedTaskId ? tasks.find((task) => task.id === openedTaskId) : undefined;
 
   useEffect(() => {
     // Initialize message handler and listen for messages
@@ -51,9 +72,27 @@ function App() {
     const handleOpenDialog = () => setIsCreateDialogOpen(true);
     window.addEventListener('openCreateTaskDialog', handleOpenDialog);
 
+    // Listen for open task command (sent by due date reminders)
+    const handleOpenTask = (e: Event) => setOpenedTaskId((e as CustomEvent<{ taskId: string }>).detail.taskId);
+    window.addEventListener('openTaskDialog', handleOpenTask);
+
+    // Ctrl+Z / Ctrl+Y are forwarded to VS Code, which runs the task undo/redo commands.
+    // Inside text fields, keep them from being forwarded so that native text undo still works.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isUndoRedo = (e.ctrlKey || e.metaKey) && ['z', 'y'].includes(e.key.toLowerCase());
+      const target = e.target as HTMLElement | null;
+      const isEditable = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if (isUndoRedo && isEditable) {
+        e.stopPropagation();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+
     return () => {
       cleanup();
       window.removeEventListener('openCreateTaskDialog', handleOpenDialog);
+      window.removeEventListener('openTaskDialog', handleOpenTask);
+      document.removeEventListener('keydown', handleKeyDown, true);
     };
   }, []);
 
@@ -92,9 +131,17 @@ function App() {
               <Calendar className="h-5 w-5" />
               <span className="hidden sm:inline">{t('view.calendar')}</span>
             </TabsTrigger>
+            <TabsTrigger value="workload" className="gap-2 px-4 py-2 text-sm">
+              <Users className="h-5 w-5" />
+              <span className="hidden sm:inline">{t('view.workload')}</span>
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex items-center gap-4">
+            <TaskSearchBox />
+
+            <SavedViewSwitcher />
+
             <div className="flex items-center gap-2">
               <Checkbox
                 id="show-completed"
@@ -106,6 +153,25 @@ function App() {
               </Label>
             </div>
 
+            <div className="flex items-center gap-1">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" size="icon" onClick={undo} disabled={!canUndo} aria-label={t('action.undo')}>
+                    <Undo2 className="h-5 w-5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>{t('action.undo')}</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" size="icon" onClick={redo} disabled={!canRedo} aria-label={t('action.redo')}>
+                    <Redo2 className="h-5 w-5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>{t('action.redo')}</TooltipContent>
+              </Tooltip>
+            </div>
+
             <Button size="default" onClick={() => setIsCreateDialogOpen(true)}>
               <Plus className="h-5 w-5" />
               <span className="hidden sm:inline ml-1">{t('action.newTask')}</span>
@@ -132,6 +198,10 @@ function App() {
                       <FileSpreadsheet className="h-4 w-4 mr-2" />
                       CSV
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportData('csv', { timeEntries: true })}>
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      {t('timeLog.exportCsv')}
+                    </DropdownMenuItem>
                   </DropdownMenuSubContent>
                 </DropdownMenuSub>
                 <DropdownMenuSeparator />
@@ -139,6 +209,23 @@ function App() {
                   <Upload className="h-4 w-4 mr-2" />
                   {t('action.import')}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => scanTodoComments()}>
+                  <FileSearch className="h-4 w-4 mr-2" />
+                  {t('todoScanner.scan')}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setIsLabelManagerOpen(true)}>
+                  <Tags className="h-4 w-4 mr-2" />
+                  {t('label.manage')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsMemberManagerOpen(true)}>
+                  <UserCog className="h-4 w-4 mr-2" />
+                  {t('member.manage')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsCustomFieldManagerOpen(true)}>
+                  <SlidersHorizontal className="h-4 w-4 mr-2" />
+                  {t('customField.manage')}
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -160,12 +247,39 @@ function App() {
         <TabsContent value="calendar" className="flex-1 min-h-0 mt-0 overflow-hidden">
           <CalendarView />
         </TabsContent>
+
+        <TabsContent value="workload" className="flex-1 min-h-0 mt-0 overflow-hidden">
+          <WorkloadView />
+        </TabsContent>
       </Tabs>
 
       <TaskFormDialog
         open={isCreateDialogOpen}
         onOpenChange={setIsCreateDialogOpen}
       />
+
+      {openedTask && (
+        <TaskFormDialog
+          open
+          onOpenChange={(open) => !open && setOpenedTaskId(null)}
+          task={openedTask}
+        />
+      )}
+
+      <LabelManagerDialog
+        open={isLabelManagerOpen}
+        onOpenChange={setIsLabelManagerOpen}
+      />
+
+      <MemberManagerDialog
+        open={isMemberManagerOpen}
+        onOpenChange={setIsMemberManagerOpen}
+      />
+
+      <CustomFieldManagerDialog
+        open={isCustomFieldManagerOpen}
+        onOpenChange={setIsCustomFieldManagerOpen}
+      />
     </div>
     </TooltipProvider>
   );
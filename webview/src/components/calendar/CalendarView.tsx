@@ -1,9 +1,23 @@
 import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import './calendar.css';
 import { useTaskStore } from '@/stores/taskStore';
+import { useSavedViewState } from '@/stores/savedViewState';
+import { useTaskSearch } from '@/stores/taskSearch';
 import { TaskFormDialog } from '@/components/common/TaskFormDialog';
-import type { Task } from '@/types';
-import { getHexColor } from '@/types';
+import { FilterPopover } from '@/components/common/FilterPopover';
+import type { Task, FilterState, KanbanColumn } from '@/types';
+import {
+  getHexColor,
+  createEmptyFilterState,
+  evaluateFilter,
+  loadFilterState,
+  parseRecurrenceRule,
+  getOccurrences,
+  isTaskFinished,
+  getDaysBetween,
+  shiftDate,
+  toDateString,
+} from '@/types';
 import { Settings, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui';
 import { useI18n } from '@/i18n';
@@ -17,11 +31,37 @@ interface TaskBar {
   startCol: number;
   span: number;
   row: number;
+  // Set for future occurrences of a recurring task: the task they are projected from
+  projectedFrom?: Task;
+}
+
+/**
+ * Future occurrences of a recurring task up to the given date, as copies of the task with
+ * shifted dates. Invalid rules and finished tasks project nothing.
+ */
+function projectOccurrences(task: Task, until: string, columns: KanbanColumn[]): Task[] {
+  const anchor = task.dueDate ?? task.startDate;
+  if (!task.recurrenceRule || !anchor || isTaskFinished(task, columns)) {return [];}
+  let occurrences: string[];
+  try {
+    occurrences = getOccurrences(parseRecurrenceRule(task.recurrenceRule), anchor, until, 100);
+  } catch {
+    return [];
+  }
+  return occurrences.map((date) => {
+    const days = getDaysBetween(anchor, date);
+    return {
+      ...task,
+      startDate: task.startDate ? shiftDate(task.startDate, days) : null,
+      dueDate: task.dueDate ? shiftDate(task.dueDate, days) : null,
+    };
+  });
 }
 
 export function CalendarView() {
   const { t, locale } = useI18n();
-  const { tasks, kanbanColumns } = useTaskStore();
+  const { tasks, kanbanColumns, labels } = useTaskStore();
+  const { filter: searchFilter } = useTaskSearch();
   const [viewMode, setViewMode] = useState<ViewMode>('month');
   const today = useMemo(() => {
     const now = new Date();
@@ -40,12 +80,26 @@ export function CalendarView() {
     return (saved === '0' || saved === '1') ? parseInt(saved) as WeekStartDay : 0;
   });
   const [showSettings, setShowSettings] = useState(false);
+  const [filterState, setFilterState] = useState<FilterState>(() => {
+    const saved = loadFilterState('taskscheduller-filters-calendar');
+    return saved || createEmptyFilterState();
+  });
   const containerRef = useRef<HTMLDivElement>(null);
   const weekRefs = useRef<Map<string, HTMLDivElement>>(new Map());
   const scrollUpdateTimeoutRef = useRef<number | null>(null);
   const hasScrolledToToday = useRef(false);
   const WEEK_HEIGHT = 150; // Height of each week row in pixels
 
+  useSavedViewState(
+    'calendar',
+    () => ({ filter: filterState, zoom: viewMode }),
+    (state) => {
+      setFilterState(state.filter ?? createEmptyFilterState());
+      setViewMode(state.zoom === 'week' ? 'week' : 'month');
+      hasScrolledToToday.current = false;
+    }
+  );
+
   // Get status color from kanban columns
   const getStatusColor = useCallback((status: string): string => {
     const column = kanbanColumns.find(col => col.id === status);
@@ -54,8 +108,8 @@ export function CalendarView() {
 
   // Filter tasks with dates
   const tasksWithDates = useMemo(() => {
-    return tasks.filter((task) => task.startDate || task.dueDate);
-  }, [tasks]);
+    return tasks.filter((task) => (task.startDate || task.dueDate) && evaluateFilter(task, filterState) && evaluateFilter(task, searchFilter));
+  }, [tasks, filterState, searchFilter]);
 
   // Toggle week start day setting
   const handleWeekStartToggle = () => {
@@ -290,8 +344,14 @@ export function CalendarView() {
     const bars: TaskBar[] = [];
     const taskRows: Task[][] = [];
 
+    // Recurring tasks also show their upcoming occurrences as ghost entries
+    const entries: { task: Task; projectedFrom?: Task }[] = tasksWithDates.flatMap((task) => [
+      { task },
+      ...projectOccurrences(task, toDateString(endDate), kanbanColumns).map((occurrence) => ({ task: occurrence, projectedFrom: task })),
+    ]);
+
     // Sort tasks: longer duration first, then earlier start date
-    const sortedTasks = [...tasksWithDates].sort((a, b) => {
+    const sortedEntries = entries.sort(({ task: a }, { task: b }) => {
       const aStart = a.startDate ? new Date(a.startDate) : new Date(a.dueDate!);
       const aEnd = a.dueDate ? new Date(a.dueDate) : new Date(a.startDate!);
       const bStart = b.startDate ? new Date(b.startDate) : new Date(b.dueDate!);
@@ -311,7 +371,7 @@ export function CalendarView() {
       return aStart.getTime() - bStart.getTime();
     });
 
-    sortedTasks.forEach(task => {
+    sortedEntries.forEach(({ task, projectedFrom }) => {
       const taskStart = task.startDate ? new Date(task.startDate) : new Date(task.dueDate!);
       const taskEnd = task.dueDate ? new Date(task.dueDate) : new Date(task.startDate!);
 
@@ -369,11 +429,12 @@ export function CalendarView() {
         startCol,
         span,
         row,
+        projectedFrom,
       });
     });
 
     return bars;
-  }, [calendarGrid.days, tasksWithDates, displayMonth, viewMode, weekStartDay]);
+  }, [calendarGrid.days, tasksWithDates, kanbanColumns, displayMonth, viewMode, weekStartDay]);
 
   const handleToday = () => {
     const now = new Date();
@@ -412,6 +473,15 @@ export function CalendarView() {
     setIsEditDialogOpen(true);
   };
 
+  // Ghost entries (projected occurrences) are outlined instead of filled
+  const getBarColors = (hexColor: string, projected: boolean): React.CSSProperties => projected
+    ? { backgroundColor: `${hexColor}1a`, color: hexColor, border: `1px dashed ${hexColor}` }
+    : { backgroundColor: hexColor, color: '#ffffff' };
+
+  const getBarTitle = (bar: TaskBar): string => bar.projectedFrom
+    ? t('recurrence.projected', bar.task.title, bar.task.dueDate ?? bar.task.startDate ?? '')
+    : bar.task.title;
+
   const handleDateClick = () => {
     setIsCreateDialogOpen(true);
   };
@@ -468,6 +538,15 @@ export function CalendarView() {
         </div>
         <h2 className="text-lg font-semibold">{formatLabel()}</h2>
         <div className="flex items-center gap-2">
+          <FilterPopover
+            fields={[
+              { id: 'title', label: t('task.title') },
+              { id: 'labels', label: t('task.labels'), options: labels.map(l => ({ value: l.name, label: l.name })) },
+            ]}
+            value={filterState}
+            onChange={setFilterState}
+            storageKey="taskscheduller-filters-calendar"
+          />
           <Button
             variant="outline"
             size="icon"
@@ -694,14 +773,13 @@ export function CalendarView() {
                                 width: `${(localSpan / 7) * 100}%`,
                                 top: `${bar.row * 28 + 4}px`,
                                 height: '24px',
-                                backgroundColor: hexColor,
-                                color: '#ffffff',
+                                ...getBarColors(hexColor, !!bar.projectedFrom),
                               }}
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleTaskClick(bar.task);
+                                handleTaskClick(bar.projectedFrom ?? bar.task);
                               }}
-                              title={bar.task.title}
+                              title={getBarTitle(bar)}
                             >
                               {bar.task.title}
                             </div>
@@ -741,14 +819,13 @@ export function CalendarView() {
                         width: `${(bar.span / 7) * 100}%`,
                         top: `${bar.row * 32}px`,
                         height: '28px',
-                        backgroundColor: hexColor,
-                        color: '#ffffff',
+                        ...getBarColors(hexColor, !!bar.projectedFrom),
                       }}
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleTaskClick(bar.task);
+                        handleTaskClick(bar.projectedFrom ?? bar.task);
                       }}
-                      title={bar.task.title}
+                      title={getBarTitle(bar)}
                     >
                       {bar.task.title}
                     </div>
@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Plus, UserPlus, X } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Input,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+} from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { MemberAvatar } from './MemberAvatar';
+import type { Member } from '@/types';
+
+interface AssigneePickerProps {
+  value: string[];
+  onChange: (memberIds: string[]) => void;
+  // Custom trigger (e.g. a table cell); without it the selection is shown as badges above a button
+  children?: React.ReactNode;
+}
+
+// Multi-select for task assignees; typing a new name offers to add the member
+export function AssigneePicker({ value, onChange, children }: AssigneePickerProps) {
+  const { t } = useI18n();
+  const { members, createMember } = useTaskStore();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  // Name of a member created from here, selected as soon as it arrives from the extension
+  const [pendingName, setPendingName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pendingName) {return;}
+    const created = members.find((m) => m.name.toLowerCase() === pendingName.toLowerCase());
+    if (created) {
+      if (!value.includes(created.id)) {
+        onChange([...value, created.id]);
+      }
+      setPendingName(null);
+    }
+  }, [members, pendingName, value, onChange]);
+
+  const selectedMembers = value
+    .map((id) => members.find((m) => m.id === id))
+    .filter((m): m is Member => m !== undefined);
+
+  const trimmedSearch = search.trim();
+  const filteredMembers = useMemo(
+    () =>
+      members.filter(
+        (m) =>
+          m.name.toLowerCase().includes(trimmedSearch.toLowerCase()) ||
+          (m.email ?? '').toLowerCase().includes(trimmedSearch.toLowerCase())
+      ),
+    [members, trimmedSearch]
+  );
+  // Member names are unique regardless of case
+  const canCreate =
+    trimmedSearch !== '' && !members.some((m) => m.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  const toggle = (memberId: string) => {
+    onChange(value.includes(memberId) ? value.filter((id) => id !== memberId) : [...value, memberId]);
+  };
+
+  const handleCreate = () => {
+    if (!canCreate) {return;}
+    createMember({ name: trimmedSearch });
+    setPendingName(trimmedSearch);
+    setSearch('');
+  };
+
+  const popover = (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {children ?? (
+          <Button type="button" variant="outline" size="sm" className="w-full justify-start text-muted-foreground">
+            <UserPlus className="h-3 w-3 mr-2" />
+            {t('member.select')}
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder={t('member.searchOrCreate')}
+          className="h-8 text-xs mb-2"
+          autoFocus
+        />
+        <div className="max-h-48 overflow-y-auto">
+          {filteredMembers.map((member) => (
+            <button
+              key={member.id}
+              type="button"
+              onClick={() => toggle(member.id)}
+              className="flex w-full items-center gap-2 rounded px-2 py-1 text-xs hover:bg-muted"
+            >
+              <MemberAvatar member={member} />
+              <span className="flex-1 truncate text-left">{member.name}</span>
+              {value.includes(member.id) && <Check className="h-3 w-3" />}
+            </button>
+          ))}
+          {canCreate && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              className="flex w-full items-center gap-2 rounded px-2 py-1 text-xs hover:bg-muted"
+            >
+              <Plus className="h-3 w-3" />
+              <span className="truncate">{t('member.create', trimmedSearch)}</span>
+            </button>
+          )}
+          {filteredMembers.length === 0 && !canCreate && (
+            <p className="px-2 py-1 text-xs text-muted-foreground">{t('member.empty')}</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+
+  if (children) {
+    return popover;
+  }
+
+  return (
+    <div className="space-y-2">
+      {selectedMembers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedMembers.map((member) => (
+            <Badge key={member.id} variant="outline" className="flex items-center gap-1 pr-1">
+              <MemberAvatar member={member} className="h-4 w-4 text-[8px]" />
+              <span className="max-w-[150px] truncate">{member.name}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => toggle(member.id)}
+                className="ml-1 h-4 w-4 hover:bg-muted p-0"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      {popover}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import {
+  Input,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import type { CustomField, CustomFieldValue } from '@/types';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+}
+
+// Select value that clears a single-select field
+const NO_OPTION = '__none__';
+
+// Editor of one custom field value; null clears the value
+export function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const { t } = useI18n();
+
+  switch (field.type) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+    case 'checkbox':
+      return (
+        <div className="flex h-9 items-center">
+          <Checkbox
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked === true ? true : null)}
+            aria-label={field.name}
+          />
+        </div>
+      );
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' ? value : NO_OPTION}
+          onValueChange={(option) => onChange(option === NO_OPTION ? null : option)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_OPTION}>{t('activity.none')}</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option)
+          ? selected.filter((o) => o !== option)
+          : field.options.filter((o) => o === option || selected.includes(o));
+        onChange(next.length > 0 ? next : null);
+      };
+      return (
+        <div className="flex flex-wrap gap-1">
+          {field.options.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => toggle(option)}
+              className={cn(
+                'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                selected.includes(option)
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-border hover:bg-muted'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <Input
+          type={field.type === 'url' ? 'url' : 'text'}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          placeholder={field.type === 'url' ? 'https://' : undefined}
+        />
+      );
+  }
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import type { CustomField, CustomFieldType } from '@/types';
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABEL_KEYS,
+  getCustomFieldsForProject,
+  fieldTypeHasOptions,
+} from '@/types';
+
+interface CustomFieldManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value of the global scope (project IDs are the other values)
+const GLOBAL_SCOPE = '__global__';
+
+const parseOptions = (text: string): string[] =>
+  text.split(',').map((option) => option.trim()).filter((option) => option);
+
+const isNameTaken = (fields: CustomField[], name: string, projectId: string | null, id?: string) =>
+  fields.some(
+    (f) => f.id !== id && f.projectId === projectId && f.name.toLowerCase() === name.toLowerCase()
+  );
+
+interface CustomFieldRowProps {
+  field: CustomField;
+  fields: CustomField[];
+}
+
+function CustomFieldRow({ field, fields }: CustomFieldRowProps) {
+  const { t } = useI18n();
+  const { projects, updateCustomField, deleteCustomField } = useTaskStore();
+  const [name, setName] = useState(field.name);
+  const [options, setOptions] = useState(field.options.join(', '));
+
+  useEffect(() => {
+    setName(field.name);
+  }, [field.name]);
+
+  useEffect(() => {
+    setOptions(field.options.join(', '));
+  }, [field.options]);
+
+  const trimmedName = name.trim();
+  const isDuplicate = isNameTaken(fields, trimmedName, field.projectId, field.id);
+  const scopeName = field.projectId === null
+    ? t('customField.global')
+    : projects.find((p) => p.id === field.projectId)?.name ?? field.projectId;
+
+  // Rename when leaving the field; invalid names fall back to the current one
+  const commitName = () => {
+    if (!trimmedName || isDuplicate) {
+      setName(field.name);
+    } else if (trimmedName !== field.name) {
+      updateCustomField(field.id, { name: trimmedName });
+    }
+  };
+
+  // Values using a removed option are cleared by the extension
+  const commitOptions = () => {
+    const parsed = parseOptions(options);
+    if (parsed.length === 0) {
+      setOptions(field.options.join(', '));
+    } else if (parsed.join('\n') !== field.options.join('\n')) {
+      updateCustomField(field.id, { options: parsed });
+    }
+  };
+
+  const blurOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={blurOnEnter}
+        className={`h-7 w-36 shrink-0 text-xs ${isDuplicate ? 'border-red-500' : ''}`}
+      />
+      <span className="w-24 shrink-0 truncate text-xs text-muted-foreground">
+        {t(CUSTOM_FIELD_TYPE_LABEL_KEYS[field.type])}
+      </span>
+      <span className="w-24 shrink-0 truncate text-xs text-muted-foreground" title={scopeName}>
+        {scopeName}
+      </span>
+      {fieldTypeHasOptions(field.type) ? (
+        <Input
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+          onBlur={commitOptions}
+          onKeyDown={blurOnEnter}
+          placeholder={t('customField.options')}
+          className="h-7 flex-1 text-xs"
+        />
+      ) : (
+        <span className="flex-1" />
+      )}
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={() => deleteCustomField(field.id)}
+        aria-label={t('action.delete')}
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </li>
+  );
+}
+
+// Add, rename and remove the custom fields of tasks, globally or per project
+export function CustomFieldManagerDialog({ open, onOpenChange }: CustomFieldManagerDialogProps) {
+  const { t } = useI18n();
+  const { customFields, projects, currentProjectId, createCustomField } = useTaskStore();
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newScope, setNewScope] = useState(GLOBAL_SCOPE);
+  const [newOptions, setNewOptions] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setNewName('');
+      setNewType('text');
+      setNewScope(currentProjectId ?? GLOBAL_SCOPE);
+      setNewOptions('');
+    }
+  }, [open, currentProjectId]);
+
+  const fields = getCustomFieldsForProject(customFields, currentProjectId);
+  const trimmedName = newName.trim();
+  const projectId = newScope === GLOBAL_SCOPE ? null : newScope;
+  const needsOptions = fieldTypeHasOptions(newType);
+  const canCreate =
+    trimmedName !== '' &&
+    !isNameTaken(customFields, trimmedName, projectId) &&
+    (!needsOptions || parseOptions(newOptions).length > 0);
+
+  const handleCreate = () => {
+    if (!canCreate) {return;}
+    createCustomField({
+      name: trimmedName,
+      type: newType,
+      projectId,
+      options: needsOptions ? parseOptions(newOptions) : undefined,
+    });
+    setNewName('');
+    setNewOptions('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('customField.manage')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {/* New field */}
+          <div className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder={t('customField.newPlaceholder')}
+              className="h-8 w-36 shrink-0 text-xs"
+            />
+            <Select value={newType} onValueChange={(type) => setNewType(type as CustomFieldType)}>
+              <SelectTrigger className="h-8 w-28 shrink-0 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map((type) => (
+                  <SelectItem key={type} value={type} className="text-xs">
+                    {t(CUSTOM_FIELD_TYPE_LABEL_KEYS[type])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newScope} onValueChange={setNewScope}>
+              <SelectTrigger className="h-8 w-28 shrink-0 text-xs" aria-label={t('customField.scope')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_SCOPE} className="text-xs">
+                  {t('customField.global')}
+                </SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id} className="text-xs">
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={newOptions}
+              onChange={(e) => setNewOptions(e.target.value)}
+              placeholder={t('customField.options')}
+              disabled={!needsOptions}
+              className="h-8 flex-1 text-xs"
+            />
+            <Button type="button" size="sm" onClick={handleCreate} disabled={!canCreate}>
+              <Plus className="h-3 w-3 mr-1" />
+              {t('action.create')}
+            </Button>
+          </div>
+
+          {/* Existing fields */}
+          {fields.length === 0 ? (
+            <p className="py-4 text-center text-xs text-muted-foreground">{t('customField.empty')}</p>
+          ) : (
+            <ul className="max-h-[50vh] space-y-1 overflow-y-auto pr-1">
+              {fields.map((field) => (
+                <CustomFieldRow key={field.id} field={field} fields={customFields} />
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-muted-foreground">{t('customField.scopeHint')}</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { Filter, Plus, X } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Filter, FolderPlus, Plus, X } from 'lucide-react';
 import {
   Button,
   Badge,
@@ -14,12 +14,34 @@ import {
   Input,
 } from '@/components/ui';
 import { useI18n } from '@/i18n';
-import type { FilterState, FilterCondition } from '@/types';
-import { createEmptyFilterState } from '@/types';
+import { useTaskStore } from '@/stores/taskStore';
+import { cn } from '@/lib/utils';
+import type {
+  FilterState,
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  FilterFieldType,
+  CustomField,
+} from '@/types';
+import {
+  FILTER_OPERATORS,
+  createEmptyFilterState,
+  isFilterGroup,
+  operatorNeedsValue,
+  countActiveConditions,
+  getCustomFieldsForProject,
+  getCustomFieldPath,
+  fieldTypeHasOptions,
+} from '@/types';
 
-interface FilterField {
+export interface FilterField {
   id: string;
   label: string;
+  type?: FilterFieldType; // default 'text'
+  // Fixed choices shown in a select instead of free text
+  options?: { value: string; label: string }[];
 }
 
 interface FilterPopoverProps {
@@ -29,56 +51,351 @@ interface FilterPopoverProps {
   storageKey?: string;
 }
 
-export function FilterPopover({ fields, value, onChange, storageKey }: FilterPopoverProps) {
+// Groups can be nested this deep below the top level
+const MAX_GROUP_DEPTH = 2;
+
+const OPERATOR_LABEL_KEYS: Record<FilterOperator, string> = {
+  contains: 'filter.operator.contains',
+  not_contains: 'filter.operator.notContains',
+  equals: 'filter.operator.equals',
+  not_equals: 'filter.operator.notEquals',
+  starts_with: 'filter.operator.startsWith',
+  regex: 'filter.operator.regex',
+  gt: 'filter.operator.gt',
+  gte: 'filter.operator.gte',
+  lt: 'filter.operator.lt',
+  lte: 'filter.operator.lte',
+  between: 'filter.operator.between',
+  is_empty: 'filter.operator.isEmpty',
+  is_not_empty: 'filter.operator.isNotEmpty',
+  today: 'filter.operator.today',
+  this_week: 'filter.operator.thisWeek',
+  overdue: 'filter.operator.overdue',
+};
+
+// Dates read as before / after rather than less / greater
+const DATE_OPERATOR_LABEL_KEYS: Partial<Record<FilterOperator, string>> = {
+  lt: 'filter.operator.before',
+  gt: 'filter.operator.after',
+  lte: 'filter.operator.onOrBefore',
+  gte: 'filter.operator.onOrAfter',
+};
+
+// Operators typed as free text even when the field has fixed choices
+const FREE_TEXT_OPERATORS: FilterOperator[] = ['contains', 'not_contains', 'starts_with', 'regex'];
+
+const createNodeId = () => `${Date.now()}-${Math.random()}`;
+
+const getFieldType = (field: FilterField | undefined): FilterFieldType => field?.type ?? 'text';
+
+// Fields with fixed choices are usually compared as a whole
+const getDefaultOperator = (field: FilterField | undefined): FilterOperator =>
+  field?.options && getFieldType(field) === 'text' ? 'equals' : FILTER_OPERATORS[getFieldType(field)][0];
+
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Custom fields of the shown project are filterable in every view
+function toFilterField(field: CustomField, checkedLabel: string): FilterField {
+  const id = getCustomFieldPath(field.id);
+  if (fieldTypeHasOptions(field.type)) {
+    return { id, label: field.name, options: field.options.map((option) => ({ value: option, label: option })) };
+  }
+  if (field.type === 'checkbox') {
+    return { id, label: field.name, options: [{ value: 'true', label: checkedLabel }] };
+  }
+  if (field.type === 'number' || field.type === 'date') {
+    return { id, label: field.name, type: field.type };
+  }
+  return { id, label: field.name };
+}
+
+interface ConditionValueInputProps {
+  field: FilterField | undefined;
+  operator: FilterOperator;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function ConditionValueInput({ field, operator, value, onChange }: ConditionValueInputProps) {
   const { t } = useI18n();
-  const [open, setOpen] = useState(false);
+  const fieldType = getFieldType(field);
 
-  // Save to localStorage when filter changes
-  useEffect(() => {
-    if (storageKey) {
-      try {
-        localStorage.setItem(storageKey, JSON.stringify(value));
-      } catch (error) {
-        console.error('Failed to save filter state:', error);
-      }
-    }
-  }, [value, storageKey]);
+  if (field?.options && !FREE_TEXT_OPERATORS.includes(operator)) {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs flex-1 min-w-0">
+          <SelectValue placeholder={t('filter.value')} />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options.map(option => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  const isInvalid = operator === 'regex' && !isValidRegex(value);
+  return (
+    <Input
+      type={fieldType === 'number' ? 'number' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={fieldType === 'date' ? t('filter.datePlaceholder') : t('filter.value')}
+      title={isInvalid ? t('filter.invalidRegex') : undefined}
+      className={cn('h-8 text-xs flex-1 min-w-0', isInvalid && 'border-red-500')}
+    />
+  );
+}
+
+interface ConditionRowProps {
+  condition: FilterCondition;
+  fields: FilterField[];
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, fields, onChange, onRemove }: ConditionRowProps) {
+  const { t } = useI18n();
+  const field = fields.find(f => f.id === condition.field);
+  const fieldType = getFieldType(field);
+  const operator = condition.operator ?? 'contains';
+  const operators = FILTER_OPERATORS[fieldType];
+
+  const handleFieldChange = (fieldId: string) => {
+    const nextField = fields.find(f => f.id === fieldId);
+    const nextType = getFieldType(nextField);
+    // Keep the operator while the new field supports it
+    const nextOperator = nextType === fieldType && FILTER_OPERATORS[nextType].includes(operator)
+      ? operator
+      : getDefaultOperator(nextField);
+    onChange({ id: condition.id, field: fieldId, operator: nextOperator, value: '' });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {/* Field selector */}
+      <Select value={condition.field} onValueChange={handleFieldChange}>
+        <SelectTrigger className="h-8 text-xs w-28 shrink-0">
+          <SelectValue placeholder={t('filter.field')} />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map(f => (
+            <SelectItem key={f.id} value={f.id} className="text-xs">
+              {f.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Operator selector (saved conditions may use an operator the field type does not list) */}
+      <Select
+        value={operator}
+        onValueChange={(next) => onChange({ ...condition, operator: next as FilterOperator })}
+      >
+        <SelectTrigger className="h-8 text-xs w-28 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(operators.includes(operator) ? operators : [operator, ...operators]).map(op => (
+            <SelectItem key={op} value={op} className="text-xs">
+              {t((fieldType === 'date' && DATE_OPERATOR_LABEL_KEYS[op]) || OPERATOR_LABEL_KEYS[op])}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Value input(s) */}
+      {operatorNeedsValue(operator) ? (
+        <>
+          <ConditionValueInput
+            field={field}
+            operator={operator}
+            value={condition.value}
+            onChange={(value) => onChange({ ...condition, value })}
+          />
+          {operator === 'between' && (
+            <ConditionValueInput
+              field={field}
+              operator={operator}
+              value={condition.value2 ?? ''}
+              onChange={(value2) => onChange({ ...condition, value2 })}
+            />
+          )}
+        </>
+      ) : (
+        <span className="flex-1" />
+      )}
+
+      {/* Remove button */}
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={onRemove}
+        className="h-8 w-8 shrink-0"
+        title={t('filter.removeCondition')}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+interface FilterGroupEditorProps {
+  group: FilterGroup;
+  fields: FilterField[];
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void; // nested groups only
+}
+
+function FilterGroupEditor({ group, fields, depth, onChange, onRemove }: FilterGroupEditorProps) {
+  const { t } = useI18n();
+
+  const replaceNode = (id: string, node: FilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map(n => (n.id === id ? node : n)) });
+  };
 
-  const handleLogicChange = (logic: 'AND' | 'OR') => {
-    onChange({ ...value, logic });
+  const removeNode = (id: string) => {
+    onChange({ ...group, conditions: group.conditions.filter(n => n.id !== id) });
   };
 
   const handleAddCondition = () => {
     const newCondition: FilterCondition = {
-      id: `${Date.now()}-${Math.random()}`,
+      id: createNodeId(),
       field: fields[0]?.id || '',
+      operator: getDefaultOperator(fields[0]),
       value: '',
     };
-    onChange({
-      ...value,
-      conditions: [...value.conditions, newCondition],
-    });
+    onChange({ ...group, conditions: [...group.conditions, newCondition] });
   };
 
-  const handleRemoveCondition = (id: string) => {
-    onChange({
-      ...value,
-      conditions: value.conditions.filter(c => c.id !== id),
-    });
+  const handleAddGroup = () => {
+    const newGroup: FilterGroup = {
+      id: createNodeId(),
+      logic: group.logic === 'AND' ? 'OR' : 'AND',
+      conditions: [],
+    };
+    onChange({ ...group, conditions: [...group.conditions, newGroup] });
   };
 
-  const handleConditionChange = (id: string, updates: Partial<FilterCondition>) => {
-    onChange({
-      ...value,
-      conditions: value.conditions.map(c => (c.id === id ? { ...c, ...updates } : c)),
-    });
-  };
+  return (
+    <div className={cn('space-y-2', depth > 0 && 'rounded-md border border-border p-2')}>
+      {/* Logic toggle (only show if there are 2+ conditions) */}
+      {group.conditions.length >= 2 && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Match:</span>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={group.logic === 'AND' ? 'secondary' : 'ghost'}
+              onClick={() => onChange({ ...group, logic: 'AND' })}
+              className="h-7 px-3 text-xs"
+            >
+              {t('filter.logic.and')}
+            </Button>
+            <Button
+              size="sm"
+              variant={group.logic === 'OR' ? 'secondary' : 'ghost'}
+              onClick={() => onChange({ ...group, logic: 'OR' })}
+              className="h-7 px-3 text-xs"
+            >
+              {t('filter.logic.or')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Conditions and nested groups */}
+      {group.conditions.map((node) =>
+        isFilterGroup(node) ? (
+          <FilterGroupEditor
+            key={node.id}
+            group={node}
+            fields={fields}
+            depth={depth + 1}
+            onChange={(next) => replaceNode(node.id, next)}
+            onRemove={() => removeNode(node.id)}
+          />
+        ) : (
+          <ConditionRow
+            key={node.id}
+            condition={node}
+            fields={fields}
+            onChange={(next) => replaceNode(node.id, next)}
+            onRemove={() => removeNode(node.id)}
+          />
+        )
+      )}
+
+      {/* Empty state */}
+      {depth === 0 && group.conditions.length === 0 && (
+        <div className="text-center py-4 text-sm text-muted-foreground">
+          No filters active
+        </div>
+      )}
+
+      <div className="flex items-center gap-1">
+        <Button size="sm" variant="ghost" onClick={handleAddCondition} className="h-7 px-2 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          {t('filter.addCondition')}
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button size="sm" variant="ghost" onClick={handleAddGroup} className="h-7 px-2 text-xs">
+            <FolderPlus className="h-3 w-3 mr-1" />
+            {t('filter.addGroup')}
+          </Button>
+        )}
+        {onRemove && (
+          <Button size="sm" variant="ghost" onClick={onRemove} className="ml-auto h-7 px-2 text-xs">
+            {t('filter.removeGroup')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function FilterPopover({ fields: baseFields, value, onChange, storageKey }: FilterPopoverProps) {
+  const { t } = useI18n();
+  const { customFields, currentProjectId } = useTaskStore();
+  const [open, setOpen] = useState(false);
+
+  const fields = useMemo(
+    () => [
+      ...baseFields,
+      ...getCustomFieldsForProject(customFields, currentProjectId).map((field) =>
+        toFilterField(field, t('customField.checked'))
+      ),
+    ],
+    [baseFields, customFields, currentProjectId, t]
+  );
+
+  // Save to localStorage when filter changes
+  useEffect(() => {
+    if (storageKey) {
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(value));
+      } catch (error) {
+        console.error('Failed to save filter state:', error);
+      }
+    }
+  }, [value, storageKey]);
 
   const handleClearAll = () => {
     onChange(createEmptyFilterState());
   };
 
-  const activeCount = value.conditions.filter(c => c.value.trim() !== '').length;
+  const activeCount = countActiveConditions(value);
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
@@ -99,99 +416,11 @@ export function FilterPopover({ fields, value, onChange, storageKey }: FilterPop
           )}
         </Button>
       </PopoverTrigger>
-      <PopoverContent className="w-80" align="end">
+      <PopoverContent className="w-[32rem] max-h-[70vh] overflow-y-auto" align="end">
         <div className="space-y-4">
           {/* Header */}
           <div className="flex items-center justify-between">
             <h4 className="font-semibold text-sm">{t('filter.title')}</h4>
-          </div>
-
-          {/* Logic toggle (only show if there are 2+ conditions) */}
-          {value.conditions.length >= 2 && (
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-muted-foreground">Match:</span>
-              <div className="flex gap-1">
-                <Button
-                  size="sm"
-                  variant={value.logic === 'AND' ? 'secondary' : 'ghost'}
-                  onClick={() => handleLogicChange('AND')}
-                  className="h-7 px-3 text-xs"
-                >
-                  {t('filter.logic.and')}
-                </Button>
-                <Button
-                  size="sm"
-                  variant={value.logic === 'OR' ? 'secondary' : 'ghost'}
-                  onClick={() => handleLogicChange('OR')}
-                  className="h-7 px-3 text-xs"
-                >
-                  {t('filter.logic.or')}
-                </Button>
-              </div>
-            </div>
-          )}
-
-          {/* Conditions list */}
-          <div className="space-y-2">
-            {value.conditions.map((condition) => (
-                <div key={condition.id} className="flex items-center gap-2">
-                  {/* Field selector */}
-                  <Select
-                    value={condition.field}
-                    onValueChange={(field) => handleConditionChange(condition.id, { field })}
-                  >
-                    <SelectTrigger className="h-8 text-xs flex-1">
-                      <SelectValue placeholder={t('filter.field')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {fields.map(f => (
-                        <SelectItem key={f.id} value={f.id} className="text-xs">
-                          {f.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-
-                  {/* Value input */}
-                  <Input
-                    type="text"
-                    value={condition.value}
-                    onChange={(e) => handleConditionChange(condition.id, { value: e.target.value })}
-                    placeholder={t('filter.value')}
-                    className="h-8 text-xs flex-1"
-                  />
-
-                  {/* Remove button */}
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => handleRemoveCondition(condition.id)}
-                    className="h-8 w-8 shrink-0"
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-            ))}
-
-            {/* Empty state */}
-            {value.conditions.length === 0 && (
-              <div className="text-center py-4 text-sm text-muted-foreground">
-                No filters active
-              </div>
-            )}
-          </div>
-
-          {/* Footer buttons */}
-          <div className="flex items-center justify-between gap-2 pt-2 border-t border-border">
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={handleAddCondition}
-              className="h-7 px-2 text-xs"
-            >
-              <Plus className="h-3 w-3 mr-1" />
-              {t('filter.addCondition')}
-            </Button>
             {value.conditions.length > 0 && (
               <Button
                 size="sm"
@@ -203,6 +432,13 @@ export function FilterPopover({ fields, value, onChange, storageKey }: FilterPop
               </Button>
             )}
           </div>
+
+          <FilterGroupEditor
+            group={{ id: 'root', logic: value.logic, conditions: value.conditions }}
+            fields={fields}
+            depth={0}
+            onChange={(group) => onChange({ ...value, logic: group.logic, conditions: group.conditions })}
+          />
         </div>
       </PopoverContent>
     </Popover>
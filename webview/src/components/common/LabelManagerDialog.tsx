@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { LABEL_PRESET_COLORS } from '@/types';
+import type { Label } from '@/types';
+
+interface LabelManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface LabelRowProps {
+  label: Label;
+  labels: Label[];
+  usage: number;
+}
+
+function LabelRow({ label, labels, usage }: LabelRowProps) {
+  const { t } = useI18n();
+  const { updateLabel, mergeLabels, deleteLabel } = useTaskStore();
+  const [name, setName] = useState(label.name);
+
+  useEffect(() => {
+    setName(label.name);
+  }, [label.name]);
+
+  const trimmedName = name.trim();
+  const isDuplicate = labels.some((l) => l.id !== label.id && l.name === trimmedName);
+
+  // Rename when leaving the field; invalid names fall back to the current one
+  const commitName = () => {
+    if (!trimmedName || isDuplicate) {
+      setName(label.name);
+    } else if (trimmedName !== label.name) {
+      updateLabel(label.id, { name: trimmedName });
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <input
+        type="color"
+        value={label.color}
+        onChange={(e) => updateLabel(label.id, { color: e.target.value })}
+        className="h-6 w-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+        aria-label={t('label.color')}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.currentTarget.blur();
+          }
+        }}
+        className={`h-7 flex-1 text-xs ${isDuplicate ? 'border-red-500' : ''}`}
+      />
+      <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+        {t('label.usage', usage)}
+      </span>
+      <Select value="" onValueChange={(targetId) => mergeLabels(label.id, targetId)}>
+        <SelectTrigger className="h-7 w-24 shrink-0 text-xs" disabled={labels.length < 2}>
+          <SelectValue placeholder={t('label.mergeInto')} />
+        </SelectTrigger>
+        <SelectContent>
+          {labels
+            .filter((l) => l.id !== label.id)
+            .map((l) => (
+              <SelectItem key={l.id} value={l.id} className="text-xs">
+                <span className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: l.color }} />
+                  {l.name}
+                </span>
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={() => deleteLabel(label.id)}
+        aria-label={t('action.delete')}
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </li>
+  );
+}
+
+// Create, rename, recolor, merge and delete labels
+export function LabelManagerDialog({ open, onOpenChange }: LabelManagerDialogProps) {
+  const { t } = useI18n();
+  const { labels, labelUsage, loadLabels, createLabel } = useTaskStore();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<string>(LABEL_PRESET_COLORS[0]);
+
+  useEffect(() => {
+    if (open) {
+      loadLabels();
+      setNewName('');
+    }
+  }, [open, loadLabels]);
+
+  const trimmedName = newName.trim();
+  const canCreate = trimmedName !== '' && !labels.some((l) => l.name === trimmedName);
+
+  const handleCreate = () => {
+    if (!canCreate) {return;}
+    createLabel(trimmedName, newColor);
+    setNewName('');
+    setNewColor(LABEL_PRESET_COLORS[(labels.length + 1) % LABEL_PRESET_COLORS.length]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('label.manage')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {/* New label */}
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="h-6 w-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+              aria-label={t('label.color')}
+            />
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder={t('label.newPlaceholder')}
+              className="h-8 flex-1 text-xs"
+            />
+            <Button type="button" size="sm" onClick={handleCreate} disabled={!canCreate}>
+              <Plus className="h-3 w-3 mr-1" />
+              {t('action.create')}
+            </Button>
+          </div>
+
+          {/* Existing labels */}
+          {labels.length === 0 ? (
+            <p className="py-4 text-center text-xs text-muted-foreground">{t('label.empty')}</p>
+          ) : (
+            <ul className="max-h-[50vh] space-y-1 overflow-y-auto pr-1">
+              {labels.map((label) => (
+                <LabelRow key={label.id} label={label} labels={labels} usage={labelUsage[label.id] ?? 0} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Plus, Tag, X } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Input,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+} from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { LABEL_PRESET_COLORS } from '@/types';
+import type { Label } from '@/types';
+
+interface LabelPickerProps {
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+}
+
+// Multi-select for task labels; typing a new name offers to create the label
+export function LabelPicker({ value, onChange }: LabelPickerProps) {
+  const { t } = useI18n();
+  const { labels, createLabel } = useTaskStore();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  // Name of a label created from here, selected as soon as it arrives from the extension
+  const [pendingName, setPendingName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pendingName) {return;}
+    const created = labels.find((l) => l.name === pendingName);
+    if (created) {
+      if (!value.includes(created.id)) {
+        onChange([...value, created.id]);
+      }
+      setPendingName(null);
+    }
+  }, [labels, pendingName, value, onChange]);
+
+  const selectedLabels = value
+    .map((id) => labels.find((l) => l.id === id))
+    .filter((l): l is Label => l !== undefined);
+
+  const trimmedSearch = search.trim();
+  const filteredLabels = useMemo(
+    () => labels.filter((l) => l.name.toLowerCase().includes(trimmedSearch.toLowerCase())),
+    [labels, trimmedSearch]
+  );
+  const canCreate = trimmedSearch !== '' && !labels.some((l) => l.name === trimmedSearch);
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId]);
+  };
+
+  const handleCreate = () => {
+    if (!canCreate) {return;}
+    createLabel(trimmedSearch, LABEL_PRESET_COLORS[labels.length % LABEL_PRESET_COLORS.length]);
+    setPendingName(trimmedSearch);
+    setSearch('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {selectedLabels.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedLabels.map((label) => (
+            <Badge
+              key={label.id}
+              variant="outline"
+              className="flex items-center gap-1 pr-1"
+              style={{ borderColor: label.color, color: label.color }}
+            >
+              <span className="max-w-[150px] truncate">{label.name}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => toggle(label.id)}
+                className="ml-1 h-4 w-4 hover:bg-muted p-0"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="w-full justify-start text-muted-foreground">
+            <Tag className="h-3 w-3 mr-2" />
+            {t('label.select')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-2" align="start">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            placeholder={t('label.searchOrCreate')}
+            className="h-8 text-xs mb-2"
+            autoFocus
+          />
+          <div className="max-h-48 overflow-y-auto">
+            {filteredLabels.map((label) => (
+              <button
+                key={label.id}
+                type="button"
+                onClick={() => toggle(label.id)}
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-xs hover:bg-muted"
+              >
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: label.color }} />
+                <span className="flex-1 truncate text-left">{label.name}</span>
+                {value.includes(label.id) && <Check className="h-3 w-3" />}
+              </button>
+            ))}
+            {canCreate && (
+              <button
+                type="button"
+                onClick={handleCreate}
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-xs hover:bg-muted"
+              >
+                <Plus className="h-3 w-3" />
+                <span className="truncate">{t('label.create', trimmedSearch)}</span>
+              </button>
+            )}
+            {filteredLabels.length === 0 && !canCreate && (
+              <p className="px-2 py-1 text-xs text-muted-foreground">{t('label.empty')}</p>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import type { ReactNode } from 'react';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+// `code`, **bold**, *italic* / _italic_, [label](url), bare URLs
+const INLINE_PATTERN =
+  /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))|(https?:\/\/[^\s<]+)/g;
+
+// Only web and mail links are rendered as links
+function isSafeUrl(url: string): boolean {
+  return /^(https?:|mailto:)/i.test(url);
+}
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    const token = match[0];
+    const key = `${keyPrefix}-${match.index}`;
+
+    if (match[1]) {
+      nodes.push(
+        <code key={key} className="rounded bg-muted px-1 font-mono">
+          {token.slice(1, -1)}
+        </code>
+      );
+    } else if (match[2]) {
+      nodes.push(<strong key={key}>{renderInline(token.slice(2, -2), key)}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1), key)}</em>);
+    } else {
+      const link = match[4] ? /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(token)! : null;
+      const label = link ? link[1] : token;
+      const url = link ? link[2] : token;
+      nodes.push(
+        isSafeUrl(url) ? (
+          <a key={key} href={url} className="text-primary underline">
+            {label}
+          </a>
+        ) : (
+          token
+        )
+      );
+    }
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
+/**
+ * Renders a small, safe subset of markdown (no raw HTML): paragraphs, headings,
+ * bullet/numbered lists, quotes, fenced code blocks and inline formatting.
+ */
+export function Markdown({ text, className }: MarkdownProps) {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ReactNode[] = [];
+  let i = 0;
+
+  // Collects consecutive lines matching the pattern, without the matched prefix
+  const collect = (pattern: RegExp): string[] => {
+    const items: string[] = [];
+    while (i < lines.length && pattern.test(lines[i])) {
+      items.push(lines[i].replace(pattern, ''));
+      i++;
+    }
+    return items;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (line.trim() === '') {
+      i++;
+    } else if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push(
+        <pre key={key} className="overflow-x-auto rounded bg-muted p-2 font-mono">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+    } else if (/^#{1,6}\s+/.test(line)) {
+      blocks.push(
+        <p key={key} className="font-semibold">
+          {renderInline(line.replace(/^#{1,6}\s+/, ''), key)}
+        </p>
+      );
+      i++;
+    } else if (/^\s*[-*+]\s+/.test(line)) {
+      const items = collect(/^\s*[-*+]\s+/);
+      blocks.push(
+        <ul key={key} className="list-disc pl-4">
+          {items.map((item, index) => (
+            <li key={index}>{renderInline(item, `${key}-${index}`)}</li>
+          ))}
+        </ul>
+      );
+    } else if (/^\s*\d+[.)]\s+/.test(line)) {
+      const items = collect(/^\s*\d+[.)]\s+/);
+      blocks.push(
+        <ol key={key} className="list-decimal pl-4">
+          {items.map((item, index) => (
+            <li key={index}>{renderInline(item, `${key}-${index}`)}</li>
+          ))}
+        </ol>
+      );
+    } else if (/^>\s?/.test(line)) {
+      const quoted = collect(/^>\s?/);
+      blocks.push(
+        <blockquote key={key} className="border-l-2 border-border pl-2 text-muted-foreground">
+          {renderInline(quoted.join(' '), key)}
+        </blockquote>
+      );
+    } else {
+      // Paragraph: consecutive plain lines, keeping line breaks
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() !== '' &&
+        !/^(```|#{1,6}\s|\s*[-*+]\s|\s*\d+[.)]\s|>)/.test(lines[i])
+      ) {
+        paragraph.push(lines[i]);
+        i++;
+      }
+      blocks.push(
+        <p key={key}>
+          {paragraph.map((paragraphLine, index) => (
+            <span key={index}>
+              {index > 0 && <br />}
+              {renderInline(paragraphLine, `${key}-${index}`)}
+            </span>
+          ))}
+        </p>
+      );
+    }
+  }
+
+  return <div className={className}>{blocks}</div>;
+}
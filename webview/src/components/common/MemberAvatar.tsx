@@ -0,0 +1,29 @@
+import { cn } from '@/lib/utils';
+import type { Member } from '@/types';
+
+interface MemberAvatarProps {
+  member: Member;
+  className?: string;
+}
+
+// Initials of the first two words, e.g. "Taro Yamada" -> "TY"
+function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/);
+  const initials = words.length > 1 ? words[0][0] + words[1][0] : name.trim().slice(0, 2);
+  return initials.toUpperCase();
+}
+
+export function MemberAvatar({ member, className }: MemberAvatarProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-[9px] font-semibold text-white',
+        className
+      )}
+      style={{ backgroundColor: member.color }}
+      title={member.email ? `${member.name} <${member.email}>` : member.name}
+    >
+      {getInitials(member.name)}
+    </span>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { MemberAvatar } from './MemberAvatar';
+import type { Member } from '@/types';
+
+interface MemberManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface MemberRowProps {
+  member: Member;
+  members: Member[];
+  usage: number;
+}
+
+function MemberRow({ member, members, usage }: MemberRowProps) {
+  const { t } = useI18n();
+  const { updateMember, mergeMembers, deleteMember } = useTaskStore();
+  const [name, setName] = useState(member.name);
+  const [email, setEmail] = useState(member.email ?? '');
+
+  useEffect(() => {
+    setName(member.name);
+  }, [member.name]);
+
+  useEffect(() => {
+    setEmail(member.email ?? '');
+  }, [member.email]);
+
+  const trimmedName = name.trim();
+  const isDuplicate = members.some(
+    (m) => m.id !== member.id && m.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+
+  // Rename when leaving the field; invalid names fall back to the current one
+  const commitName = () => {
+    if (!trimmedName || isDuplicate) {
+      setName(member.name);
+    } else if (trimmedName !== member.name) {
+      updateMember(member.id, { name: trimmedName });
+    }
+  };
+
+  const commitEmail = () => {
+    const trimmedEmail = email.trim();
+    if (trimmedEmail !== (member.email ?? '')) {
+      updateMember(member.id, { email: trimmedEmail || null });
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <input
+        type="color"
+        value={member.color}
+        onChange={(e) => updateMember(member.id, { color: e.target.value })}
+        className="h-6 w-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+        aria-label={t('member.color')}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.currentTarget.blur();
+          }
+        }}
+        className={`h-7 flex-1 text-xs ${isDuplicate ? 'border-red-500' : ''}`}
+      />
+      <Input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        onBlur={commitEmail}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.currentTarget.blur();
+          }
+        }}
+        placeholder={t('member.email')}
+        className="h-7 w-32 shrink-0 text-xs"
+      />
+      <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+        {t('label.usage', usage)}
+      </span>
+      <Select value="" onValueChange={(targetId) => mergeMembers(member.id, targetId)}>
+        <SelectTrigger className="h-7 w-24 shrink-0 text-xs" disabled={members.length < 2}>
+          <SelectValue placeholder={t('label.mergeInto')} />
+        </SelectTrigger>
+        <SelectContent>
+          {members
+            .filter((m) => m.id !== member.id)
+            .map((m) => (
+              <SelectItem key={m.id} value={m.id} className="text-xs">
+                <span className="flex items-center gap-2">
+                  <MemberAvatar member={m} className="h-4 w-4 text-[8px]" />
+                  {m.name}
+                </span>
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={() => deleteMember(member.id)}
+        aria-label={t('action.delete')}
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </li>
+  );
+}
+
+// Add, rename, recolor, merge and remove team members
+export function MemberManagerDialog({ open, onOpenChange }: MemberManagerDialogProps) {
+  const { t } = useI18n();
+  const { members, memberUsage, loadMembers, createMember } = useTaskStore();
+  const [newName, setNewName] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      loadMembers();
+      setNewName('');
+      setNewEmail('');
+    }
+  }, [open, loadMembers]);
+
+  const trimmedName = newName.trim();
+  const canCreate =
+    trimmedName !== '' && !members.some((m) => m.name.toLowerCase() === trimmedName.toLowerCase());
+
+  const handleCreate = () => {
+    if (!canCreate) {return;}
+    createMember({ name: trimmedName, email: newEmail.trim() || undefined });
+    setNewName('');
+    setNewEmail('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('member.manage')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {/* New member */}
+          <div className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder={t('member.newPlaceholder')}
+              className="h-8 flex-1 text-xs"
+            />
+            <Input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder={t('member.email')}
+              className="h-8 w-40 text-xs"
+            />
+            <Button type="button" size="sm" onClick={handleCreate} disabled={!canCreate}>
+              <Plus className="h-3 w-3 mr-1" />
+              {t('action.create')}
+            </Button>
+          </div>
+
+          {/* Existing members */}
+          {members.length === 0 ? (
+            <p className="py-4 text-center text-xs text-muted-foreground">{t('member.empty')}</p>
+          ) : (
+            <ul className="max-h-[50vh] space-y-1 overflow-y-auto pr-1">
+              {members.map((member) => (
+                <MemberRow key={member.id} member={member} members={members} usage={memberUsage[member.id] ?? 0} />
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-muted-foreground">{t('member.capacityHint')}</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import {
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { parseRecurrenceRule, formatRecurrenceRule, getNextOccurrence, toDateString } from '@/types';
+import type { RecurrenceRule } from '@/types';
+
+type RecurrenceMode = 'none' | 'daily' | 'weekly' | 'monthlyDay' | 'monthlyWeekday' | 'custom';
+
+interface RecurrenceEditorProps {
+  value: string; // RRULE subset, '' when the task does not recur
+  onChange: (rule: string) => void;
+  // Date the series starts from (due date, or start date): used for defaults and the preview
+  anchorDate?: string;
+  error?: string | null;
+}
+
+// Presets the form can show; anything else is edited as a custom rule
+function getMode(value: string): RecurrenceMode {
+  if (!value) {return 'none';}
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(value);
+  } catch {
+    return 'custom';
+  }
+  if (rule.until) {return 'custom';}
+  if (rule.frequency === 'DAILY' && rule.byDay.length === 0) {return 'daily';}
+  if (rule.frequency === 'WEEKLY' && rule.byDay.length > 0) {return 'weekly';}
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay.length === 1 && rule.byDay.length === 0) {return 'monthlyDay';}
+  if (rule.frequency === 'MONTHLY' && rule.byDay.length === 1 && rule.byDay[0].nth !== null) {return 'monthlyWeekday';}
+  return 'custom';
+}
+
+export function RecurrenceEditor({ value, onChange, anchorDate, error }: RecurrenceEditorProps) {
+  const { t, locale } = useI18n();
+  const [mode, setMode] = useState<RecurrenceMode>(() => getMode(value));
+
+  // Follow the value when the dialog switches to another task
+  useEffect(() => {
+    setMode((current) => (current === 'custom' && value ? current : getMode(value)));
+  }, [value]);
+
+  const anchor = anchorDate || toDateString(new Date());
+  const anchorDay = new Date(`${anchor.slice(0, 10)}T00:00:00Z`);
+  const anchorWeekday = anchorDay.getUTCDay();
+
+  let rule: RecurrenceRule | null = null;
+  try {
+    rule = value ? parseRecurrenceRule(value) : null;
+  } catch {
+    rule = null;
+  }
+  const interval = rule?.interval ?? 1;
+
+  const weekdayName = (weekday: number) =>
+    // 2024-01-07 was a Sunday
+    new Date(Date.UTC(2024, 0, 7 + weekday)).toLocaleDateString(locale, { weekday: 'short', timeZone: 'UTC' });
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) {return;}
+    onChange(formatRecurrenceRule({ ...rule, ...changes }));
+  };
+
+  const handleModeChange = (next: RecurrenceMode) => {
+    setMode(next);
+    const base: RecurrenceRule = { frequency: 'DAILY', interval, byDay: [], byMonthDay: [], until: null };
+    switch (next) {
+      case 'none':
+        onChange('');
+        break;
+      case 'daily':
+        onChange(formatRecurrenceRule(base));
+        break;
+      case 'weekly':
+        onChange(formatRecurrenceRule({ ...base, frequency: 'WEEKLY', byDay: [{ weekday: anchorWeekday, nth: null }] }));
+        break;
+      case 'monthlyDay':
+        onChange(formatRecurrenceRule({ ...base, frequency: 'MONTHLY', byMonthDay: [anchorDay.getUTCDate()] }));
+        break;
+      case 'monthlyWeekday':
+        onChange(formatRecurrenceRule({
+          ...base,
+          frequency: 'MONTHLY',
+          byDay: [{ weekday: anchorWeekday, nth: Math.min(4, Math.ceil(anchorDay.getUTCDate() / 7)) }],
+        }));
+        break;
+      case 'custom':
+        onChange(value || 'FREQ=WEEKLY');
+        break;
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!rule) {return;}
+    const selected = rule.byDay.some((d) => d.weekday === weekday);
+    const byDay = selected
+      ? rule.byDay.filter((d) => d.weekday !== weekday)
+      : [...rule.byDay, { weekday, nth: null }].sort((a, b) => a.weekday - b.weekday);
+    // At least one weekday stays selected
+    if (byDay.length > 0) {
+      update({ byDay });
+    }
+  };
+
+  const nextOccurrence = rule && !error ? getNextOccurrence(rule, anchor) : null;
+  const intervalUnitKey = mode === 'daily' ? 'recurrence.days' : mode === 'weekly' ? 'recurrence.weeks' : 'recurrence.months';
+
+  return (
+    <div className="space-y-2">
+      <Select value={mode} onValueChange={(next) => handleModeChange(next as RecurrenceMode)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">{t('recurrence.none')}</SelectItem>
+          <SelectItem value="daily">{t('recurrence.daily')}</SelectItem>
+          <SelectItem value="weekly">{t('recurrence.weekly')}</SelectItem>
+          <SelectItem value="monthlyDay">{t('recurrence.monthlyDay')}</SelectItem>
+          <SelectItem value="monthlyWeekday">{t('recurrence.monthlyWeekday')}</SelectItem>
+          <SelectItem value="custom">{t('recurrence.custom')}</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {rule && mode !== 'none' && mode !== 'custom' && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span>{t('recurrence.every')}</span>
+          <Input
+            type="number"
+            min="1"
+            value={interval}
+            onChange={(e) => update({ interval: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+            className="w-16 h-8 text-center"
+          />
+          <span>{t(intervalUnitKey)}</span>
+
+          {mode === 'monthlyDay' && (
+            <Select
+              value={String(rule.byMonthDay[0])}
+              onValueChange={(day) => update({ byMonthDay: [Number(day)] })}
+            >
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+                  <SelectItem key={day} value={String(day)}>{t('recurrence.dayOfMonth', day)}</SelectItem>
+                ))}
+                <SelectItem value="-1">{t('recurrence.lastDay')}</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          {mode === 'monthlyWeekday' && (
+            <>
+              <Select
+                value={String(rule.byDay[0].nth)}
+                onValueChange={(nth) => update({ byDay: [{ ...rule.byDay[0], nth: Number(nth) }] })}
+              >
+                <SelectTrigger className="w-24 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, -1].map((nth) => (
+                    <SelectItem key={nth} value={String(nth)}>{t(`recurrence.nth.${nth}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(rule.byDay[0].weekday)}
+                onValueChange={(weekday) => update({ byDay: [{ ...rule.byDay[0], weekday: Number(weekday) }] })}
+              >
+                <SelectTrigger className="w-24 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[0, 1, 2, 3, 4, 5, 6].map((weekday) => (
+                    <SelectItem key={weekday} value={String(weekday)}>{weekdayName(weekday)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+      )}
+
+      {rule && mode === 'weekly' && (
+        <div className="flex gap-1">
+          {[1, 2, 3, 4, 5, 6, 0].map((weekday) => {
+            const selected = rule.byDay.some((d) => d.weekday === weekday);
+            return (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={cn(
+                  'flex-1 h-7 rounded border text-xs transition-colors',
+                  selected ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-muted'
+                )}
+              >
+                {weekdayName(weekday)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {mode === 'custom' && (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+          className="font-mono text-xs"
+        />
+      )}
+
+      {error ? (
+        <p className="text-xs text-destructive">{t('recurrence.invalid', error)}</p>
+      ) : mode !== 'none' && (
+        <p className="text-xs text-muted-foreground">
+          {nextOccurrence ? t('recurrence.nextOccurrence', nextOccurrence) : t('recurrence.ended')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Bookmark, BookmarkPlus, Check, ChevronDown, Trash2 } from 'lucide-react';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  Input,
+} from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { captureViewState } from '@/stores/savedViewState';
+import { useI18n } from '@/i18n';
+import type { SavedView } from '@/types';
+
+const findByName = (views: SavedView[], name: string) =>
+  views.find((view) => view.name.toLowerCase() === name.toLowerCase());
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Saves the shown view under a name; an existing name is overwritten
+function SaveViewDialog({ open, onOpenChange }: SaveViewDialogProps) {
+  const { t } = useI18n();
+  const { savedViews, currentView, currentProjectId, projects, activeSavedViewName, createSavedView, updateSavedView } =
+    useTaskStore();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(activeSavedViewName ?? '');
+    }
+  }, [open, activeSavedViewName]);
+
+  const trimmedName = name.trim();
+  const existing = findByName(savedViews, trimmedName);
+  const projectName = currentProjectId
+    ? projects.find((p) => p.id === currentProjectId)?.name ?? currentProjectId
+    : t('savedView.allProjects');
+
+  const handleSave = () => {
+    if (!trimmedName) {return;}
+    const dto = { name: trimmedName, viewType: currentView, projectId: currentProjectId, state: captureViewState(currentView) };
+    if (existing) {
+      updateSavedView(existing.id, dto);
+    } else {
+      createSavedView(dto);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('savedView.save')}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleSave();
+              }
+            }}
+            placeholder={t('savedView.namePlaceholder')}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('savedView.saveHint', t(`view.${currentView}`), projectName)}
+          </p>
+          {existing && <p className="text-xs text-amber-500">{t('savedView.overwrite', existing.name)}</p>}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {t('action.cancel')}
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!trimmedName}>
+            {t('action.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Header menu that opens, saves and deletes the named views shared through the database
+export function SavedViewSwitcher() {
+  const { t } = useI18n();
+  const { savedViews, projects, activeSavedViewName, openSavedView, deleteSavedView } = useTaskStore();
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+
+  const activeView = activeSavedViewName ? findByName(savedViews, activeSavedViewName) : undefined;
+  const getProjectName = (projectId: string | null) =>
+    projectId ? projects.find((p) => p.id === projectId)?.name : t('savedView.allProjects');
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-48 gap-1" aria-label={t('savedView.views')}>
+            <Bookmark className="h-4 w-4 shrink-0" />
+            <span className="hidden truncate sm:inline">{activeView?.name ?? t('savedView.views')}</span>
+            <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>{t('savedView.views')}</DropdownMenuLabel>
+          {savedViews.length === 0 ? (
+            <DropdownMenuItem disabled className="text-xs">
+              {t('savedView.empty')}
+            </DropdownMenuItem>
+          ) : (
+            savedViews.map((view) => (
+              <DropdownMenuItem key={view.id} onClick={() => openSavedView(view.id)}>
+                <Check className={`h-4 w-4 mr-2 shrink-0 ${view.id === activeView?.id ? '' : 'invisible'}`} />
+                <span className="flex-1 truncate">{view.name}</span>
+                <span className="ml-2 shrink-0 truncate text-xs text-muted-foreground">
+                  {t(`view.${view.viewType}`)} · {getProjectName(view.projectId)}
+                </span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsSaveDialogOpen(true)}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            {t('savedView.save')}
+          </DropdownMenuItem>
+          {activeView && (
+            <DropdownMenuItem onClick={() => deleteSavedView(activeView.id)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              {t('savedView.delete', activeView.name)}
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SaveViewDialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen} />
+    </>
+  );
+}
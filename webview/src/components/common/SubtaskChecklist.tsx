@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Checkbox, Input } from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { getSubtasks, getStatusForCategory, isTaskFinished } from '@/types';
+import type { Task } from '@/types';
+
+interface SubtaskChecklistProps {
+  parent: Task;
+  // Show an input for adding subtasks
+  allowAdd?: boolean;
+  className?: string;
+}
+
+// Direct subtasks of a task with checkboxes that toggle them between not started and completed
+export function SubtaskChecklist({ parent, allowAdd = false, className }: SubtaskChecklistProps) {
+  const { t } = useI18n();
+  const { tasks, kanbanColumns, createTask, updateTaskStatus } = useTaskStore();
+  const [newTitle, setNewTitle] = useState('');
+  const subtasks = getSubtasks(tasks, parent.id);
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) {return;}
+    createTask({
+      projectId: parent.projectId || undefined,
+      title,
+      status: getStatusForCategory(kanbanColumns, 'not_started', parent.projectId),
+      priority: 2,
+      progress: 0,
+      parentId: parent.id,
+    });
+    setNewTitle('');
+  };
+
+  if (subtasks.length === 0 && !allowAdd) {return null;}
+
+  return (
+    <div className={cn('space-y-1', className)} onClick={(e) => e.stopPropagation()}>
+      {subtasks.map((subtask) => {
+        const isDone = isTaskFinished(subtask, kanbanColumns);
+        return (
+          <label key={subtask.id} className="flex items-center gap-2 text-xs cursor-pointer">
+            <Checkbox
+              checked={isDone}
+              onCheckedChange={() =>
+                updateTaskStatus(
+                  subtask.id,
+                  getStatusForCategory(kanbanColumns, isDone ? 'not_started' : 'completed', subtask.projectId)
+                )
+              }
+              className="h-3.5 w-3.5"
+            />
+            <span className={cn('truncate', isDone && 'line-through text-muted-foreground')}>{subtask.title}</span>
+          </label>
+        );
+      })}
+      {allowAdd && (
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={t('subtask.addPlaceholder')}
+          className="h-7 text-xs"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect } from 'react';
+import type { Priority, TaskEvent, DependencyType } from '@/types';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { PRIORITY_LABEL_KEYS, DEPENDENCY_TYPE_KEYS, parseCustomFieldPath, formatCustomFieldValue } from '@/types';
+
+interface TaskActivityListProps {
+  taskId: string;
+}
+
+// Task field -> i18n key of its label
+const FIELD_LABEL_KEYS: Record<string, string> = {
+  projectId: 'task.project',
+  title: 'task.title',
+  description: 'task.description',
+  status: 'task.status',
+  priority: 'task.priority',
+  dueDate: 'task.dueDate',
+  startDate: 'task.startDate',
+  assignee: 'task.assignee',
+  estimatedHours: 'task.estimatedHours',
+  progress: 'task.progress',
+  parentId: 'task.parent',
+  labels: 'task.labels',
+  recurrenceRule: 'recurrence.title',
+};
+
+interface DependencySnapshot {
+  predecessorId: string;
+  successorId: string;
+  dependencyType: DependencyType;
+  lagDays: number;
+}
+
+export function TaskActivityList({ taskId }: TaskActivityListProps) {
+  const { t } = useI18n();
+  const { tasks, labels, projects, kanbanColumns, customFields, taskEvents, loadTaskEvents } = useTaskStore();
+
+  useEffect(() => {
+    loadTaskEvents(taskId);
+  }, [taskId, loadTaskEvents]);
+
+  const events = taskEvents?.taskId === taskId ? taskEvents.events : [];
+
+  const taskTitle = (id: string) => tasks.find((task) => task.id === id)?.title ?? id;
+
+  const fieldLabel = (field: string | null): string => {
+    const customFieldId = field ? parseCustomFieldPath(field) : null;
+    if (customFieldId) {
+      return customFields.find((f) => f.id === customFieldId)?.name ?? t('customField.deleted');
+    }
+    return t(FIELD_LABEL_KEYS[field ?? ''] ?? field ?? '');
+  };
+
+  // Recorded values are raw IDs / numbers: show them the way the form does
+  const formatValue = (field: string | null, value: string | null): string => {
+    if (value === null) {return t('activity.none');}
+    // Custom field values are recorded as JSON
+    if (field && parseCustomFieldPath(field)) {
+      return formatCustomFieldValue(JSON.parse(value)) || t('activity.none');
+    }
+    switch (field) {
+      case 'projectId':
+        return projects.find((p) => p.id === value)?.name ?? value;
+      case 'status':
+        return kanbanColumns.find((c) => c.id === value)?.name ?? value;
+      case 'priority':
+        return t(PRIORITY_LABEL_KEYS[Number(value) as Priority] ?? value);
+      case 'parentId':
+        return taskTitle(value);
+      case 'progress':
+        return `${value}%`;
+      case 'labels': {
+        const labelIds = JSON.parse(value) as string[];
+        if (labelIds.length === 0) {return t('activity.none');}
+        return labelIds.map((id) => labels.find((l) => l.id === id)?.name ?? id).join(', ');
+      }
+      default:
+        return value;
+    }
+  };
+
+  const formatDependency = (value: string | null): string => {
+    if (value === null) {return t('activity.none');}
+    const dependency = JSON.parse(value) as DependencySnapshot;
+    return `${t(DEPENDENCY_TYPE_KEYS[dependency.dependencyType])}, ${t('dependency.lagDays')}: ${dependency.lagDays}`;
+  };
+
+  const describe = (event: TaskEvent): { summary: string; detail?: string } => {
+    switch (event.eventType) {
+      case 'created':
+        return { summary: t('activity.created') };
+      case 'deleted':
+        return { summary: t('activity.deleted') };
+      case 'updated':
+      case 'labels_changed':
+        return {
+          summary: t('activity.changed', fieldLabel(event.field)),
+          // Long texts are only summarized
+          detail: event.field === 'description'
+            ? undefined
+            : `${formatValue(event.field, event.oldValue)} → ${formatValue(event.field, event.newValue)}`,
+        };
+      default: {
+        const dependency = JSON.parse((event.newValue ?? event.oldValue)!) as DependencySnapshot;
+        const between = t('dependency.between', taskTitle(dependency.predecessorId), taskTitle(dependency.successorId));
+        if (event.eventType === 'dependency_added') {
+          return { summary: t('activity.dependencyAdded', between), detail: formatDependency(event.newValue) };
+        }
+        if (event.eventType === 'dependency_removed') {
+          return { summary: t('activity.dependencyRemoved', between) };
+        }
+        return {
+          summary: t('activity.dependencyUpdated', between),
+          detail: `${formatDependency(event.oldValue)} → ${formatDependency(event.newValue)}`,
+        };
+      }
+    }
+  };
+
+  if (events.length === 0) {
+    return <p className="py-6 text-center text-xs text-muted-foreground">{t('activity.empty')}</p>;
+  }
+
+  return (
+    <ul className="max-h-[60vh] space-y-2 overflow-y-auto pr-1">
+      {events.map((event) => {
+        const { summary, detail } = describe(event);
+        return (
+          <li key={event.id} className="border-l-2 border-border pl-2 text-xs">
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium">{event.author || t('activity.unknownAuthor')}</span>
+              <span className="shrink-0 text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</span>
+            </div>
+            <div>{summary}</div>
+            {detail && <div className="break-words text-muted-foreground">{detail}</div>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
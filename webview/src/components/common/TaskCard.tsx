@@ -1,10 +1,13 @@
 import { memo, useMemo } from 'react';
 import type { Task } from '@/types';
 import { Card, CardContent, Badge, Progress } from '@/components/ui';
-import { Calendar, User, Clock, Flag, FolderOpen } from 'lucide-react';
+import { Calendar, User, Clock, Flag, FolderOpen, ListChecks, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { getHexColor } from '@/types';
+import { getHexColor, getSubtasks, isTaskFinished } from '@/types';
 import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { SubtaskChecklist } from './SubtaskChecklist';
+import { TaskSourceLink } from './TaskSourceLink';
 
 interface TaskCardProps {
   task: Task;
@@ -13,7 +16,13 @@ interface TaskCardProps {
 }
 
 export const TaskCard = memo(function TaskCard({ task, onClick, isDragging }: TaskCardProps) {
-  const { currentProjectId, projects, kanbanColumns } = useTaskStore();
+  const { t } = useI18n();
+  const { tasks, currentProjectId, projects, kanbanColumns } = useTaskStore();
+
+  const subtaskProgress = useMemo(() => {
+    const subtasks = getSubtasks(tasks, task.id);
+    return { done: subtasks.filter(t => isTaskFinished(t, kanbanColumns)).length, total: subtasks.length };
+  }, [tasks, task.id, kanbanColumns]);
 
   // Get project info for this task (only shown in All Tasks mode)
   const projectInfo = useMemo(() => {
@@ -23,7 +32,7 @@ export const TaskCard = memo(function TaskCard({ task, onClick, isDragging }: Ta
 
   // Calculate due date status - memoized to avoid recalculation
   const dueDateStatus = useMemo(() => {
-    if (!task.dueDate || task.status === 'done') {return 'normal' as const;}
+    if (!task.dueDate || isTaskFinished(task, kanbanColumns)) {return 'normal' as const;}
     const dueDate = new Date(task.dueDate);
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -32,7 +41,7 @@ export const TaskCard = memo(function TaskCard({ task, onClick, isDragging }: Ta
     if (diffDays < 0) {return 'overdue' as const;}
     if (diffDays === 0) {return 'warning' as const;}
     return 'normal' as const;
-  }, [task.dueDate, task.status]);
+  }, [task, kanbanColumns]);
 
   return (
     <Card
@@ -85,6 +94,9 @@ export const TaskCard = memo(function TaskCard({ task, onClick, isDragging }: Ta
           </div>
         )}
 
+        {/* Subtasks */}
+        <SubtaskChecklist parent={task} />
+
         {/* Meta info */}
         <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
           {/* Date range (matching Gantt format: startDate - dueDate) */}
@@ -102,12 +114,28 @@ export const TaskCard = memo(function TaskCard({ task, onClick, isDragging }: Ta
               </span>
             </div>
           )}
+          {task.source && <TaskSourceLink source={task.source} className="-mx-1 max-w-full" />}
+          {task.recurrenceRule && (
+            <div className="flex items-center gap-1" title={task.recurrenceRule}>
+              <Repeat className="h-3.5 w-3.5" />
+              <span>{t('recurrence.badge')}</span>
+            </div>
+          )}
           {task.assignee && (
             <div className="flex items-center gap-1">
               <User className="h-3.5 w-3.5" />
               <span>{task.assignee}</span>
             </div>
           )}
+          {subtaskProgress.total > 0 && (
+            <div className={cn(
+              'flex items-center gap-1',
+              subtaskProgress.done === subtaskProgress.total && 'text-green-500'
+            )}>
+              <ListChecks className="h-3.5 w-3.5" />
+              <span>{t('subtask.doneCount', subtaskProgress.done, subtaskProgress.total)}</span>
+            </div>
+          )}
           {task.estimatedHours && (
             <div className="flex items-center gap-1">
               <Clock className="h-3.5 w-3.5" />
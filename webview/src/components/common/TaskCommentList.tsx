@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Button, Textarea } from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { Markdown } from './Markdown';
+
+interface TaskCommentListProps {
+  taskId: string;
+}
+
+export function TaskCommentList({ taskId }: TaskCommentListProps) {
+  const { t } = useI18n();
+  const { taskComments, loadTaskComments, createTaskComment, updateTaskComment, deleteTaskComment } = useTaskStore();
+  const [newBody, setNewBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+
+  useEffect(() => {
+    loadTaskComments(taskId);
+    setNewBody('');
+    setEditingId(null);
+  }, [taskId, loadTaskComments]);
+
+  const comments = taskComments?.taskId === taskId ? taskComments.comments : [];
+
+  const handleAdd = () => {
+    if (!newBody.trim()) {return;}
+    createTaskComment(taskId, newBody.trim());
+    setNewBody('');
+  };
+
+  const handleSave = () => {
+    if (!editingId || !editingBody.trim()) {return;}
+    updateTaskComment(editingId, editingBody.trim());
+    setEditingId(null);
+  };
+
+  // Ctrl+Enter / Cmd+Enter submits
+  const submitOnCtrlEnter = (submit: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {comments.length === 0 ? (
+        <p className="py-4 text-center text-xs text-muted-foreground">{t('comment.empty')}</p>
+      ) : (
+        <ul className="max-h-[45vh] space-y-2 overflow-y-auto pr-1">
+          {comments.map((comment) => (
+            <li key={comment.id} className="group rounded-md border border-border p-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{comment.author || t('activity.unknownAuthor')}</span>
+                <span className="flex shrink-0 items-center gap-1 text-muted-foreground">
+                  {new Date(comment.createdAt).toLocaleString()}
+                  {comment.updatedAt !== comment.createdAt && ` ${t('comment.edited')}`}
+                  {editingId !== comment.id && (
+                    <span className="flex opacity-0 group-hover:opacity-100">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        aria-label={t('action.edit')}
+                        onClick={() => {
+                          setEditingId(comment.id);
+                          setEditingBody(comment.body);
+                        }}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        aria-label={t('action.delete')}
+                        onClick={() => deleteTaskComment(comment.id)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </span>
+                  )}
+                </span>
+              </div>
+
+              {editingId === comment.id ? (
+                <div className="mt-1 space-y-1">
+                  <Textarea
+                    value={editingBody}
+                    onChange={(e) => setEditingBody(e.target.value)}
+                    onKeyDown={submitOnCtrlEnter(handleSave)}
+                    rows={3}
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-1">
+                    <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                      {t('action.cancel')}
+                    </Button>
+                    <Button type="button" size="sm" onClick={handleSave} disabled={!editingBody.trim()}>
+                      {t('action.save')}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Markdown text={comment.body} className="mt-1 space-y-1 break-words" />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        <Textarea
+          value={newBody}
+          onChange={(e) => setNewBody(e.target.value)}
+          onKeyDown={submitOnCtrlEnter(handleAdd)}
+          placeholder={t('comment.placeholder')}
+          rows={3}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">{t('comment.markdownHint')}</span>
+          <Button type="button" size="sm" onClick={handleAdd} disabled={!newBody.trim()}>
+            {t('comment.add')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,24 +15,50 @@ import {
   SelectTrigger,
   SelectValue,
   Badge,
+  Tabs,
+  TabsList,
+  TabsTrigger,
 } from '@/components/ui';
+import { TaskActivityList } from './TaskActivityList';
+import { TaskCommentList } from './TaskCommentList';
+import { TaskTimeLog } from './TaskTimeLog';
+import { LabelPicker } from './LabelPicker';
+import { AssigneePicker } from './AssigneePicker';
+import { SubtaskChecklist } from './SubtaskChecklist';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { TaskSourceLink } from './TaskSourceLink';
+import { CustomFieldInput } from './CustomFieldInput';
 import { useTaskStore } from '@/stores/taskStore';
 import { useI18n } from '@/i18n';
-import { PRIORITY_LABEL_KEYS, getHexColor } from '@/types';
+import {
+  PRIORITY_LABEL_KEYS,
+  getHexColor,
+  parseRecurrenceRule,
+  getStatusForCategory,
+  isTaskFinished,
+  getCustomFieldsForProject,
+} from '@/types';
 import { X, Plus, Trash2, Copy } from 'lucide-react';
 
 interface TaskFormDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   task?: Task; // If provided, edit mode; otherwise create mode
+  parentId?: string; // Create mode: the new task becomes a subtask of this task
 }
 
-export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps) {
+type DialogTab = 'details' | 'comments' | 'time' | 'activity';
+
+export function TaskFormDialog({ open, onOpenChange, task, parentId }: TaskFormDialogProps) {
   const { t } = useI18n();
-  const { tasks, dependencies, projects, kanbanColumns, currentProjectId, createTask, updateTaskApi, deleteTask, createDependency, deleteDependency } = useTaskStore();
+  const { tasks, dependencies, projects, kanbanColumns, customFields, currentProjectId, createTask, updateTaskApi, deleteTask, createDependency, deleteDependency } = useTaskStore();
   const isEditMode = !!task;
   // Show project select in All Tasks mode (for both new and edit)
   const showProjectSelect = currentProjectId === null;
+  const parentTask = parentId ? tasks.find(t => t.id === parentId) : undefined;
+  // 子タスクを持つタスクの日付と進捗は子タスクから自動計算される
+  const isParent = !!task && tasks.some(t => t.parentId === task.id);
+  const subtaskCount = task ? tasks.filter(t => t.parentId === task.id).length : 0;
 
   const [formData, setFormData] = useState<CreateTaskDto>({
     projectId: undefined,
@@ -42,11 +68,17 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
     priority: 2,
     dueDate: '',
     startDate: '',
-    assignee: '',
+    assigneeIds: [],
     estimatedHours: undefined,
     progress: 0,
+    labelIds: [],
+    recurrenceRule: '',
+    customFields: {},
   });
 
+  // 編集モードのタブ（詳細 / コメント / 作業時間 / アクティビティ）
+  const [activeTab, setActiveTab] = useState<DialogTab>('details');
+
   // 新規作成時の先行タスク選択用
   const [selectedPredecessorIds, setSelectedPredecessorIds] = useState<string[]>([]);
 
@@ -79,6 +111,7 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
   }, [isEditMode, task, tasks, currentDependencies, selectedPredecessorIds]);
 
   useEffect(() => {
+    setActiveTab('details');
     if (task) {
       setFormData({
         projectId: task.projectId || undefined,
@@ -88,26 +121,53 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
         priority: task.priority,
         dueDate: task.dueDate || '',
         startDate: task.startDate || '',
-        assignee: task.assignee || '',
+        assigneeIds: task.assigneeIds ?? [],
         estimatedHours: task.estimatedHours || undefined,
         progress: task.progress || 0,
+        labelIds: task.labels?.map((label) => label.id) ?? [],
+        recurrenceRule: task.recurrenceRule || '',
+        customFields: { ...task.customFields },
       });
     } else {
       setFormData({
-        projectId: undefined,
+        projectId: parentTask?.projectId || undefined,
         title: '',
         description: '',
-        status: 'todo',
+        status: getStatusForCategory(kanbanColumns, 'not_started', parentTask?.projectId ?? null),
         priority: 2,
         dueDate: '',
         startDate: '',
-        assignee: '',
+        assigneeIds: [],
         estimatedHours: undefined,
         progress: 0,
+        labelIds: [],
+        recurrenceRule: '',
+        customFields: {},
       });
       setSelectedPredecessorIds([]);
     }
-  }, [task, open]);
+  }, [task, open, parentTask?.projectId]);
+
+  // 選択中のプロジェクトで使えるカスタムフィールド（グローバル + プロジェクト固有）
+  const projectCustomFields = useMemo(
+    () => getCustomFieldsForProject(customFields, formData.projectId || currentProjectId || 'default-project'),
+    [customFields, formData.projectId, currentProjectId]
+  );
+
+  // 他プロジェクトのフィールドの値は送信しない（未入力はnullでクリア）
+  const getCustomFieldValues = () =>
+    Object.fromEntries(projectCustomFields.map((field) => [field.id, formData.customFields?.[field.id] ?? null]));
+
+  // 繰り返しルールの検証（不正なルールでは保存できない）
+  const recurrenceError = useMemo(() => {
+    if (!formData.recurrenceRule) {return null;}
+    try {
+      parseRecurrenceRule(formData.recurrenceRule);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }, [formData.recurrenceRule]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -127,24 +187,26 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
       description: formData.description || null,
       dueDate: finalDueDate || null,
       startDate: finalStartDate || null,
-      assignee: formData.assignee || null,
       estimatedHours: formData.estimatedHours || null,
       progress: formData.progress ?? 0,
+      recurrenceRule: formData.recurrenceRule || null,
+      customFields: getCustomFieldValues(),
     } : {
       ...formData,
       description: formData.description || undefined,
       dueDate: finalDueDate,
       startDate: finalStartDate,
-      assignee: formData.assignee || undefined,
       estimatedHours: formData.estimatedHours || undefined,
       progress: formData.progress ?? 0,
+      recurrenceRule: formData.recurrenceRule || undefined,
+      customFields: getCustomFieldValues(),
     };
 
     if (isEditMode && task) {
       updateTaskApi(task.id, cleanedData);
     } else {
       // 新規作成時は先行タスクのIDリストを含めて作成
-      createTask(cleanedData, selectedPredecessorIds);
+      createTask(parentId ? { ...cleanedData, parentId } : cleanedData, selectedPredecessorIds);
     }
 
     onOpenChange(false);
@@ -184,9 +246,10 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
       description: formData.description || undefined,
       dueDate: finalDueDate,
       startDate: finalStartDate,
-      assignee: formData.assignee || undefined,
       estimatedHours: formData.estimatedHours || undefined,
       progress: 0, // 進捗は0にリセット
+      recurrenceRule: formData.recurrenceRule || undefined,
+      customFields: getCustomFieldValues(),
     };
 
     // 既存の先行タスクIDを取得して新規タスクに引き継ぐ
@@ -200,10 +263,30 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
       <DialogContent className="max-w-md">
         <DialogHeader>
           <DialogTitle>
-            {isEditMode ? t('action.edit') : t('action.newTask')}
+            {isEditMode ? t('action.edit') : parentTask ? t('subtask.newFor', parentTask.title) : t('action.newTask')}
           </DialogTitle>
+          {task?.source && <TaskSourceLink source={task.source} className="-mx-1 self-start" />}
         </DialogHeader>
 
+        {isEditMode && (
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as DialogTab)}>
+            <TabsList className="w-full">
+              <TabsTrigger value="details" className="flex-1">{t('task.details')}</TabsTrigger>
+              <TabsTrigger value="comments" className="flex-1">{t('comment.tab')}</TabsTrigger>
+              <TabsTrigger value="time" className="flex-1">{t('timeLog.tab')}</TabsTrigger>
+              <TabsTrigger value="activity" className="flex-1">{t('activity.tab')}</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        {isEditMode && task && activeTab === 'comments' ? (
+          <TaskCommentList taskId={task.id} />
+        ) : isEditMode && task && activeTab === 'time' ? (
+          // 記録時間は最新のタスクから表示する
+          <TaskTimeLog task={tasks.find((t) => t.id === task.id) ?? task} />
+        ) : isEditMode && task && activeTab === 'activity' ? (
+          <TaskActivityList taskId={task.id} />
+        ) : (
         <form onSubmit={handleSubmit} className="space-y-3">
           {/* Project (shown in All Tasks view for both create and edit) */}
           {showProjectSelect && projects.length > 0 && (
@@ -307,6 +390,7 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
                 type="date"
                 value={formData.startDate || ''}
                 onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                disabled={isParent}
               />
             </div>
 
@@ -316,22 +400,36 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
                 type="date"
                 value={formData.dueDate || ''}
                 onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                disabled={isParent}
               />
               {/* 日付の整合性警告 */}
               {formData.startDate && formData.dueDate && formData.dueDate < formData.startDate && (
                 <p className="text-xs text-amber-500">{t('validation.dueDateBeforeStartDate')}</p>
               )}
             </div>
+            {isParent && (
+              <p className="col-span-2 text-xs text-muted-foreground">{t('subtask.rolledUpHint')}</p>
+            )}
+          </div>
+
+          {/* Recurrence */}
+          <div className="space-y-1">
+            <label className="text-xs font-medium">{t('recurrence.title')}</label>
+            <RecurrenceEditor
+              value={formData.recurrenceRule || ''}
+              onChange={(recurrenceRule) => setFormData((prev) => ({ ...prev, recurrenceRule }))}
+              anchorDate={formData.dueDate || formData.startDate || undefined}
+              error={recurrenceError}
+            />
           </div>
 
           {/* Assignee and Estimated Hours */}
           <div className="grid grid-cols-2 gap-2">
             <div className="space-y-1">
               <label className="text-xs font-medium">{t('task.assignee')}</label>
-              <Input
-                value={formData.assignee || ''}
-                onChange={(e) => setFormData({ ...formData, assignee: e.target.value })}
-                placeholder={t('task.assignee')}
+              <AssigneePicker
+                value={formData.assigneeIds ?? []}
+                onChange={(assigneeIds) => setFormData((prev) => ({ ...prev, assigneeIds }))}
               />
             </div>
 
@@ -361,7 +459,8 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
                 onChange={(e) => setFormData({ ...formData, progress: Number(e.target.value) })}
                 onMouseDown={(e) => e.stopPropagation()}
                 onClick={(e) => e.stopPropagation()}
-                className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer accent-primary"
+                disabled={isParent}
+                className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer accent-primary disabled:cursor-not-allowed disabled:opacity-50"
               />
               <Input
                 type="number"
@@ -372,12 +471,55 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
                   const val = Math.min(100, Math.max(0, Number(e.target.value) || 0));
                   setFormData({ ...formData, progress: val });
                 }}
+                disabled={isParent}
                 className="w-16 text-center"
               />
               <span className="text-xs text-muted-foreground">%</span>
             </div>
           </div>
 
+          {/* Labels */}
+          <div className="space-y-1">
+            <label className="text-xs font-medium">{t('task.labels')}</label>
+            <LabelPicker
+              value={formData.labelIds ?? []}
+              onChange={(labelIds) => setFormData((prev) => ({ ...prev, labelIds }))}
+            />
+          </div>
+
+          {/* Custom fields */}
+          {projectCustomFields.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              {projectCustomFields.map((field) => (
+                <div key={field.id} className={field.type === 'multi_select' ? 'col-span-2 space-y-1' : 'space-y-1'}>
+                  <label className="text-xs font-medium">{field.name}</label>
+                  <CustomFieldInput
+                    field={field}
+                    value={formData.customFields?.[field.id]}
+                    onChange={(value) =>
+                      setFormData((prev) => ({ ...prev, customFields: { ...prev.customFields, [field.id]: value } }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Subtasks (edit mode) */}
+          {isEditMode && task && (
+            <div className="space-y-1">
+              <label className="text-xs font-medium">
+                {t('subtask.title')}
+                {subtaskCount > 0 && (
+                  <span className="ml-2 font-normal text-muted-foreground">
+                    {t('subtask.doneCount', tasks.filter(t => t.parentId === task.id && isTaskFinished(t, kanbanColumns)).length, subtaskCount)}
+                  </span>
+                )}
+              </label>
+              <SubtaskChecklist parent={task} allowAdd />
+            </div>
+          )}
+
           {/* Dependencies */}
           <div className="space-y-2">
             <label className="text-xs font-medium">{t('task.dependencies')}</label>
@@ -499,13 +641,14 @@ export function TaskFormDialog({ open, onOpenChange, task }: TaskFormDialogProps
               </Button>
               <Button
                 type="submit"
-                disabled={!formData.title.trim() || (showProjectSelect && !isEditMode && !formData.projectId)}
+                disabled={!formData.title.trim() || (showProjectSelect && !isEditMode && !formData.projectId) || !!recurrenceError}
               >
                 {isEditMode ? t('action.save') : t('action.create')}
               </Button>
             </div>
           </DialogFooter>
         </form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,43 @@
+import { Search, X } from 'lucide-react';
+import { Input } from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useTaskSearch } from '@/stores/taskSearch';
+import { useI18n } from '@/i18n';
+
+// Header box for task queries (project:Backend due:<7d "login"); every view shows only the matches
+export function TaskSearchBox() {
+  const { t } = useI18n();
+  const { searchQuery, setSearchQuery } = useTaskStore();
+  const { errors } = useTaskSearch();
+
+  const errorText = errors.map((error) => t(`search.error.${error.code}`, error.term)).join('\n');
+
+  return (
+    <div className="relative w-40 md:w-64">
+      <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+      <Input
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setSearchQuery('');
+          }
+        }}
+        placeholder={t('search.placeholder')}
+        title={errorText || t('search.placeholder')}
+        aria-invalid={errors.length > 0}
+        className={`pl-8 pr-7 ${errors.length > 0 ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+      />
+      {searchQuery && (
+        <button
+          type="button"
+          className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          onClick={() => setSearchQuery('')}
+          aria-label={t('search.clear')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
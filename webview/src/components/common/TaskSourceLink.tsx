@@ -0,0 +1,38 @@
+import { FileCode } from 'lucide-react';
+import type { TaskSource } from '@/types';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface TaskSourceLinkProps {
+  source: TaskSource;
+  className?: string;
+}
+
+// Marks a task scanned from a code comment; clicking opens the editor at the comment
+export function TaskSourceLink({ source, className }: TaskSourceLinkProps) {
+  const { t } = useI18n();
+  const { openTaskSource } = useTaskStore();
+  const fileName = source.filePath.split('/').pop();
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        'inline-flex min-w-0 items-center gap-1 rounded px-1 text-xs text-sky-600 hover:bg-sky-500/10 hover:underline dark:text-sky-400',
+        className
+      )}
+      title={t('todoScanner.openSource', `${source.filePath}:${source.line}`)}
+      onClick={(e) => {
+        e.stopPropagation();
+        openTaskSource(source.taskId);
+      }}
+    >
+      <FileCode className="h-3.5 w-3.5 shrink-0" />
+      <span className="font-semibold">{source.tag}</span>
+      <span className="truncate">
+        {fileName}:{source.line}
+      </span>
+    </button>
+  );
+}
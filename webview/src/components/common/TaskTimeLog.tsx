@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { Pencil, Play, Square, Trash2 } from 'lucide-react';
+import { Button, Input } from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { getEntryHours, formatHours, isOverEstimate } from '@/types';
+import type { Task, TimeEntry } from '@/types';
+
+interface TaskTimeLogProps {
+  task: Task;
+}
+
+// Time entry as edited in the form: local start date and time plus a duration
+interface EntryDraft {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  hours: string;
+  note: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function createDraft(entry?: TimeEntry): EntryDraft {
+  const start = entry ? new Date(entry.startedAt) : new Date();
+  return {
+    date: `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`,
+    time: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+    hours: entry ? String(Number(getEntryHours(entry).toFixed(2))) : '',
+    note: entry?.note ?? '',
+  };
+}
+
+// Start and end as ISO strings, or null when the draft is incomplete
+function parseDraft(draft: EntryDraft): { startedAt: string; endedAt: string } | null {
+  const start = new Date(`${draft.date}T${draft.time || '00:00'}`);
+  const hours = Number(draft.hours);
+  if (Number.isNaN(start.getTime()) || !(hours > 0)) {return null;}
+  return {
+    startedAt: start.toISOString(),
+    endedAt: new Date(start.getTime() + hours * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+function formatElapsed(hours: number): string {
+  const totalSeconds = Math.floor(hours * 3600);
+  return `${Math.floor(totalSeconds / 3600)}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+}
+
+export function TaskTimeLog({ task }: TaskTimeLogProps) {
+  const { t } = useI18n();
+  const {
+    timeEntries,
+    runningTimeEntry,
+    loadTimeEntries,
+    createTimeEntry,
+    updateTimeEntry,
+    deleteTimeEntry,
+    startTimer,
+    stopTimer,
+  } = useTaskStore();
+  const [newDraft, setNewDraft] = useState<EntryDraft>(() => createDraft());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingDraft, setEditingDraft] = useState<EntryDraft>(() => createDraft());
+  const [now, setNow] = useState(() => Date.now());
+
+  const isRunningHere = runningTimeEntry?.taskId === task.id;
+
+  // Reload when the timer starts or stops elsewhere (status bar, another task)
+  useEffect(() => {
+    loadTimeEntries(task.id);
+  }, [task.id, runningTimeEntry?.id, loadTimeEntries]);
+
+  useEffect(() => {
+    setNewDraft(createDraft());
+    setEditingId(null);
+  }, [task.id]);
+
+  // Count the running timer up
+  useEffect(() => {
+    if (!isRunningHere) {return;}
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  const entries = timeEntries?.taskId === task.id ? timeEntries.entries : [];
+
+  const handleAdd = () => {
+    const range = parseDraft(newDraft);
+    if (!range) {return;}
+    createTimeEntry({ taskId: task.id, ...range, note: newDraft.note.trim() || null });
+    setNewDraft({ ...createDraft(), date: newDraft.date });
+  };
+
+  const handleSave = (entry: TimeEntry) => {
+    if (entry.endedAt) {
+      const range = parseDraft(editingDraft);
+      if (!range) {return;}
+      updateTimeEntry(entry.id, { ...range, note: editingDraft.note.trim() || null });
+    } else {
+      // A running entry keeps counting: only its start and note can change
+      const start = new Date(`${editingDraft.date}T${editingDraft.time || '00:00'}`);
+      if (Number.isNaN(start.getTime())) {return;}
+      updateTimeEntry(entry.id, { startedAt: start.toISOString(), note: editingDraft.note.trim() || null });
+    }
+    setEditingId(null);
+  };
+
+  const renderDraftFields = (draft: EntryDraft, onChange: (draft: EntryDraft) => void, showHours = true) => (
+    <div className="flex flex-wrap items-center gap-1">
+      <Input
+        type="date"
+        value={draft.date}
+        onChange={(e) => onChange({ ...draft, date: e.target.value })}
+        className="h-8 w-32 text-xs"
+        aria-label={t('timeLog.date')}
+      />
+      <Input
+        type="time"
+        value={draft.time}
+        onChange={(e) => onChange({ ...draft, time: e.target.value })}
+        className="h-8 w-24 text-xs"
+        aria-label={t('timeLog.startTime')}
+      />
+      {showHours && (
+        <Input
+          type="number"
+          min="0"
+          step="0.25"
+          value={draft.hours}
+          onChange={(e) => onChange({ ...draft, hours: e.target.value })}
+          placeholder={t('timeLog.hours')}
+          className="h-8 w-20 text-xs"
+          aria-label={t('timeLog.hours')}
+        />
+      )}
+      <Input
+        value={draft.note}
+        onChange={(e) => onChange({ ...draft, note: e.target.value })}
+        placeholder={t('timeLog.note')}
+        className="h-8 min-w-[6rem] flex-1 text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 rounded-md border border-border p-2 text-xs">
+        <div>
+          <span className={cn('font-medium', isOverEstimate(task) && 'text-destructive')}>
+            {t('timeLog.logged', formatHours(task.actualHours ?? 0))}
+          </span>
+          <span className="text-muted-foreground">
+            {' / '}
+            {task.estimatedHours ? t('timeLog.estimated', formatHours(task.estimatedHours)) : t('timeLog.noEstimate')}
+          </span>
+        </div>
+        {isRunningHere && runningTimeEntry ? (
+          <Button type="button" size="sm" variant="destructive" onClick={stopTimer}>
+            <Square className="h-3 w-3 mr-1" />
+            {t('timeLog.stop')} {formatElapsed(getEntryHours(runningTimeEntry, now))}
+          </Button>
+        ) : (
+          <Button type="button" size="sm" onClick={() => startTimer(task.id)}>
+            <Play className="h-3 w-3 mr-1" />
+            {t('timeLog.start')}
+          </Button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="py-4 text-center text-xs text-muted-foreground">{t('timeLog.empty')}</p>
+      ) : (
+        <ul className="max-h-[40vh] space-y-1 overflow-y-auto pr-1">
+          {entries.map((entry) => (
+            <li key={entry.id} className="group rounded-md border border-border p-2 text-xs">
+              {editingId === entry.id ? (
+                <div className="space-y-1">
+                  {renderDraftFields(editingDraft, setEditingDraft, !!entry.endedAt)}
+                  <div className="flex justify-end gap-1">
+                    <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                      {t('action.cancel')}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleSave(entry)}
+                      disabled={!!entry.endedAt && !parseDraft(editingDraft)}
+                    >
+                      {t('action.save')}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <span className="w-12 shrink-0 font-medium">
+                    {entry.endedAt ? formatHours(getEntryHours(entry)) : t('timeLog.running')}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {new Date(entry.startedAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate" title={entry.note ?? undefined}>
+                    {entry.note}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">{entry.author || t('activity.unknownAuthor')}</span>
+                  <span className="flex shrink-0 opacity-0 group-hover:opacity-100">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      aria-label={t('action.edit')}
+                      onClick={() => {
+                        setEditingId(entry.id);
+                        setEditingDraft(createDraft(entry));
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      aria-label={t('action.delete')}
+                      onClick={() => deleteTimeEntry(entry.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium">{t('timeLog.addManual')}</label>
+        {renderDraftFields(newDraft, setNewDraft)}
+        <div className="flex justify-end">
+          <Button type="button" size="sm" onClick={handleAdd} disabled={!parseDraft(newDraft)}>
+            {t('timeLog.add')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DEPENDENCY_TYPE_KEYS } from '@/types';
+import type { Dependency, DependencyType } from '@/types';
+
+interface DependencyFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dependency?: Dependency;
+}
+
+export function DependencyFormDialog({ open, onOpenChange, dependency }: DependencyFormDialogProps) {
+  const { t } = useI18n();
+  const { tasks, updateDependency, deleteDependency } = useTaskStore();
+
+  const [dependencyType, setDependencyType] = useState<DependencyType>('finish_to_start');
+  const [lagDays, setLagDays] = useState('0');
+
+  const predecessor = tasks.find((task) => task.id === dependency?.predecessorId);
+  const successor = tasks.find((task) => task.id === dependency?.successorId);
+  const parsedLag = parseInt(lagDays, 10);
+  const isLagValid = !isNaN(parsedLag);
+
+  useEffect(() => {
+    if (dependency) {
+      setDependencyType(dependency.dependencyType);
+      setLagDays(String(dependency.lagDays));
+    }
+  }, [dependency, open]);
+
+  const handleSubmit = () => {
+    if (!dependency || !isLagValid) {return;}
+    updateDependency(dependency.id, { dependencyType, lagDays: parsedLag });
+    onOpenChange(false);
+  };
+
+  const handleDelete = () => {
+    if (!dependency) {return;}
+    deleteDependency(dependency.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t('dependency.edit')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <p className="text-sm text-muted-foreground">
+            {t('dependency.between', predecessor?.title ?? '-', successor?.title ?? '-')}
+          </p>
+
+          <div className="grid gap-2">
+            <Label>{t('dependency.type')}</Label>
+            <Select value={dependencyType} onValueChange={(v) => setDependencyType(v as DependencyType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEPENDENCY_TYPE_KEYS) as DependencyType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {t(DEPENDENCY_TYPE_KEYS[type])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="lagDays">{t('dependency.lagDays')}</Label>
+            <Input
+              id="lagDays"
+              type="number"
+              step={1}
+              value={lagDays}
+              onChange={(e) => setLagDays(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleSubmit();
+                }
+              }}
+            />
+            <p className="text-xs text-muted-foreground">{t('dependency.lagHint')}</p>
+          </div>
+        </div>
+
+        <DialogFooter className="flex justify-between sm:justify-between">
+          <Button type="button" variant="destructive" onClick={handleDelete}>
+            {t('action.delete')}
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('action.cancel')}
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={!isLagValid}>
+              {t('action.save')}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
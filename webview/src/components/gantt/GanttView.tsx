@@ -1,16 +1,22 @@
 import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { useTaskStore } from '@/stores/taskStore';
+import { useSavedViewState } from '@/stores/savedViewState';
+import { useTaskSearch } from '@/stores/taskSearch';
 import { useI18n } from '@/i18n';
 import { Button, Tooltip, TooltipTrigger, TooltipContent, Checkbox } from '@/components/ui';
 import { FilterPopover } from '@/components/common/FilterPopover';
-import { ChevronLeft, ChevronRight, Link2, X, FolderOpen, GripVertical } from 'lucide-react';
+import { ChevronLeft, ChevronRight, ChevronDown, Link2, X, FolderOpen, GripVertical, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { TaskFormDialog } from '@/components/common/TaskFormDialog';
-import type { Task, KanbanColumn, FilterState } from '@/types';
-import { getHexColor, createEmptyFilterState, evaluateFilter, loadFilterState } from '@/types';
+import { DependencyFormDialog } from './DependencyFormDialog';
+import type { Task, Dependency, DependencyError, KanbanColumn, FilterState } from '@/types';
+import { getHexColor, createEmptyFilterState, evaluateFilter, loadFilterState, isTaskFinished, flattenTaskTree, formatActualVsEstimated, formatHours, isOverEstimate } from '@/types';
 
 type ViewMode = 'day' | 'week' | 'month';
 
+const isViewMode = (value: string | undefined): value is ViewMode =>
+  value === 'day' || value === 'week' || value === 'month';
+
 // Connection mode state for creating dependencies
 interface ConnectionState {
   predecessorId: string;
@@ -85,9 +91,37 @@ const TruncatedTaskInfo = React.memo(function TruncatedTaskInfo({
   return <div ref={containerRef} className={className}>{children}</div>;
 });
 
+// Builds an SVG path through orthogonal points with rounded corners
+function buildRoundedPath(points: Array<[number, number]>, radius = 6): string {
+  const pts = points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+  let path = `M ${pts[0][0]} ${pts[0][1]}`;
+  for (let i = 1; i < pts.length - 1; i++) {
+    const [prevX, prevY] = pts[i - 1];
+    const [x, y] = pts[i];
+    const [nextX, nextY] = pts[i + 1];
+    const inLength = Math.hypot(x - prevX, y - prevY);
+    const outLength = Math.hypot(nextX - x, nextY - y);
+    const r = Math.min(radius, inLength / 2, outLength / 2);
+    const beforeX = x - ((x - prevX) / inLength) * r;
+    const beforeY = y - ((y - prevY) / inLength) * r;
+    const afterX = x + ((nextX - x) / outLength) * r;
+    const afterY = y + ((nextY - y) / outLength) * r;
+    path += ` L ${beforeX} ${beforeY} Q ${x} ${y} ${afterX} ${afterY}`;
+  }
+  const [lastX, lastY] = pts[pts.length - 1];
+  return `${path} L ${lastX} ${lastY}`;
+}
+
+const DEPENDENCY_ERROR_KEYS: Record<DependencyError['code'], string> = {
+  DEPENDENCY_SELF_REFERENCE: 'dependency.errorSelfReference',
+  DEPENDENCY_CYCLE: 'dependency.errorCycle',
+  DEPENDENCY_HIERARCHY: 'dependency.errorHierarchy',
+};
+
 export function GanttView() {
   const { t, locale } = useI18n();
-  const { tasks, dependencies, updateTaskApi, createDependency, deleteDependency, showCompletedTasks, currentProjectId, projects, reorderTasks, kanbanColumns, createTask } = useTaskStore();
+  const { tasks, dependencies, rescheduleTask, createDependency, showCompletedTasks, currentProjectId, projects, reorderTasks, kanbanColumns, labels, createTask, criticalPath, loadCriticalPath, dependencyError, clearDependencyError } = useTaskStore();
+  const { filter: searchFilter } = useTaskSearch();
 
   // Helper function to get column color for a task status
   const getColumnColor = useCallback((status: string): string => {
@@ -107,6 +141,7 @@ export function GanttView() {
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [connectionState, setConnectionState] = useState<ConnectionState | null>(null);
+  const [editingDependency, setEditingDependency] = useState<Dependency | undefined>(undefined);
   const chartAreaRef = useRef<HTMLDivElement>(null);
   const [filterState, setFilterState] = useState<FilterState>(() => {
     const saved = loadFilterState('taskscheduller-filters-gantt');
@@ -116,6 +151,31 @@ export function GanttView() {
     const saved = localStorage.getItem('gantt-highlight-today');
     return saved ? JSON.parse(saved) : true;
   });
+  // Tasks whose subtasks are hidden
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(() => {
+    const saved = localStorage.getItem('gantt-collapsed-tasks');
+    return new Set<string>(saved ? JSON.parse(saved) : []);
+  });
+  const [highlightCritical, setHighlightCritical] = useState(() => {
+    const saved = localStorage.getItem('gantt-highlight-critical');
+    return saved ? JSON.parse(saved) : false;
+  });
+
+  // Recompute the critical path whenever the schedule changes
+  useEffect(() => {
+    if (highlightCritical) {
+      loadCriticalPath();
+    }
+  }, [highlightCritical, tasks, dependencies, loadCriticalPath]);
+
+  const scheduleAnalysis = useMemo(
+    () => new Map((criticalPath?.tasks ?? []).map((info) => [info.taskId, info])),
+    [criticalPath]
+  );
+  const criticalDependencyIds = useMemo(
+    () => new Set(criticalPath?.criticalDependencyIds ?? []),
+    [criticalPath]
+  );
 
   // Task column width (resizable) - load from localStorage
   const TASK_COLUMN_MIN_WIDTH = 150;
@@ -133,6 +193,20 @@ export function GanttView() {
   });
   const columnResizeRef = useRef<{ startX: number; startWidth: number } | null>(null);
 
+  useSavedViewState(
+    'gantt',
+    () => ({ filter: filterState, zoom: viewMode, columnWidths: { task: taskColumnWidth } }),
+    (state) => {
+      setFilterState(state.filter ?? createEmptyFilterState());
+      setViewMode(isViewMode(state.zoom) ? state.zoom : 'day');
+      const width = state.columnWidths?.task;
+      if (width !== undefined && width >= TASK_COLUMN_MIN_WIDTH && width <= TASK_COLUMN_MAX_WIDTH) {
+        setTaskColumnWidth(width);
+        localStorage.setItem('gantt-task-column-width', String(width));
+      }
+    }
+  );
+
   const handleEditTask = useCallback((task: Task) => {
     setEditingTask(task);
     setIsEditDialogOpen(true);
@@ -196,9 +270,29 @@ export function GanttView() {
   }, [taskColumnWidth]);
 
   // Filter tasks with dates
-  const filteredByCompletion = showCompletedTasks ? tasks : tasks.filter(t => t.status !== 'done');
-  const filteredByFilter = filteredByCompletion.filter(t => evaluateFilter(t, filterState));
-  const tasksWithDates = filteredByFilter.filter((task) => task.startDate || task.dueDate);
+  const filteredByCompletion = showCompletedTasks ? tasks : tasks.filter(t => !isTaskFinished(t, kanbanColumns));
+  const filteredByFilter = filteredByCompletion.filter(t => evaluateFilter(t, filterState) && evaluateFilter(t, searchFilter));
+  // Subtasks are nested under their parent's summary bar
+  const ganttRows = flattenTaskTree(
+    filteredByFilter.filter((task) => task.startDate || task.dueDate),
+    collapsedTaskIds
+  );
+  const tasksWithDates = ganttRows.map((row) => row.task);
+  const hasHierarchy = tasks.some((task) => task.parentId);
+  const parentTaskIds = new Set(tasks.map((task) => task.parentId).filter((id): id is string => !!id));
+
+  const toggleCollapsed = useCallback((taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      localStorage.setItem('gantt-collapsed-tasks', JSON.stringify([...next]));
+      return next;
+    });
+  }, []);
 
   // Fixed cell width for all view modes
   const cellWidth = 40;
@@ -475,13 +569,14 @@ export function GanttView() {
         break;
     }
 
-    updateTaskApi(dragState.taskId, {
+    // Successors are shifted by the extension and come back together with this task
+    rescheduleTask(dragState.taskId, {
       startDate: newStartDate ? newStartDate.toISOString().split('T')[0] : undefined,
       dueDate: newEndDate ? newEndDate.toISOString().split('T')[0] : undefined,
     });
 
     setDragState(null);
-  }, [dragState, tasks, updateTaskApi, pixelsPerDay]);
+  }, [dragState, tasks, rescheduleTask, pixelsPerDay]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     handleDragMove(e);
@@ -522,6 +617,12 @@ export function GanttView() {
     localStorage.setItem('gantt-highlight-today', JSON.stringify(checked));
   }, []);
 
+  // Handle critical path toggle
+  const handleHighlightCriticalChange = useCallback((checked: boolean) => {
+    setHighlightCritical(checked);
+    localStorage.setItem('gantt-highlight-critical', JSON.stringify(checked));
+  }, []);
+
   // Row drag handlers for reordering tasks
   const handleRowDragStart = useCallback((e: React.DragEvent, taskId: string, index: number) => {
     e.dataTransfer.effectAllowed = 'copyMove';
@@ -555,7 +656,7 @@ export function GanttView() {
         priority: draggedTask.priority,
         dueDate: draggedTask.dueDate || undefined,
         startDate: draggedTask.startDate || undefined,
-        assignee: draggedTask.assignee || undefined,
+        assigneeIds: draggedTask.assigneeIds,
         estimatedHours: draggedTask.estimatedHours || undefined,
         progress: 0, // 進捗は0にリセット
       };
@@ -641,98 +742,59 @@ export function GanttView() {
       const predIndex = taskIndexMap.get(dep.predecessorId)!;
       const succIndex = taskIndexMap.get(dep.successorId)!;
 
-      // Calculate start point (right side of predecessor bar)
-      const startX = predPos.leftPx + predPos.widthPx;
-      const startY = predIndex * rowHeight + rowHeight / 2;
+      // Anchor on the predecessor: finish for FS/FF, start for SS/SF
+      const fromFinish = dep.dependencyType === 'finish_to_start' || dep.dependencyType === 'finish_to_finish';
+      // Anchor on the successor: finish for FF/SF, start for FS/SS
+      const toFinish = dep.dependencyType === 'finish_to_finish' || dep.dependencyType === 'start_to_finish';
 
-      // Calculate end point (left side of successor bar)
-      const endX = succPos.leftPx;
+      const startX = fromFinish ? predPos.leftPx + predPos.widthPx : predPos.leftPx;
+      const startY = predIndex * rowHeight + rowHeight / 2;
+      const endX = toFinish ? succPos.leftPx + succPos.widthPx : succPos.leftPx;
       const endY = succIndex * rowHeight + rowHeight / 2;
 
-      // Check if tasks overlap horizontally (predecessor ends after successor starts)
-      const hasOverlap = startX > endX - 20;
+      // Direction leaving the predecessor and direction of travel when reaching the successor
+      const exitDir = fromFinish ? 1 : -1;
+      const entryDir = toFinish ? -1 : 1;
+
+      const horizontalOffset = 12;
+      const exitX = startX + exitDir * horizontalOffset;
+      const approachX = endX - entryDir * horizontalOffset;
+      const arrowEndX = endX - entryDir * 8; // leave room for the arrowhead
       const goingDown = succIndex > predIndex;
       const sameRow = succIndex === predIndex;
+      const canGoStraight = exitDir === entryDir && (approachX - exitX) * entryDir >= 0;
 
-      let path: string;
+      let points: Array<[number, number]>;
 
       if (sameRow) {
-        // Same row - need to go around
-        if (hasOverlap) {
-          // Go below the bar
-          const bottomY = startY + barHeight / 2 + 8;
-          path = `M ${startX} ${startY}
-                  L ${startX + 8} ${startY}
-                  L ${startX + 8} ${bottomY}
-                  L ${endX - 8} ${bottomY}
-                  L ${endX - 8} ${endY}`;
-        } else {
+        if (canGoStraight) {
           // Simple horizontal line
-          path = `M ${startX} ${startY} L ${endX - 8} ${endY}`;
-        }
-      } else if (hasOverlap) {
-        // Tasks overlap horizontally - route around successor bar
-        // Connect to successor from far left to avoid overlapping with the bar
-        const cornerRadius = 6;
-        const horizontalOffset = 12;
-        // Connect to a point well left of the successor bar
-        const succConnectX = Math.min(endX - 30, startX - 10);
-
-        if (goingDown) {
-          // Route: right -> down -> left (to far left of successor) -> down -> right to successor
-          const midY = predIndex * rowHeight + rowHeight - verticalPadding + 8;
-
-          path = `M ${startX} ${startY}
-                  L ${startX + horizontalOffset} ${startY}
-                  Q ${startX + horizontalOffset + cornerRadius} ${startY} ${startX + horizontalOffset + cornerRadius} ${startY + cornerRadius}
-                  L ${startX + horizontalOffset + cornerRadius} ${midY}
-                  L ${succConnectX} ${midY}
-                  Q ${succConnectX - cornerRadius} ${midY} ${succConnectX - cornerRadius} ${midY + cornerRadius}
-                  L ${succConnectX - cornerRadius} ${endY - cornerRadius}
-                  Q ${succConnectX - cornerRadius} ${endY} ${succConnectX} ${endY}
-                  L ${endX - 8} ${endY}`;
+          points = [[startX, startY], [arrowEndX, endY]];
         } else {
-          // Going up - route above
-          const midY = predIndex * rowHeight + verticalPadding - 8;
-
-          path = `M ${startX} ${startY}
-                  L ${startX + horizontalOffset} ${startY}
-                  Q ${startX + horizontalOffset + cornerRadius} ${startY} ${startX + horizontalOffset + cornerRadius} ${startY - cornerRadius}
-                  L ${startX + horizontalOffset + cornerRadius} ${midY}
-                  L ${succConnectX} ${midY}
-                  Q ${succConnectX - cornerRadius} ${midY} ${succConnectX - cornerRadius} ${midY - cornerRadius}
-                  L ${succConnectX - cornerRadius} ${endY + cornerRadius}
-                  Q ${succConnectX - cornerRadius} ${endY} ${succConnectX} ${endY}
-                  L ${endX - 8} ${endY}`;
+          // Same row - go around below the bar
+          const bottomY = startY + barHeight / 2 + 8;
+          points = [[startX, startY], [exitX, startY], [exitX, bottomY], [approachX, bottomY], [approachX, endY], [arrowEndX, endY]];
         }
+      } else if (exitDir !== entryDir) {
+        // SS/FF - both anchors face the same side, so drop down outside the outermost one
+        const sideX = exitDir > 0 ? Math.max(exitX, approachX) : Math.min(exitX, approachX);
+        points = [[startX, startY], [sideX, startY], [sideX, endY], [arrowEndX, endY]];
+      } else if (canGoStraight) {
+        // No overlap - L-shape: leave the predecessor, then run along the successor row
+        points = [[startX, startY], [exitX, startY], [exitX, endY], [arrowEndX, endY]];
       } else {
-        // No overlap - simple L-shape: right from predecessor, then horizontal to successor
-        const cornerRadius = 6;
-        const horizontalOffset = 10;
-        const midX = startX + horizontalOffset + cornerRadius;
-
-        if (goingDown) {
-          // Go right, down to successor row level, then horizontal to successor
-          path = `M ${startX} ${startY}
-                  L ${startX + horizontalOffset} ${startY}
-                  Q ${midX} ${startY} ${midX} ${startY + cornerRadius}
-                  L ${midX} ${endY - cornerRadius}
-                  Q ${midX} ${endY} ${midX + cornerRadius} ${endY}
-                  L ${endX - 8} ${endY}`;
-        } else {
-          // Going up
-          path = `M ${startX} ${startY}
-                  L ${startX + horizontalOffset} ${startY}
-                  Q ${midX} ${startY} ${midX} ${startY - cornerRadius}
-                  L ${midX} ${endY + cornerRadius}
-                  Q ${midX} ${endY} ${midX + cornerRadius} ${endY}
-                  L ${endX - 8} ${endY}`;
-        }
+        // Bars overlap horizontally - route between the rows and come back around
+        const midY = goingDown
+          ? predIndex * rowHeight + rowHeight - verticalPadding + 8
+          : predIndex * rowHeight + verticalPadding - 8;
+        points = [[startX, startY], [exitX, startY], [exitX, midY], [approachX, midY], [approachX, endY], [arrowEndX, endY]];
       }
 
       return {
         id: dep.id,
-        path,
+        path: buildRoundedPath(points),
+        startX,
+        startY,
         endX,
         endY,
         predecessorId: dep.predecessorId,
@@ -742,12 +804,14 @@ export function GanttView() {
     .filter(Boolean) as Array<{
       id: string;
       path: string;
+      startX: number;
+      startY: number;
       endX: number;
       endY: number;
       predecessorId: string;
       successorId: string;
     }>
-  , [dependencies, tasksWithDates, taskIndexMap, getTaskPosition, rowHeight, verticalPadding, currentProjectId]);
+  , [dependencies, tasksWithDates, taskIndexMap, getTaskPosition, rowHeight, verticalPadding]);
 
   return (
     <div className="flex flex-col h-full">
@@ -767,7 +831,10 @@ export function GanttView() {
 
         <div className="flex items-center gap-3">
           <FilterPopover
-            fields={[{ id: 'title', label: t('task.title') }]}
+            fields={[
+              { id: 'title', label: t('task.title') },
+              { id: 'labels', label: t('task.labels'), options: labels.map(l => ({ value: l.name, label: l.name })) },
+            ]}
             value={filterState}
             onChange={setFilterState}
             storageKey="taskscheduller-filters-gantt"
@@ -781,6 +848,14 @@ export function GanttView() {
             <span>{t('gantt.highlightToday')}</span>
           </label>
 
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={highlightCritical}
+              onCheckedChange={handleHighlightCriticalChange}
+            />
+            <span>{t('gantt.highlightCritical')}</span>
+          </label>
+
           <div className="flex items-center gap-1">
             <Button
               variant={viewMode === 'day' ? 'secondary' : 'ghost'}
@@ -897,18 +972,42 @@ export function GanttView() {
                     className="text-orange-500"
                   />
                 </marker>
+                <marker
+                  id="arrowhead-critical"
+                  markerWidth="8"
+                  markerHeight="6"
+                  refX="7"
+                  refY="3"
+                  orient="auto"
+                >
+                  <polygon
+                    points="0 0, 8 3, 0 6"
+                    fill="currentColor"
+                    className="text-red-500"
+                  />
+                </marker>
               </defs>
-              {dependencyArrows.map((arrow) => (
+              {dependencyArrows.map((arrow) => {
+                const isCriticalArrow = highlightCritical && criticalDependencyIds.has(arrow.id);
+                return (
                 <g key={arrow.id} className="pointer-events-auto">
                   <path
                     d={arrow.path}
                     fill="none"
                     stroke="currentColor"
-                    strokeWidth="2"
-                    className="text-orange-500"
-                    markerEnd="url(#arrowhead)"
+                    strokeWidth={isCriticalArrow ? 3 : 2}
+                    className={isCriticalArrow ? 'text-red-500' : 'text-orange-500'}
+                    markerEnd={isCriticalArrow ? 'url(#arrowhead-critical)' : 'url(#arrowhead)'}
                   />
-                  {/* Clickable area for deleting dependency */}
+                  {/* Predecessor anchor (start or finish depending on the type) */}
+                  <circle
+                    cx={arrow.startX}
+                    cy={arrow.startY}
+                    r={3}
+                    fill="currentColor"
+                    className={isCriticalArrow ? 'text-red-500' : 'text-orange-500'}
+                  />
+                  {/* Clickable area for editing dependency */}
                   <path
                     d={arrow.path}
                     fill="none"
@@ -916,18 +1015,18 @@ export function GanttView() {
                     strokeWidth="12"
                     className="cursor-pointer hover:stroke-orange-500/30"
                     onClick={() => {
-                      if (confirm(t('confirm.delete'))) {
-                        deleteDependency(arrow.id);
-                      }
+                      setEditingDependency(dependencies.find(d => d.id === arrow.id));
                     }}
                   />
                 </g>
-              ))}
+                );
+              })}
             </svg>
 
             {/* Task rows */}
-            {tasksWithDates.map((task, index) => {
+            {ganttRows.map(({ task, depth, hasSubtasks }, index) => {
               const position = getTaskPosition(task);
+              const isParent = parentTaskIds.has(task.id);
               const isDragging = dragState?.taskId === task.id;
               const isRowDragging = rowDragState?.taskId === task.id;
               const isDropTarget = rowDragState && rowDragState.currentIndex === index && rowDragState.taskId !== task.id;
@@ -954,11 +1053,28 @@ export function GanttView() {
                     }
                   }}
                 >
-                  <div className="shrink-0 p-3 border-r border-border flex items-center gap-2 sticky left-0 bg-background z-[5]" style={{ width: taskColumnWidth, height: rowHeight }}>
+                  <div className="shrink-0 p-3 border-r border-border flex items-center gap-2 sticky left-0 bg-background z-[5]" style={{ width: taskColumnWidth, height: rowHeight, paddingLeft: 12 + depth * 16 }}>
                     {/* Drag handle */}
                     <div className="shrink-0 cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground">
                       <GripVertical className="h-4 w-4" />
                     </div>
+                    {/* Collapse toggle for summary rows */}
+                    {hasHierarchy && (
+                      hasSubtasks ? (
+                        <button
+                          type="button"
+                          className="shrink-0 -mx-1 text-muted-foreground hover:text-foreground"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleCollapsed(task.id);
+                          }}
+                        >
+                          {collapsedTaskIds.has(task.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </button>
+                      ) : (
+                        <span className="w-4 shrink-0 -mx-1" />
+                      )
+                    )}
                     <TruncatedTaskInfo task={task} className="flex-1 min-w-0">
                       <div
                         className="cursor-pointer hover:bg-muted/50 rounded px-1 -mx-1 transition-colors"
@@ -992,6 +1108,12 @@ export function GanttView() {
                           {task.startDate && new Date(task.startDate).toLocaleDateString()}
                           {task.startDate && task.dueDate && ' - '}
                           {task.dueDate && new Date(task.dueDate).toLocaleDateString()}
+                          {/* Actual vs. estimated hours */}
+                          {formatActualVsEstimated(task) && (
+                            <span className={cn('ml-2', isOverEstimate(task) && 'text-red-500')}>
+                              {formatActualVsEstimated(task)}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </TruncatedTaskInfo>
@@ -1054,6 +1176,59 @@ export function GanttView() {
                       // Get color from kanban column settings (convert to hex for inline styles)
                       const columnColorClass = getColumnColor(task.status);
                       const hexColor = getHexColor(columnColorClass);
+                      const analysis = highlightCritical ? scheduleAnalysis.get(task.id) : undefined;
+                      const floatInfo = analysis
+                        ? `\n${t('gantt.totalFloat', analysis.totalFloat)}\n${t('gantt.freeFloat', analysis.freeFloat)}`
+                        : '';
+                      const hoursInfo = task.estimatedHours || task.actualHours
+                        ? `\n${t('timeLog.actualVsEstimated', formatHours(task.actualHours ?? 0), task.estimatedHours ? formatHours(task.estimatedHours) : '-')}`
+                        : '';
+
+                      // Summary bar: spans the subtasks and follows them, so it cannot be dragged
+                      if (isParent) {
+                        return (
+                          <div
+                            className={cn(
+                              'absolute top-1/2 -translate-y-1/2 h-3 z-[5]',
+                              isConnectionSource && 'ring-2 ring-primary ring-offset-1',
+                              isConnectionTarget && 'cursor-pointer hover:ring-2 hover:ring-primary',
+                              analysis?.isCritical && !isConnectionSource && 'ring-2 ring-red-500'
+                            )}
+                            style={{
+                              left: `${position.leftPx}px`,
+                              width: `${position.widthPx}px`,
+                              backgroundColor: `${hexColor}60`,
+                            }}
+                            title={`${task.title}\n${task.progress}% ${t('message.complete')}${hoursInfo}${floatInfo}`}
+                            onDoubleClick={(e) => {
+                              if (!connectionState) {
+                                e.stopPropagation();
+                                handleEditTask(task);
+                              }
+                            }}
+                            onClick={(e) => {
+                              if (isConnectionTarget) {
+                                e.stopPropagation();
+                                handleCompleteConnection(task.id);
+                              }
+                            }}
+                          >
+                            <div
+                              className="h-full pointer-events-none"
+                              style={{ width: `${position.progressWidthPx}px`, backgroundColor: hexColor }}
+                            />
+                            {/* End markers */}
+                            <div
+                              className="absolute left-0 top-full pointer-events-none"
+                              style={{ borderTop: `6px solid ${hexColor}`, borderRight: '6px solid transparent' }}
+                            />
+                            <div
+                              className="absolute right-0 top-full pointer-events-none"
+                              style={{ borderTop: `6px solid ${hexColor}`, borderLeft: '6px solid transparent' }}
+                            />
+                          </div>
+                        );
+                      }
 
                       return (
                         <div
@@ -1061,14 +1236,15 @@ export function GanttView() {
                             'absolute top-1/2 -translate-y-1/2 h-7 rounded group overflow-hidden z-[5]',
                             isDragging ? 'cursor-grabbing shadow-lg' : 'cursor-grab hover:brightness-110',
                             isConnectionSource && 'ring-2 ring-primary ring-offset-1',
-                            isConnectionTarget && 'hover:ring-2 hover:ring-primary'
+                            isConnectionTarget && 'hover:ring-2 hover:ring-primary',
+                            analysis?.isCritical && !isConnectionSource && 'ring-2 ring-red-500'
                           )}
                           style={{
                             left: `${finalLeft}px`,
                             width: `${finalWidth}px`,
                             backgroundColor: `${hexColor}30`, // 30 is hex for ~19% opacity
                           }}
-                          title={`${task.title}\n${task.progress}% ${t('message.complete')}`}
+                          title={`${task.title}\n${task.progress}% ${t('message.complete')}${hoursInfo}${floatInfo}`}
                           onMouseDown={(e) => {
                             if (!connectionState) {
                               handleDragStart(e, task, 'move');
@@ -1151,11 +1327,42 @@ export function GanttView() {
         </div>
       )}
 
+      {/* Rejected dependency banner */}
+      {dependencyError && (
+        <div className="absolute top-14 left-1/2 -translate-x-1/2 max-w-[90%] bg-destructive text-destructive-foreground px-4 py-2 rounded-lg shadow-lg flex items-start gap-3 z-30">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div className="text-sm">
+            <div>{t(DEPENDENCY_ERROR_KEYS[dependencyError.code])}</div>
+            <div className="font-medium break-words">
+              {dependencyError.path.map((entry) => entry.title).join(' → ')}
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0 hover:bg-destructive-foreground/20 text-destructive-foreground"
+            onClick={clearDependencyError}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       <TaskFormDialog
         open={isEditDialogOpen}
         onOpenChange={setIsEditDialogOpen}
         task={editingTask}
       />
+
+      <DependencyFormDialog
+        open={!!editingDependency}
+        onOpenChange={(open) => {
+          if (!open) {
+            setEditingDependency(undefined);
+          }
+        }}
+        dependency={editingDependency}
+      />
     </div>
   );
 }
@@ -18,9 +18,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import type { KanbanColumn } from '@/types';
-import { COLUMN_PRESET_COLORS, getHexColor } from '@/types';
+import type { KanbanColumn, ColumnRule, ColumnCategory } from '@/types';
+import {
+  COLUMN_CATEGORIES,
+  COLUMN_PRESET_COLORS,
+  getHexColor,
+  isColumnRuleValid,
+  isRequiredColumn,
+} from '@/types';
 import { cn } from '@/lib/utils';
+import { ColumnRulesEditor } from './ColumnRulesEditor';
 
 interface ColumnFormDialogProps {
   open: boolean;
@@ -28,6 +35,14 @@ interface ColumnFormDialogProps {
   column?: KanbanColumn;
 }
 
+const CATEGORY_LABEL_KEYS: Record<ColumnCategory, string> = {
+  not_started: 'kanban.categoryNotStarted',
+  active: 'kanban.categoryActive',
+  blocked: 'kanban.categoryBlocked',
+  completed: 'kanban.categoryCompleted',
+  cancelled: 'kanban.categoryCancelled',
+};
+
 export function ColumnFormDialog({ open, onOpenChange, column }: ColumnFormDialogProps) {
   const { t } = useI18n();
   const {
@@ -35,33 +50,47 @@ export function ColumnFormDialog({ open, onOpenChange, column }: ColumnFormDialo
     createKanbanColumn,
     updateKanbanColumn,
     deleteKanbanColumn,
-    tasks,
+    columnTaskCounts,
+    labels,
     projects,
     currentProjectId,
   } = useTaskStore();
 
   const [name, setName] = useState('');
   const [color, setColor] = useState('bg-blue-500');
+  // Empty = no WIP limit
+  const [wipLimit, setWipLimit] = useState('');
+  const [rules, setRules] = useState<ColumnRule[]>([]);
+  const [category, setCategory] = useState<ColumnCategory>('active');
   const [scope, setScope] = useState<'global' | 'project'>('global');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [targetColumnId, setTargetColumnId] = useState<string>('');
 
   const isEditing = !!column;
-  const taskCount = column ? tasks.filter((t) => t.status === column.id).length : 0;
+  const taskCount = column ? columnTaskCounts[column.id] ?? 0 : 0;
   const otherColumns = kanbanColumns.filter((c) => c.id !== column?.id);
-  // Essential columns (todo and done) cannot be deleted
-  const isEssentialColumn = column?.id === 'todo' || column?.id === 'done';
+  // The last global Not started / Completed column can be neither deleted nor recategorized
+  const isRequired = !!column && isRequiredColumn(column, kanbanColumns);
   // Get current project name for display
   const currentProject = projects.find(p => p.id === currentProjectId);
+  const isWipLimitValid = wipLimit === '' || (Number.isInteger(Number(wipLimit)) && Number(wipLimit) >= 1);
+  const areRulesValid = rules.every((rule) => isColumnRuleValid(rule, labels));
+  const canSubmit = !!name.trim() && isWipLimitValid && areRulesValid;
 
   useEffect(() => {
     if (column) {
       setName(column.name);
       setColor(column.color);
+      setWipLimit(column.wipLimit ? String(column.wipLimit) : '');
+      setRules(column.rules ?? []);
+      setCategory(column.category);
       setScope(column.projectId ? 'project' : 'global');
     } else {
       setName('');
       setColor('bg-blue-500');
+      setWipLimit('');
+      setRules([]);
+      setCategory('active');
       setScope('global');
     }
     setShowDeleteConfirm(false);
@@ -69,14 +98,15 @@ export function ColumnFormDialog({ open, onOpenChange, column }: ColumnFormDialo
   }, [column, open]);
 
   const handleSubmit = () => {
-    if (!name.trim()) {return;}
+    if (!canSubmit) {return;}
 
+    const wipLimitValue = wipLimit ? Number(wipLimit) : null;
     if (isEditing && column) {
-      updateKanbanColumn(column.id, { name: name.trim(), color });
+      updateKanbanColumn(column.id, { name: name.trim(), color, wipLimit: wipLimitValue, rules, category });
     } else {
       // For new columns, pass projectId based on scope
       const projectId = scope === 'project' ? currentProjectId : null;
-      createKanbanColumn(name.trim(), color, projectId);
+      createKanbanColumn(name.trim(), color, projectId, wipLimitValue, rules, category);
     }
     onOpenChange(false);
   };
@@ -151,6 +181,50 @@ export function ColumnFormDialog({ open, onOpenChange, column }: ColumnFormDialo
                 </div>
               </div>
 
+              <div className="grid gap-2">
+                <Label>{t('kanban.category')}</Label>
+                <Select
+                  value={category}
+                  onValueChange={(v) => setCategory(v as ColumnCategory)}
+                  disabled={isRequired}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COLUMN_CATEGORIES.map((c) => (
+                      <SelectItem key={c} value={c}>
+                        {t(CATEGORY_LABEL_KEYS[c])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {isRequired ? t('kanban.categoryRequired') : t('kanban.categoryDesc')}
+                </p>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="wipLimit">{t('kanban.wipLimit')}</Label>
+                <Input
+                  id="wipLimit"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={wipLimit}
+                  onChange={(e) => setWipLimit(e.target.value)}
+                  placeholder={t('kanban.wipLimitNone')}
+                  className={cn(!isWipLimitValid && 'border-red-500')}
+                />
+                <p className="text-xs text-muted-foreground">{t('kanban.wipLimitDesc')}</p>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>{t('kanban.rules')}</Label>
+                <ColumnRulesEditor rules={rules} onChange={setRules} />
+                <p className="text-xs text-muted-foreground">{t('kanban.rulesDesc')}</p>
+              </div>
+
               {/* Scope selection - only for new columns when in a project context */}
               {!isEditing && currentProjectId && (
                 <div className="grid gap-2">
@@ -190,7 +264,7 @@ export function ColumnFormDialog({ open, onOpenChange, column }: ColumnFormDialo
 
             <DialogFooter className="flex justify-between sm:justify-between">
               <div>
-                {isEditing && !isEssentialColumn && (
+                {isEditing && !isRequired && (
                   <Button type="button" variant="destructive" onClick={handleDelete}>
                     {t('action.delete')}
                   </Button>
@@ -200,7 +274,7 @@ export function ColumnFormDialog({ open, onOpenChange, column }: ColumnFormDialo
                 <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
                   {t('action.cancel')}
                 </Button>
-                <Button type="button" onClick={handleSubmit} disabled={!name.trim()}>
+                <Button type="button" onClick={handleSubmit} disabled={!canSubmit}>
                   {isEditing ? t('action.save') : t('action.create')}
                 </Button>
               </div>
@@ -0,0 +1,121 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ColumnRule, ColumnRuleType } from '@/types';
+import { COLUMN_RULE_TYPES, createColumnRule, isColumnRuleValid } from '@/types';
+import { useTaskStore } from '@/stores/taskStore';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface ColumnRulesEditorProps {
+  rules: ColumnRule[];
+  onChange: (rules: ColumnRule[]) => void;
+}
+
+const RULE_LABEL_KEYS: Record<ColumnRuleType, string> = {
+  setProgress: 'kanban.ruleSetProgress',
+  stampStartDate: 'kanban.ruleStampStartDate',
+  clearAssignee: 'kanban.ruleClearAssignee',
+  addLabel: 'kanban.ruleAddLabel',
+  removeLabel: 'kanban.ruleRemoveLabel',
+  requireSubtasksDone: 'kanban.ruleRequireSubtasksDone',
+  requirePredecessorsDone: 'kanban.ruleRequirePredecessorsDone',
+};
+
+// Rules applied when a task enters the column, evaluated by the extension on every move
+export function ColumnRulesEditor({ rules, onChange }: ColumnRulesEditorProps) {
+  const { t } = useI18n();
+  const { labels } = useTaskStore();
+
+  const replaceRule = (index: number, rule: ColumnRule) => {
+    onChange(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={rule.type}
+            onValueChange={(type) => replaceRule(index, createColumnRule(type as ColumnRuleType, labels))}
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLUMN_RULE_TYPES.map((type) => (
+                <SelectItem key={type} value={type} className="text-xs">
+                  {t(RULE_LABEL_KEYS[type])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {rule.type === 'setProgress' && (
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={Number.isNaN(rule.progress) ? '' : rule.progress}
+              onChange={(e) => replaceRule(index, { type: 'setProgress', progress: parseInt(e.target.value, 10) })}
+              className={cn('h-8 w-20 text-xs', !isColumnRuleValid(rule, labels) && 'border-red-500')}
+              aria-label={t('task.progress')}
+            />
+          )}
+
+          {(rule.type === 'addLabel' || rule.type === 'removeLabel') && (
+            <Select
+              value={rule.labelId}
+              onValueChange={(labelId) => replaceRule(index, { type: rule.type, labelId })}
+            >
+              <SelectTrigger
+                className={cn('h-8 w-32 text-xs', !isColumnRuleValid(rule, labels) && 'border-red-500')}
+              >
+                <SelectValue placeholder={t('kanban.ruleSelectLabel')} />
+              </SelectTrigger>
+              <SelectContent>
+                {labels.map((label) => (
+                  <SelectItem key={label.id} value={label.id} className="text-xs">
+                    <span className="flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: label.color }} />
+                      {label.name}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => onChange(rules.filter((_, i) => i !== index))}
+            aria-label={t('action.delete')}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, createColumnRule('setProgress', labels)])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        {t('kanban.addRule')}
+      </Button>
+    </div>
+  );
+}
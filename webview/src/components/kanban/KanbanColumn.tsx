@@ -3,16 +3,84 @@ import type { DroppableProvided, DraggableProvidedDragHandleProps } from '@hello
 import { Draggable } from '@hello-pangea/dnd';
 import { GripVertical, Settings } from 'lucide-react';
 import type { Task, KanbanColumn as KanbanColumnType, FilterState } from '@/types';
-import { getHexColor } from '@/types';
+import { getHexColor, isWipLimitReached, isOverWipLimit } from '@/types';
 import { KanbanCard } from './KanbanCard';
 import { FilterPopover } from '@/components/common/FilterPopover';
 import { Button } from '@/components/ui';
+import { useTaskStore } from '@/stores/taskStore';
 import { cn } from '@/lib/utils';
 import { useI18n } from '@/i18n';
 
+interface KanbanColumnHeaderProps {
+  column: KanbanColumnType;
+  taskCount: number; // all tasks of the column across all projects, before any filter
+  dragHandleProps?: DraggableProvidedDragHandleProps | null;
+  onEditColumn: (column: KanbanColumnType) => void;
+  filterState: FilterState;
+  onFilterChange: (value: FilterState) => void;
+}
+
+// Column name, task count against the WIP limit, filter and settings
+export function KanbanColumnHeader({
+  column,
+  taskCount,
+  dragHandleProps,
+  onEditColumn,
+  filterState,
+  onFilterChange,
+}: KanbanColumnHeaderProps) {
+  const { t } = useI18n();
+  const { labels } = useTaskStore();
+
+  // Define filter fields for Kanban column
+  const filterFields = [
+    { id: 'title', label: t('task.title') },
+    { id: 'labels', label: t('task.labels'), options: labels.map(l => ({ value: l.name, label: l.name })) },
+  ];
+
+  return (
+    <div className="sticky top-0 z-10 bg-muted rounded-t-md">
+      <div className="flex items-center gap-2 p-3 border-b border-border">
+        {dragHandleProps && (
+          <div {...dragHandleProps} className="cursor-grab active:cursor-grabbing">
+            <GripVertical className="w-4 h-4 text-muted-foreground" />
+          </div>
+        )}
+        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getHexColor(column.color) }} />
+        <span className="text-sm font-semibold flex-1">{column.name}</span>
+        <span
+          className={cn(
+            'text-xs text-muted-foreground',
+            isWipLimitReached(column, taskCount) && 'font-semibold text-amber-500',
+            isOverWipLimit(column, taskCount) && 'text-red-500'
+          )}
+          title={column.wipLimit !== null ? t('kanban.wipLimitCount', taskCount, column.wipLimit) : undefined}
+        >
+          {column.wipLimit !== null ? `${taskCount} / ${column.wipLimit}` : taskCount}
+        </span>
+        <FilterPopover
+          fields={filterFields}
+          value={filterState}
+          onChange={onFilterChange}
+          storageKey={`taskscheduller-filters-kanban-${column.id}`}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onEditColumn(column)}
+        >
+          <Settings className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 interface KanbanColumnProps {
   column: KanbanColumnType;
   tasks: Task[];
+  taskCount: number;
   provided: DroppableProvided;
   isDraggingOver: boolean;
   dragHandleProps?: DraggableProvidedDragHandleProps | null;
@@ -26,6 +94,7 @@ interface KanbanColumnProps {
 export const KanbanColumn = memo(function KanbanColumn({
   column,
   tasks,
+  taskCount,
   provided,
   isDraggingOver,
   dragHandleProps,
@@ -35,13 +104,6 @@ export const KanbanColumn = memo(function KanbanColumn({
   filterState,
   onFilterChange,
 }: KanbanColumnProps) {
-  const { t } = useI18n();
-
-  // Define filter fields for Kanban column (title only)
-  const filterFields = [
-    { id: 'title', label: t('task.title') },
-  ];
-
   return (
     <div
       className={cn(
@@ -49,31 +111,14 @@ export const KanbanColumn = memo(function KanbanColumn({
         isDragging && 'opacity-50'
       )}
     >
-      {/* Column Header */}
-      <div className="sticky top-0 z-10 bg-muted rounded-t-md">
-        <div className="flex items-center gap-2 p-3 border-b border-border">
-          <div {...dragHandleProps} className="cursor-grab active:cursor-grabbing">
-            <GripVertical className="w-4 h-4 text-muted-foreground" />
-          </div>
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getHexColor(column.color) }} />
-          <span className="text-sm font-semibold flex-1">{column.name}</span>
-          <span className="text-xs text-muted-foreground">{tasks.length}</span>
-          <FilterPopover
-            fields={filterFields}
-            value={filterState}
-            onChange={onFilterChange}
-            storageKey={`taskscheduller-filters-kanban-${column.id}`}
-          />
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-6 w-6"
-            onClick={() => onEditColumn(column)}
-          >
-            <Settings className="w-3 h-3" />
-          </Button>
-        </div>
-      </div>
+      <KanbanColumnHeader
+        column={column}
+        taskCount={taskCount}
+        dragHandleProps={dragHandleProps}
+        onEditColumn={onEditColumn}
+        filterState={filterState}
+        onFilterChange={onFilterChange}
+      />
 
       {/* Column Content */}
       <div
@@ -0,0 +1,145 @@
+import { Fragment } from 'react';
+import { Droppable, Draggable } from '@hello-pangea/dnd';
+import { FolderOpen } from 'lucide-react';
+import type { Task, KanbanColumn as KanbanColumnType, FilterState, Swimlane, SwimlaneGrouping, Priority } from '@/types';
+import { PRIORITY_COLORS, PRIORITY_LABEL_KEYS, createEmptyFilterState } from '@/types';
+import { KanbanColumnHeader } from './KanbanColumn';
+import { KanbanCard } from './KanbanCard';
+import { MemberAvatar } from '@/components/common/MemberAvatar';
+import { useTaskStore } from '@/stores/taskStore';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/i18n';
+
+// Joins a column or task ID with a lane key; tasks with several assignees or labels appear in several lanes
+export const LANE_SEPARATOR = '::';
+
+interface KanbanSwimlanesProps {
+  grouping: SwimlaneGrouping;
+  lanes: Swimlane[];
+  columns: KanbanColumnType[];
+  getCellTasks: (columnId: string, lane: Swimlane) => Task[];
+  getTaskCount: (columnId: string) => number;
+  columnFilters: Record<string, FilterState>;
+  onFilterChange: (columnId: string, value: FilterState) => void;
+  onEditTask: (task: Task) => void;
+  onEditColumn: (column: KanbanColumnType) => void;
+}
+
+function SwimlaneTitle({ grouping, lane }: { grouping: SwimlaneGrouping; lane: Swimlane }) {
+  const { t } = useI18n();
+  const { members, projects, labels } = useTaskStore();
+
+  if (grouping === 'priority' && lane.value !== null) {
+    const priority = lane.value as Priority;
+    return <span className={cn('font-semibold', PRIORITY_COLORS[priority])}>{t(PRIORITY_LABEL_KEYS[priority])}</span>;
+  }
+  if (grouping === 'assignee') {
+    const member = members.find((m) => m.id === lane.value);
+    return member ? (
+      <span className="flex items-center gap-2">
+        <MemberAvatar member={member} />
+        {member.name}
+      </span>
+    ) : (
+      <span className="text-muted-foreground">{t('kanban.laneUnassigned')}</span>
+    );
+  }
+  if (grouping === 'project') {
+    const project = projects.find((p) => p.id === lane.value);
+    return project ? (
+      <span className="flex items-center gap-2">
+        <FolderOpen className="h-3 w-3" style={{ color: project.color }} />
+        {project.name}
+      </span>
+    ) : (
+      <span className="text-muted-foreground">{t('kanban.laneNoProject')}</span>
+    );
+  }
+  if (grouping === 'label') {
+    const label = labels.find((l) => l.id === lane.value);
+    return label ? (
+      <span className="flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: label.color }} />
+        {label.name}
+      </span>
+    ) : (
+      <span className="text-muted-foreground">{t('kanban.laneNoLabel')}</span>
+    );
+  }
+  return null;
+}
+
+// Board split into horizontal lanes; every lane has a drop zone per column
+export function KanbanSwimlanes({
+  grouping,
+  lanes,
+  columns,
+  getCellTasks,
+  getTaskCount,
+  columnFilters,
+  onFilterChange,
+  onEditTask,
+  onEditColumn,
+}: KanbanSwimlanesProps) {
+  return (
+    <div className="min-w-max">
+      {/* Column headers (columns are reordered with swimlanes off) */}
+      <div className="sticky top-0 z-20 flex gap-2 bg-background pb-2">
+        {columns.map((column) => (
+          <div key={column.id} className="w-[260px] shrink-0">
+            <KanbanColumnHeader
+              column={column}
+              taskCount={getTaskCount(column.id)}
+              onEditColumn={onEditColumn}
+              filterState={columnFilters[column.id] || createEmptyFilterState()}
+              onFilterChange={(value) => onFilterChange(column.id, value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {lanes.map((lane) => {
+        const cells = columns.map((column) => ({ column, tasks: getCellTasks(column.id, lane) }));
+        const laneTaskCount = cells.reduce((sum, cell) => sum + cell.tasks.length, 0);
+        return (
+          <Fragment key={lane.key}>
+            <div className="sticky left-0 flex w-max items-center gap-2 px-1 py-2 text-sm">
+              <SwimlaneTitle grouping={grouping} lane={lane} />
+              <span className="text-xs text-muted-foreground">{laneTaskCount}</span>
+            </div>
+            <div className="flex gap-2 pb-2 border-b border-border">
+              {cells.map(({ column, tasks }) => (
+                <Droppable key={column.id} droppableId={`${column.id}${LANE_SEPARATOR}${lane.key}`} type="TASK">
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.droppableProps}
+                      className={cn(
+                        'w-[260px] shrink-0 rounded-md bg-muted/30 p-2 space-y-2 min-h-[60px]',
+                        snapshot.isDraggingOver && 'bg-accent/20'
+                      )}
+                    >
+                      {tasks.map((task, index) => (
+                        <Draggable key={task.id} draggableId={`${task.id}${LANE_SEPARATOR}${lane.key}`} index={index}>
+                          {(dragProvided, dragSnapshot) => (
+                            <KanbanCard
+                              task={task}
+                              provided={dragProvided}
+                              isDragging={dragSnapshot.isDragging}
+                              onClick={() => onEditTask(task)}
+                            />
+                          )}
+                        </Draggable>
+                      ))}
+                      {provided.placeholder}
+                    </div>
+                  )}
+                </Droppable>
+              ))}
+            </div>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+}
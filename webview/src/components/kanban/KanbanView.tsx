@@ -1,26 +1,55 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { DragDropContext, Droppable, Draggable, type DropResult } from '@hello-pangea/dnd';
-import { Plus } from 'lucide-react';
+import { AlertTriangle, Plus, Rows3, X } from 'lucide-react';
 import { useTaskStore } from '@/stores/taskStore';
+import { useSavedViewState } from '@/stores/savedViewState';
+import { useTaskSearch } from '@/stores/taskSearch';
 import { useI18n } from '@/i18n';
 import { KanbanColumn } from './KanbanColumn';
+import { KanbanSwimlanes, LANE_SEPARATOR } from './KanbanSwimlanes';
 import { ColumnFormDialog } from './ColumnFormDialog';
 import { TaskFormDialog } from '@/components/common/TaskFormDialog';
 import { Button } from '@/components/ui/button';
-import type { Task, KanbanColumn as KanbanColumnType, TaskStatus, FilterState } from '@/types';
-import { createEmptyFilterState, evaluateFilter, loadFilterState } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { Task, KanbanColumn as KanbanColumnType, TaskStatus, FilterState, Swimlane, SwimlaneGrouping } from '@/types';
+import {
+  createEmptyFilterState,
+  evaluateFilter,
+  loadFilterState,
+  SWIMLANE_GROUPINGS,
+  isWipLimitReached,
+  getSwimlanes,
+  getLaneTasks,
+  getSwimlaneMoveUpdates,
+  isTaskFinished,
+  FINISHED_CATEGORIES,
+} from '@/types';
+
+// Splits a droppable or draggable ID of the swimlane board into its ID and lane key
+function parseLaneId(id: string): { id: string; laneKey: string | null } {
+  const index = id.indexOf(LANE_SEPARATOR);
+  return index < 0 ? { id, laneKey: null } : { id: id.slice(0, index), laneKey: id.slice(index + LANE_SEPARATOR.length) };
+}
 
 export function KanbanView() {
   const { t } = useI18n();
   const {
     tasks,
     kanbanColumns,
+    members,
+    projects,
+    labels,
     reorderTasks,
     updateTaskStatus,
+    updateTaskApi,
     showCompletedTasks,
     reorderKanbanColumns,
     createTask,
+    wipLimitMode,
+    columnTaskCounts,
   } = useTaskStore();
+  const { filter: searchFilter } = useTaskSearch();
 
   // Track Ctrl key state for copy on drag
   const ctrlKeyRef = useRef(false);
@@ -43,6 +72,24 @@ export function KanbanView() {
   const [isColumnDialogOpen, setIsColumnDialogOpen] = useState(false);
   const [editingColumn, setEditingColumn] = useState<KanbanColumnType | undefined>(undefined);
 
+  // Horizontal grouping of the board
+  const [swimlaneGrouping, setSwimlaneGrouping] = useState<SwimlaneGrouping>(() => {
+    const saved = localStorage.getItem('kanban-swimlanes') as SwimlaneGrouping | null;
+    return saved && SWIMLANE_GROUPINGS.includes(saved) ? saved : 'none';
+  });
+  const handleSwimlaneGroupingChange = (grouping: SwimlaneGrouping) => {
+    setSwimlaneGrouping(grouping);
+    localStorage.setItem('kanban-swimlanes', grouping);
+  };
+
+  // Warning shown when a task is dropped into a column at its WIP limit
+  const [wipNotice, setWipNotice] = useState<string | null>(null);
+  useEffect(() => {
+    if (!wipNotice) {return;}
+    const timer = setTimeout(() => setWipNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [wipNotice]);
+
   // Filter state for each column (map of columnId -> FilterState)
   const [columnFilters, setColumnFilters] = useState<Record<string, FilterState>>(() => {
     const initialFilters: Record<string, FilterState> = {};
@@ -53,18 +100,67 @@ export function KanbanView() {
     return initialFilters;
   });
 
+  useSavedViewState(
+    'kanban',
+    () => ({ columnFilters, grouping: swimlaneGrouping }),
+    (state) => {
+      setColumnFilters(state.columnFilters ?? {});
+      const grouping = state.grouping as SwimlaneGrouping | undefined;
+      handleSwimlaneGroupingChange(grouping && SWIMLANE_GROUPINGS.includes(grouping) ? grouping : 'none');
+    }
+  );
+
   // Filter tasks based on showCompletedTasks
   const filteredTasks = showCompletedTasks
     ? tasks
-    : tasks.filter((t) => t.status !== 'done');
+    : tasks.filter((t) => !isTaskFinished(t, kanbanColumns));
 
   // Filter columns based on showCompletedTasks
   const visibleColumns = showCompletedTasks
     ? kanbanColumns
-    : kanbanColumns.filter((col) => col.id !== 'done');
+    : kanbanColumns.filter((col) => !FINISHED_CATEGORIES.includes(col.category));
+
+  const lanes = useMemo(
+    () => getSwimlanes(swimlaneGrouping, tasks, { members, projects, labels }),
+    [swimlaneGrouping, tasks, members, projects, labels]
+  );
+  const findLane = (laneKey: string | null): Swimlane | undefined =>
+    laneKey === null ? undefined : lanes.find((lane) => lane.key === laneKey);
+
+  // Tasks of a column (or of one lane of it), in board order
+  const getColumnTasks = (columnId: string, lane?: Swimlane) => {
+    const columnTasks = tasks
+      .filter((t) => t.status === columnId)
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+    return lane ? getLaneTasks(columnTasks, swimlaneGrouping, lane, lanes) : columnTasks;
+  };
+
+  const getVisibleCellTasks = (columnId: string, lane: Swimlane) => {
+    const filterState = columnFilters[columnId] || createEmptyFilterState();
+    return getLaneTasks(
+      filteredTasks
+        .filter((t) => t.status === columnId)
+        .filter((t) => evaluateFilter(t, filterState) && evaluateFilter(t, searchFilter))
+        .sort((a, b) => a.sortOrder - b.sortOrder),
+      swimlaneGrouping,
+      lane,
+      lanes
+    );
+  };
+
+  /**
+   * Warns when a task is moved or copied into a column at its WIP limit.
+   * An enforced limit is checked by the extension, which keeps the task out and tells the user.
+   */
+  const warnWipLimit = (columnId: string) => {
+    const column = kanbanColumns.find((c) => c.id === columnId);
+    if (wipLimitMode === 'warn' && column && isWipLimitReached(column, columnTaskCounts[columnId] ?? 0)) {
+      setWipNotice(t('kanban.wipLimitExceeded', column.name, column.wipLimit ?? 0));
+    }
+  };
 
   const handleDragEnd = (result: DropResult) => {
-    const { destination, source, draggableId, type } = result;
+    const { destination, source, type } = result;
 
     // Dropped outside
     if (!destination) {return;}
@@ -76,9 +172,9 @@ export function KanbanView() {
       // Use visibleColumns for reordering since that's what's being dragged
       const newColumnIds = Array.from(visibleColumns.map((c) => c.id));
       newColumnIds.splice(source.index, 1);
-      newColumnIds.splice(destination.index, 0, draggableId);
+      newColumnIds.splice(destination.index, 0, result.draggableId);
 
-      // If there are hidden columns (e.g., 'done' when showCompletedTasks is false),
+      // If there are hidden columns (completed and cancelled ones when showCompletedTasks is false),
       // we need to include them in the reorder to preserve their positions
       const hiddenColumns = kanbanColumns.filter(c => !visibleColumns.some(vc => vc.id === c.id));
       const allColumnIds = [...newColumnIds, ...hiddenColumns.map(c => c.id)];
@@ -87,11 +183,22 @@ export function KanbanView() {
       return;
     }
 
+    // Swimlane board IDs carry the lane key after the task / column ID
+    const draggableId = parseLaneId(result.draggableId).id;
+    const sourceLane = findLane(parseLaneId(source.droppableId).laneKey);
+    const destLane = findLane(parseLaneId(destination.droppableId).laneKey);
+    const sourceStatus = parseLaneId(source.droppableId).id as TaskStatus;
+    const destStatus = parseLaneId(destination.droppableId).id as TaskStatus;
+    const draggedTask = tasks.find(t => t.id === draggableId);
+    // Fields taking the target lane's value (assignee, priority, project or label)
+    const laneUpdates = draggedTask && sourceLane && destLane
+      ? getSwimlaneMoveUpdates(draggedTask, swimlaneGrouping, sourceLane.value, destLane.value)
+      : null;
+
     // Ctrl+ドラッグで複製
     if (ctrlKeyRef.current) {
-      const draggedTask = tasks.find(t => t.id === draggableId);
       if (draggedTask) {
-        const destStatus = destination.droppableId as TaskStatus;
+        warnWipLimit(destStatus);
         const duplicateData = {
           projectId: draggedTask.projectId || undefined,
           title: draggedTask.title,
@@ -100,14 +207,13 @@ export function KanbanView() {
           priority: draggedTask.priority,
           dueDate: draggedTask.dueDate || undefined,
           startDate: draggedTask.startDate || undefined,
-          assignee: draggedTask.assignee || undefined,
+          assigneeIds: draggedTask.assigneeIds,
           estimatedHours: draggedTask.estimatedHours || undefined,
           progress: 0, // 進捗は0にリセット
+          ...laneUpdates,
         };
         // ドロップ位置の直前のタスクIDを取得
-        const destColumnTasks = tasks
-          .filter(t => t.status === destStatus)
-          .sort((a, b) => a.sortOrder - b.sortOrder);
+        const destColumnTasks = getColumnTasks(destStatus, destLane);
         const insertAfterTaskId = destination.index > 0
           ? destColumnTasks[destination.index - 1]?.id
           : (destColumnTasks.length > 0 ? undefined : draggedTask.id);
@@ -124,16 +230,27 @@ export function KanbanView() {
       return;
     }
 
-    const sourceStatus = source.droppableId as TaskStatus;
-    const destStatus = destination.droppableId as TaskStatus;
-
     // Moving to different column - only update status, preserve sortOrder
     if (sourceStatus !== destStatus) {
-      updateTaskStatus(draggableId, destStatus);
+      warnWipLimit(destStatus);
+      if (laneUpdates) {
+        // Status and lane field in one update, so that it is a single undo step
+        updateTaskApi(draggableId, { status: destStatus, ...laneUpdates });
+      } else {
+        updateTaskStatus(draggableId, destStatus);
+      }
       // Don't reorder - sortOrder is preserved to maintain consistent order across views
       return;
     }
 
+    // Moving to another lane of the same column - update the grouping field only
+    if (sourceLane?.key !== destLane?.key) {
+      if (laneUpdates) {
+        updateTaskApi(draggableId, laneUpdates);
+      }
+      return;
+    }
+
     // Reordering within same column - update sortOrder for all tasks
     // Get all tasks (not just current column) sorted by sortOrder
     const allTasksSorted = [...tasks].sort((a, b) => a.sortOrder - b.sortOrder);
@@ -142,10 +259,8 @@ export function KanbanView() {
     // Find current and new positions in the global list
     const currentGlobalIndex = allTaskIds.indexOf(draggableId);
 
-    // Get tasks in source column sorted by sortOrder
-    const columnTasks = tasks
-      .filter((t) => t.status === sourceStatus)
-      .sort((a, b) => a.sortOrder - b.sortOrder);
+    // Get tasks in source column (or lane cell) sorted by sortOrder
+    const columnTasks = getColumnTasks(sourceStatus, sourceLane);
 
     // Calculate the target global position based on column reordering
     const taskAtDestIndex = columnTasks[destination.index];
@@ -185,8 +300,49 @@ export function KanbanView() {
   }, []);
 
   return (
-    <div className="h-full overflow-x-auto">
+    <div className="h-full flex flex-col gap-2">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2">
+        <Rows3 className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground">{t('kanban.swimlanes')}</span>
+        <Select value={swimlaneGrouping} onValueChange={(value) => handleSwimlaneGroupingChange(value as SwimlaneGrouping)}>
+          <SelectTrigger className="h-7 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SWIMLANE_GROUPINGS.map((grouping) => (
+              <SelectItem key={grouping} value={grouping} className="text-xs">
+                {t(`kanban.swimlanes.${grouping}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {wipNotice && (
+          <div className="ml-auto flex items-center gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 px-2 py-1 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="w-3 h-3 shrink-0" />
+            <span>{wipNotice}</span>
+            <Button variant="ghost" size="icon" className="h-4 w-4 p-0" onClick={() => setWipNotice(null)}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className={cn('flex-1 min-h-0', swimlaneGrouping === 'none' ? 'overflow-x-auto' : 'overflow-auto')}>
       <DragDropContext onDragEnd={handleDragEnd}>
+        {swimlaneGrouping !== 'none' ? (
+          <KanbanSwimlanes
+            grouping={swimlaneGrouping}
+            lanes={lanes}
+            columns={visibleColumns}
+            getCellTasks={getVisibleCellTasks}
+            getTaskCount={(columnId) => columnTaskCounts[columnId] ?? 0}
+            columnFilters={columnFilters}
+            onFilterChange={(columnId, value) => setColumnFilters(prev => ({ ...prev, [columnId]: value }))}
+            onEditTask={handleEditTask}
+            onEditColumn={handleEditColumn}
+          />
+        ) : (
         <Droppable droppableId="columns" direction="horizontal" type="COLUMN">
           {(provided) => (
             <div
@@ -198,7 +354,7 @@ export function KanbanView() {
                 const filterState = columnFilters[column.id] || createEmptyFilterState();
                 const columnTasks = filteredTasks
                   .filter((t) => t.status === column.id)
-                  .filter((t) => evaluateFilter(t, filterState))
+                  .filter((t) => evaluateFilter(t, filterState) && evaluateFilter(t, searchFilter))
                   .sort((a, b) => a.sortOrder - b.sortOrder);
 
                 return (
@@ -214,6 +370,7 @@ export function KanbanView() {
                             <KanbanColumn
                               column={column}
                               tasks={columnTasks}
+                              taskCount={columnTaskCounts[column.id] ?? 0}
                               provided={dropProvided}
                               isDraggingOver={dropSnapshot.isDraggingOver}
                               dragHandleProps={dragProvided.dragHandleProps}
@@ -246,7 +403,9 @@ export function KanbanView() {
             </div>
           )}
         </Droppable>
+        )}
       </DragDropContext>
+      </div>
 
       <TaskFormDialog
         open={isEditDialogOpen}
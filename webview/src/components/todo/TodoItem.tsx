@@ -4,7 +4,7 @@ import { Checkbox, Badge, Progress, Button } from '@/components/ui';
 import { useTaskStore } from '@/stores/taskStore';
 import { Calendar, User, Flag, Trash2, Edit2, FolderOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { PRIORITY_COLORS } from '@/types';
+import { PRIORITY_COLORS, getStatusForCategory, isTaskFinished } from '@/types';
 
 interface TodoItemProps {
   task: Task;
@@ -12,7 +12,7 @@ interface TodoItemProps {
 }
 
 export const TodoItem = memo(function TodoItem({ task, onEdit }: TodoItemProps) {
-  const { updateTaskStatus, deleteTask, currentProjectId, projects } = useTaskStore();
+  const { updateTaskStatus, deleteTask, currentProjectId, projects, kanbanColumns } = useTaskStore();
 
   // Get project info for this task (only shown in All Tasks mode)
   const projectInfo = useMemo(() => {
@@ -20,16 +20,16 @@ export const TodoItem = memo(function TodoItem({ task, onEdit }: TodoItemProps)
     return projects.find(p => p.id === task.projectId);
   }, [currentProjectId, task.projectId, projects]);
 
+  const isDone = isTaskFinished(task, kanbanColumns);
   const isOverdue = useMemo(() =>
-    task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'done',
-    [task.dueDate, task.status]
+    task.dueDate && new Date(task.dueDate) < new Date() && !isDone,
+    [task.dueDate, isDone]
   );
-  const isDone = task.status === 'done';
 
   const handleToggle = useCallback(() => {
-    const newStatus = isDone ? 'todo' : 'done';
+    const newStatus = getStatusForCategory(kanbanColumns, isDone ? 'not_started' : 'completed', task.projectId);
     updateTaskStatus(task.id, newStatus);
-  }, [isDone, task.id, updateTaskStatus]);
+  }, [isDone, task.id, task.projectId, kanbanColumns, updateTaskStatus]);
 
   const handleDelete = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
@@ -1,14 +1,20 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { useTaskStore } from '@/stores/taskStore';
+import { useSavedViewState } from '@/stores/savedViewState';
+import { useTaskSearch } from '@/stores/taskSearch';
 import { useI18n } from '@/i18n';
 import { TaskFormDialog } from '@/components/common/TaskFormDialog';
 import { FilterPopover } from '@/components/common/FilterPopover';
-import { Checkbox, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Tooltip, TooltipTrigger, TooltipContent, Input, Textarea, Button } from '@/components/ui';
-import { Flag, Trash2, FolderOpen, GripVertical, Check, X, Edit2 } from 'lucide-react';
+import type { FilterField } from '@/components/common/FilterPopover';
+import { AssigneePicker } from '@/components/common/AssigneePicker';
+import { MemberAvatar } from '@/components/common/MemberAvatar';
+import { TaskSourceLink } from '@/components/common/TaskSourceLink';
+import { Checkbox, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Tooltip, TooltipTrigger, TooltipContent, Input, Textarea, Button, Popover, PopoverTrigger, PopoverContent } from '@/components/ui';
+import { Flag, Trash2, FolderOpen, GripVertical, Check, X, Edit2, ArrowUp, ArrowDown, ArrowUpDown, ChevronRight, ChevronDown, IndentIncrease, IndentDecrease, ListTree, SlidersHorizontal } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { Task, TaskStatus, FilterState } from '@/types';
-import { getHexColor, createEmptyFilterState, evaluateFilter, loadFilterState } from '@/types';
+import type { Task, TaskStatus, FilterState, Priority } from '@/types';
+import { getHexColor, PRIORITY_LABEL_KEYS, createEmptyFilterState, evaluateFilter, loadFilterState, flattenTaskTree, getStatusForCategory, isTaskFinished, formatActualVsEstimated, formatHours, isOverEstimate, getCustomFieldsForProject, getCustomFieldPath, parseCustomFieldPath, formatCustomFieldValue } from '@/types';
 
 // Column configuration with resizable widths
 interface ColumnConfig {
@@ -27,12 +33,35 @@ const defaultColumns: ColumnConfig[] = [
   { id: 'dueDate', minWidth: 90, defaultWidth: 110 },
   { id: 'assignee', minWidth: 80, defaultWidth: 100 },
   { id: 'progress', minWidth: 60, defaultWidth: 80 },
+  { id: 'hours', minWidth: 80, defaultWidth: 100 },
+  { id: 'totalFloat', minWidth: 70, defaultWidth: 100 },
+  { id: 'freeFloat', minWidth: 70, defaultWidth: 100 },
 ];
 
+// Optional custom field columns share one default width
+const customFieldColumn = { minWidth: 80, defaultWidth: 120 };
+
+const getColumnConfig = (columnId: string): Omit<ColumnConfig, 'id'> | undefined =>
+  parseCustomFieldPath(columnId) ? customFieldColumn : defaultColumns.find(c => c.id === columnId);
+
+// IDs of the custom fields shown as columns
+const CUSTOM_FIELD_COLUMNS_KEY = 'todo-custom-field-columns';
+
+// Columns that can be sorted by clicking the header
+type SortableColumnId = 'totalFloat' | 'freeFloat';
+
+const isSortableColumnId = (columnId: string): columnId is SortableColumnId =>
+  columnId === 'totalFloat' || columnId === 'freeFloat';
+
+interface SortConfig {
+  columnId: SortableColumnId;
+  direction: 'asc' | 'desc';
+}
+
 // Inline editing state
 interface EditingCell {
   taskId: string;
-  field: 'title' | 'description' | 'status' | 'startDate' | 'dueDate' | 'assignee' | 'progress';
+  field: 'title' | 'description' | 'status' | 'startDate' | 'dueDate' | 'progress';
   value: string;
   cellRect: DOMRect | null;
 }
@@ -187,9 +216,18 @@ const EditingInput = React.memo(function EditingInput({
 
 export function TodoView() {
   const { t, locale } = useI18n();
-  const { tasks, updateTaskStatus, updateTaskApi, deleteTask, reorderTasks, showCompletedTasks, currentProjectId, projects, kanbanColumns, createTask } = useTaskStore();
+  const { tasks, dependencies, updateTaskStatus, updateTaskApi, deleteTask, reorderTasks, showCompletedTasks, currentProjectId, projects, kanbanColumns, labels, members, customFields, createTask, criticalPath, loadCriticalPath } = useTaskStore();
+  const { filter: searchFilter } = useTaskSearch();
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  // Parent of the subtask being created from a row
+  const [subtaskParentId, setSubtaskParentId] = useState<string | undefined>(undefined);
+
+  // Tasks whose subtasks are hidden
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(() => {
+    const saved = localStorage.getItem('todo-collapsed-tasks');
+    return new Set<string>(saved ? JSON.parse(saved) : []);
+  });
 
   // Inline editing state
   const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
@@ -205,12 +243,61 @@ export function TodoView() {
     defaultColumns.reduce((acc, col) => ({ ...acc, [col.id]: col.defaultWidth }), {})
   );
 
+  // Custom fields shown as columns (fields of other projects are skipped)
+  const [customFieldColumnIds, setCustomFieldColumnIds] = useState<string[]>(() => {
+    const saved = localStorage.getItem(CUSTOM_FIELD_COLUMNS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  });
+  const projectCustomFields = useMemo(
+    () => getCustomFieldsForProject(customFields, currentProjectId),
+    [customFields, currentProjectId]
+  );
+  const customFieldColumns = projectCustomFields.filter((field) => customFieldColumnIds.includes(field.id));
+
+  const toggleCustomFieldColumn = useCallback((fieldId: string) => {
+    setCustomFieldColumnIds(prev => {
+      const next = prev.includes(fieldId) ? prev.filter(id => id !== fieldId) : [...prev, fieldId];
+      localStorage.setItem(CUSTOM_FIELD_COLUMNS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
   // Filter state - load from localStorage or create empty
   const [filterState, setFilterState] = useState<FilterState>(() => {
     const saved = loadFilterState('taskscheduller-filters-todo');
     return saved || createEmptyFilterState();
   });
 
+  // Sort state - null keeps the manual sortOrder
+  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
+
+  useSavedViewState(
+    'todo',
+    () => ({ filter: filterState, sort: sortConfig, columnWidths, customFieldColumns: customFieldColumnIds }),
+    (state) => {
+      setFilterState(state.filter ?? createEmptyFilterState());
+      const sort = state.sort;
+      setSortConfig(sort && isSortableColumnId(sort.columnId) ? { columnId: sort.columnId, direction: sort.direction } : null);
+      if (state.columnWidths) {
+        setColumnWidths(prev => ({ ...prev, ...state.columnWidths }));
+      }
+      if (state.customFieldColumns) {
+        setCustomFieldColumnIds(state.customFieldColumns);
+        localStorage.setItem(CUSTOM_FIELD_COLUMNS_KEY, JSON.stringify(state.customFieldColumns));
+      }
+    }
+  );
+
+  // Float values come from the critical path analysis in the extension
+  useEffect(() => {
+    loadCriticalPath();
+  }, [tasks, dependencies, loadCriticalPath]);
+
+  const scheduleAnalysis = useMemo(
+    () => new Map((criticalPath?.tasks ?? []).map((info) => [info.taskId, info])),
+    [criticalPath]
+  );
+
   // Resizing state
   const resizingRef = useRef<{ columnId: string; startX: number; startWidth: number } | null>(null);
 
@@ -240,14 +327,14 @@ export function TodoView() {
   // Handle column resize start
   const handleResizeStart = useCallback((e: React.MouseEvent, columnId: string) => {
     e.preventDefault();
-    const startWidth = columnWidths[columnId] || defaultColumns.find(c => c.id === columnId)?.defaultWidth || 100;
+    const startWidth = columnWidths[columnId] || getColumnConfig(columnId)?.defaultWidth || 100;
     resizingRef.current = { columnId, startX: e.clientX, startWidth };
 
     const handleMouseMove = (moveEvent: MouseEvent) => {
       if (!resizingRef.current) {return;}
       const { columnId: resizingColumnId, startX, startWidth: initialWidth } = resizingRef.current;
       const delta = moveEvent.clientX - startX;
-      const minWidth = defaultColumns.find(c => c.id === resizingColumnId)?.minWidth || 60;
+      const minWidth = getColumnConfig(resizingColumnId)?.minWidth || 60;
       const newWidth = Math.max(minWidth, initialWidth + delta);
       setColumnWidths(prev => ({ ...prev, [resizingColumnId]: newWidth }));
     };
@@ -266,12 +353,93 @@ export function TodoView() {
   const showProjectColumn = currentProjectId === null;
 
   // Filter and sort tasks - use sortOrder only to match Gantt chart order
-  const completionFiltered = showCompletedTasks ? tasks : tasks.filter(t => t.status !== 'done');
+  const completionFiltered = showCompletedTasks ? tasks : tasks.filter(t => !isTaskFinished(t, kanbanColumns));
 
   // Apply filters using evaluateFilter utility
-  const filtered = completionFiltered.filter(task => evaluateFilter(task, filterState));
+  const filtered = completionFiltered.filter(task => evaluateFilter(task, filterState) && evaluateFilter(task, searchFilter));
+
+  const sortedTasks = [...filtered].sort((a, b) => {
+    if (sortConfig) {
+      const aValue = scheduleAnalysis.get(a.id)?.[sortConfig.columnId];
+      const bValue = scheduleAnalysis.get(b.id)?.[sortConfig.columnId];
+      // Tasks without float (no dates) always go last
+      if (aValue !== undefined && bValue !== undefined && aValue !== bValue) {
+        return sortConfig.direction === 'asc' ? aValue - bValue : bValue - aValue;
+      }
+      if (aValue === undefined && bValue !== undefined) {return 1;}
+      if (aValue !== undefined && bValue === undefined) {return -1;}
+    }
+    return a.sortOrder - b.sortOrder;
+  });
 
-  const sortedTasks = [...filtered].sort((a, b) => a.sortOrder - b.sortOrder);
+  // Subtasks are listed under their parent, in the same order among siblings
+  const treeRows = flattenTaskTree(sortedTasks, collapsedTaskIds);
+  const visibleTasks = treeRows.map(row => row.task);
+  const hasHierarchy = tasks.some(task => task.parentId);
+  // Dates and progress of parents are rolled up from their subtasks and not edited directly
+  const parentTaskIds = new Set(tasks.map(task => task.parentId).filter((id): id is string => !!id));
+
+  const toggleCollapsed = useCallback((taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      localStorage.setItem('todo-collapsed-tasks', JSON.stringify([...next]));
+      return next;
+    });
+  }, []);
+
+  // Indenting a row makes it a subtask of the sibling row above it
+  const previousSiblingIds = new Map<string, string>();
+  const lastIdAtDepth: string[] = [];
+  for (const { task, depth } of treeRows) {
+    if (lastIdAtDepth[depth]) {
+      previousSiblingIds.set(task.id, lastIdAtDepth[depth]);
+    }
+    lastIdAtDepth[depth] = task.id;
+    lastIdAtDepth.length = depth + 1;
+  }
+
+  const handleIndent = useCallback((task: Task, parentId: string | undefined) => {
+    if (!parentId) {return;}
+    updateTaskApi(task.id, { parentId });
+  }, [updateTaskApi]);
+
+  // Outdent: move up one level, next to the current parent
+  const handleOutdent = useCallback((task: Task) => {
+    if (!task.parentId) {return;}
+    const parent = tasks.find(t => t.id === task.parentId);
+    updateTaskApi(task.id, { parentId: parent?.parentId ?? null });
+  }, [tasks, updateTaskApi]);
+
+  const handleAddSubtask = useCallback((task: Task) => {
+    setCollapsedTaskIds(prev => {
+      if (!prev.has(task.id)) {return prev;}
+      const next = new Set(prev);
+      next.delete(task.id);
+      localStorage.setItem('todo-collapsed-tasks', JSON.stringify([...next]));
+      return next;
+    });
+    setSubtaskParentId(task.id);
+  }, []);
+
+  // Cycle a column through ascending -> descending -> unsorted
+  const handleSort = useCallback((columnId: SortableColumnId) => {
+    setSortConfig(prev => {
+      if (!prev || prev.columnId !== columnId) {
+        return { columnId, direction: 'asc' };
+      }
+      return prev.direction === 'asc' ? { columnId, direction: 'desc' } : null;
+    });
+  }, []);
+
+  const formatFloat = useCallback((taskId: string, field: SortableColumnId) => {
+    const value = scheduleAnalysis.get(taskId)?.[field];
+    return value === undefined ? '-' : `${value}d`;
+  }, [scheduleAnalysis]);
 
   const handleEditTask = useCallback((task: Task) => {
     setEditingTask(task);
@@ -279,9 +447,9 @@ export function TodoView() {
   }, []);
 
   const handleToggle = useCallback((task: Task) => {
-    const newStatus = task.status === 'done' ? 'todo' : 'done';
-    updateTaskStatus(task.id, newStatus);
-  }, [updateTaskStatus]);
+    const category = isTaskFinished(task, kanbanColumns) ? 'not_started' : 'completed';
+    updateTaskStatus(task.id, getStatusForCategory(kanbanColumns, category, task.projectId));
+  }, [kanbanColumns, updateTaskStatus]);
 
   const handleDelete = useCallback((e: React.MouseEvent, taskId: string) => {
     e.stopPropagation();
@@ -327,9 +495,6 @@ export function TodoView() {
       case 'dueDate':
         updates.dueDate = value || undefined;
         break;
-      case 'assignee':
-        updates.assignee = value.trim() || undefined;
-        break;
       case 'progress':
         const progress = Math.min(100, Math.max(0, parseInt(value) || 0));
         updates.progress = progress;
@@ -356,14 +521,14 @@ export function TodoView() {
     const taskData = {
       projectId: currentProjectId || undefined,
       title,
-      status: 'todo' as const,
+      status: getStatusForCategory(kanbanColumns, 'not_started', currentProjectId),
       priority: 2 as const,
       progress: 0,
     };
 
     createTask(taskData);
     setNewTaskTitle('');
-  }, [newTaskTitle, currentProjectId, createTask]);
+  }, [newTaskTitle, currentProjectId, kanbanColumns, createTask]);
 
   const handleNewTaskKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
@@ -393,7 +558,7 @@ export function TodoView() {
     if (!rowDragState) {return;}
 
     const { initialIndex, currentIndex } = rowDragState;
-    const draggedTask = sortedTasks[initialIndex];
+    const draggedTask = visibleTasks[initialIndex];
 
     // Ctrl+ドラッグで複製
     if (ctrlKeyRef.current && draggedTask) {
@@ -405,14 +570,14 @@ export function TodoView() {
         priority: draggedTask.priority,
         dueDate: draggedTask.dueDate || undefined,
         startDate: draggedTask.startDate || undefined,
-        assignee: draggedTask.assignee || undefined,
+        assigneeIds: draggedTask.assigneeIds,
         estimatedHours: draggedTask.estimatedHours || undefined,
         progress: 0, // 進捗は0にリセット
       };
       // ドロップ位置の直前のタスクIDを取得（その後ろに挿入）
-      const targetTask = sortedTasks[currentIndex];
+      const targetTask = visibleTasks[currentIndex];
       const insertAfterTaskId = currentIndex > 0
-        ? (initialIndex < currentIndex ? targetTask?.id : sortedTasks[currentIndex - 1]?.id)
+        ? (initialIndex < currentIndex ? targetTask?.id : visibleTasks[currentIndex - 1]?.id)
         : undefined;
       createTask(duplicateData, undefined, insertAfterTaskId || draggedTask.id);
       setRowDragState(null);
@@ -425,7 +590,7 @@ export function TodoView() {
       const allTaskIds = allTasksSorted.map(t => t.id);
 
       // Get the dragged task and target task from the displayed list
-      const targetTask = sortedTasks[currentIndex];
+      const targetTask = visibleTasks[currentIndex];
 
       // Find positions in the global list
       const currentGlobalIndex = allTaskIds.indexOf(draggedTask.id);
@@ -449,14 +614,17 @@ export function TodoView() {
     }
 
     setRowDragState(null);
-  }, [rowDragState, sortedTasks, tasks, reorderTasks, createTask]);
+  }, [rowDragState, visibleTasks, tasks, reorderTasks, createTask]);
 
 
   // Resizable column header component with border
   const ResizableHeader = ({ columnId, children }: { columnId: string; children: React.ReactNode }) => (
     <th
       className="p-3 relative select-none border-r border-border"
-      style={{ width: columnWidths[columnId], minWidth: defaultColumns.find(c => c.id === columnId)?.minWidth }}
+      style={{
+        width: columnWidths[columnId] ?? getColumnConfig(columnId)?.defaultWidth,
+        minWidth: getColumnConfig(columnId)?.minWidth,
+      }}
     >
       {children}
       <div
@@ -466,6 +634,22 @@ export function TodoView() {
     </th>
   );
 
+  // Header content for sortable columns
+  const SortableHeaderContent = ({ columnId, children }: { columnId: SortableColumnId; children: React.ReactNode }) => {
+    const direction = sortConfig?.columnId === columnId ? sortConfig.direction : null;
+    const Icon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+    return (
+      <button
+        type="button"
+        className={cn('flex items-center gap-1 hover:text-foreground', direction && 'text-foreground')}
+        onClick={() => handleSort(columnId)}
+      >
+        <span className="truncate">{children}</span>
+        <Icon className="h-3 w-3 shrink-0" />
+      </button>
+    );
+  };
+
   // Component that shows tooltip only when text is truncated
   const TruncatedText = ({ text, children, className }: { text: string; children: React.ReactNode; className?: string }) => {
     const textRef = useRef<HTMLSpanElement>(null);
@@ -592,19 +776,53 @@ export function TodoView() {
   };
 
   // Define filter fields for TodoView
-  const filterFields = [
+  const filterFields: FilterField[] = [
     { id: 'title', label: t('task.title') },
     { id: 'description', label: t('task.description') },
-    { id: 'status', label: t('task.status') },
-    { id: 'startDate', label: t('task.startDate') },
-    { id: 'dueDate', label: t('task.dueDate') },
+    { id: 'status', label: t('task.status'), options: kanbanColumns.map(c => ({ value: c.id, label: c.name })) },
+    {
+      id: 'priority',
+      label: t('task.priority'),
+      type: 'number',
+      options: ([1, 2, 3, 4] as Priority[]).map(p => ({ value: String(p), label: t(PRIORITY_LABEL_KEYS[p]) })),
+    },
+    { id: 'startDate', label: t('task.startDate'), type: 'date' },
+    { id: 'dueDate', label: t('task.dueDate'), type: 'date' },
     { id: 'assignee', label: t('task.assignee') },
+    { id: 'progress', label: t('task.progress'), type: 'number' },
+    { id: 'estimatedHours', label: t('task.estimatedHours'), type: 'number' },
+    { id: 'labels', label: t('task.labels'), options: labels.map(l => ({ value: l.name, label: l.name })) },
   ];
 
   return (
     <div className="h-full flex flex-col">
       {/* Toolbar with filter */}
       <div className="flex items-center justify-end gap-2 p-2 border-b border-border">
+        {projectCustomFields.length > 0 && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant={customFieldColumns.length > 0 ? 'secondary' : 'ghost'}
+                size="icon"
+                title={t('customField.columns')}
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 space-y-2" align="end">
+              <h4 className="font-semibold text-sm">{t('customField.columns')}</h4>
+              {projectCustomFields.map((field) => (
+                <label key={field.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox
+                    checked={customFieldColumnIds.includes(field.id)}
+                    onCheckedChange={() => toggleCustomFieldColumn(field.id)}
+                  />
+                  <span className="truncate">{field.name}</span>
+                </label>
+              ))}
+            </PopoverContent>
+          </Popover>
+        )}
         <FilterPopover
           fields={filterFields}
           value={filterState}
@@ -631,12 +849,26 @@ export function TodoView() {
             <ResizableHeader columnId="dueDate">{t('task.dueDate')}</ResizableHeader>
             <ResizableHeader columnId="assignee">{t('task.assignee')}</ResizableHeader>
             <ResizableHeader columnId="progress">{t('task.progress')}</ResizableHeader>
-            <th className="w-12 p-3"></th>
+            <ResizableHeader columnId="hours">{t('timeLog.column')}</ResizableHeader>
+            <ResizableHeader columnId="totalFloat">
+              <SortableHeaderContent columnId="totalFloat">{t('task.totalFloat')}</SortableHeaderContent>
+            </ResizableHeader>
+            <ResizableHeader columnId="freeFloat">
+              <SortableHeaderContent columnId="freeFloat">{t('task.freeFloat')}</SortableHeaderContent>
+            </ResizableHeader>
+            {customFieldColumns.map((field) => (
+              <ResizableHeader key={field.id} columnId={getCustomFieldPath(field.id)}>
+                <span className="block truncate" title={field.name}>{field.name}</span>
+              </ResizableHeader>
+            ))}
+            <th className="w-40 p-3"></th>
           </tr>
         </thead>
         <tbody>
-          {sortedTasks.map((task, index) => {
-            const isDone = task.status === 'done';
+          {treeRows.map(({ task, depth, hasSubtasks }, index) => {
+            const isDone = isTaskFinished(task, kanbanColumns);
+            const isParent = parentTaskIds.has(task.id);
+            const indentParentId = previousSiblingIds.get(task.id);
             // Calculate due date status
             let dueDateStatus: 'normal' | 'warning' | 'overdue' = 'normal';
             if (task.dueDate && !isDone) {
@@ -663,7 +895,7 @@ export function TodoView() {
             return (
               <tr
                 key={task.id}
-                draggable
+                draggable={!sortConfig}
                 onDragStart={(e) => handleRowDragStart(e, task.id, index)}
                 onDragOver={(e) => handleRowDragOver(e, index)}
                 onDragEnd={handleRowDragEnd}
@@ -695,17 +927,37 @@ export function TodoView() {
                   <Flag className="h-5 w-5" style={{ color: getHexColor(kanbanColumns.find(col => col.id === task.status)?.color || 'bg-gray-500') }} />
                 </td>
 
-                {/* Title */}
+                {/* Title (indented by subtask depth) */}
                 <EditableCell
                   taskId={task.id}
                   field="title"
                   value={task.title}
                   displayValue={
-                    <span className={cn('font-medium', isDone && 'line-through')}>
-                      {task.title}
+                    <span className="flex items-center gap-1">
+                      {hasHierarchy && (
+                        hasSubtasks ? (
+                          <button
+                            type="button"
+                            className="shrink-0 text-muted-foreground hover:text-foreground"
+                            title={collapsedTaskIds.has(task.id) ? t('subtask.expand') : t('subtask.collapse')}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleCollapsed(task.id);
+                            }}
+                          >
+                            {collapsedTaskIds.has(task.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                          </button>
+                        ) : (
+                          <span className="w-4 shrink-0" />
+                        )
+                      )}
+                      <span className={cn('truncate', (isParent || depth === 0) && 'font-medium', isDone && 'line-through')}>
+                        {task.title}
+                      </span>
+                      {task.source && <TaskSourceLink source={task.source} className="max-w-[50%] shrink-0" />}
                     </span>
                   }
-                  style={{ width: columnWidths.title }}
+                  style={{ width: columnWidths.title, paddingLeft: 12 + depth * 16 }}
                 />
 
                 {/* Project (only in All Tasks mode) */}
@@ -745,55 +997,158 @@ export function TodoView() {
                 <StatusCell task={task} style={{ width: columnWidths.status }} />
 
                 {/* Start Date */}
-                <EditableCell
-                  taskId={task.id}
-                  field="startDate"
-                  value={task.startDate || ''}
-                  displayValue={formatDate(task.startDate)}
-                  className="text-muted-foreground"
-                  style={{ width: columnWidths.startDate }}
-                  type="date"
-                />
+                {isParent ? (
+                  <td className="p-3 truncate text-muted-foreground" style={{ width: columnWidths.startDate }} title={t('subtask.rolledUpHint')}>
+                    {formatDate(task.startDate)}
+                  </td>
+                ) : (
+                  <EditableCell
+                    taskId={task.id}
+                    field="startDate"
+                    value={task.startDate || ''}
+                    displayValue={formatDate(task.startDate)}
+                    className="text-muted-foreground"
+                    style={{ width: columnWidths.startDate }}
+                    type="date"
+                  />
+                )}
 
                 {/* Due Date */}
-                <EditableCell
-                  taskId={task.id}
-                  field="dueDate"
-                  value={task.dueDate || ''}
-                  displayValue={formatDate(task.dueDate)}
-                  className={cn(
-                    dueDateStatus === 'overdue' && 'text-red-500',
-                    dueDateStatus === 'warning' && 'text-yellow-500',
-                    dueDateStatus === 'normal' && 'text-muted-foreground'
-                  )}
-                  style={{ width: columnWidths.dueDate }}
-                  type="date"
-                />
+                {isParent ? (
+                  <td
+                    className={cn(
+                      'p-3 truncate',
+                      dueDateStatus === 'overdue' && 'text-red-500',
+                      dueDateStatus === 'warning' && 'text-yellow-500',
+                      dueDateStatus === 'normal' && 'text-muted-foreground'
+                    )}
+                    style={{ width: columnWidths.dueDate }}
+                    title={t('subtask.rolledUpHint')}
+                  >
+                    {formatDate(task.dueDate)}
+                  </td>
+                ) : (
+                  <EditableCell
+                    taskId={task.id}
+                    field="dueDate"
+                    value={task.dueDate || ''}
+                    displayValue={formatDate(task.dueDate)}
+                    className={cn(
+                      dueDateStatus === 'overdue' && 'text-red-500',
+                      dueDateStatus === 'warning' && 'text-yellow-500',
+                      dueDateStatus === 'normal' && 'text-muted-foreground'
+                    )}
+                    style={{ width: columnWidths.dueDate }}
+                    type="date"
+                  />
+                )}
 
-                {/* Assignee */}
-                <EditableCell
-                  taskId={task.id}
-                  field="assignee"
-                  value={task.assignee || ''}
-                  displayValue={task.assignee || '-'}
-                  className="text-muted-foreground"
-                  style={{ width: columnWidths.assignee }}
-                />
+                {/* Assignee（メンバーから選択、複数可） */}
+                <td className="p-0 text-muted-foreground" style={{ width: columnWidths.assignee }}>
+                  <AssigneePicker
+                    value={task.assigneeIds ?? []}
+                    onChange={(assigneeIds) => updateTaskApi(task.id, { assigneeIds })}
+                  >
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-1 p-3 text-left hover:bg-muted/30"
+                      title={task.assignee || undefined}
+                    >
+                      {members
+                        .filter((member) => task.assigneeIds?.includes(member.id))
+                        .slice(0, 3)
+                        .map((member) => <MemberAvatar key={member.id} member={member} />)}
+                      <span className="truncate">{task.assignee || '-'}</span>
+                    </button>
+                  </AssigneePicker>
+                </td>
 
                 {/* Progress */}
-                <EditableCell
-                  taskId={task.id}
-                  field="progress"
-                  value={String(task.progress)}
-                  displayValue={`${task.progress}%`}
-                  className="text-muted-foreground"
-                  style={{ width: columnWidths.progress }}
-                  type="number"
-                />
+                {isParent ? (
+                  <td className="p-3 truncate text-muted-foreground" style={{ width: columnWidths.progress }} title={t('subtask.rolledUpHint')}>
+                    {`${task.progress}%`}
+                  </td>
+                ) : (
+                  <EditableCell
+                    taskId={task.id}
+                    field="progress"
+                    value={String(task.progress)}
+                    displayValue={`${task.progress}%`}
+                    className="text-muted-foreground"
+                    style={{ width: columnWidths.progress }}
+                    type="number"
+                  />
+                )}
+
+                {/* 実績 / 見積時間 */}
+                <td
+                  className={cn('p-3 truncate text-muted-foreground', isOverEstimate(task) && 'text-red-500')}
+                  style={{ width: columnWidths.hours }}
+                  title={t('timeLog.actualVsEstimated', formatHours(task.actualHours ?? 0), task.estimatedHours ? formatHours(task.estimatedHours) : '-')}
+                >
+                  {formatActualVsEstimated(task) ?? '-'}
+                </td>
+
+                {/* Float (critical path) */}
+                <td
+                  className={cn('p-3 truncate text-muted-foreground', scheduleAnalysis.get(task.id)?.isCritical && 'text-red-500')}
+                  style={{ width: columnWidths.totalFloat }}
+                >
+                  {formatFloat(task.id, 'totalFloat')}
+                </td>
+                <td className="p-3 truncate text-muted-foreground" style={{ width: columnWidths.freeFloat }}>
+                  {formatFloat(task.id, 'freeFloat')}
+                </td>
+
+                {/* Custom fields (edited in the task dialog) */}
+                {customFieldColumns.map((field) => {
+                  const columnId = getCustomFieldPath(field.id);
+                  const text = formatCustomFieldValue(task.customFields?.[field.id]);
+                  return (
+                    <td
+                      key={field.id}
+                      className="p-3 truncate cursor-pointer hover:bg-muted/30"
+                      style={{ width: columnWidths[columnId] ?? customFieldColumn.defaultWidth }}
+                      title={text}
+                      onClick={() => handleEditTask(task)}
+                    >
+                      {text || <span className="text-muted-foreground">-</span>}
+                    </td>
+                  );
+                })}
 
                 {/* Actions */}
                 <td className="p-3">
                   <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleAddSubtask(task)}
+                      title={t('subtask.add')}
+                      className="h-7 w-7"
+                    >
+                      <ListTree className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleIndent(task, indentParentId)}
+                      disabled={!indentParentId}
+                      title={t('subtask.indent')}
+                      className="h-7 w-7"
+                    >
+                      <IndentIncrease className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleOutdent(task)}
+                      disabled={!task.parentId}
+                      title={t('subtask.outdent')}
+                      className="h-7 w-7"
+                    >
+                      <IndentDecrease className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -840,6 +1195,16 @@ export function TodoView() {
             <td className="p-3" style={{ width: columnWidths.dueDate }}></td>
             <td className="p-3" style={{ width: columnWidths.assignee }}></td>
             <td className="p-3" style={{ width: columnWidths.progress }}></td>
+            <td className="p-3" style={{ width: columnWidths.hours }}></td>
+            <td className="p-3" style={{ width: columnWidths.totalFloat }}></td>
+            <td className="p-3" style={{ width: columnWidths.freeFloat }}></td>
+            {customFieldColumns.map((field) => (
+              <td
+                key={field.id}
+                className="p-3"
+                style={{ width: columnWidths[getCustomFieldPath(field.id)] ?? customFieldColumn.defaultWidth }}
+              ></td>
+            ))}
             <td className="p-3"></td>
           </tr>
         </tbody>
@@ -851,6 +1216,16 @@ export function TodoView() {
         onOpenChange={setIsEditDialogOpen}
         task={editingTask}
       />
+
+      <TaskFormDialog
+        open={!!subtaskParentId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSubtaskParentId(undefined);
+          }
+        }}
+        parentId={subtaskParentId}
+      />
     </div>
   );
 }
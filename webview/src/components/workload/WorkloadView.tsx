@@ -0,0 +1,351 @@
+import { useState, useMemo } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useTaskStore } from '@/stores/taskStore';
+import { useSavedViewState } from '@/stores/savedViewState';
+import { useTaskSearch } from '@/stores/taskSearch';
+import { TaskFormDialog } from '@/components/common/TaskFormDialog';
+import { FilterPopover } from '@/components/common/FilterPopover';
+import { MemberAvatar } from '@/components/common/MemberAvatar';
+import { Button, Input } from '@/components/ui';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import type { Task, FilterState, WorkloadScale, WorkloadCell, WorkloadRow } from '@/types';
+import {
+  createEmptyFilterState,
+  evaluateFilter,
+  loadFilterState,
+  buildWorkload,
+  getWeekStart,
+  getWorkloadBuckets,
+  getLoadRatio,
+  isOverAllocated,
+  formatHours,
+  shiftDate,
+  toDateString,
+} from '@/types';
+
+const BUCKET_COUNT: Record<WorkloadScale, number> = { day: 28, week: 12 };
+const BUCKET_DAYS: Record<WorkloadScale, number> = { day: 1, week: 7 };
+// Prev/next move by a week in the day scale and by four weeks in the week scale
+const PAGE_DAYS: Record<WorkloadScale, number> = { day: 7, week: 28 };
+
+interface DragState {
+  taskId: string;
+  memberId: string | null; // row the task was dragged from
+  bucketIndex: number;
+}
+
+function getRowKey(row: WorkloadRow): string {
+  return row.member?.id ?? '';
+}
+
+// Heat color of a cell by its load; unassigned work has no capacity to compare with
+function getHeatClass(cell: WorkloadCell, isUnassigned: boolean): string {
+  if (cell.hours <= 0) {return '';}
+  if (isUnassigned) {return 'bg-muted';}
+  if (isOverAllocated(cell)) {return 'bg-red-500/40';}
+  const ratio = getLoadRatio(cell);
+  if (ratio > 0.8) {return 'bg-amber-500/30';}
+  if (ratio > 0.5) {return 'bg-emerald-500/30';}
+  return 'bg-emerald-500/15';
+}
+
+export function WorkloadView() {
+  const { t, locale } = useI18n();
+  const {
+    tasks,
+    labels,
+    members,
+    kanbanColumns,
+    weeklyCapacityHours,
+    updateMember,
+    rescheduleTask,
+  } = useTaskStore();
+  const { filter: searchFilter } = useTaskSearch();
+  const today = useMemo(() => toDateString(new Date()), []);
+  const [scale, setScale] = useState<WorkloadScale>(() =>
+    localStorage.getItem('workload-scale') === 'week' ? 'week' : 'day'
+  );
+  const [rangeStart, setRangeStart] = useState(() => getWeekStart(today));
+  const [filterState, setFilterState] = useState<FilterState>(() => {
+    const saved = loadFilterState('taskscheduller-filters-workload');
+    return saved || createEmptyFilterState();
+  });
+  const [selectedTask, setSelectedTask] = useState<Task | undefined>();
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [capacityDrafts, setCapacityDrafts] = useState<Record<string, string>>({});
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const buckets = useMemo(() => getWorkloadBuckets(rangeStart, scale, BUCKET_COUNT[scale]), [rangeStart, scale]);
+
+  const rows = useMemo(() => {
+    const filtered = tasks.filter((task) => evaluateFilter(task, filterState) && evaluateFilter(task, searchFilter));
+    return buildWorkload(filtered, buckets, members, kanbanColumns, weeklyCapacityHours);
+  }, [tasks, filterState, searchFilter, buckets, members, kanbanColumns, weeklyCapacityHours]);
+
+  // Parents span their subtasks, so only leaf tasks are moved by dragging
+  const parentIds = useMemo(() => new Set(tasks.map((task) => task.parentId).filter(Boolean)), [tasks]);
+
+  const handleScaleChange = (value: WorkloadScale) => {
+    setScale(value);
+    localStorage.setItem('workload-scale', value);
+  };
+
+  useSavedViewState(
+    'workload',
+    () => ({ filter: filterState, zoom: scale }),
+    (state) => {
+      setFilterState(state.filter ?? createEmptyFilterState());
+      handleScaleChange(state.zoom === 'week' ? 'week' : 'day');
+    }
+  );
+
+  const formatDate = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(locale === 'ja' ? 'ja-JP' : 'en-US', options);
+
+  const rangeLabel = `${formatDate(buckets[0].start, { month: 'short', day: 'numeric' })} – ${formatDate(
+    buckets[buckets.length - 1].end,
+    { year: 'numeric', month: 'short', day: 'numeric' }
+  )}`;
+
+  const commitCapacity = (row: WorkloadRow) => {
+    const key = getRowKey(row);
+    const draft = capacityDrafts[key];
+    setCapacityDrafts((drafts) => {
+      const next = { ...drafts };
+      delete next[key];
+      return next;
+    });
+    const { member } = row;
+    if (draft === undefined || !member) {return;}
+
+    // An empty value goes back to the default capacity
+    if (draft.trim() === '') {
+      if (member.weeklyHours !== null) {updateMember(member.id, { weeklyHours: null });}
+      return;
+    }
+    const hours = Number(draft);
+    if (Number.isNaN(hours) || hours < 0 || hours > 168 || hours === member.weeklyHours) {return;}
+    updateMember(member.id, { weeklyHours: hours });
+  };
+
+  const handleDrop = (row: WorkloadRow, bucketIndex: number) => {
+    const task = dragState ? tasks.find((item) => item.id === dragState.taskId) : undefined;
+    setDropTarget(null);
+    if (!dragState || !task) {return;}
+
+    // The task moves from the member it was dragged from to the target member; other assignees stay
+    const targetId = row.member?.id ?? null;
+    const updates: Parameters<typeof rescheduleTask>[1] = {};
+    if (targetId !== dragState.memberId) {
+      const assigneeIds = (task.assigneeIds ?? []).filter((id) => id !== dragState.memberId && id !== targetId);
+      updates.assigneeIds = targetId ? [targetId, ...assigneeIds] : assigneeIds;
+    }
+    const days = (bucketIndex - dragState.bucketIndex) * BUCKET_DAYS[scale];
+    if (days !== 0) {
+      updates.startDate = task.startDate ? shiftDate(task.startDate, days) : undefined;
+      updates.dueDate = task.dueDate ? shiftDate(task.dueDate, days) : undefined;
+    }
+    // One message, so the reassignment and the date shift are a single undo step and succeed or fail
+    // together; successors are shifted by the extension together with the task
+    if (Object.keys(updates).length > 0) {
+      rescheduleTask(task.id, updates);
+    }
+    setDragState(null);
+  };
+
+  const renderCellTitle = (cell: WorkloadCell) => {
+    const lines = cell.entries.map((entry) => `${entry.task.title}: ${formatHours(entry.hours)}`);
+    if (cell.capacity > 0 || cell.hours > 0) {
+      lines.unshift(t('workload.cellLoad', formatHours(cell.hours), formatHours(cell.capacity)));
+    }
+    return lines.join('\n');
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setRangeStart(shiftDate(rangeStart, -PAGE_DAYS[scale]))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setRangeStart(shiftDate(rangeStart, PAGE_DAYS[scale]))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setRangeStart(getWeekStart(today))}>
+            {t('calendar.today')}
+          </Button>
+        </div>
+        <h2 className="text-lg font-semibold">{rangeLabel}</h2>
+        <div className="flex items-center gap-2">
+          <FilterPopover
+            fields={[
+              { id: 'title', label: t('task.title') },
+              { id: 'labels', label: t('task.labels'), options: labels.map(l => ({ value: l.name, label: l.name })) },
+            ]}
+            value={filterState}
+            onChange={setFilterState}
+            storageKey="taskscheduller-filters-workload"
+          />
+          <Button variant={scale === 'day' ? 'default' : 'outline'} size="sm" onClick={() => handleScaleChange('day')}>
+            {t('workload.day')}
+          </Button>
+          <Button variant={scale === 'week' ? 'default' : 'outline'} size="sm" onClick={() => handleScaleChange('week')}>
+            {t('calendar.week')}
+          </Button>
+        </div>
+      </div>
+
+      {/* Heat grid */}
+      <div className="flex-1 overflow-auto border border-border rounded">
+        <table className="border-collapse text-xs">
+          <thead className="sticky top-0 z-20 bg-background">
+            <tr>
+              <th className="sticky left-0 z-30 min-w-[12rem] border-b border-r border-border bg-background p-2 text-left font-medium">
+                {t('workload.assignee')}
+              </th>
+              {buckets.map((bucket) => {
+                const isCurrent = today >= bucket.start && today <= bucket.end;
+                return (
+                  <th
+                    key={bucket.start}
+                    className={cn(
+                      'border-b border-r border-border p-1 text-center font-medium whitespace-nowrap',
+                      scale === 'day' ? 'min-w-[4.5rem]' : 'min-w-[7rem]',
+                      isCurrent && 'text-primary'
+                    )}
+                  >
+                    {scale === 'day'
+                      ? formatDate(bucket.start, { weekday: 'short', month: 'numeric', day: 'numeric' })
+                      : t('workload.weekOf', formatDate(bucket.start, { month: 'numeric', day: 'numeric' }))}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const rowKey = getRowKey(row);
+              const isUnassigned = row.member === null;
+              return (
+                <tr key={rowKey}>
+                  <th className="sticky left-0 z-10 border-b border-r border-border bg-background p-2 text-left font-normal align-top">
+                    <div className={cn('flex items-center gap-1.5 font-medium', isUnassigned && 'text-muted-foreground')}>
+                      {row.member && <MemberAvatar member={row.member} />}
+                      <span className="truncate">{row.member?.name ?? t('workload.unassigned')}</span>
+                    </div>
+                    {row.member && (
+                      <label className="mt-1 flex items-center gap-1 text-muted-foreground">
+                        <Input
+                          type="number"
+                          min="0"
+                          max="168"
+                          step="1"
+                          value={capacityDrafts[rowKey] ?? (row.member.weeklyHours !== null ? String(row.member.weeklyHours) : '')}
+                          placeholder={String(weeklyCapacityHours)}
+                          onChange={(e) => setCapacityDrafts({ ...capacityDrafts, [rowKey]: e.target.value })}
+                          onBlur={() => commitCapacity(row)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {e.currentTarget.blur();}
+                          }}
+                          className="h-6 w-16 px-1 text-xs"
+                          aria-label={t('workload.weeklyCapacity')}
+                        />
+                        {t('workload.hoursPerWeek')}
+                      </label>
+                    )}
+                  </th>
+                  {row.cells.map((cell, bucketIndex) => {
+                    const cellKey = `${rowKey}:${bucketIndex}`;
+                    const isWeekend = scale === 'day' && [0, 6].includes(new Date(`${buckets[bucketIndex].start}T00:00:00`).getDay());
+                    return (
+                      <td
+                        key={cellKey}
+                        title={renderCellTitle(cell)}
+                        className={cn(
+                          'border-b border-r border-border p-1 align-top',
+                          isWeekend && 'bg-muted/40',
+                          getHeatClass(cell, isUnassigned),
+                          dropTarget === cellKey && 'ring-2 ring-inset ring-primary'
+                        )}
+                        onDragOver={(e) => {
+                          if (!dragState) {return;}
+                          e.preventDefault();
+                          e.dataTransfer.dropEffect = 'move';
+                          setDropTarget(cellKey);
+                        }}
+                        onDragLeave={() => setDropTarget((current) => (current === cellKey ? null : current))}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDrop(row, bucketIndex);
+                        }}
+                      >
+                        {cell.hours > 0 && (
+                          <div
+                            className={cn(
+                              'mb-1 text-right font-medium',
+                              !isUnassigned && isOverAllocated(cell) && 'text-red-600 dark:text-red-400'
+                            )}
+                          >
+                            {isUnassigned ? formatHours(cell.hours) : `${formatHours(cell.hours)} / ${formatHours(cell.capacity)}`}
+                          </div>
+                        )}
+                        {cell.entries
+                          .filter((entry) => entry.isFirst)
+                          .map((entry) => {
+                            const isDraggable = !parentIds.has(entry.task.id);
+                            return (
+                              <div
+                                key={entry.task.id}
+                                draggable={isDraggable}
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  e.dataTransfer.setData('text/plain', entry.task.id);
+                                  setDragState({ taskId: entry.task.id, memberId: row.member?.id ?? null, bucketIndex });
+                                }}
+                                onDragEnd={() => {
+                                  setDragState(null);
+                                  setDropTarget(null);
+                                }}
+                                onDoubleClick={() => {
+                                  setSelectedTask(entry.task);
+                                  setIsEditDialogOpen(true);
+                                }}
+                                title={`${entry.task.title} (${formatHours(entry.task.estimatedHours ?? 0)})`}
+                                className={cn(
+                                  'mb-0.5 truncate rounded border border-border bg-background px-1 py-0.5',
+                                  scale === 'day' ? 'max-w-[4rem]' : 'max-w-[6.5rem]',
+                                  isDraggable ? 'cursor-grab' : 'cursor-default',
+                                  dragState?.taskId === entry.task.id && 'opacity-50'
+                                )}
+                              >
+                                {entry.task.title}
+                              </div>
+                            );
+                          })}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.every((row) => row.cells.every((cell) => cell.hours === 0)) && (
+          <p className="p-4 text-center text-sm text-muted-foreground">{t('workload.empty')}</p>
+        )}
+      </div>
+
+      {/* Edit Task Dialog */}
+      {selectedTask && (
+        <TaskFormDialog
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          task={selectedTask}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { useTaskStore } from './taskStore';
+import type { SavedViewState, ViewType } from '@/types';
+
+// State readers of the views currently shown, used when saving a view
+const captures = new Map<ViewType, () => SavedViewState>();
+
+/**
+ * Connects a view to saved views: `capture` returns its filters, sort, grouping, widths and zoom
+ * when the view is saved, and `apply` restores them when a saved view of this type is opened.
+ */
+export function useSavedViewState(
+  viewType: ViewType,
+  capture: () => SavedViewState,
+  apply: (state: SavedViewState) => void
+): void {
+  const pendingSavedView = useTaskStore((state) => state.pendingSavedView);
+  // Latest callbacks, so they read the current state without re-registering
+  const captureRef = useRef(capture);
+  const applyRef = useRef(apply);
+
+  useEffect(() => {
+    captureRef.current = capture;
+    applyRef.current = apply;
+  });
+
+  useEffect(() => {
+    captures.set(viewType, () => captureRef.current());
+    return () => {
+      captures.delete(viewType);
+    };
+  }, [viewType]);
+
+  useEffect(() => {
+    if (pendingSavedView?.viewType === viewType) {
+      applyRef.current(pendingSavedView.state);
+      useTaskStore.setState({ pendingSavedView: null });
+    }
+  }, [pendingSavedView, viewType]);
+}
+
+/**
+ * State of a shown view to save; empty when the view is not shown
+ */
+export function captureViewState(viewType: ViewType): SavedViewState {
+  return captures.get(viewType)?.() ?? {};
+}
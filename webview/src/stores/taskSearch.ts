@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useTaskStore } from './taskStore';
+import { parseTaskQuery, taskQueryToFilter, toDateString } from '@/types';
+import type { FilterState, TaskQueryError } from '@/types';
+
+/**
+ * Filter of the query in the header search box, applied by every view on top of its own filters,
+ * and the terms of the query that could not be read.
+ */
+export function useTaskSearch(): { filter: FilterState; errors: TaskQueryError[] } {
+  const searchQuery = useTaskStore((state) => state.searchQuery);
+  const author = useTaskStore((state) => state.author);
+  const projects = useTaskStore((state) => state.projects);
+  const members = useTaskStore((state) => state.members);
+  const kanbanColumns = useTaskStore((state) => state.kanbanColumns);
+
+  return useMemo(() => {
+    const query = parseTaskQuery(searchQuery, { today: toDateString(new Date()), author });
+    return {
+      filter: taskQueryToFilter(query, { projects, members, kanbanColumns }),
+      errors: query.errors,
+    };
+  }, [searchQuery, author, projects, members, kanbanColumns]);
+}
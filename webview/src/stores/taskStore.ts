@@ -5,10 +5,29 @@ import type {
   Dependency,
   Project,
   KanbanColumn,
+  ColumnRule,
+  ColumnCategory,
   ViewType,
   CreateTaskDto,
   UpdateTaskDto,
   TaskStatus,
+  CriticalPathResult,
+  UpdateDependencyDto,
+  DependencyError,
+  TaskEvent,
+  TaskComment,
+  TimeEntry,
+  CreateTimeEntryDto,
+  UpdateTimeEntryDto,
+  Member,
+  CreateMemberDto,
+  UpdateMemberDto,
+  CustomField,
+  CreateCustomFieldDto,
+  UpdateCustomFieldDto,
+  SavedView,
+  CreateSavedViewDto,
+  UpdateSavedViewDto,
 } from '@/types';
 import { postMessage, onMessage } from '@/api/vscode';
 
@@ -16,24 +35,60 @@ interface TaskState {
   // Data
   tasks: Task[];
   labels: Label[];
+  // Number of tasks per label ID (all projects), loaded for the label manager
+  labelUsage: Record<string, number>;
+  members: Member[];
+  memberUsage: Record<string, number>;
+  // Custom field definitions of all projects
+  customFields: CustomField[];
+  // Named views shared through the database
+  savedViews: SavedView[];
   dependencies: Dependency[];
   projects: Project[];
   kanbanColumns: KanbanColumn[];
+  criticalPath: CriticalPathResult | null;
+  // Change history of the task opened in the task dialog
+  taskEvents: { taskId: string; events: TaskEvent[] } | null;
+  taskComments: { taskId: string; comments: TaskComment[] } | null;
+  // Time log of the task opened in the task dialog, newest first
+  timeEntries: { taskId: string; entries: TimeEntry[] } | null;
+  // The timer running for the current author
+  runningTimeEntry: TimeEntry | null;
+
+  // Undo/redo availability (history is kept by the extension)
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Tasks per column across all projects (the loaded tasks may be those of one project only)
+  columnTaskCounts: Record<string, number>;
 
   // UI State
   currentView: ViewType;
   selectedTaskId: string | null;
   isLoading: boolean;
   error: string | null;
+  dependencyError: DependencyError | null;
   currentProjectId: string | null;
   showCompletedTasks: boolean;
 
   // Pending duplicate insert info (for Ctrl+drag duplicate)
   pendingDuplicateInsert: { insertAfterTaskId: string } | null;
 
+  // Task query typed in the header search box (see @shared/taskQuery.ts); filters every view
+  searchQuery: string;
+
+  // Saved view last opened or saved, shown in the switcher
+  activeSavedViewName: string | null;
+  // Saved view waiting to be applied by its view once that view is shown
+  pendingSavedView: SavedView | null;
+
   // Config
   locale: string;
   theme: 'light' | 'dark' | 'high-contrast';
+  weeklyCapacityHours: number;
+  wipLimitMode: 'warn' | 'enforce';
+  // Author of changes, whom assignee:me stands for in searches
+  author: string | null;
 
   // Actions - Data
   setTasks: (tasks: Task[]) => void;
@@ -42,6 +97,7 @@ interface TaskState {
   setProjects: (projects: Project[]) => void;
   addTask: (task: Task) => void;
   updateTask: (task: Task) => void;
+  updateTasks: (tasks: Task[]) => void;
   removeTask: (taskId: string) => void;
 
   // Actions - Kanban Columns
@@ -55,28 +111,90 @@ interface TaskState {
   setSelectedTaskId: (taskId: string | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  setConfig: (config: { locale: string; theme: 'light' | 'dark' | 'high-contrast' }) => void;
+  clearDependencyError: () => void;
+  setConfig: (config: {
+    locale: string;
+    theme: 'light' | 'dark' | 'high-contrast';
+    weeklyCapacityHours?: number;
+    wipLimitMode?: 'warn' | 'enforce';
+    author?: string | null;
+  }) => void;
   setCurrentProjectId: (projectId: string | null) => void;
   setShowCompletedTasks: (show: boolean) => void;
+  setSearchQuery: (query: string) => void;
 
   // Actions - API calls (send to extension)
   loadTasks: () => void;
   createTask: (dto: CreateTaskDto, predecessorIds?: string[], insertAfterTaskId?: string) => void;
   updateTaskApi: (taskId: string, updates: UpdateTaskDto) => void;
+  rescheduleTask: (
+    taskId: string,
+    updates: { startDate?: string | null; dueDate?: string | null; assigneeIds?: string[] }
+  ) => void;
   updateTaskStatus: (taskId: string, status: TaskStatus) => void;
   deleteTask: (taskId: string) => void;
   reorderTasks: (taskIds: string[], status?: TaskStatus) => void;
+  loadCriticalPath: () => void;
+  loadTaskEvents: (taskId: string) => void;
+  loadTaskComments: (taskId: string) => void;
+  createTaskComment: (taskId: string, body: string) => void;
+  updateTaskComment: (commentId: string, body: string) => void;
+  deleteTaskComment: (commentId: string) => void;
+  loadTimeEntries: (taskId: string) => void;
+  createTimeEntry: (dto: CreateTimeEntryDto) => void;
+  updateTimeEntry: (entryId: string, updates: UpdateTimeEntryDto) => void;
+  deleteTimeEntry: (entryId: string) => void;
+  startTimer: (taskId: string) => void;
+  stopTimer: () => void;
+  loadMembers: () => void;
+  createMember: (dto: CreateMemberDto) => void;
+  updateMember: (memberId: string, updates: UpdateMemberDto) => void;
+  mergeMembers: (sourceMemberId: string, targetMemberId: string) => void;
+  deleteMember: (memberId: string) => void;
+  createCustomField: (dto: CreateCustomFieldDto) => void;
+  updateCustomField: (fieldId: string, updates: UpdateCustomFieldDto) => void;
+  deleteCustomField: (fieldId: string) => void;
+  createSavedView: (dto: CreateSavedViewDto) => void;
+  updateSavedView: (viewId: string, updates: UpdateSavedViewDto) => void;
+  deleteSavedView: (viewId: string) => void;
+  // Asks the extension to switch to the view's project and apply it
+  openSavedView: (viewId: string) => void;
+  loadLabels: () => void;
   createLabel: (name: string, color: string) => void;
+  updateLabel: (labelId: string, updates: { name?: string; color?: string }) => void;
+  mergeLabels: (sourceLabelId: string, targetLabelId: string) => void;
   deleteLabel: (labelId: string) => void;
   createDependency: (predecessorId: string, successorId: string) => void;
+  updateDependency: (dependencyId: string, updates: UpdateDependencyDto) => void;
   deleteDependency: (dependencyId: string) => void;
-  exportData: (format: 'json' | 'csv') => void;
+  // timeEntries: export the time log instead of the tasks (CSV only)
+  exportData: (format: 'json' | 'csv', options?: { timeEntries?: boolean }) => void;
   importData: () => void;
+  scanTodoComments: () => void;
+  openTaskSource: (taskId: string) => void;
+  undo: () => void;
+  redo: () => void;
 
   // Actions - Kanban Column API calls
   loadKanbanColumns: () => void;
-  createKanbanColumn: (name: string, color: string, projectId?: string | null) => void;
-  updateKanbanColumn: (columnId: string, updates: { name?: string; color?: string }) => void;
+  createKanbanColumn: (
+    name: string,
+    color: string,
+    projectId?: string | null,
+    wipLimit?: number | null,
+    rules?: ColumnRule[],
+    category?: ColumnCategory
+  ) => void;
+  updateKanbanColumn: (
+    columnId: string,
+    updates: {
+      name?: string;
+      color?: string;
+      wipLimit?: number | null;
+      rules?: ColumnRule[];
+      category?: ColumnCategory;
+    }
+  ) => void;
   deleteKanbanColumn: (columnId: string, targetColumnId?: string) => void;
   reorderKanbanColumns: (columnIds: string[]) => void;
 
@@ -89,18 +207,38 @@ export const useTaskStore = create<TaskState>((set, get) => ({
   // Initial state
   tasks: [],
   labels: [],
+  labelUsage: {},
+  members: [],
+  memberUsage: {},
+  customFields: [],
+  savedViews: [],
   dependencies: [],
   projects: [],
   kanbanColumns: [],
+  criticalPath: null,
+  taskEvents: null,
+  taskComments: null,
+  timeEntries: null,
+  runningTimeEntry: null,
+  canUndo: false,
+  canRedo: false,
+  columnTaskCounts: {},
   currentView: 'kanban',
   selectedTaskId: null,
   isLoading: true,
   error: null,
+  dependencyError: null,
   currentProjectId: null,
   showCompletedTasks: true,
   pendingDuplicateInsert: null,
+  searchQuery: '',
+  activeSavedViewName: null,
+  pendingSavedView: null,
   locale: 'en',
   theme: 'dark',
+  weeklyCapacityHours: 40,
+  wipLimitMode: 'warn',
+  author: null,
 
   // Data setters
   setTasks: (tasks) => set({ tasks }),
@@ -116,9 +254,29 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     tasks: state.tasks.map((t) => (t.id === task.id ? task : t)),
   })),
 
-  removeTask: (taskId) => set((state) => ({
-    tasks: state.tasks.filter((t) => t.id !== taskId),
-  })),
+  updateTasks: (tasks) => set((state) => {
+    const updatedById = new Map(tasks.map((t) => [t.id, t]));
+    return {
+      tasks: state.tasks.map((t) => updatedById.get(t.id) ?? t),
+    };
+  }),
+
+  // Subtasks are deleted together with their parent
+  removeTask: (taskId) => set((state) => {
+    const removedIds = new Set([taskId]);
+    let size = 0;
+    while (removedIds.size !== size) {
+      size = removedIds.size;
+      for (const t of state.tasks) {
+        if (t.parentId && removedIds.has(t.parentId)) {
+          removedIds.add(t.id);
+        }
+      }
+    }
+    return {
+      tasks: state.tasks.filter((t) => !removedIds.has(t.id)),
+    };
+  }),
 
   // Kanban Column setters
   setKanbanColumns: (columns) => set({ kanbanColumns: columns }),
@@ -150,9 +308,18 @@ export const useTaskStore = create<TaskState>((set, get) => ({
   setSelectedTaskId: (taskId) => set({ selectedTaskId: taskId }),
   setLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error }),
-  setConfig: (config) => set({ locale: config.locale, theme: config.theme }),
+  clearDependencyError: () => set({ dependencyError: null }),
+  setConfig: (config) =>
+    set((state) => ({
+      locale: config.locale,
+      theme: config.theme,
+      weeklyCapacityHours: config.weeklyCapacityHours ?? state.weeklyCapacityHours,
+      wipLimitMode: config.wipLimitMode ?? state.wipLimitMode,
+      author: config.author ?? state.author,
+    })),
   setCurrentProjectId: (projectId) => set({ currentProjectId: projectId }),
   setShowCompletedTasks: (show) => set({ showCompletedTasks: show }),
+  setSearchQuery: (query) => set({ searchQuery: query }),
 
   // API calls
   loadTasks: () => {
@@ -172,6 +339,10 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     postMessage({ type: 'UPDATE_TASK', payload: { taskId, updates } });
   },
 
+  rescheduleTask: (taskId, updates) => {
+    postMessage({ type: 'RESCHEDULE_TASK', payload: { taskId, ...updates } });
+  },
+
   updateTaskStatus: (taskId, status) => {
     postMessage({ type: 'UPDATE_TASK_STATUS', payload: { taskId, status } });
   },
@@ -184,10 +355,122 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     postMessage({ type: 'REORDER_TASKS', payload: { taskIds, status } });
   },
 
+  loadCriticalPath: () => {
+    postMessage({ type: 'LOAD_CRITICAL_PATH' });
+  },
+
+  loadTaskEvents: (taskId) => {
+    postMessage({ type: 'LOAD_TASK_EVENTS', payload: { taskId } });
+  },
+
+  loadTaskComments: (taskId) => {
+    postMessage({ type: 'LOAD_TASK_COMMENTS', payload: { taskId } });
+  },
+
+  createTaskComment: (taskId, body) => {
+    postMessage({ type: 'CREATE_TASK_COMMENT', payload: { taskId, body } });
+  },
+
+  updateTaskComment: (commentId, body) => {
+    postMessage({ type: 'UPDATE_TASK_COMMENT', payload: { commentId, body } });
+  },
+
+  deleteTaskComment: (commentId) => {
+    postMessage({ type: 'DELETE_TASK_COMMENT', payload: { commentId } });
+  },
+
+  loadTimeEntries: (taskId) => {
+    postMessage({ type: 'LOAD_TIME_ENTRIES', payload: { taskId } });
+  },
+
+  createTimeEntry: (dto) => {
+    postMessage({ type: 'CREATE_TIME_ENTRY', payload: dto });
+  },
+
+  updateTimeEntry: (entryId, updates) => {
+    postMessage({ type: 'UPDATE_TIME_ENTRY', payload: { entryId, updates } });
+  },
+
+  deleteTimeEntry: (entryId) => {
+    postMessage({ type: 'DELETE_TIME_ENTRY', payload: { entryId } });
+  },
+
+  startTimer: (taskId) => {
+    postMessage({ type: 'START_TIMER', payload: { taskId } });
+  },
+
+  stopTimer: () => {
+    postMessage({ type: 'STOP_TIMER' });
+  },
+
+  loadMembers: () => {
+    postMessage({ type: 'LOAD_MEMBERS' });
+  },
+
+  createMember: (dto) => {
+    postMessage({ type: 'CREATE_MEMBER', payload: dto });
+  },
+
+  updateMember: (memberId, updates) => {
+    postMessage({ type: 'UPDATE_MEMBER', payload: { memberId, updates } });
+  },
+
+  mergeMembers: (sourceMemberId, targetMemberId) => {
+    postMessage({ type: 'MERGE_MEMBERS', payload: { sourceMemberId, targetMemberId } });
+  },
+
+  deleteMember: (memberId) => {
+    postMessage({ type: 'DELETE_MEMBER', payload: { memberId } });
+  },
+
+  createCustomField: (dto) => {
+    postMessage({ type: 'CREATE_CUSTOM_FIELD', payload: dto });
+  },
+
+  updateCustomField: (fieldId, updates) => {
+    postMessage({ type: 'UPDATE_CUSTOM_FIELD', payload: { fieldId, updates } });
+  },
+
+  deleteCustomField: (fieldId) => {
+    postMessage({ type: 'DELETE_CUSTOM_FIELD', payload: { fieldId } });
+  },
+
+  createSavedView: (dto) => {
+    set({ activeSavedViewName: dto.name });
+    postMessage({ type: 'CREATE_SAVED_VIEW', payload: dto });
+  },
+
+  updateSavedView: (viewId, updates) => {
+    if (updates.name) {
+      set({ activeSavedViewName: updates.name });
+    }
+    postMessage({ type: 'UPDATE_SAVED_VIEW', payload: { viewId, updates } });
+  },
+
+  deleteSavedView: (viewId) => {
+    postMessage({ type: 'DELETE_SAVED_VIEW', payload: { viewId } });
+  },
+
+  openSavedView: (viewId) => {
+    postMessage({ type: 'OPEN_SAVED_VIEW', payload: { viewId } });
+  },
+
+  loadLabels: () => {
+    postMessage({ type: 'LOAD_LABELS' });
+  },
+
   createLabel: (name, color) => {
     postMessage({ type: 'CREATE_LABEL', payload: { name, color } });
   },
 
+  updateLabel: (labelId, updates) => {
+    postMessage({ type: 'UPDATE_LABEL', payload: { labelId, updates } });
+  },
+
+  mergeLabels: (sourceLabelId, targetLabelId) => {
+    postMessage({ type: 'MERGE_LABELS', payload: { sourceLabelId, targetLabelId } });
+  },
+
   deleteLabel: (labelId) => {
     postMessage({ type: 'DELETE_LABEL', payload: { labelId } });
   },
@@ -199,25 +482,45 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     });
   },
 
+  updateDependency: (dependencyId, updates) => {
+    postMessage({ type: 'UPDATE_DEPENDENCY', payload: { dependencyId, updates } });
+  },
+
   deleteDependency: (dependencyId) => {
     postMessage({ type: 'DELETE_DEPENDENCY', payload: { dependencyId } });
   },
 
-  exportData: (format) => {
-    postMessage({ type: 'EXPORT_DATA', payload: { format } });
+  exportData: (format, options) => {
+    postMessage({ type: 'EXPORT_DATA', payload: { format, timeEntries: options?.timeEntries } });
   },
 
   importData: () => {
     postMessage({ type: 'IMPORT_DATA' });
   },
 
+  scanTodoComments: () => {
+    postMessage({ type: 'SCAN_TODO_COMMENTS' });
+  },
+
+  openTaskSource: (taskId) => {
+    postMessage({ type: 'OPEN_TASK_SOURCE', payload: { taskId } });
+  },
+
+  undo: () => {
+    postMessage({ type: 'UNDO' });
+  },
+
+  redo: () => {
+    postMessage({ type: 'REDO' });
+  },
+
   // Kanban Column API calls
   loadKanbanColumns: () => {
     postMessage({ type: 'LOAD_KANBAN_COLUMNS' });
   },
 
-  createKanbanColumn: (name, color, projectId) => {
-    postMessage({ type: 'CREATE_KANBAN_COLUMN', payload: { name, color, projectId } });
+  createKanbanColumn: (name, color, projectId, wipLimit, rules, category) => {
+    postMessage({ type: 'CREATE_KANBAN_COLUMN', payload: { name, color, projectId, wipLimit, rules, category } });
   },
 
   updateKanbanColumn: (columnId, updates) => {
@@ -257,6 +560,7 @@ export function initializeMessageHandler() {
       setProjects,
       addTask,
       updateTask,
+      updateTasks,
       removeTask,
       setLoading,
       setError,
@@ -269,12 +573,36 @@ export function initializeMessageHandler() {
 
     switch (message.type) {
       case 'TASKS_LOADED':
-        const tasksPayload = message as { payload: { tasks: Task[]; labels: Label[]; dependencies: Dependency[]; projects: Project[] } };
+        const tasksPayload = message as {
+          payload: {
+            tasks: Task[];
+            labels: Label[];
+            members: Member[];
+            customFields: CustomField[];
+            savedViews: SavedView[];
+            dependencies: Dependency[];
+            projects: Project[];
+          };
+        };
         setTasks(tasksPayload.payload.tasks);
         setLabels(tasksPayload.payload.labels);
+        useTaskStore.setState({
+          members: tasksPayload.payload.members,
+          customFields: tasksPayload.payload.customFields ?? [],
+          savedViews: tasksPayload.payload.savedViews ?? [],
+        });
         setDependencies(tasksPayload.payload.dependencies);
         setProjects(tasksPayload.payload.projects);
         setLoading(false);
+
+        // Data may have changed (undo/redo, other windows): refresh the open task's thread and history
+        const { taskComments, taskEvents } = useTaskStore.getState();
+        if (taskComments) {
+          useTaskStore.getState().loadTaskComments(taskComments.taskId);
+        }
+        if (taskEvents) {
+          useTaskStore.getState().loadTaskEvents(taskEvents.taskId);
+        }
         break;
 
       case 'TASK_CREATED':
@@ -318,11 +646,105 @@ export function initializeMessageHandler() {
         updateTask(updatedPayload.payload.task);
         break;
 
+      case 'TASKS_RESCHEDULED':
+        const rescheduledPayload = message as { payload: { tasks: Task[] } };
+        updateTasks(rescheduledPayload.payload.tasks);
+        break;
+
+      case 'TASKS_UPDATED':
+        const tasksUpdatedPayload = message as { payload: { tasks: Task[] } };
+        updateTasks(tasksUpdatedPayload.payload.tasks);
+        break;
+
+      case 'CRITICAL_PATH_LOADED':
+        const criticalPathPayload = message as { payload: CriticalPathResult };
+        useTaskStore.setState({ criticalPath: criticalPathPayload.payload });
+        break;
+
+      case 'TASK_EVENTS_LOADED':
+        const taskEventsPayload = message as { payload: { taskId: string; events: TaskEvent[] } };
+        useTaskStore.setState({ taskEvents: taskEventsPayload.payload });
+        break;
+
+      case 'TASK_COMMENTS_LOADED':
+        const taskCommentsPayload = message as { payload: { taskId: string; comments: TaskComment[] } };
+        useTaskStore.setState({ taskComments: taskCommentsPayload.payload });
+        break;
+
+      case 'TASK_COMMENT_CREATED':
+        const commentCreatedPayload = message as { payload: { comment: TaskComment } };
+        useTaskStore.setState((state) =>
+          state.taskComments?.taskId === commentCreatedPayload.payload.comment.taskId
+            ? { taskComments: { ...state.taskComments, comments: [...state.taskComments.comments, commentCreatedPayload.payload.comment] } }
+            : {}
+        );
+        break;
+
+      case 'TASK_COMMENT_UPDATED':
+        const commentUpdatedPayload = message as { payload: { comment: TaskComment } };
+        useTaskStore.setState((state) =>
+          state.taskComments
+            ? {
+                taskComments: {
+                  ...state.taskComments,
+                  comments: state.taskComments.comments.map((c) =>
+                    c.id === commentUpdatedPayload.payload.comment.id ? commentUpdatedPayload.payload.comment : c
+                  ),
+                },
+              }
+            : {}
+        );
+        break;
+
+      case 'TASK_COMMENT_DELETED':
+        const commentDeletedPayload = message as { payload: { commentId: string; taskId: string } };
+        useTaskStore.setState((state) =>
+          state.taskComments
+            ? {
+                taskComments: {
+                  ...state.taskComments,
+                  comments: state.taskComments.comments.filter((c) => c.id !== commentDeletedPayload.payload.commentId),
+                },
+              }
+            : {}
+        );
+        break;
+
+      case 'TIME_ENTRIES_LOADED':
+        const timeEntriesPayload = message as { payload: { taskId: string; entries: TimeEntry[] } };
+        useTaskStore.setState({ timeEntries: timeEntriesPayload.payload });
+        break;
+
+      case 'TIMER_STATE':
+        const timerPayload = message as { payload: { entry: TimeEntry | null } };
+        useTaskStore.setState({ runningTimeEntry: timerPayload.payload.entry });
+        break;
+
+      case 'MEMBERS_LOADED':
+        const membersPayload = message as { payload: { members: Member[]; usage: Record<string, number> } };
+        useTaskStore.setState({ members: membersPayload.payload.members, memberUsage: membersPayload.payload.usage });
+        break;
+
+      case 'HISTORY_STATE':
+        const historyPayload = message as { payload: { canUndo: boolean; canRedo: boolean } };
+        useTaskStore.setState(historyPayload.payload);
+        break;
+
+      case 'COLUMN_TASK_COUNTS':
+        const countsPayload = message as { payload: { counts: Record<string, number> } };
+        useTaskStore.setState({ columnTaskCounts: countsPayload.payload.counts });
+        break;
+
       case 'TASK_DELETED':
         const deletedPayload = message as { payload: { taskId: string } };
         removeTask(deletedPayload.payload.taskId);
         break;
 
+      case 'LABELS_LOADED':
+        const labelsPayload = message as { payload: { labels: Label[]; usage: Record<string, number> } };
+        useTaskStore.setState({ labels: labelsPayload.payload.labels, labelUsage: labelsPayload.payload.usage });
+        break;
+
       case 'LABEL_CREATED':
         const labelPayload = message as { payload: { label: Label } };
         useTaskStore.setState((state) => ({
@@ -337,6 +759,15 @@ export function initializeMessageHandler() {
         }));
         break;
 
+      case 'DEPENDENCY_UPDATED':
+        const depUpdatedPayload = message as { payload: { dependency: Dependency } };
+        useTaskStore.setState((state) => ({
+          dependencies: state.dependencies.map((d) =>
+            d.id === depUpdatedPayload.payload.dependency.id ? depUpdatedPayload.payload.dependency : d
+          ),
+        }));
+        break;
+
       case 'DEPENDENCY_DELETED':
         const depDeletedPayload = message as { payload: { dependencyId: string } };
         useTaskStore.setState((state) => ({
@@ -345,7 +776,16 @@ export function initializeMessageHandler() {
         break;
 
       case 'CONFIG_CHANGED':
-        const configPayload = message as { payload: { locale: string; theme: 'light' | 'dark' | 'high-contrast'; defaultView: ViewType } };
+        const configPayload = message as {
+          payload: {
+            locale: string;
+            theme: 'light' | 'dark' | 'high-contrast';
+            defaultView: ViewType;
+            weeklyCapacityHours: number;
+            wipLimitMode: 'warn' | 'enforce';
+            author: string | null;
+          };
+        };
         setConfig(configPayload.payload);
         // 初回読み込み時（isLoadingがtrue）のみdefaultViewを適用
         if (useTaskStore.getState().isLoading && configPayload.payload.defaultView) {
@@ -354,23 +794,42 @@ export function initializeMessageHandler() {
         break;
 
       case 'ERROR':
-        const errorPayload = message as { payload: { message: string } };
-        setError(errorPayload.payload.message);
+        const errorPayload = message as {
+          payload: { code: string; message: string; path?: { id: string; title: string }[] };
+        };
+        if (errorPayload.payload.path) {
+          useTaskStore.setState({
+            dependencyError: {
+              code: errorPayload.payload.code as DependencyError['code'],
+              message: errorPayload.payload.message,
+              path: errorPayload.payload.path,
+            },
+          });
+        } else {
+          setError(errorPayload.payload.message);
+        }
         setLoading(false);
         break;
 
       case 'COMMAND':
-        const commandPayload = message as { command: string; payload?: { view?: ViewType; projectId?: string | null } };
+        const commandPayload = message as { command: string; payload?: { view?: ViewType; projectId?: string | null; taskId?: string } };
         if (commandPayload.command === 'SWITCH_VIEW' && commandPayload.payload?.view) {
           useTaskStore.setState({ currentView: commandPayload.payload.view });
         } else if (commandPayload.command === 'CREATE_TASK_DIALOG') {
           // This will be handled by UI component
           window.dispatchEvent(new CustomEvent('openCreateTaskDialog'));
+        } else if (commandPayload.command === 'OPEN_TASK' && commandPayload.payload?.taskId) {
+          // Opened from a due date reminder; handled by App
+          window.dispatchEvent(new CustomEvent('openTaskDialog', { detail: { taskId: commandPayload.payload.taskId } }));
         } else if (commandPayload.command === 'SET_PROJECT') {
           // projectId can be null to show all tasks (cross-project view)
           const newProjectId = commandPayload.payload?.projectId || null;
           useTaskStore.setState({ currentProjectId: newProjectId });
           // Tasks will be reloaded by extension
+        } else if (commandPayload.command === 'APPLY_SAVED_VIEW') {
+          // Sent after SET_PROJECT; the view applies the state when it is shown
+          const { view } = (message as { payload: { view: SavedView } }).payload;
+          useTaskStore.setState({ currentView: view.viewType, pendingSavedView: view, activeSavedViewName: view.name });
         }
         break;
 
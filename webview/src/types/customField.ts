@@ -0,0 +1,57 @@
+import type { CustomField, CustomFieldType, CustomFieldValue, Task } from './index';
+
+// Filter and column IDs of custom fields are the path of the value in the task
+export const CUSTOM_FIELD_PATH_PREFIX = 'customFields.';
+
+export const CUSTOM_FIELD_TYPE_LABEL_KEYS: Record<CustomFieldType, string> = {
+  text: 'customField.typeText',
+  number: 'customField.typeNumber',
+  date: 'customField.typeDate',
+  select: 'customField.typeSelect',
+  multi_select: 'customField.typeMultiSelect',
+  checkbox: 'customField.typeCheckbox',
+  url: 'customField.typeUrl',
+};
+
+export function getCustomFieldPath(fieldId: string): string {
+  return `${CUSTOM_FIELD_PATH_PREFIX}${fieldId}`;
+}
+
+/**
+ * Field ID of a custom field path; null for any other field.
+ */
+export function parseCustomFieldPath(path: string): string | null {
+  return path.startsWith(CUSTOM_FIELD_PATH_PREFIX) ? path.slice(CUSTOM_FIELD_PATH_PREFIX.length) : null;
+}
+
+/**
+ * Fields usable in a project: the global ones and its own. In All Tasks mode (projectId null)
+ * every field is listed.
+ */
+export function getCustomFieldsForProject(fields: CustomField[], projectId: string | null): CustomField[] {
+  const visible = projectId === null
+    ? fields
+    : fields.filter((field) => field.projectId === null || field.projectId === projectId);
+  return [...visible].sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+export function getCustomFieldsForTask(fields: CustomField[], task: Pick<Task, 'projectId'>): CustomField[] {
+  return getCustomFieldsForProject(fields, task.projectId ?? 'default-project');
+}
+
+export function fieldTypeHasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multi_select';
+}
+
+/**
+ * Display text of a value; checkboxes show a check mark and empty values an empty string.
+ */
+export function formatCustomFieldValue(value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined || value === false) {
+    return '';
+  }
+  if (value === true) {
+    return '✓';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
@@ -1,18 +1,68 @@
+import { shiftDate, toDateString } from '@shared/recurrence';
+import { getWeekStart } from './workload';
+
+/**
+ * Comparison of a filter condition. Conditions saved before operators existed have none and
+ * use 'contains'.
+ */
+export type FilterOperator =
+  | 'contains'
+  | 'not_contains'
+  | 'equals'
+  | 'not_equals'
+  | 'starts_with'
+  | 'regex'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'today'
+  | 'this_week'
+  | 'overdue';
+
+// How the values of a field compare; decides the operators offered for it
+export type FilterFieldType = 'text' | 'number' | 'date';
+
+export const FILTER_OPERATORS: Record<FilterFieldType, FilterOperator[]> = {
+  text: ['contains', 'not_contains', 'equals', 'not_equals', 'starts_with', 'regex', 'is_empty', 'is_not_empty'],
+  number: ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'between', 'is_empty', 'is_not_empty'],
+  date: ['equals', 'lt', 'gt', 'lte', 'gte', 'between', 'today', 'this_week', 'overdue', 'is_empty', 'is_not_empty'],
+};
+
+// Operators that compare against nothing but the field itself (and today's date)
+const VALUELESS_OPERATORS: FilterOperator[] = ['is_empty', 'is_not_empty', 'today', 'this_week', 'overdue'];
+
 /**
  * Filter condition for a single field
  */
 export interface FilterCondition {
   id: string; // Unique ID for React keys
-  field: string; // Field name (e.g., 'title', 'description', 'status')
-  value: string; // Search value
+  field: string; // Field name (e.g., 'title', 'description', 'status') or dotted path ('customFields.<id>')
+  operator?: FilterOperator; // default 'contains'
+  value: string; // Search value; dates may be relative ('today', 'today+7', 'today-1')
+  value2?: string; // Upper bound of 'between'
+}
+
+/**
+ * Conditions combined with AND or OR; groups nest
+ */
+export interface FilterGroup {
+  id: string;
+  logic: 'AND' | 'OR';
+  conditions: FilterNode[];
 }
 
+export type FilterNode = FilterCondition | FilterGroup;
+
 /**
  * Filter state containing multiple conditions
  */
 export interface FilterState {
   logic: 'AND' | 'OR'; // How to combine multiple conditions
-  conditions: FilterCondition[];
+  conditions: FilterNode[];
   enabled: boolean; // Quick toggle for all filters
 }
 
@@ -27,47 +77,201 @@ export function createEmptyFilterState(): FilterState {
   };
 }
 
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return 'conditions' in node;
+}
+
+export function operatorNeedsValue(operator: FilterOperator): boolean {
+  return !VALUELESS_OPERATORS.includes(operator);
+}
+
+/**
+ * Whether a condition filters anything; conditions still missing their value are ignored.
+ */
+export function isConditionActive(condition: FilterCondition): boolean {
+  const operator = condition.operator ?? 'contains';
+  if (!operatorNeedsValue(operator)) {
+    return true;
+  }
+  return condition.value.trim() !== '' && (operator !== 'between' || (condition.value2 ?? '').trim() !== '');
+}
+
+/**
+ * Number of active conditions, counting those in nested groups
+ */
+export function countActiveConditions(group: Pick<FilterGroup, 'conditions'>): number {
+  return group.conditions.reduce(
+    (count, node) => count + (isFilterGroup(node) ? countActiveConditions(node) : Number(isConditionActive(node))),
+    0
+  );
+}
+
+/**
+ * Value of a field, following dotted paths into nested objects
+ */
+function getFieldValue(item: object, field: string): unknown {
+  return field.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    item
+  );
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const RELATIVE_DATE_PATTERN = /^today\s*(?:([+-])\s*(\d+))?$/i;
+
+/**
+ * Date of a relative value ('today', 'today+3'); other values are returned unchanged.
+ */
+function resolveRelativeDate(value: string, today: string): string {
+  const match = RELATIVE_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return value.trim();
+  }
+  const days = match[2] ? Number(match[2]) * (match[1] === '-' ? -1 : 1) : 0;
+  return shiftDate(today, days);
+}
+
+/**
+ * Orders a field value against a condition value: numerically for numbers, by day for dates and
+ * case-insensitively for text. Null when they cannot be compared.
+ */
+function compareValues(fieldValue: unknown, target: string, today: string): number | null {
+  if (typeof fieldValue === 'number') {
+    const number = Number(target);
+    return target.trim() === '' || Number.isNaN(number) ? null : fieldValue - number;
+  }
+  if (typeof fieldValue === 'string' && DATE_PATTERN.test(fieldValue)) {
+    const date = resolveRelativeDate(target, today);
+    if (!DATE_PATTERN.test(date)) {
+      return null;
+    }
+    const day = fieldValue.slice(0, 10);
+    const targetDay = date.slice(0, 10);
+    return day === targetDay ? 0 : day < targetDay ? -1 : 1;
+  }
+  const text = String(fieldValue).toLowerCase();
+  const targetText = target.toLowerCase();
+  return text === targetText ? 0 : text < targetText ? -1 : 1;
+}
+
+function matchesRegex(text: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    // An invalid pattern matches nothing
+    return false;
+  }
+}
+
 /**
- * Evaluate a single filter condition against an item
+ * Compares one (non-array) field value
  */
-export function evaluateCondition(item: unknown, condition: FilterCondition): boolean {
+function matchesValue(fieldValue: unknown, condition: FilterCondition, today: string): boolean {
+  const operator = condition.operator ?? 'contains';
+  const text = String(fieldValue).toLowerCase();
+  const search = condition.value.toLowerCase();
+  const day = typeof fieldValue === 'string' && DATE_PATTERN.test(fieldValue) ? fieldValue.slice(0, 10) : null;
+
+  switch (operator) {
+    case 'contains':
+      return text.includes(search);
+    case 'not_contains':
+      return !text.includes(search);
+    case 'starts_with':
+      return text.startsWith(search);
+    case 'regex':
+      return matchesRegex(String(fieldValue), condition.value);
+    case 'equals':
+      return compareValues(fieldValue, condition.value, today) === 0;
+    case 'not_equals':
+      return compareValues(fieldValue, condition.value, today) !== 0;
+    case 'today':
+      return day === today;
+    case 'this_week': {
+      const weekStart = getWeekStart(today);
+      return day !== null && day >= weekStart && day <= shiftDate(weekStart, 6);
+    }
+    case 'overdue':
+      return day !== null && day < today;
+    case 'between': {
+      const fromStart = compareValues(fieldValue, condition.value, today);
+      const toEnd = compareValues(fieldValue, condition.value2 ?? '', today);
+      return fromStart !== null && toEnd !== null && fromStart >= 0 && toEnd <= 0;
+    }
+    default: {
+      const order = compareValues(fieldValue, condition.value, today);
+      if (order === null) {
+        return false;
+      }
+      return operator === 'gt' ? order > 0 : operator === 'gte' ? order >= 0 : operator === 'lt' ? order < 0 : order <= 0;
+    }
+  }
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Evaluate a single filter condition against an item. `today` (YYYY-MM-DD) anchors relative
+ * dates and defaults to the local date.
+ */
+export function evaluateCondition(item: unknown, condition: FilterCondition, today = toDateString(new Date())): boolean {
   // Type guard to ensure item is an object
   if (typeof item !== 'object' || item === null) {
     return false;
   }
+  if (!isConditionActive(condition)) {
+    return true;
+  }
 
-  const fieldValue = (item as Record<string, unknown>)[condition.field];
+  const operator = condition.operator ?? 'contains';
+  const fieldValue = getFieldValue(item, condition.field);
 
-  // Handle null/undefined field values
-  if (fieldValue === null || fieldValue === undefined) {
-    return condition.value === '';
+  if (operator === 'is_empty' || operator === 'is_not_empty') {
+    return isEmptyValue(fieldValue) === (operator === 'is_empty');
+  }
+  // Negative operators hold for fields without a value
+  const isNegative = operator === 'not_equals' || operator === 'not_contains';
+  if (isEmptyValue(fieldValue)) {
+    return isNegative;
   }
 
-  // Convert to string for comparison
-  const valueStr = String(fieldValue).toLowerCase();
-  const searchStr = condition.value.toLowerCase();
+  // Array fields (e.g. labels) match when any entry matches (none for negative operators), by name for objects
+  if (Array.isArray(fieldValue)) {
+    const entries = fieldValue.map((entry) =>
+      typeof entry === 'object' && entry !== null && 'name' in entry ? (entry as { name: unknown }).name : entry
+    );
+    if (isNegative) {
+      return entries.every((entry) => matchesValue(entry, condition, today));
+    }
+    return entries.some((entry) => matchesValue(entry, condition, today));
+  }
+
+  return matchesValue(fieldValue, condition, today);
+}
 
-  // Simple "contains" operator
-  return valueStr.includes(searchStr);
+function evaluateGroup(item: unknown, group: Pick<FilterGroup, 'logic' | 'conditions'>, today: string): boolean {
+  const nodes = group.conditions.filter((node) =>
+    isFilterGroup(node) ? countActiveConditions(node) > 0 : isConditionActive(node)
+  );
+  if (nodes.length === 0) {
+    return true;
+  }
+  const matches = (node: FilterNode) =>
+    isFilterGroup(node) ? evaluateGroup(item, node, today) : evaluateCondition(item, node, today);
+  return group.logic === 'AND' ? nodes.every(matches) : nodes.some(matches);
 }
 
 /**
  * Evaluate the entire filter state against an item
  */
-export function evaluateFilter(item: unknown, filter: FilterState): boolean {
+export function evaluateFilter(item: unknown, filter: FilterState, today = toDateString(new Date())): boolean {
   // If filter is disabled or has no conditions, include the item
   if (!filter.enabled || filter.conditions.length === 0) {
     return true;
   }
-
-  // Evaluate based on logic (AND/OR)
-  if (filter.logic === 'AND') {
-    // All conditions must match
-    return filter.conditions.every(condition => evaluateCondition(item, condition));
-  } else {
-    // At least one condition must match
-    return filter.conditions.some(condition => evaluateCondition(item, condition));
-  }
+  return evaluateGroup(item, filter, today);
 }
 
 /**
@@ -82,13 +286,19 @@ export function saveFilterState(key: string, state: FilterState): void {
 }
 
 /**
- * Load filter state from localStorage
+ * Load filter state from localStorage. States saved before operators and groups existed load
+ * as they are: their conditions use 'contains' and form a single group.
  */
 export function loadFilterState(key: string): FilterState | null {
   try {
     const saved = localStorage.getItem(key);
     if (saved) {
-      return JSON.parse(saved);
+      const state = JSON.parse(saved) as Partial<FilterState>;
+      return {
+        logic: state.logic === 'OR' ? 'OR' : 'AND',
+        conditions: Array.isArray(state.conditions) ? state.conditions : [],
+        enabled: state.enabled ?? true,
+      };
     }
   } catch (error) {
     console.error('Failed to load filter state:', error);
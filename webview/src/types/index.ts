@@ -1,6 +1,8 @@
 // Re-export shared types from extension
 // These types mirror the extension's models/types.ts
 
+import type { FilterState } from './filter';
+
 // Task Status - dynamic status supporting custom columns
 export type TaskStatus = string;
 
@@ -35,18 +37,36 @@ export interface Task {
   priority: Priority;
   dueDate: string | null;
   startDate: string | null;
-  assignee: string | null;
+  assignee: string | null; // names of the assigned members, comma-separated
   estimatedHours: number | null;
   progress: number;
   parentId: string | null;
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
+  assigneeIds?: string[]; // member IDs, primary assignee first
   labels?: Label[];
+  recurrenceRule?: string | null; // RRULE subset, see @shared/recurrence.ts
+  actualHours?: number; // sum of finished time entries
+  source?: TaskSource | null; // code comment the task was scanned from
+  customFields?: CustomFieldValues;
   subtasks?: Task[];
   dependencies?: Dependency[];
 }
 
+// Code comment (TODO, FIXME...) a task was created from by the workspace scanner
+export interface TaskSource {
+  id: string;
+  taskId: string;
+  workspaceFolder: string | null; // URI of the workspace folder
+  filePath: string; // relative to the workspace folder
+  line: number; // 1-based
+  tag: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Label {
   id: string;
   name: string;
@@ -63,6 +83,157 @@ export interface Dependency {
   createdAt: string;
 }
 
+// Change history (audit log) of a task
+export type TaskEventType =
+  | 'created'
+  | 'deleted'
+  | 'updated'
+  | 'labels_changed'
+  | 'dependency_added'
+  | 'dependency_updated'
+  | 'dependency_removed';
+
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  eventType: TaskEventType;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  author: string | null;
+  createdAt: string;
+}
+
+// Comment on a task (body is markdown)
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  body: string;
+  author: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Time worked on a task; endedAt is null while the timer is running
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  startedAt: string; // ISO 8601
+  endedAt: string | null;
+  note: string | null;
+  author: string | null;
+  createdAt: string;
+}
+
+// Team member tasks are assigned to
+export interface Member {
+  id: string;
+  name: string;
+  email: string | null;
+  color: string; // HEX avatar color
+  weeklyHours: number | null; // null = default capacity setting
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMemberDto {
+  name: string;
+  email?: string | null;
+  color?: string;
+  weeklyHours?: number | null;
+}
+
+export type UpdateMemberDto = Partial<CreateMemberDto>;
+
+// text, url and single-select hold a string, date a YYYY-MM-DD string, number a number,
+// multi-select the chosen options and checkbox a boolean
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'checkbox' | 'url';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'multi_select', 'checkbox', 'url'];
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Values of a task by custom field ID; unset fields are left out
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Field teams add to tasks, e.g. "Story points" or "Customer"
+export interface CustomField {
+  id: string;
+  projectId: string | null; // null = global
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // choices of select and multi-select fields
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCustomFieldDto {
+  name: string;
+  type: CustomFieldType;
+  projectId?: string | null;
+  options?: string[];
+}
+
+export interface UpdateCustomFieldDto {
+  name?: string;
+  options?: string[];
+}
+
+// What a saved view restores; each view type keeps the parts it has
+export interface SavedViewState {
+  filter?: FilterState;
+  columnFilters?: Record<string, FilterState>; // Kanban filters by column ID
+  sort?: { columnId: string; direction: 'asc' | 'desc' } | null;
+  grouping?: string; // Kanban swimlanes
+  columnWidths?: Record<string, number>;
+  customFieldColumns?: string[]; // IDs of the custom fields shown as Todo List columns
+  zoom?: string; // Gantt and Calendar view mode, Workload scale
+}
+
+// Named view shared through the database
+export interface SavedView {
+  id: string;
+  name: string;
+  viewType: ViewType;
+  projectId: string | null; // null = all projects
+  state: SavedViewState;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedViewDto {
+  name: string;
+  viewType: ViewType;
+  projectId?: string | null;
+  state: SavedViewState;
+}
+
+export interface UpdateSavedViewDto {
+  name?: string;
+  viewType?: ViewType;
+  projectId?: string | null;
+  state?: SavedViewState;
+}
+
+// Critical path analysis for a single task (dates as YYYY-MM-DD, floats in days)
+export interface TaskScheduleAnalysis {
+  taskId: string;
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number;
+  freeFloat: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  tasks: TaskScheduleAnalysis[];
+  criticalDependencyIds: string[];
+}
+
 export interface CreateTaskDto {
   projectId?: string;
   title: string;
@@ -74,8 +245,11 @@ export interface CreateTaskDto {
   assignee?: string | null;
   estimatedHours?: number | null;
   progress?: number;
-  parentId?: string;
+  parentId?: string | null;
   labelIds?: string[];
+  assigneeIds?: string[];
+  recurrenceRule?: string | null; // null removes the rule
+  customFields?: Record<string, CustomFieldValue | null>; // only the listed fields change; null clears
 }
 
 export interface UpdateTaskDto extends Partial<CreateTaskDto> {
@@ -83,7 +257,52 @@ export interface UpdateTaskDto extends Partial<CreateTaskDto> {
   sortOrder?: number;
 }
 
-export type ViewType = 'todo' | 'kanban' | 'gantt' | 'calendar';
+export interface CreateTimeEntryDto {
+  taskId: string;
+  startedAt: string;
+  endedAt: string;
+  note?: string | null;
+}
+
+export interface UpdateTimeEntryDto {
+  startedAt?: string;
+  endedAt?: string;
+  note?: string | null;
+}
+
+// Rejected dependency reported by the extension, with the offending task path
+export interface DependencyError {
+  code: 'DEPENDENCY_SELF_REFERENCE' | 'DEPENDENCY_CYCLE' | 'DEPENDENCY_HIERARCHY';
+  message: string;
+  path: { id: string; title: string }[];
+}
+
+export interface UpdateDependencyDto {
+  dependencyType?: DependencyType;
+  lagDays?: number; // negative values are leads
+}
+
+export type ViewType = 'todo' | 'kanban' | 'gantt' | 'calendar' | 'workload';
+
+// Workflow rule of a Kanban column, evaluated when a task enters the column
+export type ColumnRule =
+  | { type: 'setProgress'; progress: number }
+  | { type: 'stampStartDate' } // today, unless the task already has a start date
+  | { type: 'clearAssignee' }
+  | { type: 'addLabel'; labelId: string }
+  | { type: 'removeLabel'; labelId: string }
+  | { type: 'requireSubtasksDone' } // blocks entry while a subtask is not done
+  | { type: 'requirePredecessorsDone' }; // blocks entry while a predecessor is not done
+
+export type ColumnRuleType = ColumnRule['type'];
+
+// Kind of state a column stands for; completion, overdue and "show completed" logic go by it
+export type ColumnCategory = 'not_started' | 'active' | 'blocked' | 'completed' | 'cancelled';
+
+export const COLUMN_CATEGORIES: ColumnCategory[] = ['not_started', 'active', 'blocked', 'completed', 'cancelled'];
+
+// Tasks in these columns are finished: never overdue, and hidden unless completed tasks are shown
+export const FINISHED_CATEGORIES: ColumnCategory[] = ['completed', 'cancelled'];
 
 // KanbanColumn entity
 export interface KanbanColumn {
@@ -93,6 +312,9 @@ export interface KanbanColumn {
   color: string; // Tailwind color class (e.g., 'bg-blue-500')
   sortOrder: number;
   isDefault: boolean;
+  wipLimit: number | null; // maximum number of tasks, null = no limit
+  rules: ColumnRule[];
+  category: ColumnCategory;
   createdAt: string;
   updatedAt: string;
 }
@@ -101,12 +323,18 @@ export interface CreateKanbanColumnDto {
   projectId?: string | null; // null or undefined = global
   name: string;
   color: string;
+  wipLimit?: number | null;
+  rules?: ColumnRule[];
+  category?: ColumnCategory;
 }
 
 export interface UpdateKanbanColumnDto {
   name?: string;
   color?: string;
   sortOrder?: number;
+  wipLimit?: number | null;
+  rules?: ColumnRule[];
+  category?: ColumnCategory;
 }
 
 // Preset colors for kanban columns
@@ -137,6 +365,9 @@ export const TAILWIND_COLOR_TO_HEX: Record<string, string> = {
   'bg-gray-500': '#6b7280',
 };
 
+// Preset colors offered for labels (labels store HEX colors)
+export const LABEL_PRESET_COLORS = Object.values(TAILWIND_COLOR_TO_HEX);
+
 // Helper function to get hex color from Tailwind class
 export function getHexColor(tailwindClass: string): string {
   return TAILWIND_COLOR_TO_HEX[tailwindClass] || '#3b82f6'; // default to blue
@@ -149,6 +380,13 @@ export const PRIORITY_LABEL_KEYS: Record<Priority, string> = {
   4: 'priority.urgent',
 };
 
+export const DEPENDENCY_TYPE_KEYS: Record<DependencyType, string> = {
+  finish_to_start: 'dependency.finishToStart',
+  start_to_start: 'dependency.startToStart',
+  finish_to_finish: 'dependency.finishToFinish',
+  start_to_finish: 'dependency.startToFinish',
+};
+
 export const PRIORITY_COLORS: Record<Priority, string> = {
   1: 'text-blue-400',
   2: 'text-yellow-500',
@@ -164,11 +402,92 @@ export const STATUS_COLORS: Record<TaskStatus, string> = {
 };
 
 // Filter types and utilities
-export type { FilterCondition, FilterState } from './filter';
+export type { FilterOperator, FilterFieldType, FilterCondition, FilterGroup, FilterNode, FilterState } from './filter';
 export {
+  FILTER_OPERATORS,
   createEmptyFilterState,
+  isFilterGroup,
+  operatorNeedsValue,
+  isConditionActive,
+  countActiveConditions,
   evaluateCondition,
   evaluateFilter,
   saveFilterState,
   loadFilterState,
 } from './filter';
+
+// Task query language utilities
+export type {
+  TaskQueryField,
+  TaskQueryComparison,
+  TaskQueryTerm,
+  TaskQueryErrorCode,
+  TaskQueryError,
+  TaskQuery,
+  TaskQueryContext,
+} from '@shared/taskQuery';
+export { TASK_QUERY_NONE, parseTaskQuery, resolveQueryDate } from '@shared/taskQuery';
+export type { TaskSearchContext } from './taskSearch';
+export { taskQueryToFilter } from './taskSearch';
+
+// Subtask hierarchy utilities
+export type { TaskTreeRow } from './taskTree';
+export { flattenTaskTree, getSubtasks } from './taskTree';
+
+// Recurrence rule utilities
+export type { RecurrenceFrequency, RecurrenceWeekday, RecurrenceRule } from '@shared/recurrence';
+export {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getOccurrences,
+  shiftDate,
+  getDaysBetween,
+  toDateString,
+} from '@shared/recurrence';
+
+// Time tracking utilities
+export { getEntryHours, formatHours, formatActualVsEstimated, isOverEstimate } from './timeTracking';
+
+// Workload utilities
+export type { WorkloadScale, WorkloadBucket, WorkloadEntry, WorkloadCell, WorkloadRow } from './workload';
+export {
+  getWeekStart,
+  getWorkloadBuckets,
+  getTaskDailyHours,
+  buildWorkload,
+  getLoadRatio,
+  isOverAllocated,
+} from './workload';
+
+// Kanban status category, WIP limit, swimlane and column rule utilities
+export type { SwimlaneGrouping, Swimlane } from './kanban';
+export {
+  SWIMLANE_GROUPINGS,
+  getStatusCategory,
+  isTaskFinished,
+  getStatusForCategory,
+  isRequiredColumn,
+  isWipLimitReached,
+  isOverWipLimit,
+  getSwimlaneKey,
+  getTaskLaneValues,
+  getSwimlanes,
+  getLaneTasks,
+  getSwimlaneMoveUpdates,
+  COLUMN_RULE_TYPES,
+  createColumnRule,
+  isColumnRuleValid,
+} from './kanban';
+
+// Custom field utilities
+export {
+  CUSTOM_FIELD_PATH_PREFIX,
+  CUSTOM_FIELD_TYPE_LABEL_KEYS,
+  getCustomFieldPath,
+  parseCustomFieldPath,
+  getCustomFieldsForProject,
+  getCustomFieldsForTask,
+  fieldTypeHasOptions,
+  formatCustomFieldValue,
+} from './customField';
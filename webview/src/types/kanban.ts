@@ -0,0 +1,198 @@
+import { FINISHED_CATEGORIES } from './index';
+import type {
+  Task,
+  TaskStatus,
+  KanbanColumn,
+  ColumnRule,
+  ColumnRuleType,
+  ColumnCategory,
+  Priority,
+  Member,
+  Project,
+  Label,
+  UpdateTaskDto,
+} from './index';
+
+export type SwimlaneGrouping = 'none' | 'assignee' | 'priority' | 'project' | 'label';
+
+export const SWIMLANE_GROUPINGS: SwimlaneGrouping[] = ['none', 'assignee', 'priority', 'project', 'label'];
+
+// Horizontal band of the board; value is the member, priority, project or label it stands for
+export interface Swimlane {
+  key: string;
+  value: string | number | null; // null = tasks without one (unassigned, no label...)
+}
+
+const NO_VALUE_KEY = 'none';
+
+export const COLUMN_RULE_TYPES: ColumnRuleType[] = [
+  'setProgress',
+  'stampStartDate',
+  'clearAssignee',
+  'addLabel',
+  'removeLabel',
+  'requireSubtasksDone',
+  'requirePredecessorsDone',
+];
+
+// New rule of a type with default parameters; label rules start with the first label
+export function createColumnRule(type: ColumnRuleType, labels: Label[]): ColumnRule {
+  switch (type) {
+    case 'setProgress':
+      return { type, progress: 100 };
+    case 'addLabel':
+    case 'removeLabel':
+      return { type, labelId: labels[0]?.id ?? '' };
+    default:
+      return { type };
+  }
+}
+
+export function isColumnRuleValid(rule: ColumnRule, labels: Label[]): boolean {
+  switch (rule.type) {
+    case 'setProgress':
+      return Number.isInteger(rule.progress) && rule.progress >= 0 && rule.progress <= 100;
+    case 'addLabel':
+    case 'removeLabel':
+      return labels.some((label) => label.id === rule.labelId);
+    default:
+      return true;
+  }
+}
+
+// Category of the column a status stands for; statuses without a column count as active
+export function getStatusCategory(columns: KanbanColumn[], status: TaskStatus): ColumnCategory {
+  return columns.find((column) => column.id === status)?.category ?? 'active';
+}
+
+// Completed or cancelled: never overdue, and hidden unless completed tasks are shown
+export function isTaskFinished(task: Task, columns: KanbanColumn[]): boolean {
+  return FINISHED_CATEGORIES.includes(getStatusCategory(columns, task.status));
+}
+
+/**
+ * Status a task of the project gets when it is checked off ('completed') or reopened
+ * ('not_started'): the first column of that category on the project's board.
+ */
+export function getStatusForCategory(
+  columns: KanbanColumn[],
+  category: 'completed' | 'not_started',
+  projectId: string | null
+): TaskStatus {
+  const column = columns.find(
+    (c) => c.category === category && (c.projectId === null || c.projectId === projectId)
+  );
+  return column?.id ?? (category === 'completed' ? 'done' : 'todo');
+}
+
+/**
+ * True for the only global Not started or Completed column: tasks are moved there when they are
+ * reopened or checked off, so it can be neither deleted nor given another category.
+ */
+export function isRequiredColumn(column: KanbanColumn, columns: KanbanColumn[]): boolean {
+  if (column.projectId !== null || (column.category !== 'not_started' && column.category !== 'completed')) {
+    return false;
+  }
+  return columns.filter((c) => c.projectId === null && c.category === column.category).length <= 1;
+}
+
+// True when one more task would exceed the column's WIP limit
+export function isWipLimitReached(column: KanbanColumn, count: number): boolean {
+  return column.wipLimit !== null && count >= column.wipLimit;
+}
+
+export function isOverWipLimit(column: KanbanColumn, count: number): boolean {
+  return column.wipLimit !== null && count > column.wipLimit;
+}
+
+export function getSwimlaneKey(value: string | number | null): string {
+  return value === null ? NO_VALUE_KEY : String(value);
+}
+
+/**
+ * Values of the grouping field for a task. A task with several assignees or labels
+ * belongs to each of their lanes.
+ */
+export function getTaskLaneValues(task: Task, grouping: SwimlaneGrouping): (string | number | null)[] {
+  switch (grouping) {
+    case 'assignee':
+      return task.assigneeIds && task.assigneeIds.length > 0 ? task.assigneeIds : [null];
+    case 'priority':
+      return [task.priority];
+    case 'project':
+      return [task.projectId];
+    case 'label':
+      return task.labels && task.labels.length > 0 ? task.labels.map((label) => label.id) : [null];
+    default:
+      return [null];
+  }
+}
+
+/**
+ * Lanes of the board: every member, priority (urgent first), project or label, plus a lane
+ * for tasks without one. The project lane for tasks without a project only appears when needed.
+ */
+export function getSwimlanes(
+  grouping: SwimlaneGrouping,
+  tasks: Task[],
+  context: { members: Member[]; projects: Project[]; labels: Label[] }
+): Swimlane[] {
+  const lane = (value: string | number | null): Swimlane => ({ key: getSwimlaneKey(value), value });
+  switch (grouping) {
+    case 'assignee':
+      return [...context.members.map((member) => lane(member.id)), lane(null)];
+    case 'priority':
+      return ([4, 3, 2, 1] as Priority[]).map(lane);
+    case 'project': {
+      const projectIds = new Set(context.projects.map((project) => project.id));
+      const hasOrphans = tasks.some((task) => !task.projectId || !projectIds.has(task.projectId));
+      return [...context.projects.map((project) => lane(project.id)), ...(hasOrphans ? [lane(null)] : [])];
+    }
+    case 'label':
+      return [...context.labels.map((label) => lane(label.id)), lane(null)];
+    default:
+      return [lane(null)];
+  }
+}
+
+/**
+ * Tasks of a lane. Values without a lane (e.g. an unknown project) count as none.
+ */
+export function getLaneTasks(tasks: Task[], grouping: SwimlaneGrouping, swimlane: Swimlane, lanes: Swimlane[]): Task[] {
+  if (grouping === 'none') {return tasks;}
+  const laneValues = new Set(lanes.map((l) => l.value));
+  return tasks.filter((task) => {
+    const values = getTaskLaneValues(task, grouping).filter((value) => laneValues.has(value));
+    return (values.length > 0 ? values : [null]).includes(swimlane.value);
+  });
+}
+
+/**
+ * Task update for a drag from one lane to another: the grouping field takes the target lane's
+ * value. For assignees and labels only the one of the source lane is replaced, the others stay.
+ * Returns null when the move cannot change the field (e.g. into the lane without a project).
+ */
+export function getSwimlaneMoveUpdates(
+  task: Task,
+  grouping: SwimlaneGrouping,
+  from: string | number | null,
+  to: string | number | null
+): UpdateTaskDto | null {
+  if (from === to) {return null;}
+  switch (grouping) {
+    case 'assignee': {
+      const others = (task.assigneeIds ?? []).filter((id) => id !== from && id !== to);
+      return { assigneeIds: to === null ? others : [String(to), ...others] };
+    }
+    case 'priority':
+      return to === null ? null : { priority: to as Priority };
+    case 'project':
+      return to === null ? null : { projectId: String(to) };
+    case 'label': {
+      const others = (task.labels ?? []).map((label) => label.id).filter((id) => id !== from && id !== to);
+      return { labelIds: to === null ? others : [...others, String(to)] };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,112 @@
+import type { FilterCondition, FilterGroup, FilterNode, FilterOperator, FilterState } from './filter';
+import type { KanbanColumn, Member, Project } from './index';
+import { TASK_QUERY_NONE } from '@shared/taskQuery';
+import type { TaskQuery, TaskQueryComparison, TaskQueryTerm } from '@shared/taskQuery';
+
+// What the names in a query refer to
+export interface TaskSearchContext {
+  projects: Project[];
+  members: Member[];
+  kanbanColumns: KanbanColumn[];
+}
+
+const COMPARISON_OPERATORS: Record<TaskQueryComparison, FilterOperator> = {
+  '=': 'equals',
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+};
+
+// Operators matching the values a comparison does not; tasks without a value are added separately
+const NEGATED_OPERATORS: Record<TaskQueryComparison, FilterOperator> = {
+  '=': 'not_equals',
+  '<': 'gte',
+  '<=': 'gt',
+  '>': 'lte',
+  '>=': 'lt',
+};
+
+const DATE_FIELDS = { due: 'dueDate', start: 'startDate' } as const;
+
+/**
+ * Filter matching the tasks of a parsed query, evaluated like the filters of the views.
+ * Names of projects, members and columns are looked up in the context.
+ */
+export function taskQueryToFilter(query: TaskQuery, context: TaskSearchContext): FilterState {
+  let nextId = 0;
+  const condition = (field: string, operator: FilterOperator, value = ''): FilterCondition => ({
+    id: `search-${nextId++}`,
+    field,
+    operator,
+    value,
+  });
+  const group = (logic: FilterGroup['logic'], conditions: FilterNode[]): FilterGroup => ({
+    id: `search-${nextId++}`,
+    logic,
+    conditions,
+  });
+  // Every task has an ID, so this matches none
+  const noTask = () => condition('id', 'is_empty');
+  // One of the IDs, or none of them when negated; names that match nothing match no task
+  const anyOf = (field: string, ids: string[], negated: boolean): FilterNode => {
+    if (negated) {
+      return group('AND', ids.map((id) => condition(field, 'not_equals', id)));
+    }
+    return ids.length > 0 ? group('OR', ids.map((id) => condition(field, 'equals', id))) : noTask();
+  };
+  const isName = (name: string, value: string) => name.toLowerCase() === value.toLowerCase();
+
+  const toNode = (term: TaskQueryTerm): FilterNode => {
+    const { value, negated } = term;
+    const isNone = value === TASK_QUERY_NONE;
+    const emptyOperator: FilterOperator = negated ? 'is_not_empty' : 'is_empty';
+
+    switch (term.field) {
+      case 'text':
+        return negated
+          ? group('AND', [condition('title', 'not_contains', value), condition('description', 'not_contains', value)])
+          : group('OR', [condition('title', 'contains', value), condition('description', 'contains', value)]);
+      case 'project':
+        if (isNone) {
+          return condition('projectId', emptyOperator);
+        }
+        return anyOf(
+          'projectId',
+          context.projects.filter((p) => p.id === value || isName(p.name, value)).map((p) => p.id),
+          negated
+        );
+      case 'assignee':
+        if (isNone) {
+          return condition('assigneeIds', emptyOperator);
+        }
+        return anyOf('assigneeIds', context.members.filter((m) => isName(m.name, value)).map((m) => m.id), negated);
+      case 'label':
+        // Labels are compared by name
+        return isNone ? condition('labels', emptyOperator) : condition('labels', negated ? 'not_equals' : 'equals', value);
+      case 'status': {
+        const columnIds = context.kanbanColumns
+          .filter((c) => isName(c.name, value) || c.category === value.toLowerCase())
+          .map((c) => c.id);
+        return anyOf('status', [...new Set([value, ...columnIds])], negated);
+      }
+      case 'priority':
+        return condition('priority', (negated ? NEGATED_OPERATORS : COMPARISON_OPERATORS)[term.comparison], value);
+      case 'due':
+      case 'start': {
+        const field = DATE_FIELDS[term.field];
+        if (isNone) {
+          return condition(field, emptyOperator);
+        }
+        if (!negated) {
+          return condition(field, COMPARISON_OPERATORS[term.comparison], value);
+        }
+        const inverse = condition(field, NEGATED_OPERATORS[term.comparison], value);
+        // not_equals already holds for tasks without the date
+        return term.comparison === '=' ? inverse : group('OR', [inverse, condition(field, 'is_empty')]);
+      }
+    }
+  };
+
+  return { logic: 'AND', conditions: query.terms.map(toNode), enabled: true };
+}
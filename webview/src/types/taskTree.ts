@@ -0,0 +1,56 @@
+import type { Task } from './index';
+
+/**
+ * A task positioned in the subtask hierarchy
+ */
+export interface TaskTreeRow {
+  task: Task;
+  depth: number;
+  hasSubtasks: boolean; // among the given tasks
+}
+
+/**
+ * Orders tasks so that subtasks follow their parent, keeping the given order among siblings.
+ * Tasks whose parent is not in the list are shown at the top level, and subtasks of
+ * collapsed tasks are left out.
+ */
+export function flattenTaskTree(tasks: Task[], collapsedIds: Set<string> = new Set()): TaskTreeRow[] {
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const childrenByParent = new Map<string | null, Task[]>();
+  for (const task of tasks) {
+    const parentKey = task.parentId && taskIds.has(task.parentId) ? task.parentId : null;
+    childrenByParent.set(parentKey, [...(childrenByParent.get(parentKey) ?? []), task]);
+  }
+
+  const rows: TaskTreeRow[] = [];
+  const visited = new Set<string>();
+  const visit = (task: Task, depth: number, hidden: boolean) => {
+    if (visited.has(task.id)) {return;}
+    visited.add(task.id);
+    const children = childrenByParent.get(task.id) ?? [];
+    if (!hidden) {
+      rows.push({ task, depth, hasSubtasks: children.length > 0 });
+    }
+    for (const child of children) {
+      visit(child, depth + 1, hidden || collapsedIds.has(task.id));
+    }
+  };
+
+  for (const task of childrenByParent.get(null) ?? []) {
+    visit(task, 0, false);
+  }
+  // Tasks caught in a parent loop have no root; show them at the top level
+  for (const task of tasks) {
+    visit(task, 0, false);
+  }
+  return rows;
+}
+
+/**
+ * Direct subtasks of a task, in sort order
+ */
+export function getSubtasks(tasks: Task[], parentId: string): Task[] {
+  return tasks
+    .filter((task) => task.parentId === parentId)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
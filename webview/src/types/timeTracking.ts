@@ -0,0 +1,32 @@
+import type { Task, TimeEntry } from './index';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Hours of a time entry; a running entry counts up to now.
+ */
+export function getEntryHours(entry: TimeEntry, now: number = Date.now()): number {
+  const end = entry.endedAt ? Date.parse(entry.endedAt) : now;
+  return Math.max(0, (end - Date.parse(entry.startedAt)) / MS_PER_HOUR);
+}
+
+/**
+ * Hours for display, e.g. "1.5h"
+ */
+export function formatHours(hours: number): string {
+  return `${Number(hours.toFixed(1))}h`;
+}
+
+/**
+ * Logged vs. estimated hours of a task, e.g. "1.5h / 4h"; null when the task has neither.
+ */
+export function formatActualVsEstimated(task: Task): string | null {
+  const actual = task.actualHours ?? 0;
+  if (!actual && !task.estimatedHours) {return null;}
+  return task.estimatedHours ? `${formatHours(actual)} / ${formatHours(task.estimatedHours)}` : formatHours(actual);
+}
+
+// More hours logged than estimated
+export function isOverEstimate(task: Task): boolean {
+  return !!task.estimatedHours && (task.actualHours ?? 0) > task.estimatedHours;
+}
@@ -0,0 +1,142 @@
+import type { Task, Member, KanbanColumn } from './index';
+import { isTaskFinished } from './kanban';
+import { shiftDate, getDaysBetween } from '@shared/recurrence';
+
+export type WorkloadScale = 'day' | 'week';
+
+// Column of the workload grid (dates as YYYY-MM-DD, both inclusive)
+export interface WorkloadBucket {
+  start: string;
+  end: string;
+}
+
+export interface WorkloadEntry {
+  task: Task;
+  hours: number; // this member's share when the task has several assignees
+  isFirst: boolean; // first visible bucket of the task, where the view shows it
+}
+
+export interface WorkloadCell {
+  hours: number;
+  capacity: number;
+  entries: WorkloadEntry[];
+}
+
+export interface WorkloadRow {
+  member: Member | null; // null = unassigned
+  weeklyCapacity: number;
+  cells: WorkloadCell[];
+}
+
+const WORKING_DAYS_PER_WEEK = 5;
+
+function isWorkingDay(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Monday of the week containing the date.
+ */
+export function getWeekStart(date: string): string {
+  const weekday = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return shiftDate(date.slice(0, 10), -((weekday + 6) % 7));
+}
+
+export function getWorkloadBuckets(start: string, scale: WorkloadScale, count: number): WorkloadBucket[] {
+  const length = scale === 'day' ? 1 : 7;
+  return Array.from({ length: count }, (_, index) => {
+    const bucketStart = shiftDate(start, index * length);
+    return { start: bucketStart, end: shiftDate(bucketStart, length - 1) };
+  });
+}
+
+/**
+ * Estimated hours of a task per day, spread evenly over the working days between its
+ * start and due date (or over every day when the range has no working day).
+ * Tasks without an estimate or without dates have no load.
+ */
+export function getTaskDailyHours(task: Task): Map<string, number> {
+  const daily = new Map<string, number>();
+  const first = task.startDate ?? task.dueDate;
+  const last = task.dueDate ?? task.startDate;
+  if (!task.estimatedHours || !first || !last) {return daily;}
+
+  const [from, to] = getDaysBetween(first, last) >= 0 ? [first, last] : [last, first];
+  const days = Array.from({ length: getDaysBetween(from, to) + 1 }, (_, index) => shiftDate(from.slice(0, 10), index));
+  const workingDays = days.filter(isWorkingDay);
+  const loadDays = workingDays.length > 0 ? workingDays : days;
+
+  for (const day of loadDays) {
+    daily.set(day, task.estimatedHours / loadDays.length);
+  }
+  return daily;
+}
+
+function getBucketCapacity(bucket: WorkloadBucket, weeklyCapacity: number): number {
+  const days = getDaysBetween(bucket.start, bucket.end) + 1;
+  const workingDays = Array.from({ length: days }, (_, index) => shiftDate(bucket.start, index)).filter(isWorkingDay);
+  return (weeklyCapacity / WORKING_DAYS_PER_WEEK) * workingDays.length;
+}
+
+/**
+ * One row per member (plus one for the unassigned tasks) with the estimated hours of open
+ * tasks in each bucket. A task with several assignees counts for each of them in equal shares.
+ */
+export function buildWorkload(
+  tasks: Task[],
+  buckets: WorkloadBucket[],
+  members: Member[],
+  columns: KanbanColumn[],
+  defaultWeeklyCapacity: number
+): WorkloadRow[] {
+  const memberIds = new Set(members.map((member) => member.id));
+  const tasksByMember = new Map<string | null, { task: Task; share: number }[]>();
+  for (const task of tasks) {
+    if (isTaskFinished(task, columns)) {continue;}
+    const assigneeIds = (task.assigneeIds ?? []).filter((id) => memberIds.has(id));
+    const share = 1 / Math.max(assigneeIds.length, 1);
+    for (const memberId of assigneeIds.length > 0 ? assigneeIds : [null]) {
+      tasksByMember.set(memberId, [...(tasksByMember.get(memberId) ?? []), { task, share }]);
+    }
+  }
+
+  return [...members, null].map((member) => {
+    const weeklyCapacity = member?.weeklyHours ?? defaultWeeklyCapacity;
+    const cells: WorkloadCell[] = buckets.map((bucket) => ({
+      hours: 0,
+      // Unassigned work has nobody to be over-allocated
+      capacity: member ? getBucketCapacity(bucket, weeklyCapacity) : 0,
+      entries: [],
+    }));
+
+    for (const { task, share } of tasksByMember.get(member?.id ?? null) ?? []) {
+      const daily = getTaskDailyHours(task);
+      let isFirst = true;
+      buckets.forEach((bucket, index) => {
+        let hours = 0;
+        for (const [day, dayHours] of daily) {
+          if (day >= bucket.start && day <= bucket.end) {
+            hours += dayHours * share;
+          }
+        }
+        if (hours <= 0) {return;}
+        cells[index].hours += hours;
+        cells[index].entries.push({ task, hours, isFirst });
+        isFirst = false;
+      });
+    }
+
+    return { member, weeklyCapacity, cells };
+  });
+}
+
+// Ratio of planned hours to capacity; Infinity when there is work but no capacity
+export function getLoadRatio(cell: WorkloadCell): number {
+  if (cell.capacity > 0) {return cell.hours / cell.capacity;}
+  return cell.hours > 0 ? Infinity : 0;
+}
+
+export function isOverAllocated(cell: WorkloadCell): boolean {
+  return getLoadRatio(cell) > 1 + 1e-9;
+}
@@ -8,6 +8,13 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Modules shared with the extension
+      '@shared': path.resolve(__dirname, '../src/shared'),
+    },
+  },
+  server: {
+    fs: {
+      allow: ['.', '../src/shared'],
     },
   },
   build: {